@@ -0,0 +1,7 @@
+// Timeline format shared by the app and the render worker: the stored
+// types, the v1 -> v2 upgrade and the migration registry. Plain TypeScript
+// with no dependencies, so both builds can compile it.
+
+export * from "./types";
+export * from "./v2";
+export * from "./migrations";
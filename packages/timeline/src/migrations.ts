@@ -0,0 +1,92 @@
+import type { TimelineV1, TimelineV2 } from "./types";
+import { migrateV1ToV2 } from "./v2";
+
+// ============================================
+// Timeline Migrations
+// Stored timelines keep the version they were written at; readers upgrade
+// them on read. Each migration takes a timeline at the previous version to
+// its own. To change the format, add a migration here and bump
+// CURRENT_TIMELINE_VERSION - never rewrite an existing one, as timelines
+// written at every earlier version are still in the database.
+// ============================================
+
+export interface TimelineMigration {
+  version: number; // The version this migration produces
+  description: string;
+  up(timeline: Record<string, unknown>): Record<string, unknown>;
+}
+
+export class TimelineMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimelineMigrationError";
+  }
+}
+
+export const TIMELINE_MIGRATIONS: readonly TimelineMigration[] = [
+  {
+    version: 1,
+    description: "Unversioned timelines from before the v1 schema: add the version and an empty text overlay list",
+    up: (timeline) => ({
+      ...timeline,
+      version: 1,
+      textOverlays: timeline.textOverlays ?? [],
+    }),
+  },
+  {
+    version: 2,
+    description: "Scenes, overlays and audio settings become video and audio tracks",
+    up: (timeline) => migrateV1ToV2(timeline as unknown as TimelineV1) as unknown as Record<string, unknown>,
+  },
+];
+
+export const CURRENT_TIMELINE_VERSION = TIMELINE_MIGRATIONS[TIMELINE_MIGRATIONS.length - 1].version;
+
+/**
+ * Version a stored timeline was written at (0 for unversioned ones)
+ */
+export function timelineVersion(data: unknown): number {
+  const version = (data as { version?: unknown } | null)?.version;
+  return typeof version === "number" ? version : 0;
+}
+
+/**
+ * Run the migrations that take a stored timeline up to `toVersion`
+ * (the latest by default). Timelines already at or past it come back
+ * unchanged; ones newer than this code knows about are an error.
+ */
+export function upgradeTimeline(data: unknown, toVersion: number = CURRENT_TIMELINE_VERSION): unknown {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new TimelineMigrationError("Timeline is not an object");
+  }
+
+  const from = timelineVersion(data);
+  if (from > CURRENT_TIMELINE_VERSION) {
+    throw new TimelineMigrationError(
+      `Timeline version ${from} is newer than this code supports (${CURRENT_TIMELINE_VERSION})`
+    );
+  }
+
+  let timeline = data as Record<string, unknown>;
+  for (const migration of TIMELINE_MIGRATIONS) {
+    if (migration.version <= from || migration.version > toVersion) continue;
+    timeline = migration.up(timeline);
+  }
+  return timeline;
+}
+
+/**
+ * Bring a stored timeline up to date within its own format: unversioned
+ * timelines become v1, v1 stays v1 (the editor reads it as such). This is
+ * what readers that hand the timeline on unchanged in shape do on read.
+ */
+export function upgradeStoredTimeline(data: unknown): TimelineV1 | TimelineV2 {
+  return upgradeTimeline(data, Math.max(1, timelineVersion(data))) as TimelineV1 | TimelineV2;
+}
+
+/**
+ * Read a stored timeline_json of any version as v2
+ */
+export function toTimelineV2(data: unknown): TimelineV2 {
+  return upgradeTimeline(data, 2) as TimelineV2;
+}
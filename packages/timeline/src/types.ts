@@ -0,0 +1,304 @@
+// ============================================
+// Stored Timeline Types
+// The shape of projects.timeline_json as the app's builders and editors
+// write it and the render worker reads it. The app validates writes against
+// its zod schema (src/lib/timeline/v1.ts, v2.ts), which accepts all of this.
+// ============================================
+
+export type AspectRatio = "landscape" | "vertical" | "square";
+
+// Tempo analysis of a music track, times in seconds from the start of the file
+export interface MusicBeatGrid {
+  bpm: number;
+  beats: number[];
+  downbeats: number[]; // First beat of each bar
+  durationSec: number;
+}
+
+export type LoudnessPreset = "social" | "broadcast" | "off";
+
+// Gain keyframe: t in seconds from the element's start, gain multiplies its volume
+export interface GainKeyframe {
+  t: number;
+  gain: number;
+}
+
+export interface VolumeEnvelope {
+  fadeInSec: number;
+  fadeOutSec: number;
+  keyframes: GainKeyframe[];
+}
+
+export interface Ducking {
+  enabled: boolean;
+  thresholdDb: number;
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+}
+
+export type AnimationPreset = "none" | "subtle_zoom" | "pan_left" | "pan_right" | "punch_in";
+export type TextAnimation = "none" | "fade_in" | "slide_up" | "typewriter";
+
+export type AnimatableProperty = "x" | "y" | "scale" | "rotation" | "opacity";
+export type Easing = "linear" | "ease_in" | "ease_out" | "ease_in_out" | "hold";
+
+// t in seconds from the element's start; easing applies into the next keyframe
+export interface Keyframe {
+  t: number;
+  value: number;
+  easing: Easing;
+}
+
+export type KeyframeAnimation = Partial<Record<AnimatableProperty, Keyframe[]>>;
+
+// Text overlay type
+export interface TextOverlay {
+  id: string;
+  text: string;
+  x: number;
+  y: number;
+  startTime: number;
+  duration: number;
+  style: {
+    color: string;
+    fontSize: number;
+    fontFamily: string;
+    duration: number;
+  };
+  animation?: TextAnimation;
+  keyframes?: KeyframeAnimation; // Wins over the animation
+}
+
+// Caption timing from Deepgram; words drive the word-level caption styles
+export interface CaptionWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface CaptionSegment {
+  start: number;
+  end: number;
+  text: string;
+  words?: CaptionWord[];
+}
+
+export type CaptionStyle = "static" | "karaoke" | "pop-in" | "active-word";
+
+// Text effect from the effects library
+export interface TextEffect {
+  effectId: string;
+  atTimeSec: number;
+  durationSec: number;
+  header?: string;
+  body?: string;
+  topText?: string;
+  bottomText?: string;
+}
+
+export interface TimelineV1 {
+  version: number;
+  project: {
+    id: string;
+    title: string;
+    type: string;
+    aspectRatio: AspectRatio;
+    resolution: { width: number; height: number };
+    fps: number;
+  };
+  scenes: Scene[];
+  textOverlays?: TextOverlay[];
+  textEffects?: TextEffect[];
+  global: {
+    music: { assetId: string | null; audioUrl?: string | null; title?: string; volume: number; ducking?: Ducking; envelope?: VolumeEnvelope };
+    voiceover: { assetId: string | null; audioUrl?: string | null; volume: number; startOffset?: number; envelope?: VolumeEnvelope };
+    captions: { 
+      enabled: boolean; 
+      burnIn: boolean;
+      font?: string;
+      wordsPerBlock?: number;
+      startOffset?: number;
+      style?: CaptionStyle;
+      sidecar?: boolean;
+      softSubtitles?: boolean;
+      segments?: CaptionSegment[];
+    };
+    brand: {
+      logoAssetId: string | null;
+      logoPosition: string;
+      logoSize: number;
+      colors: { primary: string; text: string };
+      safeMargins?: { top: number; bottom: number; left: number; right: number };
+    };
+    export: {
+      codec: string;
+      bitrateMbps: number;
+      crf?: number;
+      audioKbps: number;
+      loudnessPreset?: LoudnessPreset;
+      preset?: string; // Encoder speed preset; set by the worker for drafts
+    };
+  };
+  soundEffects?: Array<{
+    id: string;
+    title: string;
+    audioUrl: string;
+    atTimeSec: number;
+    volume: number;
+    envelope?: VolumeEnvelope;
+  }>;
+  imageOverlays?: Array<{
+    id: string;
+    title: string;
+    imageUrl: string;
+    atTimeSec: number;
+    durationSec: number;
+    x: number;
+    y: number;
+    scale: number;
+    width: number | null;
+    height: number | null;
+    keyframes?: KeyframeAnimation;
+  }>;
+  rendering?: {
+    output: { url: string | null; thumbnailUrl: string | null; durationSec: number | null; sizeBytes: number | null };
+    voiceoverDurationSec?: number; // Store voiceover duration to prevent speech cutoff
+    totalDurationSec?: number;
+    introDurationSec?: number;
+    outroDurationSec?: number;
+    // Talking head specific
+    isTalkingHead?: boolean;
+    userAudioAssetIds?: string[]; // Asset IDs for user videos with audio
+  };
+  // Audio tracks for talking head videos
+  audioTracks?: Array<{
+    id: string;
+    assetId: string;
+    type: string;
+    startOffset: number;
+    volume: number;
+    envelope?: VolumeEnvelope;
+  }>;
+}
+
+// Point of interest inside a clip (0-1 from the top-left), kept in frame by cover crops
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+// Point of interest at a source time - a crop path is a list of these,
+// interpolated linearly
+export interface CropKeyframe extends FocalPoint {
+  t: number;
+}
+
+export interface Scene {
+  id: string;
+  assetId: string | null; // For user assets (media_assets table)
+  clipId?: string; // For b-roll clips (clips table)
+  clipUrl?: string; // Direct URL to video file (for b-roll)
+  isUserAsset?: boolean;
+  isTalkingHead?: boolean; // Scene shows user speaking
+  isBroll?: boolean; // Scene is B-roll footage
+  // Talking head: the stretch of the speaker's footage whose audio plays
+  // under the scene. Set on b-roll cutaways from transcript edits.
+  sourceAssetId?: string;
+  sourceAudioStart?: number;
+  sourceAudioEnd?: number;
+  kind: string;
+  inSec: number;
+  outSec: number;
+  durationSec: number;
+  cropMode: string;
+  focalPoint?: FocalPoint;
+  cropPath?: CropKeyframe[]; // Moving focal point; wins over focalPoint
+  overlays?: {
+    text?: string | null;
+    x?: number; // 0-100 percentage
+    y?: number; // 0-100 percentage
+    style?: {
+      color: string;
+      fontSize: number;
+      fontFamily: string;
+      duration: number;
+    };
+  };
+  transitionOut?: string | null;
+  transitionDuration?: number; // Duration of xfade transition in seconds
+  animation?: AnimationPreset; // A named keyframe template
+  keyframes?: KeyframeAnimation; // Wins over the animation preset
+}
+
+// ============================================
+// v2: tracks of clips placed at absolute times
+// ============================================
+
+export interface Transform {
+  x: number; // Clip center, 0-100 percentage
+  y: number;
+  scale: number;
+  rotation: number; // Degrees, clockwise
+  opacity: number; // 0-1
+}
+
+export interface VideoClip extends Scene {
+  startSec: number; // Absolute timeline time the clip appears
+  transform?: Transform;
+  title?: string | null;
+  width?: number | null;
+  height?: number | null;
+}
+
+export interface VideoTrack {
+  id: string;
+  kind: "video";
+  name?: string;
+  zIndex: number; // Lowest track is the base picture
+  hidden?: boolean;
+  clips: VideoClip[];
+}
+
+export type AudioTrackRole = "music" | "voiceover" | "dialogue" | "sfx";
+
+export interface AudioClip {
+  id: string;
+  assetId: string | null;
+  audioUrl?: string | null;
+  title?: string | null;
+  startSec: number;
+  inSec: number;
+  durationSec?: number | null; // null = play to end of source
+  volume: number;
+  loop: boolean;
+  envelope?: VolumeEnvelope; // Fades and gain keyframes, clip-relative
+  beatGrid?: MusicBeatGrid; // Looping music: filled in at render time (musicBeats.ts)
+}
+
+export interface AudioTrack {
+  id: string;
+  kind: "audio";
+  role: AudioTrackRole;
+  name?: string;
+  muted?: boolean;
+  ducking?: Ducking; // Music tracks: dip under voiceover/dialogue
+  clips: AudioClip[];
+}
+
+export interface TimelineV2 {
+  version: 2;
+  project: TimelineV1["project"];
+  tracks: {
+    video: VideoTrack[];
+    audio: AudioTrack[];
+  };
+  textOverlays?: TextOverlay[];
+  textEffects?: TextEffect[];
+  global: {
+    captions: TimelineV1["global"]["captions"];
+    brand: TimelineV1["global"]["brand"];
+    export: TimelineV1["global"]["export"];
+  };
+  rendering?: TimelineV1["rendering"];
+}
@@ -0,0 +1,192 @@
+import type { TimelineV1, TimelineV2, VideoTrack, AudioClip, AudioTrack } from "./types";
+
+// ============================================
+// v1 -> v2 upgrade
+// Registered as the migration to version 2 (see migrations.ts)
+// ============================================
+
+export const MAIN_TRACK_ID = "video-main";
+export const OVERLAY_TRACK_ID = "video-overlays";
+
+// Supported xfade transitions
+export const VALID_TRANSITIONS = new Set([
+  "fade", "fadeblack", "fadewhite", "wipeleft", "wiperight",
+  "wipeup", "wipedown", "slideleft", "slideright", "slideup",
+  "slidedown", "circlecrop", "circleopen", "circleclose",
+  "dissolve", "pixelize", "radial", "smoothleft", "smoothright",
+  "smoothup", "smoothdown",
+]);
+
+/**
+ * Seconds a clip overlaps the next one on a sequential track (xfade duration)
+ */
+export function transitionOverlapSec(clip: { transitionOut?: string | null; transitionDuration?: number }): number {
+  if (!clip.transitionOut || !VALID_TRANSITIONS.has(clip.transitionOut)) return 0;
+  return clip.transitionDuration || 0.5;
+}
+
+/**
+ * Place clips back to back, overlapping by each clip's outgoing transition
+ */
+export function layoutSequence<T extends { startSec: number; durationSec: number; transitionOut?: string | null; transitionDuration?: number }>(
+  clips: T[]
+): T[] {
+  let cursor = 0;
+  return clips.map((clip, i) => {
+    const placed = { ...clip, startSec: cursor };
+    cursor += clip.durationSec;
+    if (i < clips.length - 1) cursor -= transitionOverlapSec(clip);
+    cursor = Math.max(0, cursor);
+    return placed;
+  });
+}
+
+/**
+ * Upgrade a v1 timeline to v2 without losing information.
+ *
+ * - scenes become the main video track, laid out sequentially
+ * - imageOverlays become an overlay video track with transforms
+ * - music, voiceover, talking head audio and SFX become audio tracks
+ */
+export function migrateV1ToV2(timeline: TimelineV1): TimelineV2 {
+  const isTalkingHead = timeline.rendering?.isTalkingHead || false;
+  const mainClips = layoutSequence(timeline.scenes.map((scene) => ({ ...scene, startSec: 0 })));
+
+  const videoTracks: VideoTrack[] = [
+    { id: MAIN_TRACK_ID, kind: "video", name: "Main", zIndex: 0, clips: mainClips },
+  ];
+
+  if (timeline.imageOverlays && timeline.imageOverlays.length > 0) {
+    videoTracks.push({
+      id: OVERLAY_TRACK_ID,
+      kind: "video",
+      name: "Overlays",
+      zIndex: 1,
+      clips: timeline.imageOverlays.map((io) => ({
+        id: io.id,
+        assetId: null,
+        clipUrl: io.imageUrl,
+        kind: "image",
+        title: io.title,
+        startSec: io.atTimeSec,
+        inSec: 0,
+        outSec: io.durationSec,
+        durationSec: io.durationSec,
+        cropMode: "none",
+        transform: { x: io.x, y: io.y, scale: io.scale, rotation: 0, opacity: 1 },
+        width: io.width,
+        height: io.height,
+        keyframes: io.keyframes,
+      })),
+    });
+  }
+
+  const audioTracks: AudioTrack[] = [];
+  const { music, voiceover } = timeline.global;
+
+  if (music.assetId || music.audioUrl) {
+    audioTracks.push({
+      id: "audio-music",
+      kind: "audio",
+      role: "music",
+      name: "Music",
+      ducking: music.ducking,
+      clips: [{
+        id: music.assetId || "music",
+        assetId: music.assetId,
+        audioUrl: music.audioUrl ?? null,
+        title: music.title ?? null,
+        startSec: 0,
+        inSec: 0,
+        durationSec: null,
+        volume: music.volume,
+        loop: true,
+        envelope: music.envelope,
+      }],
+    });
+  }
+
+  if (isTalkingHead) {
+    // Talking head audio comes from the user's own footage
+    const dialogueClips: AudioClip[] = timeline.audioTracks && timeline.audioTracks.length > 0
+      ? timeline.audioTracks.map((track) => ({
+          id: track.id,
+          assetId: track.assetId,
+          startSec: track.startOffset || 0,
+          inSec: 0,
+          durationSec: null,
+          volume: track.volume ?? 1.0,
+          loop: false,
+          envelope: track.envelope,
+        }))
+      : mainClips
+          .filter((clip) => clip.sourceAssetId || (clip.isTalkingHead && (clip.assetId || clip.clipId)))
+          .map((clip) => ({
+            id: `dialogue-${clip.id}`,
+            // Cutaways play the speaker's audio under someone else's picture
+            assetId: clip.sourceAssetId || clip.assetId || clip.clipId || null,
+            startSec: clip.startSec,
+            inSec: clip.sourceAssetId ? clip.sourceAudioStart ?? 0 : clip.inSec,
+            durationSec: clip.durationSec,
+            volume: 1.0,
+            loop: false,
+          }));
+
+    if (dialogueClips.length > 0) {
+      audioTracks.push({ id: "audio-dialogue", kind: "audio", role: "dialogue", name: "Dialogue", clips: dialogueClips });
+    }
+  } else if (voiceover.assetId || voiceover.audioUrl) {
+    audioTracks.push({
+      id: "audio-voiceover",
+      kind: "audio",
+      role: "voiceover",
+      name: "Voiceover",
+      clips: [{
+        id: "voiceover",
+        assetId: voiceover.assetId,
+        audioUrl: voiceover.audioUrl ?? null,
+        startSec: voiceover.startOffset || 0,
+        inSec: 0,
+        durationSec: null,
+        volume: voiceover.volume,
+        loop: false,
+        envelope: voiceover.envelope,
+      }],
+    });
+  }
+
+  if (timeline.soundEffects && timeline.soundEffects.length > 0) {
+    audioTracks.push({
+      id: "audio-sfx",
+      kind: "audio",
+      role: "sfx",
+      name: "Sound Effects",
+      clips: timeline.soundEffects.map((sfx) => ({
+        id: sfx.id,
+        assetId: null,
+        audioUrl: sfx.audioUrl,
+        title: sfx.title,
+        startSec: sfx.atTimeSec,
+        inSec: 0,
+        durationSec: null,
+        volume: sfx.volume,
+        loop: false,
+        envelope: sfx.envelope,
+      })),
+    });
+  }
+
+  return {
+    version: 2,
+    project: timeline.project,
+    tracks: { video: videoTracks, audio: audioTracks },
+    textOverlays: timeline.textOverlays,
+    textEffects: timeline.textEffects,
+    global: {
+      captions: timeline.global.captions,
+      brand: timeline.global.brand,
+      export: timeline.global.export,
+    },
+    rendering: timeline.rendering,
+  };
+}
@@ -32,6 +32,7 @@ import {
 } from "@/components/ui/select";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import type { CaptionStyle } from "@/lib/timeline/v1";
 
 // Available transitions for user to choose
 const TRANSITIONS = [
@@ -133,6 +134,7 @@ export default function NewVideoPage() {
   const [musicTracks, setMusicTracks] = useState<Array<{ id: string; title: string; artist: string | null; duration_seconds: number; audio_url: string; genre: string | null }>>([]);
   const [selectedMusicId, setSelectedMusicId] = useState<string>("");
   const [musicVolume, setMusicVolume] = useState<"loud" | "medium" | "low" | "faint">("medium");
+  const [snapToBeats, setSnapToBeats] = useState<boolean>(false);
   
   // Quality settings
   const [videoQuality, setVideoQuality] = useState<"4k" | "1080p" | "720p">("1080p");
@@ -141,6 +143,7 @@ export default function NewVideoPage() {
   const [enableCaptions, setEnableCaptions] = useState<boolean>(false);
   const [captionWordsPerBlock, setCaptionWordsPerBlock] = useState<number>(3);
   const [captionFont, setCaptionFont] = useState<string>("Inter");
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>("static");
   
   // Step 4: Description
   const [description, setDescription] = useState("");
@@ -495,6 +498,7 @@ export default function NewVideoPage() {
           captionSegments: enableCaptions ? captionSegments : undefined, // Pass caption segments for burning in
           selectedMusicId: aiMode ? undefined : (selectedMusicId || undefined), // Let AI choose in AI mode
           musicVolume: aiMode ? undefined : (selectedMusicId ? volumeMap[musicVolume] : undefined),
+          snapToBeats: aiMode || selectedMusicId ? snapToBeats : undefined,
           aiMode, // Tell API this is AI mode
           resolution: qualityMap[videoQuality], // Pass resolution
           // Caption settings
@@ -502,6 +506,7 @@ export default function NewVideoPage() {
             enabled: true,
             wordsPerBlock: captionWordsPerBlock,
             font: captionFont,
+            style: captionStyle,
           } : { enabled: false },
         }),
       });
@@ -1484,6 +1489,27 @@ export default function NewVideoPage() {
                         </div>
                       </div>
                     )}
+
+                    {(aiMode || selectedMusicId) && (
+                      <div className="pt-3 border-t flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium">Cut to the Beat</p>
+                          <p className="text-xs text-muted-foreground">Move scene cuts onto the music&apos;s beats</p>
+                        </div>
+                        <button
+                          onClick={() => setSnapToBeats(!snapToBeats)}
+                          className={cn(
+                            "w-14 h-7 rounded-full transition-colors relative",
+                            snapToBeats ? "bg-primary" : "bg-muted"
+                          )}
+                        >
+                          <div className={cn(
+                            "w-6 h-6 bg-white rounded-full absolute top-0.5 transition-all shadow-sm",
+                            snapToBeats ? "left-[30px]" : "left-0.5"
+                          )} />
+                        </button>
+                      </div>
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -1652,6 +1678,23 @@ export default function NewVideoPage() {
                             </SelectContent>
                           </Select>
                         </div>
+                        <div className="space-y-2 col-span-2">
+                          <Label className="text-xs">Caption Style</Label>
+                          <Select
+                            value={captionStyle}
+                            onValueChange={(v) => setCaptionStyle(v as CaptionStyle)}
+                          >
+                            <SelectTrigger className="h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="static">Static</SelectItem>
+                              <SelectItem value="karaoke">Karaoke (word sweep)</SelectItem>
+                              <SelectItem value="pop-in">Pop-in (word by word)</SelectItem>
+                              <SelectItem value="active-word">Highlight active word</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
                     )}
                   </div>
@@ -1,16 +1,38 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { Loader2, AlertCircle, ArrowLeft, Play, Pause, Volume2, VolumeX, GripVertical, Film } from "lucide-react";
+import { Loader2, AlertCircle, ArrowLeft, Play, Pause, Volume2, VolumeX, GripVertical } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { toast } from "sonner";
 
 import { EditorTopBar } from "@/components/editor/EditorTopBar";
+import { EditorPreview } from "@/components/editor/EditorPreview";
 import { ClipLibraryModal } from "@/components/editor/ClipLibraryModal";
 import { TextOverlayModal, TextStyle } from "@/components/editor/TextOverlayModal";
 import { TrimModal } from "@/components/editor/TrimModal";
-import type { TransitionPreset, AnimationPreset } from "@/lib/timeline/v1";
+import { KeyframeLane, KeyframeLaneItem } from "@/components/editor/KeyframeLane";
+import { MergeConflictDialog } from "@/components/editor/MergeConflictDialog";
+import { TranscriptEditor } from "@/components/editor/TranscriptEditor";
+import { TimelineChecks } from "@/components/editor/TimelineChecks";
+import { AudioMixPanel } from "@/components/editor/AudioMixPanel";
+import {
+  AnimatableProperties,
+  DEFAULT_PROPERTY_VALUES,
+  hasKeyframes,
+  keyframeTimes,
+  sampleAnimation,
+  sceneKeyframes,
+} from "@/lib/timeline/v1";
+import type { TransitionPreset, AnimationPreset, KeyframeAnimation, TimelineV1 } from "@/lib/timeline/v1";
+import { toTimelineV2 } from "@/lib/timeline/v2";
+import { mergeTimelines, type MergeChoice, type MergeConflict } from "@/lib/timeline/merge";
+import type { StoredTimelineV1 } from "@/lib/timeline/stored";
+import { isTalkingHeadTimeline } from "@/lib/timeline/transcript";
+import { lintTimeline, applyLintFixV1, type LintIssue } from "@/lib/timeline/lint";
+import type { PreflightReport } from "@/lib/preflight";
+import { emptyHistory, recordEdit, undoStep, redoStep, type UndoHistory } from "@/lib/state/history";
 
 // Types
 export interface TextOverlay {
@@ -21,6 +43,7 @@ export interface TextOverlay {
   startTime: number; // seconds from video start
   duration: number; // seconds to show (0 = whole video)
   style: TextStyle;
+  keyframes?: KeyframeAnimation; // x, y, scale, opacity; times from startTime
 }
 
 export interface TimelineScene {
@@ -38,6 +61,7 @@ export interface TimelineScene {
   transitionOut?: string | null;
   transitionDuration?: number;
   animation?: AnimationPreset;
+  keyframes?: KeyframeAnimation; // Wins over the animation preset
 }
 
 export interface TimelineData {
@@ -68,6 +92,20 @@ export interface SelectedItem {
   textIndex?: number;
 }
 
+/**
+ * The same selection in another version of the timeline, found by id;
+ * null when undo/redo removed what it points at
+ */
+function reselect(item: SelectedItem | null, timeline: TimelineData): SelectedItem | null {
+  if (!item) return null;
+  if (item.type === "text") {
+    const textIndex = timeline.textOverlays?.findIndex((t) => t.id === item.id) ?? -1;
+    return textIndex >= 0 ? { ...item, textIndex } : null;
+  }
+  const sceneIndex = timeline.scenes.findIndex((s) => s.id === item.id);
+  return sceneIndex >= 0 ? { ...item, sceneIndex } : null;
+}
+
 export default function EditorPage() {
   const params = useParams();
   const router = useRouter();
@@ -78,7 +116,19 @@ export default function EditorPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
-  const [voiceoverUrl, setVoiceoverUrl] = useState<string | null>(null);
+
+  // Concurrency: the revision and timeline this editor last saw on the
+  // server. Saves go one at a time and say which revision they build on.
+  const revisionRef = useRef<number | null>(null);
+  const serverTimelineRef = useRef<TimelineData | null>(null);
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const pendingMerge = useRef<{ base: TimelineData; local: TimelineData; remote: TimelineData } | null>(null);
+  const [mergeConflicts, setMergeConflicts] = useState<MergeConflict[]>([]);
+
+  // History, newest step last in both stacks
+  const [history, setHistory] = useState<UndoHistory<TimelineData>>(emptyHistory);
+  const dragOriginRef = useRef<TimelineData | null>(null); // Timeline before a text drag
+  const audioMixOriginRef = useRef<TimelineData | null>(null); // Timeline when the audio mix opened
 
   // Selection state
   const [selectedItem, setSelectedItem] = useState<SelectedItem | null>(null);
@@ -87,6 +137,9 @@ export default function EditorPage() {
   const [showClipLibrary, setShowClipLibrary] = useState(false);
   const [showTextOverlay, setShowTextOverlay] = useState(false);
   const [showTrimModal, setShowTrimModal] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [showChecks, setShowChecks] = useState(false);
+  const [showAudioMix, setShowAudioMix] = useState(false);
   const [editingTextIndex, setEditingTextIndex] = useState<number | null>(null);
 
   // Playback state
@@ -101,14 +154,8 @@ export default function EditorPage() {
   const [isResizingText, setIsResizingText] = useState<number | null>(null);
   
   // Refs
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const playIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
   
-  // Buffering state
-  const [isBuffering, setIsBuffering] = useState(false);
-  
   // Project status
   const [projectStatus, setProjectStatus] = useState<string>("draft");
 
@@ -121,17 +168,6 @@ export default function EditorPage() {
     return [...acc, acc[i - 1] + timeline.scenes[i - 1].durationSec];
   }, []) || [];
 
-  // Get current scene index based on playhead position
-  const getCurrentSceneIndex = useCallback(() => {
-    for (let i = sceneStartTimes.length - 1; i >= 0; i--) {
-      if (currentTime >= sceneStartTimes[i]) return i;
-    }
-    return 0;
-  }, [currentTime, sceneStartTimes]);
-
-  const currentSceneIndex = getCurrentSceneIndex();
-  const currentScene = timeline?.scenes[currentSceneIndex];
-
   // Fetch project timeline
   useEffect(() => {
     fetchProject();
@@ -157,12 +193,9 @@ export default function EditorPage() {
         const tl = data.project.timeline_json;
         // Ensure textOverlays exists
         if (!tl.textOverlays) tl.textOverlays = [];
+        revisionRef.current = data.project.revision ?? null;
+        serverTimelineRef.current = tl;
         setTimeline(tl);
-        
-        // Fetch voiceover URL if exists
-        if (tl.global?.voiceover?.assetId) {
-          fetchVoiceoverUrl(tl.global.voiceover.assetId);
-        }
       } else {
         setError("Project has no timeline");
       }
@@ -173,94 +206,142 @@ export default function EditorPage() {
     }
   };
 
-  const fetchVoiceoverUrl = async (assetId: string) => {
-    try {
-      const res = await fetch(`/api/assets/${assetId}`);
-      if (res.ok) {
-        const data = await res.json();
-        setVoiceoverUrl(data.asset?.public_url || null);
-      }
-    } catch (err) {
-      console.error("Failed to fetch voiceover:", err);
-    }
-  };
+  // The editor holds the stored (v1) timeline; the preview draws it as v2
+  const previewTimeline = useMemo(
+    () => (timeline ? toTimelineV2(timeline as unknown as TimelineV1) : null),
+    [timeline]
+  );
 
-  // Playback controls
-  useEffect(() => {
-    if (isPlaying && !isDraggingPlayhead) {
-      playIntervalRef.current = setInterval(() => {
-        setCurrentTime(t => {
-          const next = t + 0.1;
-          if (next >= totalDuration) {
-            setIsPlaying(false);
-            return 0;
-          }
-          return next;
-        });
-      }, 100);
-    } else {
-      if (playIntervalRef.current) {
-        clearInterval(playIntervalRef.current);
-        playIntervalRef.current = null;
+  const lintIssues = useMemo(
+    () => (timeline ? lintTimeline(timeline as unknown as TimelineV1) : []),
+    [timeline]
+  );
+
+  // Save against the revision last seen. When the project was saved
+  // elsewhere in the meantime, merge with that copy: clean merges are saved
+  // straight away, overlapping edits go to the merge dialog.
+  const putTimeline = useCallback(async (newTimeline: TimelineData): Promise<void> => {
+    let body = newTimeline;
+    for (;;) {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...(revisionRef.current !== null && { "If-Match": `"${revisionRef.current}"` }),
+        },
+        body: JSON.stringify({ timeline_json: body }),
+      });
+      const data = await res.json().catch(() => null);
+
+      if (res.status === 409 && data?.project) {
+        const remote = data.project.timeline_json as TimelineData;
+        const base = serverTimelineRef.current ?? remote;
+        revisionRef.current = data.project.revision;
+        serverTimelineRef.current = remote;
+
+        const { merged, conflicts } = mergeTimelines(base, body, remote);
+        if (conflicts.length > 0) {
+          pendingMerge.current = { base, local: body, remote };
+          setTimeline(merged);
+          setMergeConflicts(conflicts);
+          return;
+        }
+        toast.info("Merged with changes made elsewhere");
+        body = merged;
+        continue;
       }
+
+      if (!res.ok) throw new Error("Failed to save");
+      revisionRef.current = data?.project?.revision ?? null;
+      serverTimelineRef.current = body;
+      setTimeline(body);
+      return;
     }
-    return () => {
-      if (playIntervalRef.current) {
-        clearInterval(playIntervalRef.current);
+  }, [projectId]);
+
+  // Save timeline
+  const saveTimeline = useCallback((newTimeline: TimelineData) => {
+    const run = async () => {
+      setIsSaving(true);
+      try {
+        await putTimeline(newTimeline);
+      } catch {
+        // Silent fail - user will see if changes didn't save
+      } finally {
+        setIsSaving(false);
       }
     };
-  }, [isPlaying, totalDuration, isDraggingPlayhead]);
-
-  // Sync video to current time
-  useEffect(() => {
-    if (!videoRef.current || !currentScene) return;
-    
-    const sceneStart = sceneStartTimes[currentSceneIndex] || 0;
-    const timeInScene = currentTime - sceneStart;
-    const videoTime = currentScene.inSec + timeInScene;
-    
-    if (Math.abs(videoRef.current.currentTime - videoTime) > 0.5) {
-      videoRef.current.currentTime = videoTime;
-    }
-    
-    if (isPlaying && videoRef.current.paused) {
-      videoRef.current.play().catch(() => {});
-    } else if (!isPlaying && !videoRef.current.paused) {
-      videoRef.current.pause();
-    }
-  }, [currentTime, currentScene, currentSceneIndex, sceneStartTimes, isPlaying]);
+    saveQueue.current = saveQueue.current.then(run);
+    return saveQueue.current;
+  }, [putTimeline]);
+
+  // Save an edit as an undo step on top of `before`. The key names the
+  // action and what it targets (see recordEdit).
+  const commitTimeline = useCallback(
+    (newTimeline: TimelineData, key: string, before: TimelineData | null = timeline) => {
+      const now = Date.now();
+      setHistory((h) => recordEdit(h, before, key, now));
+      return saveTimeline(newTimeline);
+    },
+    [timeline, saveTimeline]
+  );
 
-  // Sync audio to current time
+  // Undo and redo show the step straight away, then save it like any edit
+  const restoreStep = useCallback((step: TimelineData) => {
+    setTimeline(step);
+    setSelectedItem((item) => reselect(item, step));
+    saveTimeline(step);
+  }, [saveTimeline]);
+
+  const handleUndo = useCallback(() => {
+    const result = timeline && undoStep(history, timeline);
+    if (!result) return;
+    setHistory(result.history);
+    restoreStep(result.step);
+  }, [timeline, history, restoreStep]);
+
+  const handleRedo = useCallback(() => {
+    const result = timeline && redoStep(history, timeline);
+    if (!result) return;
+    setHistory(result.history);
+    restoreStep(result.step);
+  }, [timeline, history, restoreStep]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes - except while
+  // typing, where the field's own undo applies
   useEffect(() => {
-    if (!audioRef.current || !voiceoverUrl) return;
-    
-    if (Math.abs(audioRef.current.currentTime - currentTime) > 0.5) {
-      audioRef.current.currentTime = currentTime;
-    }
-    
-    if (isPlaying && audioRef.current.paused) {
-      audioRef.current.play().catch(() => {});
-    } else if (!isPlaying && !audioRef.current.paused) {
-      audioRef.current.pause();
-    }
-  }, [currentTime, isPlaying, voiceoverUrl]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleResolveMerge = (choices: Record<string, MergeChoice>) => {
+    const pending = pendingMerge.current;
+    pendingMerge.current = null;
+    setMergeConflicts([]);
+    if (!pending) return;
+    saveTimeline(mergeTimelines(pending.base, pending.local, pending.remote, choices).merged);
+  };
 
-  // Save timeline
-  const saveTimeline = async (newTimeline: TimelineData) => {
-    setIsSaving(true);
-    try {
-      const res = await fetch(`/api/projects/${projectId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ timeline_json: newTimeline }),
-      });
-      if (!res.ok) throw new Error("Failed to save");
-      setTimeline(newTimeline);
-    } catch {
-      // Silent fail - user will see if changes didn't save
-    } finally {
-      setIsSaving(false);
-    }
+  // The merged timeline (keeping this editor's side of each conflict) stays
+  // on screen and goes out with the next save
+  const handleCancelMerge = () => {
+    pendingMerge.current = null;
+    setMergeConflicts([]);
   };
 
   // Selection handlers
@@ -344,14 +425,17 @@ export default function EditorPage() {
     if (isDraggingPlayhead) {
       setIsDraggingPlayhead(false);
     }
-    if ((isDraggingText !== null || isResizingText !== null) && timeline) {
-      // Save the timeline after drag ends
-      saveTimeline(timeline);
+    const draggedIndex = isDraggingText ?? isResizingText;
+    if (draggedIndex !== null && timeline) {
+      // Save the timeline after drag ends, as one step
+      const textId = timeline.textOverlays?.[draggedIndex]?.id;
+      commitTimeline(timeline, `dragText:${textId}`, dragOriginRef.current);
     }
+    dragOriginRef.current = null;
     setIsDraggingText(null);
     setIsResizingText(null);
     setTextDragStart(null);
-  }, [isDraggingPlayhead, isDraggingText, isResizingText, timeline]);
+  }, [isDraggingPlayhead, isDraggingText, isResizingText, timeline, commitTimeline]);
 
   const handleTextDragStart = useCallback((e: React.MouseEvent, index: number) => {
     e.preventDefault();
@@ -359,6 +443,7 @@ export default function EditorPage() {
     if (!timeline?.textOverlays) return;
     
     const text = timeline.textOverlays[index];
+    dragOriginRef.current = timeline;
     setIsDraggingText(index);
     setTextDragStart({ startTime: text.startTime, duration: text.duration, x: e.clientX });
   }, [timeline]);
@@ -369,6 +454,7 @@ export default function EditorPage() {
     if (!timeline?.textOverlays) return;
     
     const text = timeline.textOverlays[index];
+    dragOriginRef.current = timeline;
     setIsResizingText(index);
     setTextDragStart({ startTime: text.startTime, duration: text.duration, x: e.clientX });
   }, [timeline]);
@@ -391,9 +477,9 @@ export default function EditorPage() {
       isUserAsset: false,
     };
     
-    saveTimeline({ ...timeline, scenes: newScenes });
+    commitTimeline({ ...timeline, scenes: newScenes }, `changeClip:${selectedItem.id}`);
     setShowClipLibrary(false);
-  }, [timeline, selectedItem]);
+  }, [timeline, selectedItem, commitTimeline]);
 
   const handleTrimScene = useCallback(() => {
     if (!selectedItem || selectedItem.type !== "scene") return;
@@ -411,9 +497,16 @@ export default function EditorPage() {
       outSec,
     };
     
-    saveTimeline({ ...timeline, scenes: newScenes });
+    commitTimeline({ ...timeline, scenes: newScenes }, `trim:${selectedItem.id}`);
     setShowTrimModal(false);
-  }, [timeline, selectedItem]);
+  }, [timeline, selectedItem, commitTimeline]);
+
+  // The transcript rebuilds every scene, so nothing stays selected
+  const handleTranscriptApply = useCallback((newTimeline: StoredTimelineV1) => {
+    commitTimeline(newTimeline as unknown as TimelineData, "transcript");
+    setSelectedItem(null);
+    setShowTranscript(false);
+  }, [commitTimeline]);
 
   const handleAddText = useCallback(() => {
     setEditingTextIndex(null);
@@ -457,10 +550,10 @@ export default function EditorPage() {
       });
     }
     
-    saveTimeline({ ...timeline, textOverlays });
+    commitTimeline({ ...timeline, textOverlays }, `text:${editingTextIndex ?? textOverlays.length}`);
     setShowTextOverlay(false);
     setEditingTextIndex(null);
-  }, [timeline, editingTextIndex, currentTime]);
+  }, [timeline, editingTextIndex, currentTime, commitTimeline]);
 
   const handleDeleteScene = useCallback(() => {
     if (!timeline || !selectedItem || selectedItem.sceneIndex === undefined) return;
@@ -470,18 +563,18 @@ export default function EditorPage() {
     }
     
     const newScenes = timeline.scenes.filter((_, i) => i !== selectedItem.sceneIndex);
-    saveTimeline({ ...timeline, scenes: newScenes });
+    commitTimeline({ ...timeline, scenes: newScenes }, `deleteScene:${selectedItem.id}`);
     setSelectedItem(null);
-  }, [timeline, selectedItem]);
+  }, [timeline, selectedItem, commitTimeline]);
 
   const handleDeleteText = useCallback(() => {
     if (!timeline || !selectedItem || selectedItem.textIndex === undefined) return;
     
     const textOverlays = [...(timeline.textOverlays || [])];
     textOverlays.splice(selectedItem.textIndex, 1);
-    saveTimeline({ ...timeline, textOverlays });
+    commitTimeline({ ...timeline, textOverlays }, `deleteText:${selectedItem.id}`);
     setSelectedItem(null);
-  }, [timeline, selectedItem]);
+  }, [timeline, selectedItem, commitTimeline]);
 
   const handleChangeTransition = useCallback((transition: TransitionPreset | null) => {
     if (!timeline || !selectedItem || selectedItem.sceneIndex === undefined) return;
@@ -494,8 +587,8 @@ export default function EditorPage() {
       transitionOut: transition === "cut" ? null : transition,
     };
     
-    saveTimeline({ ...timeline, scenes: newScenes });
-  }, [timeline, selectedItem]);
+    commitTimeline({ ...timeline, scenes: newScenes }, `transition:${selectedItem.id}`);
+  }, [timeline, selectedItem, commitTimeline]);
 
   const handleChangeAnimation = useCallback((animation: AnimationPreset) => {
     if (!timeline || !selectedItem || selectedItem.sceneIndex === undefined) return;
@@ -504,10 +597,26 @@ export default function EditorPage() {
     newScenes[selectedItem.sceneIndex] = {
       ...newScenes[selectedItem.sceneIndex],
       animation,
+      // Picking a preset starts over from its template
+      keyframes: undefined,
     };
     
-    saveTimeline({ ...timeline, scenes: newScenes });
-  }, [timeline, selectedItem]);
+    commitTimeline({ ...timeline, scenes: newScenes }, `animation:${selectedItem.id}`);
+  }, [timeline, selectedItem, commitTimeline]);
+
+  const handleChangeKeyframes = (keyframes: KeyframeAnimation) => {
+    if (!timeline || !selectedItem) return;
+
+    if (selectedItem.type === "scene" && selectedItem.sceneIndex !== undefined) {
+      const newScenes = [...timeline.scenes];
+      newScenes[selectedItem.sceneIndex] = { ...newScenes[selectedItem.sceneIndex], keyframes };
+      commitTimeline({ ...timeline, scenes: newScenes }, `keyframes:${selectedItem.id}`);
+    } else if (selectedItem.type === "text" && selectedItem.textIndex !== undefined) {
+      const textOverlays = [...(timeline.textOverlays || [])];
+      textOverlays[selectedItem.textIndex] = { ...textOverlays[selectedItem.textIndex], keyframes };
+      commitTimeline({ ...timeline, textOverlays }, `keyframes:${selectedItem.id}`);
+    }
+  };
 
   const handleDuplicateScene = useCallback(() => {
     if (!timeline || !selectedItem || selectedItem.sceneIndex === undefined) return;
@@ -521,26 +630,91 @@ export default function EditorPage() {
     const newScenes = [...timeline.scenes];
     newScenes.splice(selectedItem.sceneIndex + 1, 0, duplicatedScene);
     
-    saveTimeline({ ...timeline, scenes: newScenes });
+    commitTimeline({ ...timeline, scenes: newScenes }, `duplicate:${duplicatedScene.id}`);
     toast.success("Scene duplicated");
-  }, [timeline, selectedItem]);
+  }, [timeline, selectedItem, commitTimeline]);
+
+  // Jump to where a check found a problem and select what it's about
+  const handleSelectLintIssue = (issue: LintIssue) => {
+    if (!timeline) return;
+    if (issue.timeSec !== null) handleSeek(issue.timeSec);
+    if (issue.target.type === "videoClip") {
+      const sceneIndex = timeline.scenes.findIndex((s) => s.id === issue.target.id);
+      if (sceneIndex >= 0) handleSelectScene(sceneIndex);
+    } else if (issue.target.type === "textOverlay") {
+      const textIndex = timeline.textOverlays?.findIndex((t) => t.id === issue.target.id) ?? -1;
+      if (textIndex >= 0) handleSelectText(textIndex);
+    }
+    setShowChecks(false);
+  };
+
+  const handleFixLintIssue = (issue: LintIssue) => {
+    if (!timeline) return;
+    const fixed = applyLintFixV1(timeline as unknown as TimelineV1, issue);
+    commitTimeline(fixed as unknown as TimelineData, `lintFix:${issue.rule}:${issue.target.id}`);
+  };
+
+  // Audio mix edits show straight away and are saved, as one step, when
+  // the panel closes
+  const handleAudioMixOpenChange = (open: boolean) => {
+    const origin = audioMixOriginRef.current;
+    audioMixOriginRef.current = open ? timeline : null;
+    if (!open && timeline && origin && timeline !== origin) {
+      commitTimeline(timeline, "audioMix", origin);
+    }
+    setShowAudioMix(open);
+  };
 
   const [isRendering, setIsRendering] = useState(false);
 
-  const handleRender = async () => {
+  const checkMedia = async (): Promise<PreflightReport | null> => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/preflight`, { method: "POST" });
+      return res.ok ? await res.json() : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // ignoreLint renders despite timeline lint errors, after the user confirms
+  const handleRender = async (ignoreLint = false) => {
     setIsRendering(true);
     try {
       // Save timeline first if there are unsaved changes
       if (timeline) {
         await saveTimeline(timeline);
       }
+
+      // Check the media before spending a credit. If the check itself can't
+      // run, render anyway: the worker repeats it before encoding.
+      const report = await checkMedia();
+      if (report && !report.ok) {
+        const errors = report.problems.filter((p) => p.severity === "error");
+        toast.error(`Fix these before rendering:\n${errors.map((p) => p.message).join("\n")}`);
+        setIsRendering(false);
+        return;
+      }
+      const warnings = report?.problems.filter((p) => p.severity === "warning") ?? [];
+      if (warnings.length > 0) {
+        toast.warning(warnings.map((p) => p.message).join("\n"));
+      }
       
       const res = await fetch(`/api/projects/${projectId}/render`, {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(ignoreLint ? { ignoreLint: true } : {}),
       });
       
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 422 && data.lint) {
+          toast.error(data.error, {
+            duration: 10000,
+            action: { label: "Render anyway", onClick: () => handleRender(true) },
+          });
+          setIsRendering(false);
+          return;
+        }
         throw new Error(data.error || "Failed to start render");
       }
       
@@ -559,20 +733,50 @@ export default function EditorPage() {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
-  // Get video source URL
-  const getVideoSrc = (scene: TimelineScene | undefined) => {
-    if (!scene?.clipUrl) return null;
-    if (scene.clipUrl.includes("drive.google.com") || scene.clipUrl.includes("googleusercontent")) {
-      return `/api/proxy/video?url=${encodeURIComponent(scene.clipUrl)}`;
-    }
-    return scene.clipUrl;
-  };
-
   // Get selected scene
   const selectedScene = selectedItem?.type === "scene" && selectedItem.sceneIndex !== undefined
     ? timeline?.scenes[selectedItem.sceneIndex]
     : null;
 
+  // Keyframes of the selected scene or text overlay, for the keyframe lane
+  const keyframeItem = ((): KeyframeLaneItem | null => {
+    if (!timeline || !selectedItem) return null;
+    if (selectedItem.type === "scene" && selectedScene && selectedItem.sceneIndex !== undefined) {
+      return {
+        startSec: sceneStartTimes[selectedItem.sceneIndex] || 0,
+        durationSec: selectedScene.durationSec,
+        keyframes: sceneKeyframes(selectedScene),
+        isTemplate: !hasKeyframes(selectedScene.keyframes),
+        properties: [...AnimatableProperties],
+        defaults: DEFAULT_PROPERTY_VALUES,
+        min: { scale: 1 }, // Scenes zoom in, never out
+      };
+    }
+    const text = selectedItem.type === "text" && selectedItem.textIndex !== undefined
+      ? timeline.textOverlays?.[selectedItem.textIndex]
+      : undefined;
+    if (!text) return null;
+    return {
+      startSec: text.startTime,
+      durationSec: text.duration === 0 ? Math.max(0, totalDuration - text.startTime) : text.duration,
+      keyframes: text.keyframes ?? {},
+      isTemplate: false,
+      properties: ["x", "y", "scale", "opacity"], // The renderer cannot rotate text
+      defaults: { ...DEFAULT_PROPERTY_VALUES, x: text.x, y: text.y },
+      min: { scale: 0 },
+    };
+  })();
+
+  const keyframeMarkers = [
+    ...(timeline?.scenes.flatMap((scene, i) => {
+      const isTemplate = !hasKeyframes(scene.keyframes);
+      return keyframeTimes(sceneKeyframes(scene)).map((t) => ({ timeSec: (sceneStartTimes[i] || 0) + t, isTemplate }));
+    }) || []),
+    ...(timeline?.textOverlays?.flatMap((text) =>
+      keyframeTimes(text.keyframes ?? {}).map((t) => ({ timeSec: text.startTime + t, isTemplate: false }))
+    ) || []),
+  ];
+
   // Get visible text overlays at current time
   const visibleTextOverlays = timeline?.textOverlays?.filter(t => {
     if (t.duration === 0) return true; // Show whole video
@@ -619,7 +823,17 @@ export default function EditorPage() {
         onDuplicate={selectedItem?.type === "scene" ? handleDuplicateScene : undefined}
         onChangeTransition={handleChangeTransition}
         onChangeAnimation={handleChangeAnimation}
-        onRender={handleRender}
+        onEditTranscript={
+          isTalkingHeadTimeline(timeline as unknown as StoredTimelineV1) ? () => setShowTranscript(true) : undefined
+        }
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        canUndo={history.past.length > 0}
+        canRedo={history.future.length > 0}
+        onShowAudioMix={() => handleAudioMixOpenChange(true)}
+        onShowChecks={() => setShowChecks(true)}
+        checkCount={lintIssues.length}
+        onRender={() => handleRender()}
         onBack={() => router.push(`/app/projects/${projectId}`)}
         isSaving={isSaving}
         isRendering={isRendering}
@@ -638,81 +852,36 @@ export default function EditorPage() {
             aspectRatio: `${timeline.project.resolution.width} / ${timeline.project.resolution.height}` 
           }}
         >
-          {/* Video */}
-          {currentScene && getVideoSrc(currentScene) && (
-            <video
-              ref={videoRef}
-              key={currentScene.clipUrl}
-              src={getVideoSrc(currentScene)!}
-              className="absolute inset-0 w-full h-full object-contain"
-              muted={isMuted}
-              playsInline
-              onWaiting={() => {
-                setIsBuffering(true);
-                // Pause audio when video is buffering
-                if (audioRef.current && !audioRef.current.paused) {
-                  audioRef.current.pause();
-                }
-              }}
-              onPlaying={() => {
-                setIsBuffering(false);
-                // Resume audio when video resumes
-                if (audioRef.current && isPlaying && audioRef.current.paused) {
-                  audioRef.current.play().catch(() => {});
-                }
-              }}
-              onCanPlay={() => {
-                setIsBuffering(false);
-                // Resume audio when video can play
-                if (audioRef.current && isPlaying && audioRef.current.paused) {
-                  audioRef.current.play().catch(() => {});
-                }
-              }}
-              onError={(e) => console.error("Video load error:", e.currentTarget.error)}
+          {previewTimeline && (
+            <EditorPreview
+              className="absolute inset-0"
+              timeline={previewTimeline}
+              currentTime={currentTime}
+              isPlaying={isPlaying}
+              isMuted={isMuted}
+              onTimeUpdate={setCurrentTime}
+              onPlayingChange={setIsPlaying}
             />
           )}
-          
-          {/* No video placeholder */}
-          {currentScene && !getVideoSrc(currentScene) && (
-            <div className="absolute inset-0 flex items-center justify-center bg-muted">
-              <div className="text-center">
-                <Film className="w-12 h-12 mx-auto mb-2 text-muted-foreground" />
-                <p className="text-sm text-muted-foreground">No video clip assigned</p>
-              </div>
-            </div>
-          )}
-          
-          {/* Buffering indicator */}
-          {isBuffering && (
-            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-              <div className="bg-black/60 rounded-full p-4">
-                <Loader2 className="w-8 h-8 animate-spin text-white" />
-              </div>
-            </div>
-          )}
 
-          {/* Voiceover Audio */}
-          {voiceoverUrl && (
-            <audio
-              ref={audioRef}
-              src={voiceoverUrl}
-              muted={isMuted}
-            />
-          )}
-
-          {/* Text overlays */}
-          {visibleTextOverlays.map((overlay) => (
+          {/* Text overlay handles: the preview draws the text, these select and edit it */}
+          {visibleTextOverlays.map((overlay) => {
+            const motion = sampleAnimation(overlay.keyframes ?? {}, currentTime - overlay.startTime, {
+              ...DEFAULT_PROPERTY_VALUES,
+              x: overlay.x,
+              y: overlay.y,
+            });
+            return (
             <div
               key={overlay.id}
               className="absolute cursor-move select-none"
               style={{
-                left: `${overlay.x}%`,
-                top: `${overlay.y}%`,
+                left: `${motion.x}%`,
+                top: `${motion.y}%`,
                 transform: "translate(-50%, -50%)",
-                color: overlay.style.color,
-                fontSize: `${overlay.style.fontSize * 6}px`,
+                color: "transparent",
+                fontSize: `${overlay.style.fontSize * 6 * motion.scale}px`,
                 fontFamily: overlay.style.fontFamily,
-                textShadow: "2px 2px 4px rgba(0,0,0,0.8)",
               }}
               onClick={(e) => {
                 e.stopPropagation();
@@ -727,7 +896,8 @@ export default function EditorPage() {
             >
               {overlay.text}
             </div>
-          ))}
+            );
+          })}
         </div>
       </div>
 
@@ -763,10 +933,11 @@ export default function EditorPage() {
           onMouseLeave={handleTimelineMouseUp}
         >
           {/* Track labels */}
-          <div className="absolute left-0 top-0 bottom-0 w-20 flex flex-col justify-center gap-1 pl-4 text-xs text-muted-foreground z-10">
+          <div className="absolute left-0 top-0 bottom-0 w-20 flex flex-col justify-start gap-1 pt-2 pl-4 text-xs text-muted-foreground z-10">
             <div className="h-12 flex items-center">Video</div>
             <div className="h-8 flex items-center">Audio</div>
             <div className="h-8 flex items-center">Text</div>
+            <div className="h-6 flex items-center">Motion</div>
           </div>
 
           {/* Tracks container */}
@@ -830,7 +1001,7 @@ export default function EditorPage() {
                 handleSeek(percent * totalDuration);
               }}
             >
-              {voiceoverUrl && (
+              {timeline.global.voiceover?.assetId && (
                 <div className="h-full bg-green-600/50 rounded flex items-center px-2">
                   <Volume2 className="w-3 h-3 text-green-200" />
                   <span className="text-xs text-green-200 ml-1">Voiceover</span>
@@ -896,6 +1067,17 @@ export default function EditorPage() {
                 );
               })}
             </div>
+
+            {/* Keyframe lane */}
+            <KeyframeLane
+              key={selectedItem?.id ?? "none"}
+              item={keyframeItem}
+              markers={keyframeMarkers}
+              totalDuration={totalDuration}
+              currentTime={currentTime}
+              onChange={handleChangeKeyframes}
+              onSeek={handleSeek}
+            />
           </div>
         </div>
       </div>
@@ -925,6 +1107,44 @@ export default function EditorPage() {
         onApply={handleTrimApply}
         scene={selectedScene}
       />
+
+      <TranscriptEditor
+        open={showTranscript}
+        onClose={() => setShowTranscript(false)}
+        onApply={handleTranscriptApply}
+        timeline={timeline as unknown as StoredTimelineV1}
+      />
+
+      <Sheet open={showChecks} onOpenChange={setShowChecks}>
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Checks</SheetTitle>
+          </SheetHeader>
+          <div className="px-4 pb-4">
+            <TimelineChecks issues={lintIssues} onSelect={handleSelectLintIssue} onFix={handleFixLintIssue} />
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <Sheet open={showAudioMix} onOpenChange={handleAudioMixOpenChange}>
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Audio Mix</SheetTitle>
+          </SheetHeader>
+          <div className="px-4 pb-4">
+            <AudioMixPanel
+              timeline={timeline as unknown as StoredTimelineV1}
+              onChange={(newTimeline) => setTimeline(newTimeline as unknown as TimelineData)}
+            />
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <MergeConflictDialog
+        conflicts={mergeConflicts}
+        onResolve={handleResolveMerge}
+        onCancel={handleCancelMerge}
+      />
     </div>
   );
 }
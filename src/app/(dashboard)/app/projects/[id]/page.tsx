@@ -21,15 +21,17 @@ async function getProject(id: string) {
   return project;
 }
 
-async function getLatestRenderJob(projectId: string) {
+async function getLatestRenderJob(projectId: string, drafts: boolean) {
   const supabase = await createClient();
-  const { data: job } = await supabase
+  const query = supabase
     .from("render_jobs")
     .select("*")
-    .eq("project_id", projectId)
+    .eq("project_id", projectId);
+
+  const { data: job } = await (drafts ? query.not("draft_height", "is", null) : query.is("draft_height", null))
     .order("created_at", { ascending: false })
     .limit(1)
-    .single();
+    .maybeSingle();
 
   return job;
 }
@@ -42,9 +44,12 @@ export default async function ProjectPage({ params }: PageProps) {
     notFound();
   }
 
-  const renderJob = await getLatestRenderJob(id);
+  const [renderJob, draftJob] = await Promise.all([
+    getLatestRenderJob(id, false),
+    getLatestRenderJob(id, true),
+  ]);
 
-  return <ProjectViewer project={project} renderJob={renderJob} />;
+  return <ProjectViewer project={project} renderJob={renderJob} draftJob={draftJob} />;
 }
 
 
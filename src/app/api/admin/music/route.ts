@@ -8,6 +8,18 @@ function getAdminSupabase() {
   );
 }
 
+function requestBeatAnalysis(musicId: string) {
+  const workerUrl = process.env.RENDER_WORKER_URL || "http://localhost:3001";
+  fetch(`${workerUrl}/analyze-music`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${process.env.WORKER_SECRET || ""}`,
+    },
+    body: JSON.stringify({ musicId }),
+  }).catch((error) => console.error("Failed to request beat analysis:", error));
+}
+
 // GET - List all music tracks
 export async function GET() {
   try {
@@ -62,6 +74,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    // Tempo and beat analysis runs on the worker; renders analyze lazily if this fails
+    requestBeatAnalysis(track.id);
+
     return NextResponse.json({ track });
   } catch (error) {
     console.error("Error creating music:", error);
@@ -2,7 +2,25 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { createClient as createAdminClient } from "@supabase/supabase-js";
 import OpenAI from "openai";
+import { spawn } from "child_process";
 import { v4 as uuid } from "uuid";
+import type { CaptionSegment, CaptionStyle, Transcript } from "@/lib/timeline/v1";
+import { lintGeneratedTimeline } from "@/lib/timeline/lint";
+import { validateStoredTimeline, type StoredTimelineV1 } from "@/lib/timeline/stored";
+import {
+  applyTranscript,
+  createTranscript,
+  cutawaysFromScenes,
+  type TalkingHeadSource,
+} from "@/lib/timeline/transcript";
+import {
+  resolveTightenOptions,
+  tightenTranscript,
+  type SilenceRange,
+  type TightenOptions,
+  type TightenReport,
+} from "@/lib/timeline/tighten";
+import { snapshotProjectVersion } from "@/lib/versions";
 
 /**
  * Build Talking Head Timeline API
@@ -12,6 +30,8 @@ import { v4 as uuid } from "uuid";
  * 2. Cuts to relevant B-roll while audio continues
  * 3. Cuts back to user at key moments
  * 4. Adds captions and optional music
+ * 5. Optionally tightens the speech: jump cuts over filler words and long
+ *    pauses (settings.tighten), with a report of the time removed
  */
 
 function getAdminSupabase() {
@@ -49,18 +69,76 @@ interface VideoInput {
   assetId: string;
   duration: number;
   transcript: string;
-  captions: Array<{ start: number; end: number; text: string }>;
+  captions: CaptionSegment[];
 }
 
 interface Settings {
   enableCaptions: boolean;
   captionWordsPerBlock: number;
   captionFont: string;
+  captionStyle?: CaptionStyle;
   selectedMusicId: string | null;
   musicVolume: string;
   brollFrequency: "low" | "medium" | "high";
   brollDuration: "short" | "medium" | "long";
   brollPrompt?: string;
+  // Jump cuts. Filler words are only found if the videos were transcribed
+  // with transcribe-video's fillerWords option.
+  tighten?: Partial<TightenOptions> & { enabled?: boolean };
+}
+
+/**
+ * Silent stretches of a video's audio, from FFmpeg silencedetect. Null if
+ * FFmpeg fails or times out - tightening then goes by the word timings alone.
+ */
+async function detectSilences(url: string, options: TightenOptions): Promise<SilenceRange[] | null> {
+  return new Promise((resolve) => {
+    const ffmpeg = spawn("ffmpeg", [
+      "-i", url,
+      "-vn",
+      "-af", `silencedetect=noise=${options.silenceThresholdDb}dB:d=${options.minPauseSec}`,
+      "-f", "null",
+      "-",
+    ]);
+    
+    let stderr = "";
+    ffmpeg.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+    
+    const timeout = setTimeout(() => ffmpeg.kill(), 120000); // 2 minute timeout
+    
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timeout);
+      if (code !== 0) {
+        console.error(`[Talking Head] silencedetect failed (${code}):`, stderr.slice(-500));
+        resolve(null);
+        return;
+      }
+      
+      // "silence_start: 12.34" ... "silence_end: 13.5 | silence_duration: 1.16"
+      const silences: SilenceRange[] = [];
+      let start: number | null = null;
+      for (const line of stderr.split("\n")) {
+        const startMatch = line.match(/silence_start: (-?\d+\.?\d*)/);
+        const endMatch = line.match(/silence_end: (\d+\.?\d*)/);
+        if (startMatch) start = Math.max(0, parseFloat(startMatch[1]));
+        if (endMatch && start !== null) {
+          silences.push({ start, end: parseFloat(endMatch[1]) });
+          start = null;
+        }
+      }
+      // Silent to the end of the file
+      if (start !== null) silences.push({ start, end: Number.POSITIVE_INFINITY });
+      resolve(silences);
+    });
+    
+    ffmpeg.on("error", (err) => {
+      clearTimeout(timeout);
+      console.error("[Talking Head] FFmpeg not available for silencedetect:", err.message);
+      resolve(null);
+    });
+  });
 }
 
 export async function POST(request: NextRequest) {
@@ -523,7 +601,7 @@ Return JSON:
     console.log(`[Talking Head] Built ${scenes.length} scenes`);
     
     // Combine all captions and adjust timing
-    let allCaptions: Array<{ start: number; end: number; text: string }> = [];
+    let allCaptions: CaptionSegment[] = [];
     let captionOffset = 0;
     
     for (const video of videos) {
@@ -531,11 +609,55 @@ Return JSON:
         start: c.start + captionOffset,
         end: c.end + captionOffset,
         text: c.text,
+        words: c.words?.map(w => ({
+          word: w.word,
+          start: w.start + captionOffset,
+          end: w.end + captionOffset,
+        })),
       }));
       allCaptions = [...allCaptions, ...offsetCaptions];
       captionOffset += video.duration;
     }
     
+    // Keep the words (in each video's own time) as an editable transcript,
+    // whether or not captions are shown
+    const transcriptSources: TalkingHeadSource[] = videos.map((video, i) => ({
+      assetId: video.assetId,
+      url: userAssets.find(a => a.id === video.assetId)?.public_url ?? null,
+      durationSec: video.duration,
+      offsetSec: videos.slice(0, i).reduce((sum, vid) => sum + vid.duration, 0),
+    }));
+    const hasWords = videos.some(video => video.captions.some(c => c.words && c.words.length > 0));
+    const transcript = hasWords
+      ? createTranscript(
+          transcriptSources.map((source, i) => ({
+            ...source,
+            words: videos[i].captions.flatMap(c => c.words ?? []),
+          })),
+          cutawaysFromScenes(scenes, transcriptSources)
+        )
+      : undefined;
+    
+    // Tighten: filler words and long pauses come out of the speech
+    let tightenedTranscript: Transcript | null = null;
+    let tightenReport: TightenReport | null = null;
+    if (settings.tighten?.enabled) {
+      if (!transcript) {
+        console.warn("[Talking Head] No word timings, skipping tighten");
+      } else {
+        const tightenOptions = resolveTightenOptions(settings.tighten);
+        const silences: Record<string, SilenceRange[] | null> = {};
+        for (const source of transcriptSources) {
+          silences[source.assetId] = source.url ? await detectSilences(source.url, tightenOptions) : null;
+        }
+        ({ transcript: tightenedTranscript, report: tightenReport } = tightenTranscript(transcript, silences, tightenOptions));
+        console.log(
+          `[Talking Head] Tightened ${tightenReport.originalSec.toFixed(1)}s -> ${tightenReport.tightenedSec.toFixed(1)}s ` +
+          `(${tightenReport.fillerWords.count} filler words, ${tightenReport.pauses.count} pauses)`
+        );
+      }
+    }
+    
     // Get music if selected, or auto-select first available track
     let musicData: any = null;
     console.log(`[Talking Head] Music settings: selectedMusicId=${settings.selectedMusicId}, musicVolume=${settings.musicVolume}`);
@@ -614,7 +736,7 @@ Return JSON:
     // Build the timeline JSON
     const projectId = uuid();
     
-    const timelineJson = {
+    const builtTimeline = {
       version: 1,
       project: {
         id: projectId,
@@ -640,6 +762,7 @@ Return JSON:
           burnIn: settings.enableCaptions,
           wordsPerBlock: settings.captionWordsPerBlock,
           font: settings.captionFont,
+          style: settings.captionStyle || "static",
           srtAssetId: null,
           startOffset: 0,
           segments: settings.enableCaptions ? allCaptions : [],
@@ -664,8 +787,28 @@ Return JSON:
         isTalkingHead: true,
         userAudioAssetIds: userAssetIds,
       },
+      transcript,
     };
     
+    // Tightened: scenes and captions are compiled from the cut transcript,
+    // and the speaker's audio follows the cuts
+    let timelineJson: Record<string, unknown> = builtTimeline;
+    if (tightenedTranscript) {
+      const tightened = applyTranscript(builtTimeline as unknown as StoredTimelineV1, tightenedTranscript);
+      if (!settings.enableCaptions) tightened.global.captions.segments = [];
+      timelineJson = tightened;
+    }
+    const finalDuration = tightenReport?.tightenedSec ?? totalDuration;
+    const finalSceneCount = (timelineJson.scenes as unknown[]).length;
+    
+    const validation = validateStoredTimeline(timelineJson);
+    if (!validation.success) {
+      console.error("[Talking Head] Timeline validation error:", validation.issues);
+      return NextResponse.json({ error: "Failed to generate valid timeline" }, { status: 500 });
+    }
+
+    const lint = lintGeneratedTimeline(timelineJson, "[Talking Head]");
+
     // Create the project
     const { data: project, error: projectError } = await adminSupabase
       .from("projects")
@@ -675,7 +818,7 @@ Return JSON:
         type: "talking_head",
         timeline_json: timelineJson,
         status: "draft",
-        duration_sec: totalDuration,
+        duration_sec: finalDuration,
         script: fullTranscript,
         description: `Talking head video with ${brollInsertions.length} B-roll cuts`,
       })
@@ -686,6 +829,18 @@ Return JSON:
       console.error("Project creation error:", projectError);
       return NextResponse.json({ error: "Failed to create project" }, { status: 500 });
     }
+
+    // Start the project's history with the AI's cut
+    try {
+      await snapshotProjectVersion(adminSupabase, {
+        projectId: project.id,
+        userId: user.id,
+        timeline: timelineJson,
+        source: "ai",
+      });
+    } catch (versionError) {
+      console.error("Error recording project version:", versionError);
+    }
     
     console.log(`[Talking Head] Created project ${project.id}`);
     
@@ -693,9 +848,11 @@ Return JSON:
       success: true,
       projectId: project.id,
       timeline: timelineJson,
-      totalDurationSec: totalDuration,
-      sceneCount: scenes.length,
+      totalDurationSec: finalDuration,
+      sceneCount: finalSceneCount,
       brollCount: brollInsertions.length,
+      tightenReport,
+      lint,
     });
     
   } catch (error) {
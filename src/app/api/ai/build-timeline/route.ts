@@ -3,6 +3,11 @@ import { createClient } from "@/lib/supabase/server";
 import { createClient as createAdminClient } from "@supabase/supabase-js";
 import OpenAI from "openai";
 import { v4 as uuid } from "uuid";
+import type { CaptionSegment, CaptionStyle } from "@/lib/timeline/v1";
+import { snapCutsToBeats } from "@/lib/timeline/beats";
+import { lintGeneratedTimeline } from "@/lib/timeline/lint";
+import { validateStoredTimeline } from "@/lib/timeline/stored";
+import { snapshotProjectVersion } from "@/lib/versions";
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -210,8 +215,9 @@ If no effects needed, set textEffects to empty array [].`;
 // ============================================================================
 // Helper: Normalize scene durations to match target exactly
 // IMPORTANT: Must account for transition overlap - xfade removes transition duration from total
+// With beat times (seconds from the first scene's start), cuts are then moved onto beats
 // ============================================================================
-function normalizeSceneDurations(scenes: any[], targetDuration: number): any[] {
+function normalizeSceneDurations(scenes: any[], targetDuration: number, beatTimes?: number[]): any[] {
   if (!scenes || scenes.length === 0) return scenes;
   
   // Make a copy to avoid mutation
@@ -241,7 +247,7 @@ function normalizeSceneDurations(scenes: any[], targetDuration: number): any[] {
   // ALWAYS ensure exact match - this prevents video pause at end
   if (Math.abs(difference) < 0.05) {
     console.log(`[Duration Fix] Already close enough, no adjustment needed`);
-    return adjustedScenes;
+    return beatTimes?.length ? snapCutsToBeats(adjustedScenes, beatTimes) : adjustedScenes;
   }
   
   if (difference > 0) {
@@ -295,7 +301,7 @@ function normalizeSceneDurations(scenes: any[], targetDuration: number): any[] {
     console.log(`[Duration Fix] Force-adjusted last scene by ${adjustment}s`);
   }
   
-  return adjustedScenes;
+  return beatTimes?.length ? snapCutsToBeats(adjustedScenes, beatTimes) : adjustedScenes;
 }
 
 // ============================================================================
@@ -364,6 +370,7 @@ export async function POST(request: NextRequest) {
       captionSegments,
       selectedMusicId,
       musicVolume,
+      snapToBeats,
       resolution,
       captionSettings,
       // Talking head mode specific
@@ -382,14 +389,17 @@ export async function POST(request: NextRequest) {
       voiceoverVolume?: number;
       selectedAssets?: string[];
       timedCaptions?: string;
-      captionSegments?: Array<{ start: number; end: number; text: string }>;
+      captionSegments?: CaptionSegment[];
       selectedMusicId?: string;
       resolution?: { width: number; height: number };
       musicVolume?: number;
+      snapToBeats?: boolean;
       captionSettings?: {
         enabled: boolean;
         wordsPerBlock?: number;
         font?: string;
+        style?: CaptionStyle;
+        sidecar?: boolean;
       };
       // Talking head mode
       talkingHeadMode?: boolean;
@@ -769,6 +779,14 @@ RESPOND WITH ONLY THIS JSON:
         },
       };
       
+      const validation = validateStoredTimeline(talkingHeadTimeline);
+      if (!validation.success) {
+        console.error("[Build Timeline] Timeline validation error:", validation.issues);
+        return NextResponse.json({ error: "Failed to generate valid timeline" }, { status: 500 });
+      }
+
+      const lint = lintGeneratedTimeline(talkingHeadTimeline, "[Build Timeline]");
+
       // Create project
       const { data: project, error: projectError } = await adminSupabase
         .from("projects")
@@ -790,6 +808,18 @@ RESPOND WITH ONLY THIS JSON:
         return NextResponse.json({ error: "Failed to create project" }, { status: 500 });
       }
 
+      // Start the project's history with the AI's cut
+      try {
+        await snapshotProjectVersion(adminSupabase, {
+          projectId: project.id,
+          userId: user.id,
+          timeline: talkingHeadTimeline,
+          source: "ai",
+        });
+      } catch (versionError) {
+        console.error("Error recording project version:", versionError);
+      }
+
       console.log(`[Build Timeline] Talking head project created with ${brollOverlays.length} b-roll overlays`);
 
       return NextResponse.json({
@@ -797,6 +827,7 @@ RESPOND WITH ONLY THIS JSON:
         timeline: talkingHeadTimeline,
         totalDurationSec: videoDuration,
         brollCount: brollOverlays.length,
+        lint,
       });
     }
     
@@ -1084,7 +1115,7 @@ Add text effects to enhance key moments in the video. Remember: 2 seconds per wo
     // IMPORTANT: Track used clips to prevent duplicates
     const usedClipIds = new Set<string>();
     
-    const scenes = (clipResult.scenes || [])
+    let scenes = (clipResult.scenes || [])
       .filter((scene: any) => {
         const isUserAsset = userAssetIds.has(scene.clipId);
         const isValidClip = validClipIds.has(scene.clipId);
@@ -1173,6 +1204,21 @@ Add text effects to enhance key moments in the video. Remember: 2 seconds per wo
       console.log(`[Build Timeline] selectedMusicId: ${selectedMusicId}, audioResult.music: ${JSON.stringify(audioResult.music)}`);
     }
 
+    // Cut to the beat: music starts with the timeline, main scenes after the intro.
+    // Beats come from the worker's analysis of the track (music.beats).
+    if (snapToBeats && selectedMusic) {
+      const beats: number[] = Array.isArray(selectedMusic.beats) ? selectedMusic.beats : [];
+      if (beats.length > 0) {
+        const sceneBeats = beats.map((t) => t - introDuration).filter((t) => t > 0);
+        scenes = normalizeSceneDurations(scenes, targetDurationCeil, sceneBeats).map((scene) => ({
+          ...scene,
+          outSec: scene.inSec + scene.durationSec,
+        }));
+      } else {
+        console.log(`[Build Timeline] Music "${selectedMusic.title}" has no beat analysis yet, cuts not snapped`);
+      }
+    }
+
     // Build sound effects (validate IDs)
     const validSfxIds = new Set(soundEffects?.map((s: any) => s.id) || []);
     const sfxList = (audioResult.soundEffects || [])
@@ -1341,6 +1387,8 @@ Add text effects to enhance key moments in the video. Remember: 2 seconds per wo
           burnIn: captionSettings?.enabled || false, 
           wordsPerBlock: captionSettings?.wordsPerBlock || 3,
           font: captionSettings?.font || "Inter",
+          style: captionSettings?.style || "static",
+          sidecar: captionSettings?.sidecar || false,
           srtAssetId: null,
           startOffset: voiceoverStartOffset, // Captions also offset by intro
           // Store actual caption segments with timing (offset by intro duration)
@@ -1348,6 +1396,11 @@ Add text effects to enhance key moments in the video. Remember: 2 seconds per wo
             start: seg.start + voiceoverStartOffset,
             end: seg.end + voiceoverStartOffset,
             text: seg.text,
+            words: seg.words?.map(w => ({
+              word: w.word,
+              start: w.start + voiceoverStartOffset,
+              end: w.end + voiceoverStartOffset,
+            })),
           })) || [],
         },
         brand: {
@@ -1380,6 +1433,14 @@ Add text effects to enhance key moments in the video. Remember: 2 seconds per wo
       },
     };
 
+    const validation = validateStoredTimeline(timelineJson);
+    if (!validation.success) {
+      console.error("[Build Timeline] Timeline validation error:", validation.issues);
+      return NextResponse.json({ error: "Failed to generate valid timeline" }, { status: 500 });
+    }
+
+    const lint = lintGeneratedTimeline(timelineJson, "[Build Timeline]");
+
     // Create project
     const { data: project, error: projectError } = await adminSupabase
       .from("projects")
@@ -1401,6 +1462,18 @@ Add text effects to enhance key moments in the video. Remember: 2 seconds per wo
       return NextResponse.json({ error: "Failed to create project" }, { status: 500 });
     }
 
+    // Start the project's history with the AI's cut
+    try {
+      await snapshotProjectVersion(adminSupabase, {
+        projectId: project.id,
+        userId: user.id,
+        timeline: timelineJson,
+        source: "ai",
+      });
+    } catch (versionError) {
+      console.error("Error recording project version:", versionError);
+    }
+
     console.log(`Project created with ${scenes.length} scenes, ${sfxList.length} SFX, ${overlayList.length} overlays, ${textEffectsList.length} text effects`);
 
     return NextResponse.json({
@@ -1409,6 +1482,7 @@ Add text effects to enhance key moments in the video. Remember: 2 seconds per wo
       totalDurationSec: totalDuration,
       introDurationSec: introDuration,
       outroDurationSec: outroDuration,
+      lint,
     });
   } catch (error) {
     console.error("Timeline building error:", error);
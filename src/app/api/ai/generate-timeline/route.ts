@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { createClient as createAdminClient } from "@supabase/supabase-js";
 import { TimelineV1Schema } from "@/lib/timeline/v1";
+import { lintGeneratedTimeline } from "@/lib/timeline/lint";
+import { snapshotProjectVersion } from "@/lib/versions";
 import { generateVoiceover, estimateSpeechDuration } from "@/lib/elevenlabs";
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 import { v4 as uuid } from "uuid";
@@ -210,6 +212,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Failed to generate valid timeline" }, { status: 500 });
     }
 
+    const lint = lintGeneratedTimeline(parseResult.data, "[Generate Timeline]");
+
     // Create the project using admin client
     const { data: project, error: projectError } = await adminSupabase
       .from("projects")
@@ -228,9 +232,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Failed to create project" }, { status: 500 });
     }
 
+    // Start the project's history with the AI's cut
+    try {
+      await snapshotProjectVersion(adminSupabase, {
+        projectId: project.id,
+        userId: user.id,
+        timeline: timelineJson,
+        source: "ai",
+      });
+    } catch (versionError) {
+      console.error("Error recording project version:", versionError);
+    }
+
     return NextResponse.json({
       projectId: project.id,
       timeline: timelineJson,
+      lint,
     });
   } catch (error) {
     console.error("Generate timeline error:", error);
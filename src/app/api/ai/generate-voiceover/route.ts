@@ -3,6 +3,7 @@ import { createClient } from "@/lib/supabase/server";
 import { createClient as createAdminClient } from "@supabase/supabase-js";
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 import { v4 as uuid } from "uuid";
+import type { CaptionSegment, CaptionWord } from "@/lib/timeline/v1";
 
 const s3Client = new S3Client({
   region: "auto",
@@ -119,7 +120,7 @@ function enhanceScriptWithPauses(script: string): string {
 
 // Generate timed captions using Deepgram
 async function generateTimedCaptions(audioBuffer: Buffer, wordsPerBlock: number = 3): Promise<{
-  captions: Array<{ start: number; end: number; text: string }>;
+  captions: CaptionSegment[];
   formattedCaptions: string;
   durationSec: number;
 }> {
@@ -159,7 +160,8 @@ async function generateTimedCaptions(audioBuffer: Buffer, wordsPerBlock: number
     console.log(`Grouping captions with ${wordsPerBlock} words per block`);
     
     // Group words into caption segments based on user setting
-    const captions: Array<{ start: number; end: number; text: string }> = [];
+    // Word timings are kept for word-level caption styles (karaoke, pop-in, ...)
+    const captions: CaptionSegment[] = [];
     let currentSegment: typeof words = [];
     
     for (let i = 0; i < words.length; i++) {
@@ -172,11 +174,16 @@ async function generateTimedCaptions(audioBuffer: Buffer, wordsPerBlock: number
       
       // Always break at punctuation or end, or when we reach the word limit
       if (isPunctuation || isLastWord || segmentReachedLimit) {
-        const text = currentSegment.map((w: any) => w.punctuated_word || w.word).join(' ');
+        const segmentWords = currentSegment.map((w: any) => ({
+          word: w.punctuated_word || w.word,
+          start: w.start,
+          end: w.end,
+        }));
         captions.push({
           start: currentSegment[0].start,
           end: currentSegment[currentSegment.length - 1].end,
-          text,
+          text: segmentWords.map((w: CaptionWord) => w.word).join(' '),
+          words: segmentWords,
         });
         currentSegment = [];
       }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { uploadBuffer, generateObjectKey, deleteObject } from "@/lib/r2/client";
 import { randomUUID } from "crypto";
+import type { CaptionSegment, CaptionWord } from "@/lib/timeline/v1";
 
 /**
  * Transcribe Video API
@@ -9,8 +10,12 @@ import { randomUUID } from "crypto";
  * Accepts either:
  * 1. FormData with a file (for small files <50MB)
  * 2. JSON with objectKey (for large files pre-uploaded to R2)
+ * 3. JSON with assetId (a video already in the user's media library,
+ *    e.g. to transcribe a talking head project's footage for editing)
  * 
- * Sends URL to Deepgram for transcription.
+ * Sends URL to Deepgram for transcription. Set `fillerWords` (JSON field or
+ * form field "true") to keep "um"s and "uh"s in the words, e.g. so the
+ * talking head builder can cut them.
  */
 
 export const maxDuration = 300; // 5 minute timeout for long videos
@@ -39,27 +44,46 @@ export async function POST(request: NextRequest) {
     
     let publicUrl: string | null = null;
     let filename = "video.mp4";
+    let fillerWords = false;
     
     if (requestContentType.includes("application/json")) {
       // Large file flow: file was pre-uploaded to R2, we just get the key
+      // (or the asset id of a video already in the library)
       const body = await request.json();
-      const { objectKey, filename: providedFilename } = body;
+      const { objectKey, assetId, filename: providedFilename } = body;
+      fillerWords = body.fillerWords === true;
       
-      if (!objectKey) {
+      if (assetId) {
+        // Library asset: transcribe in place, nothing to clean up
+        const { data: asset } = await supabase
+          .from("media_assets")
+          .select("id, public_url")
+          .eq("id", assetId)
+          .eq("owner_id", user.id)
+          .single();
+        
+        if (!asset?.public_url) {
+          return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+        }
+        
+        publicUrl = asset.public_url;
+        console.log(`[Transcribe] Using library asset ${assetId}: ${publicUrl}`);
+      } else if (!objectKey) {
         return NextResponse.json({ error: "No objectKey provided" }, { status: 400 });
+      } else {
+        // Get public URL from object key
+        publicUrl = `${process.env.R2_PUBLIC_BASE_URL}/${objectKey}`;
+        uploadedObjectKey = objectKey; // Mark for cleanup
+        filename = providedFilename || "video.mp4";
+        
+        console.log(`[Transcribe] Using pre-uploaded file: ${publicUrl}`);
       }
       
-      // Get public URL from object key
-      publicUrl = `${process.env.R2_PUBLIC_BASE_URL}/${objectKey}`;
-      uploadedObjectKey = objectKey; // Mark for cleanup
-      filename = providedFilename || "video.mp4";
-      
-      console.log(`[Transcribe] Using pre-uploaded file: ${publicUrl}`);
-      
     } else {
       // Small file flow: FormData upload
       const formData = await request.formData();
       const file = formData.get("file") as File | null;
+      fillerWords = formData.get("fillerWords") === "true";
       
       if (!file) {
         return NextResponse.json({ error: "No file provided" }, { status: 400 });
@@ -113,7 +137,7 @@ export async function POST(request: NextRequest) {
     console.log(`[Transcribe] Sending URL to Deepgram: ${publicUrl}`);
     
     const deepgramResponse = await fetch(
-      "https://api.deepgram.com/v1/listen?model=nova-2&smart_format=true&punctuate=true&utterances=true",
+      `https://api.deepgram.com/v1/listen?model=nova-2&smart_format=true&punctuate=true&utterances=true${fillerWords ? "&filler_words=true" : ""}`,
       {
         method: "POST",
         headers: {
@@ -174,16 +198,18 @@ function buildResponse(deepgramData: any) {
   console.log(`[Transcribe] Built transcript from words: ${transcript.length} chars`);
   
   // Build caption segments (group words into phrases)
-  const captions: Array<{ start: number; end: number; text: string }> = [];
+  const captions: CaptionSegment[] = [];
   const wordsPerCaption = 3; // Default words per caption block
   
   for (let i = 0; i < words.length; i += wordsPerCaption) {
     const wordGroup = words.slice(i, i + wordsPerCaption);
     if (wordGroup.length > 0) {
+      const groupWords = wordGroup.map((w: any) => ({ word: w.punctuated_word || w.word, start: w.start, end: w.end }));
       captions.push({
         start: wordGroup[0].start,
         end: wordGroup[wordGroup.length - 1].end,
-        text: wordGroup.map((w: any) => w.punctuated_word || w.word).join(" "),
+        text: groupWords.map((w: CaptionWord) => w.word).join(" "),
+        words: groupWords,
       });
     }
   }
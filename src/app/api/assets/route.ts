@@ -1,8 +1,10 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 
 // GET - Fetch user's assets
-export async function GET() {
+// ?ids=a,b returns just those assets, of any kind (the editor preview
+// resolves a timeline's clips, audio and logo this way)
+export async function GET(request: NextRequest) {
   try {
     const supabase = await createClient();
     
@@ -11,6 +13,22 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const ids = request.nextUrl.searchParams.get("ids")?.split(",").filter(Boolean);
+    if (ids) {
+      const { data: assets, error } = await supabase
+        .from("media_assets")
+        .select("*")
+        .eq("owner_id", user.id)
+        .in("id", ids.slice(0, 200));
+
+      if (error) {
+        console.error("Error fetching assets:", error);
+        return NextResponse.json({ error: "Failed to fetch assets" }, { status: 500 });
+      }
+
+      return NextResponse.json({ assets: assets || [] });
+    }
+
     // Fetch user's media assets (video and image only)
     const { data: assets, error } = await supabase
       .from("media_assets")
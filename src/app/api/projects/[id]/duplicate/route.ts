@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { validateStoredTimeline } from "@/lib/timeline/stored";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -27,6 +28,19 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
+    // Projects without a plan yet have no timeline to check
+    let timeline = original.timeline_json;
+    if (timeline !== null) {
+      const validation = validateStoredTimeline(timeline);
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: "This project's timeline is invalid and can't be duplicated", issues: validation.issues },
+          { status: 422 }
+        );
+      }
+      timeline = validation.data;
+    }
+
     // Create duplicate
     const { data: duplicate, error: insertError } = await supabase
       .from("projects")
@@ -39,7 +53,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
         fps: original.fps,
         resolution_w: original.resolution_w,
         resolution_h: original.resolution_h,
-        timeline_json: original.timeline_json,
+        timeline_json: timeline,
         brand_preset_id: original.brand_preset_id,
       })
       .select()
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
 import { createEmptyTimeline, createScene } from "@/lib/timeline/v1";
 import type { TimelineV1, Scene } from "@/lib/timeline/v1";
 import { v4 as uuid } from "uuid";
+import { preserveCurrentTimeline, snapshotProjectVersion } from "@/lib/versions";
+import { validateStoredTimeline } from "@/lib/timeline/stored";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -109,6 +111,29 @@ export async function POST(request: NextRequest, context: RouteContext) {
       scenes,
     };
 
+    const validation = validateStoredTimeline(finalTimeline);
+    if (!validation.success) {
+      console.error("Timeline validation error:", validation.issues);
+      return NextResponse.json({ error: "Failed to generate valid timeline" }, { status: 500 });
+    }
+
+    // The generated plan replaces the project's timeline: keep the current
+    // one in its history first, and don't overwrite it if that fails
+    const adminSupabase = createAdminClient();
+    try {
+      await preserveCurrentTimeline(adminSupabase, {
+        projectId: id,
+        userId: user.id,
+        timeline: project.timeline_json,
+      });
+    } catch (versionError) {
+      console.error("Error preserving current timeline:", versionError);
+      return NextResponse.json(
+        { error: "Failed to save a version of the current timeline" },
+        { status: 500 }
+      );
+    }
+
     // Save timeline to project
     const { data: updatedProject, error: updateError } = await supabase
       .from("projects")
@@ -125,6 +150,17 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
+    try {
+      await snapshotProjectVersion(adminSupabase, {
+        projectId: id,
+        userId: user.id,
+        timeline: finalTimeline,
+        source: "ai",
+      });
+    } catch (versionError) {
+      console.error("Error recording project version:", versionError);
+    }
+
     return NextResponse.json({
       project: updatedProject,
       timeline: finalTimeline,
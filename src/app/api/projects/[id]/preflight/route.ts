@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { PreflightReport } from "@/lib/preflight";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST - Check the project's media with ffprobe before rendering. Free; the
+// worker runs the same check again at the start of every render.
+export async function POST(_request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: project, error: fetchError } = await supabase
+      .from("projects")
+      .select("id, timeline_json")
+      .eq("id", id)
+      .eq("owner_id", user.id)
+      .single();
+
+    if (fetchError || !project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    if (!project.timeline_json) {
+      return NextResponse.json(
+        { error: "Project has no timeline. Generate a plan first." },
+        { status: 400 }
+      );
+    }
+
+    const workerUrl = process.env.RENDER_WORKER_URL || "http://localhost:3001";
+    const response = await fetch(`${workerUrl}/preflight`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${process.env.WORKER_SECRET || ""}`,
+      },
+      body: JSON.stringify({ projectId: id }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      return NextResponse.json(
+        { error: data.error || "Media check failed" },
+        { status: 502 }
+      );
+    }
+
+    const report: PreflightReport = await response.json();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Preflight error:", error);
+    return NextResponse.json({ error: "Media check failed" }, { status: 500 });
+  }
+}
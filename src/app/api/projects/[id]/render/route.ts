@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient, createAdminClient } from "@/lib/supabase/server";
 import { enqueueRenderJob } from "@/lib/queue/render";
+import { DRAFT_RENDERS_PER_HOUR, DraftHeights, renderCreditCost, type DraftHeight } from "@/lib/credits";
+import { AspectRatioSchema, type AspectRatio } from "@/lib/timeline/v1";
+import { lintStoredTimeline } from "@/lib/timeline/lint";
+import { snapshotProjectVersion } from "@/lib/versions";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -17,6 +21,52 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // Optional multi-format export: { formats: ["landscape", "vertical", "square"] }
+    // Each format is a full render, so each costs a credit.
+    const body = await request.json().catch(() => ({}));
+    const formatsResult = AspectRatioSchema.array().min(1).optional().safeParse(body?.formats);
+    if (!formatsResult.success) {
+      return NextResponse.json(
+        { error: "formats must be a list of: landscape, vertical, square" },
+        { status: 400 }
+      );
+    }
+    const requestedFormats = formatsResult.data ? [...new Set(formatsResult.data)] : null;
+
+    // Optional draft preview: { draft: 360 | 480 } - small, watermarked and
+    // free, but rate-limited
+    const draftHeight: DraftHeight | null = body?.draft ?? null;
+    if (draftHeight !== null && !DraftHeights.includes(draftHeight)) {
+      return NextResponse.json({ error: "draft must be 360 or 480" }, { status: 400 });
+    }
+    const creditCost = draftHeight ? 0 : renderCreditCost(requestedFormats);
+
+    if (draftHeight) {
+      const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const { data: recentDrafts } = await supabase
+        .from("render_jobs")
+        .select("created_at, projects!inner(owner_id)")
+        .eq("projects.owner_id", user.id)
+        .not("draft_height", "is", null)
+        .gte("created_at", since)
+        .order("created_at", { ascending: true })
+        .limit(DRAFT_RENDERS_PER_HOUR);
+
+      if (recentDrafts && recentDrafts.length >= DRAFT_RENDERS_PER_HOUR) {
+        // The oldest draft in the window leaving it frees a slot
+        const retryAfterSec = Math.max(
+          1,
+          Math.ceil((new Date(recentDrafts[0].created_at).getTime() + 60 * 60 * 1000 - Date.now()) / 1000)
+        );
+        return NextResponse.json(
+          {
+            error: `Draft limit reached (${DRAFT_RENDERS_PER_HOUR} per hour). Try again in ${Math.ceil(retryAfterSec / 60)} min.`,
+          },
+          { status: 429, headers: { "Retry-After": String(retryAfterSec) } }
+        );
+      }
+    }
+
     // Check user credits - create if not exists
     let { data: userCredits } = await adminSupabase
       .from("user_credits")
@@ -36,9 +86,13 @@ export async function POST(request: NextRequest, context: RouteContext) {
 
     const currentCredits = userCredits?.credits ?? 0;
 
-    if (currentCredits < 1) {
+    if (currentCredits < creditCost) {
       return NextResponse.json(
-        { error: "Insufficient credits. You need at least 1 credit to render a video." },
+        {
+          error: creditCost === 1
+            ? "Insufficient credits. You need at least 1 credit to render a video."
+            : `Insufficient credits. You need ${creditCost} credits to render ${creditCost} formats.`,
+        },
         { status: 402 }
       );
     }
@@ -62,6 +116,33 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
+    // Timeline lint errors (e.g. a transition longer than its clip) stop the
+    // render unless the user chose to render anyway: { ignoreLint: true }.
+    // Warnings never block.
+    if (body?.ignoreLint !== true) {
+      const lintErrors = (lintStoredTimeline(project.timeline_json) ?? []).filter(
+        (issue) => issue.severity === "error"
+      );
+      if (lintErrors.length > 0) {
+        return NextResponse.json(
+          {
+            error: lintErrors.length === 1
+              ? `The timeline has a problem: ${lintErrors[0].message}`
+              : `The timeline has ${lintErrors.length} problems, starting with: ${lintErrors[0].message}`,
+            lint: lintErrors,
+          },
+          { status: 422 }
+        );
+      }
+    }
+
+    // The project's own format goes first - it becomes the primary output
+    const formats: AspectRatio[] | null = requestedFormats
+      ? [...requestedFormats].sort(
+          (a, b) => Number(b === project.aspect_ratio) - Number(a === project.aspect_ratio)
+        )
+      : null;
+
     // Check if there's already a running render job
     const { data: existingJob } = await supabase
       .from("render_jobs")
@@ -77,22 +158,26 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Deduct 1 credit
-    await adminSupabase
-      .from("user_credits")
-      .update({ credits: currentCredits - 1, updated_at: new Date().toISOString() })
-      .eq("user_id", user.id);
+    if (creditCost > 0) {
+      // Deduct credits (one per format)
+      await adminSupabase
+        .from("user_credits")
+        .update({ credits: currentCredits - creditCost, updated_at: new Date().toISOString() })
+        .eq("user_id", user.id);
 
-    // Record the transaction
-    await adminSupabase
-      .from("credit_transactions")
-      .insert({
-        user_id: user.id,
-        amount: -1,
-        type: "render",
-        description: `Render: ${project.title}`,
-        reference_id: id,
-      });
+      // Record the transaction
+      await adminSupabase
+        .from("credit_transactions")
+        .insert({
+          user_id: user.id,
+          amount: -creditCost,
+          type: "render",
+          description: formats
+            ? `Render: ${project.title} (${formats.join(", ")})`
+            : `Render: ${project.title}`,
+          reference_id: id,
+        });
+    }
 
     // Create render job record
     const { data: job, error: jobError } = await supabase
@@ -101,7 +186,9 @@ export async function POST(request: NextRequest, context: RouteContext) {
         project_id: id,
         status: "queued",
         progress: 0,
-        logs: ["Render job created"],
+        logs: [draftHeight ? `Draft render created (${draftHeight}p)` : "Render job created"],
+        formats,
+        draft_height: draftHeight,
       })
       .select()
       .single();
@@ -114,11 +201,26 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Update project status
-    await supabase
-      .from("projects")
-      .update({ status: "rendering" })
-      .eq("id", id);
+    // Record the timeline this render was made from
+    try {
+      await snapshotProjectVersion(adminSupabase, {
+        projectId: id,
+        userId: user.id,
+        timeline: project.timeline_json,
+        source: "render",
+        renderJobId: job.id,
+      });
+    } catch (versionError) {
+      console.error("Error recording project version:", versionError);
+    }
+
+    // Update project status (drafts run alongside the project's video)
+    if (!draftHeight) {
+      await supabase
+        .from("projects")
+        .update({ status: "rendering" })
+        .eq("id", id);
+    }
 
     // Enqueue the render job for the worker
     try {
@@ -137,10 +239,12 @@ export async function POST(request: NextRequest, context: RouteContext) {
         })
         .eq("id", job.id);
 
-      await supabase
-        .from("projects")
-        .update({ status: "failed" })
-        .eq("id", id);
+      if (!draftHeight) {
+        await supabase
+          .from("projects")
+          .update({ status: "failed" })
+          .eq("id", id);
+      }
 
       return NextResponse.json(
         { error: "Failed to enqueue render job" },
@@ -1,10 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { snapshotProjectVersion } from "@/lib/versions";
+import { validateStoredTimeline, withUpgradedTimeline } from "@/lib/timeline/stored";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
 }
 
+// projects.revision as an entity tag, and back
+function revisionTag(revision: number): string {
+  return `"${revision}"`;
+}
+
+function parseRevisionTag(tag: string): number | null {
+  const revision = Number(tag.trim().replace(/^W\//, "").replace(/"/g, ""));
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+}
+
 // GET - Fetch a project
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
@@ -27,14 +39,19 @@ export async function GET(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ project });
+    return NextResponse.json(
+      { project: withUpgradedTimeline(project) },
+      { headers: { ETag: revisionTag(project.revision) } }
+    );
   } catch (error) {
     console.error("Error fetching project:", error);
     return NextResponse.json({ error: "Failed to fetch project" }, { status: 500 });
   }
 }
 
-// PATCH - Update a project
+// PATCH - Update a project. With If-Match: "<revision>" the update only
+// applies while the project is at that revision; otherwise it answers 409
+// with the current project so the client can merge.
 export async function PATCH(request: NextRequest, context: RouteContext) {
   try {
     const { id } = await context.params;
@@ -45,6 +62,12 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const ifMatch = request.headers.get("if-match");
+    const expectedRevision = ifMatch ? parseRevisionTag(ifMatch) : null;
+    if (ifMatch && expectedRevision === null) {
+      return NextResponse.json({ error: "If-Match must be a project revision" }, { status: 400 });
+    }
+
     const body = await request.json();
     const { title, timeline_json, status, aspect_ratio } = body;
 
@@ -54,24 +77,66 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     };
 
     if (title !== undefined) updates.title = title;
-    if (timeline_json !== undefined) updates.timeline_json = timeline_json;
+    if (timeline_json !== undefined) {
+      const validation = validateStoredTimeline(timeline_json);
+      if (!validation.success) {
+        return NextResponse.json({ error: "Invalid timeline", issues: validation.issues }, { status: 400 });
+      }
+      updates.timeline_json = validation.data;
+    }
     if (status !== undefined) updates.status = status;
     if (aspect_ratio !== undefined) updates.aspect_ratio = aspect_ratio;
 
-    const { data: project, error } = await supabase
+    let query = supabase
       .from("projects")
       .update(updates)
       .eq("id", id)
-      .eq("owner_id", user.id)
-      .select()
-      .single();
+      .eq("owner_id", user.id);
+    if (expectedRevision !== null) {
+      query = query.eq("revision", expectedRevision);
+    }
+    const { data: project, error } = await query.select().maybeSingle();
 
     if (error) {
       console.error("Error updating project:", error);
       return NextResponse.json({ error: "Failed to update project" }, { status: 500 });
     }
 
-    return NextResponse.json({ project });
+    if (!project) {
+      const { data: current } = await supabase
+        .from("projects")
+        .select("*")
+        .eq("id", id)
+        .eq("owner_id", user.id)
+        .maybeSingle();
+
+      if (!current) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 });
+      }
+
+      // Someone else saved since this client's revision
+      return NextResponse.json(
+        { error: "Project was changed elsewhere", project: withUpgradedTimeline(current) },
+        { status: 409, headers: { ETag: revisionTag(current.revision) } }
+      );
+    }
+
+    // Keep the saved timeline in the project's history. The save itself has
+    // already gone through, so a failure here is only logged.
+    if (timeline_json !== undefined) {
+      try {
+        await snapshotProjectVersion(createAdminClient(), {
+          projectId: id,
+          userId: user.id,
+          timeline: updates.timeline_json,
+          source: "save",
+        });
+      } catch (versionError) {
+        console.error("Error recording project version:", versionError);
+      }
+    }
+
+    return NextResponse.json({ project }, { headers: { ETag: revisionTag(project.revision) } });
   } catch (error) {
     console.error("Error updating project:", error);
     return NextResponse.json({ error: "Failed to update project" }, { status: 500 });
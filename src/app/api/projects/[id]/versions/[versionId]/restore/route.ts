@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { preserveCurrentTimeline, snapshotProjectVersion } from "@/lib/versions";
+import { validateStoredTimeline } from "@/lib/timeline/stored";
+
+interface RouteContext {
+  params: Promise<{ id: string; versionId: string }>;
+}
+
+/**
+ * Bring back an earlier version: it becomes the project's timeline and the
+ * newest version (source "restore"). The timeline it replaces stays in the
+ * history, so a restore can itself be undone by restoring.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, versionId } = await context.params;
+    const supabase = await createClient();
+    const adminSupabase = createAdminClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: project, error: fetchError } = await supabase
+      .from("projects")
+      .select("id, timeline_json")
+      .eq("id", id)
+      .eq("owner_id", user.id)
+      .single();
+
+    if (fetchError || !project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const { data: version, error: versionError } = await supabase
+      .from("project_versions")
+      .select("id, version, timeline_json")
+      .eq("id", versionId)
+      .eq("project_id", id)
+      .single();
+
+    if (versionError || !version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    // Versions are stored as they were saved; older ones may predate the
+    // current schema
+    const validation = validateStoredTimeline(version.timeline_json);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "This version can't be restored: its timeline is no longer valid", issues: validation.issues },
+        { status: 422 }
+      );
+    }
+
+    // Don't replace a timeline that isn't in the history yet
+    await preserveCurrentTimeline(adminSupabase, {
+      projectId: id,
+      userId: user.id,
+      timeline: project.timeline_json,
+    });
+
+    const { data: updatedProject, error: updateError } = await supabase
+      .from("projects")
+      .update({ timeline_json: validation.data, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("owner_id", user.id)
+      .select()
+      .single();
+
+    if (updateError || !updatedProject) {
+      console.error("Error restoring project version:", updateError);
+      return NextResponse.json({ error: "Failed to restore version" }, { status: 500 });
+    }
+
+    const restored = await snapshotProjectVersion(adminSupabase, {
+      projectId: id,
+      userId: user.id,
+      timeline: validation.data,
+      source: "restore",
+      restoredFrom: version.id,
+    });
+
+    return NextResponse.json({ project: updatedProject, version: restored });
+  } catch (error) {
+    console.error("Error restoring project version:", error);
+    return NextResponse.json(
+      { error: "Failed to restore version" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { diffStoredTimelines } from "@/lib/timeline/diff";
+
+interface RouteContext {
+  params: Promise<{ id: string; versionId: string }>;
+}
+
+/**
+ * One version with its timeline, and what restoring it would change: a diff
+ * from the project's current timeline to this version's, or from another
+ * version's with ?against=<version id>. The diff is null when either
+ * timeline doesn't match the schema.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, versionId } = await context.params;
+    const against = new URL(request.url).searchParams.get("against");
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: project, error: fetchError } = await supabase
+      .from("projects")
+      .select("id, timeline_json")
+      .eq("id", id)
+      .eq("owner_id", user.id)
+      .single();
+
+    if (fetchError || !project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const ids = against ? [versionId, against] : [versionId];
+    const { data: versions, error: versionsError } = await supabase
+      .from("project_versions")
+      .select("*")
+      .eq("project_id", id)
+      .in("id", ids);
+
+    if (versionsError) {
+      throw versionsError;
+    }
+
+    const version = versions?.find((v) => v.id === versionId);
+    const base = against ? versions?.find((v) => v.id === against) : null;
+    if (!version || (against && !base)) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    const diff = diffStoredTimelines(base ? base.timeline_json : project.timeline_json, version.timeline_json);
+
+    return NextResponse.json({ version, diff });
+  } catch (error) {
+    console.error("Error fetching project version:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch project version" },
+      { status: 500 }
+    );
+  }
+}
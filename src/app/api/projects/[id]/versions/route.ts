@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { VERSION_SUMMARY_COLUMNS } from "@/lib/versions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * A project's saved versions, newest first (without their timelines)
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: project, error: fetchError } = await supabase
+      .from("projects")
+      .select("id")
+      .eq("id", id)
+      .eq("owner_id", user.id)
+      .single();
+
+    if (fetchError || !project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const { data: versions, error: versionsError } = await supabase
+      .from("project_versions")
+      .select(VERSION_SUMMARY_COLUMNS)
+      .eq("project_id", id)
+      .order("version", { ascending: false });
+
+    if (versionsError) {
+      throw versionsError;
+    }
+
+    return NextResponse.json({ versions: versions || [] });
+  } catch (error) {
+    console.error("Error fetching project versions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch project versions" },
+      { status: 500 }
+    );
+  }
+}
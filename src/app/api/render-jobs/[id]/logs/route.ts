@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { RenderJobLog } from "@/lib/database.types";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Structured log of a render job, oldest first. ?after=<log id> returns only
+ * newer entries (for polling); ?format=text downloads the log as a text file.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const { searchParams } = new URL(request.url);
+    const after = Number(searchParams.get("after")) || 0;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get render job with project ownership check
+    const { data: job, error: fetchError } = await supabase
+      .from("render_jobs")
+      .select("id, projects!inner(owner_id)")
+      .eq("id", id)
+      .single();
+
+    if (fetchError || !job) {
+      return NextResponse.json({ error: "Render job not found" }, { status: 404 });
+    }
+
+    if ((job.projects as unknown as { owner_id: string }).owner_id !== user.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { data: logs, error: logsError } = await supabase
+      .from("render_job_logs")
+      .select("*")
+      .eq("job_id", id)
+      .gt("id", after)
+      .order("id", { ascending: true });
+
+    if (logsError) {
+      throw logsError;
+    }
+
+    if (searchParams.get("format") === "text") {
+      return new NextResponse(formatLogText((logs || []) as RenderJobLog[]), {
+        headers: {
+          "Content-Type": "text/plain; charset=utf-8",
+          "Content-Disposition": `attachment; filename="render-${id}.log"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ logs: logs || [] });
+  } catch (error) {
+    console.error("Error fetching render job logs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch render job logs" },
+      { status: 500 }
+    );
+  }
+}
+
+// One line per entry, with the FFmpeg command, stderr and other details indented below it
+function formatLogText(logs: RenderJobLog[]): string {
+  return logs
+    .map((entry) => {
+      const { command, stderrTail, ...rest } = (entry.data ?? {}) as Record<string, unknown>;
+      const lines = [
+        `${entry.created_at} #${entry.attempt} ${entry.level.toUpperCase()} [${entry.stage}] ${entry.message}` +
+          (entry.worker_host ? ` (${entry.worker_host})` : ""),
+      ];
+      if (typeof command === "string") lines.push(`    $ ${command}`);
+      if (typeof stderrTail === "string") lines.push(...stderrTail.split("\n").map((line) => `    | ${line}`));
+      if (Object.keys(rest).length > 0) lines.push(`    ${JSON.stringify(rest)}`);
+      return lines.join("\n");
+    })
+    .join("\n");
+}
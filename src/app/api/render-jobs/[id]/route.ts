@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { refundRenderCredits } from "@/lib/credits";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -47,9 +48,86 @@ export async function GET(request: NextRequest, context: RouteContext) {
   }
 }
 
+/**
+ * Cancel a queued or running render and refund its credits (drafts cost
+ * none). The worker notices the status change and stops FFmpeg.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const supabase = await createClient();
+    const adminSupabase = createAdminClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: job, error: fetchError } = await supabase
+      .from("render_jobs")
+      .select(`
+        *,
+        projects!inner(owner_id, title, output_url)
+      `)
+      .eq("id", id)
+      .single();
+
+    if (fetchError || !job) {
+      return NextResponse.json({ error: "Render job not found" }, { status: 404 });
+    }
 
+    const project = job.projects as { owner_id: string; title: string; output_url: string | null };
+    if (project.owner_id !== user.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
 
+    // Only one request can move the job out of queued/running, so the
+    // credits are refunded exactly once
+    const now = new Date().toISOString();
+    const { data: cancelled } = await adminSupabase
+      .from("render_jobs")
+      .update({
+        status: "cancelled",
+        error: "Cancelled by user",
+        cancelled_at: now,
+        finished_at: now,
+        updated_at: now,
+      })
+      .eq("id", id)
+      .in("status", ["queued", "running"])
+      .select()
+      .maybeSingle();
 
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: `Render job is already ${job.status}` },
+        { status: 409 }
+      );
+    }
 
+    if (cancelled.draft_height) {
+      return NextResponse.json({ job: cancelled, refunded: 0 });
+    }
 
+    const refunded = await refundRenderCredits(
+      adminSupabase,
+      user.id,
+      cancelled,
+      `Refund: cancelled render of ${project.title}`
+    );
+
+    // Back to the last finished video, if there is one
+    await supabase
+      .from("projects")
+      .update({ status: project.output_url ? "finished" : "draft" })
+      .eq("id", job.project_id);
 
+    return NextResponse.json({ job: cancelled, refunded });
+  } catch (error) {
+    console.error("Error cancelling render job:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel render job" },
+      { status: 500 }
+    );
+  }
+}
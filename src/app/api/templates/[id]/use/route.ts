@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { createClient as createAdminClient } from "@supabase/supabase-js";
 import { v4 as uuid } from "uuid";
+import { validateStoredTimeline } from "@/lib/timeline/stored";
 
 function getAdminSupabase() {
   return createAdminClient(
@@ -55,7 +56,14 @@ export async function POST(
     }
 
     // Apply variables to the timeline template
-    const timeline = applyVariables(template.timeline_template, variables || {});
+    const validation = validateStoredTimeline(applyVariables(template.timeline_template, variables || {}));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Template did not produce a valid timeline", issues: validation.issues },
+        { status: 422 }
+      );
+    }
+    const timeline = validation.data as { project: { id: string; title?: string } };
     
     // Generate a new project ID
     const projectId = uuid();
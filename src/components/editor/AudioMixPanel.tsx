@@ -0,0 +1,161 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { Mic, Music, Volume2 } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Separator } from "@/components/ui/separator";
+import { formatDuration } from "@/lib/date";
+import type { VolumeEnvelope } from "@/lib/timeline/v1";
+import type { StoredTimelineV1 } from "@/lib/timeline/stored";
+import { VolumeEnvelopeEditor } from "./VolumeEnvelopeEditor";
+
+interface AudioMixPanelProps {
+  timeline: StoredTimelineV1;
+  onChange: (timeline: StoredTimelineV1) => void;
+}
+
+interface AudioSettings {
+  volume: number;
+  envelope?: VolumeEnvelope;
+}
+
+function AudioSettingsEditor({
+  label,
+  settings,
+  onChange,
+}: {
+  label: ReactNode;
+  settings: AudioSettings;
+  onChange: (updates: Partial<AudioSettings>) => void;
+}) {
+  return (
+    <div className="space-y-2 rounded-md border border-border p-3">
+      <div className="flex items-center justify-between text-xs">{label}</div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Volume: {Math.round(settings.volume * 100)}%</Label>
+        <Slider
+          value={[settings.volume]}
+          max={1}
+          step={0.05}
+          onValueChange={(value) => onChange({ volume: value[0] })}
+        />
+      </div>
+      <VolumeEnvelopeEditor envelope={settings.envelope} onChange={(envelope) => onChange({ envelope })} />
+    </div>
+  );
+}
+
+/**
+ * Volume and volume envelope of every audio element of a v1 timeline:
+ * music, voiceover, the speaker's audio in talking head videos and sound
+ * effects
+ */
+export function AudioMixPanel({ timeline, onChange }: AudioMixPanelProps) {
+  const { music, voiceover } = timeline.global;
+  const hasMusic = !!(music.assetId || music.audioUrl);
+  // Talking head videos play the speaker's audio instead of a voiceover
+  const hasVoiceover = !!(voiceover.assetId || voiceover.audioUrl) && !timeline.rendering?.isTalkingHead;
+  const audioTracks = timeline.audioTracks ?? [];
+  const soundEffects = timeline.soundEffects ?? [];
+
+  const updateGlobal = (role: "music" | "voiceover", updates: Partial<AudioSettings>) =>
+    onChange({
+      ...timeline,
+      global: { ...timeline.global, [role]: { ...timeline.global[role], ...updates } },
+    });
+
+  if (!hasMusic && !hasVoiceover && audioTracks.length === 0 && soundEffects.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">This video has no audio to mix</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {hasMusic && (
+        <AudioSettingsEditor
+          label={
+            <span className="flex items-center gap-2 font-medium">
+              <Music className="w-4 h-4" />
+              {music.title || "Background Music"}
+            </span>
+          }
+          settings={music}
+          onChange={(updates) => updateGlobal("music", updates)}
+        />
+      )}
+
+      {hasVoiceover && (
+        <AudioSettingsEditor
+          label={
+            <span className="flex items-center gap-2 font-medium">
+              <Mic className="w-4 h-4" />
+              Voiceover
+            </span>
+          }
+          settings={voiceover}
+          onChange={(updates) => updateGlobal("voiceover", updates)}
+        />
+      )}
+
+      {audioTracks.length > 0 && (
+        <>
+          <Separator />
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Mic className="w-4 h-4" />
+              <Label className="font-medium">Speaker</Label>
+            </div>
+            {audioTracks.map((track, index) => (
+              <AudioSettingsEditor
+                key={track.id}
+                label={
+                  <>
+                    <span className="font-medium">Source {index + 1}</span>
+                    <span className="text-muted-foreground">at {formatDuration(track.startOffset ?? 0)}</span>
+                  </>
+                }
+                settings={{ volume: track.volume ?? 1, envelope: track.envelope }}
+                onChange={(updates) =>
+                  onChange({
+                    ...timeline,
+                    audioTracks: audioTracks.map((t) => (t.id === track.id ? { ...t, ...updates } : t)),
+                  })
+                }
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {soundEffects.length > 0 && (
+        <>
+          <Separator />
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Volume2 className="w-4 h-4" />
+              <Label className="font-medium">Sound Effects</Label>
+            </div>
+            {soundEffects.map((sfx) => (
+              <AudioSettingsEditor
+                key={sfx.id}
+                label={
+                  <>
+                    <span className="font-medium truncate">{sfx.title}</span>
+                    <span className="text-muted-foreground">at {formatDuration(sfx.atTimeSec)}</span>
+                  </>
+                }
+                settings={sfx}
+                onChange={(updates) =>
+                  onChange({
+                    ...timeline,
+                    soundEffects: soundEffects.map((s) => (s.id === sfx.id ? { ...s, ...updates } : s)),
+                  })
+                }
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
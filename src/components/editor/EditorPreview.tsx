@@ -1,207 +1,181 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
-import { Loader2, AlertCircle, RefreshCw } from "lucide-react";
-import { Button } from "@/components/ui/button";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Player } from "@remotion/player";
+import type { PlayerRef } from "@remotion/player";
+import { Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { TimelineData } from "@/app/(dashboard)/app/projects/[id]/edit/page";
+import type { TimelineV2 } from "@/lib/timeline/v2";
+import {
+  TimelineComposition,
+  previewAssetIds,
+  previewDurationSec,
+  type PreviewMedia,
+} from "@/components/editor/TimelineComposition";
 
 interface EditorPreviewProps {
-  timeline: TimelineData;
+  timeline: TimelineV2;
   currentTime: number;
   isPlaying: boolean;
-  selectedSceneIndex: number | null;
+  isMuted?: boolean;
   onTimeUpdate?: (time: number) => void;
+  onPlayingChange?: (isPlaying: boolean) => void;
+  className?: string;
 }
 
-type LoadState = "loading" | "loaded" | "error";
+// How often the playhead is reported while playing
+const TIME_UPDATE_MS = 100;
 
+/**
+ * Frame-accurate preview of the whole timeline - every track, transitions,
+ * overlays, captions, effects and the audio mix - drawn the way the render
+ * worker draws it (see TimelineComposition). The parent owns the playhead:
+ * the player seeks to currentTime and plays while isPlaying, and reports
+ * its position back through onTimeUpdate.
+ */
 export function EditorPreview({
   timeline,
   currentTime,
   isPlaying,
-  selectedSceneIndex,
+  isMuted = false,
   onTimeUpdate,
+  onPlayingChange,
+  className,
 }: EditorPreviewProps) {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [loadState, setLoadState] = useState<LoadState>("loading");
+  const playerRef = useRef<PlayerRef>(null);
+  const [media, setMedia] = useState<PreviewMedia>({});
   const [isBuffering, setIsBuffering] = useState(false);
-  const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
+  // Last frame reported to the parent, so its echo doesn't cause a seek
+  const reportedFrame = useRef<number | null>(null);
+  const callbacks = useRef({ onTimeUpdate, onPlayingChange });
 
-  // Calculate scene start times
-  const sceneStartTimes: number[] = [];
-  let accum = 0;
-  for (const scene of timeline.scenes) {
-    sceneStartTimes.push(accum);
-    accum += scene.durationSec;
-  }
+  const { width, height } = timeline.project.resolution;
+  const fps = timeline.project.fps || 30;
+  const durationInFrames = Math.max(1, Math.round(previewDurationSec(timeline) * fps));
+
+  useEffect(() => {
+    callbacks.current = { onTimeUpdate, onPlayingChange };
+  });
 
-  // Calculate which scene we're in based on currentTime
+  // Look up asset URLs the timeline references that haven't been fetched yet
+  const missingIds = previewAssetIds(timeline).filter((id) => !(id in media)).join(",");
   useEffect(() => {
-    for (let i = timeline.scenes.length - 1; i >= 0; i--) {
-      if (currentTime >= sceneStartTimes[i]) {
-        setCurrentSceneIndex(i);
-        return;
+    if (!missingIds) return;
+
+    let cancelled = false;
+    const fetchAssets = async () => {
+      const urls: PreviewMedia = {};
+      try {
+        const res = await fetch(`/api/assets?ids=${encodeURIComponent(missingIds)}`);
+        if (res.ok) {
+          const data: { assets: { id: string; public_url: string | null }[] } = await res.json();
+          for (const asset of data.assets) urls[asset.id] = asset.public_url || "";
+        }
+      } catch (error) {
+        console.error("Failed to fetch preview assets:", error);
       }
-    }
-    setCurrentSceneIndex(0);
-  }, [currentTime, timeline.scenes.length, sceneStartTimes]);
-
-  // Get current scene (prefer selected, fallback to playhead position)
-  const displaySceneIndex = selectedSceneIndex ?? currentSceneIndex;
-  const currentScene = timeline.scenes[displaySceneIndex];
-  const clipUrl = currentScene?.clipUrl;
-
-  // Build video source URL
-  const videoSrc = clipUrl 
-    ? (clipUrl.includes("drive.google.com") || clipUrl.includes("googleusercontent")
-        ? `/api/proxy/video?url=${encodeURIComponent(clipUrl)}`
-        : clipUrl)
-    : null;
-
-  // Handle video play/pause
+      if (cancelled) return;
+      // Ids that didn't come back are recorded as missing so they aren't asked for again
+      setMedia((current) => ({
+        ...current,
+        ...Object.fromEntries(missingIds.split(",").map((id) => [id, urls[id] ?? ""])),
+      }));
+    };
+
+    fetchAssets();
+    return () => {
+      cancelled = true;
+    };
+  }, [missingIds]);
+
+  // Follow the parent's playhead
   useEffect(() => {
-    if (!videoRef.current) return;
-    
-    if (isPlaying) {
-      videoRef.current.play().catch(() => {});
-    } else {
-      videoRef.current.pause();
-    }
+    const player = playerRef.current;
+    if (!player) return;
+    const frame = Math.min(durationInFrames - 1, Math.round(currentTime * fps));
+    if (frame === reportedFrame.current) return;
+    if (Math.abs(player.getCurrentFrame() - frame) > 1) player.seekTo(frame);
+  }, [currentTime, fps, durationInFrames]);
+
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    if (isPlaying && !player.isPlaying()) player.play();
+    else if (!isPlaying && player.isPlaying()) player.pause();
   }, [isPlaying]);
 
-  // Sync video time with timeline
   useEffect(() => {
-    if (!videoRef.current || !currentScene) return;
-    
-    // Calculate time within current scene
-    const sceneStart = sceneStartTimes[displaySceneIndex] || 0;
-    const timeInScene = currentTime - sceneStart;
-    const clampedTime = Math.max(0, Math.min(timeInScene, currentScene.durationSec));
-    
-    // Seek video to correct position
-    if (Math.abs(videoRef.current.currentTime - (currentScene.inSec + clampedTime)) > 0.5) {
-      videoRef.current.currentTime = currentScene.inSec + clampedTime;
-    }
-  }, [currentTime, displaySceneIndex, currentScene, sceneStartTimes]);
-
-  // Report time updates back
+    const player = playerRef.current;
+    if (!player) return;
+    if (isMuted) player.mute();
+    else player.unmute();
+  }, [isMuted]);
+
   useEffect(() => {
-    if (!videoRef.current || !onTimeUpdate) return;
-
-    const handleTimeUpdate = () => {
-      if (!videoRef.current || !currentScene) return;
-      
-      const sceneStart = sceneStartTimes[displaySceneIndex] || 0;
-      const videoTime = videoRef.current.currentTime - currentScene.inSec;
-      onTimeUpdate(sceneStart + videoTime);
-    };
+    const player = playerRef.current;
+    if (!player) return;
 
-    videoRef.current.addEventListener("timeupdate", handleTimeUpdate);
+    let lastReport = 0;
+    const report = (frame: number) => {
+      reportedFrame.current = frame;
+      callbacks.current.onTimeUpdate?.(frame / fps);
+    };
+    const onFrameUpdate = ({ detail }: { detail: { frame: number } }) => {
+      const now = performance.now();
+      if (now - lastReport < TIME_UPDATE_MS) return;
+      lastReport = now;
+      report(detail.frame);
+    };
+    const onPause = () => {
+      report(player.getCurrentFrame());
+      callbacks.current.onPlayingChange?.(false);
+    };
+    const onEnded = () => {
+      callbacks.current.onPlayingChange?.(false);
+      callbacks.current.onTimeUpdate?.(0);
+    };
+    const onWaiting = () => setIsBuffering(true);
+    const onResume = () => setIsBuffering(false);
+
+    player.addEventListener("frameupdate", onFrameUpdate);
+    player.addEventListener("pause", onPause);
+    player.addEventListener("ended", onEnded);
+    player.addEventListener("waiting", onWaiting);
+    player.addEventListener("resume", onResume);
     return () => {
-      videoRef.current?.removeEventListener("timeupdate", handleTimeUpdate);
+      player.removeEventListener("frameupdate", onFrameUpdate);
+      player.removeEventListener("pause", onPause);
+      player.removeEventListener("ended", onEnded);
+      player.removeEventListener("waiting", onWaiting);
+      player.removeEventListener("resume", onResume);
     };
-  }, [displaySceneIndex, currentScene, sceneStartTimes, onTimeUpdate]);
-
-  // Handle video events
-  const handleLoadStart = () => setLoadState("loading");
-  const handleLoadedData = () => setLoadState("loaded");
-  const handleError = () => setLoadState("error");
-  const handleWaiting = () => setIsBuffering(true);
-  const handlePlaying = () => setIsBuffering(false);
-  const handleCanPlay = () => setIsBuffering(false);
-
-  const handleRetry = () => {
-    setLoadState("loading");
-    if (videoRef.current) {
-      videoRef.current.load();
-    }
-  };
-
-  // Aspect ratio
-  const { width, height } = timeline.project.resolution;
-  const isLandscape = width >= height;
-
-  return (
-    <div 
-      className={cn(
-        "relative bg-black rounded-lg overflow-hidden shadow-2xl",
-        isLandscape ? "w-full max-w-4xl" : "h-full max-h-[70vh]"
-      )}
-      style={{ aspectRatio: `${width} / ${height}` }}
-      onClick={(e) => e.stopPropagation()}
-    >
-      {/* Video element */}
-      {videoSrc && (
-        <video
-          ref={videoRef}
-          key={videoSrc} // Force remount when source changes
-          src={videoSrc}
-          className={cn(
-            "absolute inset-0 w-full h-full object-contain",
-            loadState === "loaded" ? "opacity-100" : "opacity-0"
-          )}
-          onLoadStart={handleLoadStart}
-          onLoadedData={handleLoadedData}
-          onError={handleError}
-          onWaiting={handleWaiting}
-          onPlaying={handlePlaying}
-          onCanPlay={handleCanPlay}
-          muted
-          playsInline
-        />
-      )}
+  }, [fps]);
 
-      {/* Loading state */}
-      {loadState === "loading" && (
-        <div className="absolute inset-0 flex flex-col items-center justify-center bg-muted">
-          <Loader2 className="w-10 h-10 animate-spin text-primary mb-4" />
-          <p className="text-sm text-muted-foreground">Loading preview...</p>
-        </div>
-      )}
+  const inputProps = useMemo(() => ({ timeline, media }), [timeline, media]);
 
-      {/* Buffering spinner */}
-      {isBuffering && loadState === "loaded" && (
+  return (
+    <div className={cn("relative w-full h-full", className)}>
+      <Player
+        ref={playerRef}
+        component={TimelineComposition}
+        inputProps={inputProps}
+        durationInFrames={durationInFrames}
+        compositionWidth={width}
+        compositionHeight={height}
+        fps={fps}
+        initiallyMuted={isMuted}
+        clickToPlay={false}
+        spaceKeyToPlayOrPause={false}
+        style={{ width: "100%", height: "100%" }}
+      />
+
+      {isBuffering && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
           <div className="bg-black/60 rounded-full p-4">
             <Loader2 className="w-8 h-8 animate-spin text-white" />
           </div>
         </div>
       )}
-
-      {/* Error state */}
-      {loadState === "error" && (
-        <div className="absolute inset-0 flex flex-col items-center justify-center bg-muted">
-          <AlertCircle className="w-10 h-10 text-destructive mb-4" />
-          <p className="text-sm text-muted-foreground mb-4">
-            {clipUrl ? "Failed to load preview" : "No video clip assigned"}
-          </p>
-          {clipUrl && (
-            <Button variant="outline" size="sm" onClick={handleRetry}>
-              <RefreshCw className="w-4 h-4 mr-2" />
-              Retry
-            </Button>
-          )}
-        </div>
-      )}
-
-      {/* Text overlays preview */}
-      {currentScene?.overlays?.text && (
-        <div 
-          className="absolute pointer-events-none"
-          style={{
-            left: `${currentScene.overlays.x ?? 50}%`,
-            top: `${currentScene.overlays.y ?? 50}%`,
-            transform: "translate(-50%, -50%)",
-            color: currentScene.overlays.style?.color ?? "#FFFFFF",
-            fontSize: `${(currentScene.overlays.style?.fontSize ?? 5) * 6}px`,
-            fontFamily: currentScene.overlays.style?.fontFamily ?? "Inter",
-            textShadow: "2px 2px 4px rgba(0,0,0,0.8)",
-          }}
-        >
-          {currentScene.overlays.text}
-        </div>
-      )}
     </div>
   );
 }
@@ -15,6 +15,11 @@ import {
   MoveHorizontal,
   ZoomIn,
   ArrowLeftRight,
+  FileText,
+  Undo2,
+  Redo2,
+  ListChecks,
+  SlidersHorizontal,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -81,6 +86,14 @@ interface EditorTopBarProps {
   onDuplicate?: () => void;
   onChangeTransition: (transition: TransitionPreset | null) => void;
   onChangeAnimation?: (animation: AnimationPreset) => void;
+  onEditTranscript?: () => void; // Talking head timelines only
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onShowAudioMix: () => void;
+  onShowChecks: () => void;
+  checkCount: number; // Timeline lint issues
   onRender: () => void;
   onBack: () => void;
   isSaving: boolean;
@@ -97,6 +110,14 @@ export function EditorTopBar({
   onDuplicate,
   onChangeTransition,
   onChangeAnimation,
+  onEditTranscript,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  onShowAudioMix,
+  onShowChecks,
+  checkCount,
   onRender,
   onBack,
   isSaving,
@@ -263,6 +284,12 @@ export function EditorTopBar({
               <Type className="w-4 h-4 mr-2" />
               Add Text
             </Button>
+            {onEditTranscript && (
+              <Button variant="outline" size="sm" onClick={onEditTranscript}>
+                <FileText className="w-4 h-4 mr-2" />
+                Edit Transcript
+              </Button>
+            )}
             <span className="text-sm text-muted-foreground px-2">
               Click a scene in the timeline to edit it
             </span>
@@ -273,6 +300,31 @@ export function EditorTopBar({
       {/* Spacer */}
       <div className="flex-1" />
 
+      {/* History */}
+      <Button variant="ghost" size="icon" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+        <Undo2 className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+        <Redo2 className="w-4 h-4" />
+      </Button>
+
+      {/* Audio mix */}
+      <Button variant="ghost" size="sm" onClick={onShowAudioMix}>
+        <SlidersHorizontal className="w-4 h-4 mr-2" />
+        Audio
+      </Button>
+
+      {/* Timeline checks */}
+      <Button variant="ghost" size="sm" onClick={onShowChecks}>
+        <ListChecks className="w-4 h-4 mr-2" />
+        Checks
+        {checkCount > 0 && (
+          <Badge variant="secondary" className="ml-2 font-mono text-xs">
+            {checkCount}
+          </Badge>
+        )}
+      </Button>
+
       {/* Save indicator */}
       {isSaving && (
         <div className="flex items-center gap-2 text-sm text-muted-foreground">
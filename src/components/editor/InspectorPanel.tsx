@@ -10,6 +10,7 @@ import {
   Palette,
   Settings,
   Clock,
+  Volume2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -29,6 +30,10 @@ import { useEditorStore } from "@/lib/state/editorStore";
 import { formatDuration } from "@/lib/date";
 import type { MediaAsset, BrandPreset } from "@/lib/database.types";
 import type { Scene } from "@/lib/timeline/v1";
+import { getMainClips, getAudioTrack } from "@/lib/timeline/v2";
+import { lintTimeline, applyLintFix, type LintIssue } from "@/lib/timeline/lint";
+import { VolumeEnvelopeEditor } from "./VolumeEnvelopeEditor";
+import { TimelineChecks } from "./TimelineChecks";
 
 interface InspectorPanelProps {
   assets: MediaAsset[];
@@ -42,15 +47,36 @@ export function InspectorPanel({ assets, brandPresets }: InspectorPanelProps) {
     updateSceneById,
     updateGlobalMusic,
     updateGlobalVoiceover,
+    updateAudioClip,
     updateGlobalBrand,
     updateGlobalExport,
+    setTimeline,
+    selectScene,
+    setCurrentTime,
   } = useEditorStore();
 
   const selectedScene = useMemo(() => {
     if (!timeline || !selectedSceneId) return null;
-    return timeline.scenes.find((s) => s.id === selectedSceneId) || null;
+    return getMainClips(timeline).find((s) => s.id === selectedSceneId) || null;
   }, [timeline, selectedSceneId]);
 
+  const musicClip = useMemo(
+    () => (timeline ? getAudioTrack(timeline, "music")?.clips[0] ?? null : null),
+    [timeline]
+  );
+  const voiceoverClip = useMemo(
+    () => (timeline ? getAudioTrack(timeline, "voiceover")?.clips[0] ?? null : null),
+    [timeline]
+  );
+
+  // Dialogue and SFX clips; music and voiceover have their own sections
+  const otherAudioTracks = useMemo(
+    () => (timeline ? timeline.tracks.audio.filter((t) => t.role !== "music" && t.role !== "voiceover") : []),
+    [timeline]
+  );
+
+  const lintIssues = useMemo(() => (timeline ? lintTimeline(timeline) : []), [timeline]);
+
   const videoAssets = useMemo(
     () => assets.filter((a) => a.kind === "video"),
     [assets]
@@ -80,13 +106,23 @@ export function InspectorPanel({ assets, brandPresets }: InspectorPanelProps) {
     } as Partial<Scene>);
   };
 
+  const selectLintIssue = (issue: LintIssue) => {
+    if (issue.timeSec !== null) setCurrentTime(issue.timeSec);
+    if (issue.target.type === "videoClip" && getMainClips(timeline).some((c) => c.id === issue.target.id)) {
+      selectScene(issue.target.id);
+    }
+  };
+
   return (
     <div className="flex flex-col h-full">
       <Tabs defaultValue="scene" className="flex-1 flex flex-col">
         <div className="shrink-0 border-b border-border px-4">
-          <TabsList className="w-full grid grid-cols-2">
+          <TabsList className="w-full grid grid-cols-3">
             <TabsTrigger value="scene">Scene</TabsTrigger>
             <TabsTrigger value="global">Global</TabsTrigger>
+            <TabsTrigger value="checks">
+              Checks{lintIssues.length > 0 && ` (${lintIssues.length})`}
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -305,7 +341,7 @@ export function InspectorPanel({ assets, brandPresets }: InspectorPanelProps) {
               </div>
 
               <Select
-                value={timeline.global.music.assetId || "__none__"}
+                value={musicClip?.assetId || "__none__"}
                 onValueChange={(value) =>
                   updateGlobalMusic({ assetId: value === "__none__" ? null : value })
                 }
@@ -325,10 +361,10 @@ export function InspectorPanel({ assets, brandPresets }: InspectorPanelProps) {
 
               <div className="space-y-1">
                 <Label className="text-xs text-muted-foreground">
-                  Volume: {Math.round(timeline.global.music.volume * 100)}%
+                  Volume: {Math.round((musicClip?.volume ?? 0.3) * 100)}%
                 </Label>
                 <Slider
-                  value={[timeline.global.music.volume]}
+                  value={[(musicClip?.volume ?? 0.3)]}
                   max={1}
                   step={0.05}
                   onValueChange={(value) =>
@@ -336,6 +372,13 @@ export function InspectorPanel({ assets, brandPresets }: InspectorPanelProps) {
                   }
                 />
               </div>
+
+              {musicClip && (
+                <VolumeEnvelopeEditor
+                  envelope={musicClip.envelope}
+                  onChange={(envelope) => updateGlobalMusic({ envelope })}
+                />
+              )}
             </div>
 
             <Separator />
@@ -348,7 +391,7 @@ export function InspectorPanel({ assets, brandPresets }: InspectorPanelProps) {
               </div>
 
               <Select
-                value={timeline.global.voiceover.assetId || "__none__"}
+                value={voiceoverClip?.assetId || "__none__"}
                 onValueChange={(value) =>
                   updateGlobalVoiceover({ assetId: value === "__none__" ? null : value })
                 }
@@ -368,10 +411,10 @@ export function InspectorPanel({ assets, brandPresets }: InspectorPanelProps) {
 
               <div className="space-y-1">
                 <Label className="text-xs text-muted-foreground">
-                  Volume: {Math.round(timeline.global.voiceover.volume * 100)}%
+                  Volume: {Math.round((voiceoverClip?.volume ?? 1) * 100)}%
                 </Label>
                 <Slider
-                  value={[timeline.global.voiceover.volume]}
+                  value={[(voiceoverClip?.volume ?? 1)]}
                   max={1}
                   step={0.05}
                   onValueChange={(value) =>
@@ -379,8 +422,55 @@ export function InspectorPanel({ assets, brandPresets }: InspectorPanelProps) {
                   }
                 />
               </div>
+
+              {voiceoverClip && (
+                <VolumeEnvelopeEditor
+                  envelope={voiceoverClip.envelope}
+                  onChange={(envelope) => updateGlobalVoiceover({ envelope })}
+                />
+              )}
             </div>
 
+            {otherAudioTracks.some((track) => track.clips.length > 0) && (
+              <>
+                <Separator />
+
+                {/* Dialogue and sound effects */}
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Volume2 className="w-4 h-4" />
+                    <Label className="font-medium">Audio Tracks</Label>
+                  </div>
+
+                  {otherAudioTracks.flatMap((track) =>
+                    track.clips.map((clip) => (
+                      <div key={`${track.id}-${clip.id}`} className="space-y-2 rounded-md border border-border p-3">
+                        <div className="flex items-center justify-between text-xs">
+                          <span className="font-medium truncate">{clip.title || track.name || track.role}</span>
+                          <span className="text-muted-foreground">at {formatDuration(clip.startSec)}</span>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs text-muted-foreground">
+                            Volume: {Math.round(clip.volume * 100)}%
+                          </Label>
+                          <Slider
+                            value={[clip.volume]}
+                            max={1}
+                            step={0.05}
+                            onValueChange={(value) => updateAudioClip(track.id, clip.id, { volume: value[0] })}
+                          />
+                        </div>
+                        <VolumeEnvelopeEditor
+                          envelope={clip.envelope}
+                          onChange={(envelope) => updateAudioClip(track.id, clip.id, { envelope })}
+                        />
+                      </div>
+                    ))
+                  )}
+                </div>
+              </>
+            )}
+
             <Separator />
 
             {/* Brand */}
@@ -496,6 +586,15 @@ export function InspectorPanel({ assets, brandPresets }: InspectorPanelProps) {
               </div>
             </div>
           </TabsContent>
+
+          {/* Checks Tab */}
+          <TabsContent value="checks" className="m-0 p-4">
+            <TimelineChecks
+              issues={lintIssues}
+              onSelect={selectLintIssue}
+              onFix={(issue) => setTimeline(applyLintFix(timeline, issue))}
+            />
+          </TabsContent>
         </ScrollArea>
       </Tabs>
     </div>
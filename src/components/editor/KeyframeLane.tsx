@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { Easings, sampleKeyframes } from "@/lib/timeline/v1";
+import type { AnimatableProperty, Easing, Keyframe, KeyframeAnimation } from "@/lib/timeline/v1";
+
+const PROPERTY_LABELS: Record<AnimatableProperty, string> = {
+  x: "X",
+  y: "Y",
+  scale: "Scale",
+  rotation: "Rotate",
+  opacity: "Opacity",
+};
+
+const EASING_LABELS: Record<Easing, string> = {
+  linear: "Linear",
+  ease_in: "Ease in",
+  ease_out: "Ease out",
+  ease_in_out: "Ease in/out",
+  hold: "Hold",
+};
+
+// A scene or text overlay whose keyframes the lane edits
+export interface KeyframeLaneItem {
+  startSec: number; // Timeline time the item starts
+  durationSec: number;
+  keyframes: KeyframeAnimation; // Its own keyframes, or its preset's template
+  isTemplate: boolean; // keyframes come from a preset; the first edit copies them
+  properties: AnimatableProperty[];
+  defaults: Record<AnimatableProperty, number>;
+  min?: Partial<Record<AnimatableProperty, number>>;
+}
+
+interface KeyframeLaneProps {
+  item: KeyframeLaneItem | null;
+  markers: { timeSec: number; isTemplate: boolean }[]; // Every keyframe on the timeline
+  totalDuration: number;
+  currentTime: number;
+  onChange: (keyframes: KeyframeAnimation) => void;
+  onSeek: (time: number) => void;
+}
+
+/**
+ * Keyframe lane under the timeline tracks: diamonds for every keyframe, and
+ * one row per property for the selected item. Click a row to add a keyframe
+ * at the playhead, click a diamond to edit it.
+ */
+export function KeyframeLane({ item, markers, totalDuration, currentTime, onChange, onSeek }: KeyframeLaneProps) {
+  const [selected, setSelected] = useState<{ property: AnimatableProperty; index: number } | null>(null);
+
+  const percent = (timeSec: number) => (totalDuration > 0 ? (timeSec / totalDuration) * 100 : 0);
+
+  const update = (property: AnimatableProperty, keyframes: Keyframe[]) => {
+    if (!item) return;
+    const next: KeyframeAnimation = { ...item.keyframes, [property]: keyframes.length > 0 ? keyframes : undefined };
+    onChange(next);
+  };
+
+  const addKeyframe = (property: AnimatableProperty) => {
+    if (!item) return;
+    const t = Math.max(0, Math.min(item.durationSec, currentTime - item.startSec));
+    const existing = item.keyframes[property] ?? [];
+    const value = sampleKeyframes(existing, t, item.defaults[property]);
+    const keyframes = [...existing.filter((k) => Math.abs(k.t - t) > 0.01), { t, value, easing: "linear" as const }]
+      .sort((a, b) => a.t - b.t);
+    update(property, keyframes);
+    setSelected({ property, index: keyframes.findIndex((k) => k.t === t) });
+  };
+
+  const updateSelected = (updates: Partial<Keyframe>) => {
+    if (!item || !selected) return;
+    const keyframes = [...(item.keyframes[selected.property] ?? [])];
+    const edited = { ...keyframes[selected.index], ...updates };
+    keyframes[selected.index] = edited;
+    keyframes.sort((a, b) => a.t - b.t);
+    update(selected.property, keyframes);
+    setSelected({ property: selected.property, index: keyframes.indexOf(edited) });
+  };
+
+  const deleteSelected = () => {
+    if (!item || !selected) return;
+    update(selected.property, (item.keyframes[selected.property] ?? []).filter((_, i) => i !== selected.index));
+    setSelected(null);
+  };
+
+  const selectedKeyframe = item && selected ? item.keyframes[selected.property]?.[selected.index] : undefined;
+
+  return (
+    <div className="mt-1 space-y-1">
+      {/* Every keyframe on the timeline */}
+      <div className="h-6 bg-muted rounded relative">
+        {markers.map((marker, i) => (
+          <Diamond
+            key={i}
+            left={percent(marker.timeSec)}
+            hollow={marker.isTemplate}
+            onClick={() => onSeek(marker.timeSec)}
+          />
+        ))}
+      </div>
+
+      {/* Property rows for the selected item */}
+      {item &&
+        item.properties.map((property) => (
+          <div
+            key={property}
+            className="h-5 bg-muted/60 rounded relative cursor-copy"
+            onClick={(e) => {
+              e.stopPropagation();
+              addKeyframe(property);
+            }}
+          >
+            <span className="absolute left-1 top-0 bottom-0 flex items-center text-[10px] text-muted-foreground pointer-events-none">
+              {PROPERTY_LABELS[property]}
+            </span>
+            {/* The item's span */}
+            <div
+              className="absolute top-0 bottom-0 bg-primary/10 pointer-events-none"
+              style={{ left: `${percent(item.startSec)}%`, width: `${percent(item.durationSec)}%` }}
+            />
+            {(item.keyframes[property] ?? []).map((keyframe, index) => (
+              <Diamond
+                key={index}
+                left={percent(item.startSec + keyframe.t)}
+                hollow={item.isTemplate}
+                active={selected?.property === property && selected.index === index}
+                onClick={() => {
+                  setSelected({ property, index });
+                  onSeek(item.startSec + keyframe.t);
+                }}
+              />
+            ))}
+          </div>
+        ))}
+
+      {/* Selected keyframe */}
+      {item && selected && selectedKeyframe && (
+        <div className="flex items-center gap-2 pt-1 text-xs" onClick={(e) => e.stopPropagation()}>
+          <span className="text-muted-foreground w-14">{PROPERTY_LABELS[selected.property]}</span>
+          <Input
+            type="number"
+            min={0}
+            max={item.durationSec}
+            step={0.1}
+            className="h-7 w-20 text-xs"
+            value={selectedKeyframe.t}
+            onChange={(e) =>
+              updateSelected({ t: Math.max(0, Math.min(item.durationSec, parseFloat(e.target.value) || 0)) })
+            }
+          />
+          <span className="text-muted-foreground">s</span>
+          <Input
+            type="number"
+            step={selected.property === "opacity" || selected.property === "scale" ? 0.05 : 1}
+            className="h-7 w-20 text-xs"
+            value={selectedKeyframe.value}
+            onChange={(e) => {
+              const min = item.min?.[selected.property] ?? -Infinity;
+              const max = selected.property === "opacity" ? 1 : Infinity;
+              updateSelected({ value: Math.max(min, Math.min(max, parseFloat(e.target.value) || 0)) });
+            }}
+          />
+          <Select value={selectedKeyframe.easing} onValueChange={(easing) => updateSelected({ easing: easing as Easing })}>
+            <SelectTrigger className="h-7 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Easings.map((easing) => (
+                <SelectItem key={easing} value={easing}>
+                  {EASING_LABELS[easing]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={deleteSelected}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Diamond({
+  left,
+  hollow,
+  active,
+  onClick,
+}: {
+  left: number;
+  hollow?: boolean;
+  active?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      className={cn(
+        "absolute top-1/2 w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 border border-primary z-20",
+        hollow ? "bg-background" : "bg-primary",
+        active && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+      )}
+      style={{ left: `${left}%` }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+    />
+  );
+}
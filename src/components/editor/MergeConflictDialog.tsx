@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import type { MergeChoice, MergeConflict } from "@/lib/timeline/merge";
+
+interface MergeConflictDialogProps {
+  conflicts: MergeConflict[]; // Open while there are any
+  onResolve: (choices: Record<string, MergeChoice>) => void;
+  onCancel: () => void; // Decide later: unpicked conflicts keep this editor's side
+}
+
+// Short preview of one side of a conflict
+function formatValue(value: unknown): string {
+  if (value === undefined) return "Removed";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+/**
+ * The edits that were made both here and elsewhere (another tab, the AI)
+ * since this editor last saved. Everything else has already been merged;
+ * for these the user picks which side wins.
+ */
+export function MergeConflictDialog({ conflicts, onResolve, onCancel }: MergeConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  const choose = (path: string, choice: MergeChoice) => {
+    setChoices((current) => ({ ...current, [path]: choice }));
+  };
+
+  const cancel = () => {
+    setChoices({});
+    onCancel();
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) cancel();
+  };
+
+  // Unpicked conflicts keep this editor's version
+  const resolve = () => {
+    onResolve(Object.fromEntries(conflicts.map((c) => [c.path, choices[c.path] ?? "local"])));
+    setChoices({});
+  };
+
+  return (
+    <Dialog open={conflicts.length > 0} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>This project was changed elsewhere</DialogTitle>
+          <DialogDescription>
+            Changes that don&apos;t overlap were merged. These were edited in both places - choose which to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[50vh]">
+          <ul className="space-y-3 pr-3">
+            {conflicts.map((c) => {
+              const choice = choices[c.path] ?? "local";
+              return (
+                <li key={c.path} className="rounded-md border p-3 space-y-2">
+                  <p className="text-sm font-medium">{c.label}</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(["local", "remote"] as const).map((side) => (
+                      <button
+                        key={side}
+                        type="button"
+                        onClick={() => choose(c.path, side)}
+                        className={cn(
+                          "rounded-md border p-2 text-left text-xs",
+                          choice === side ? "border-primary bg-primary/10" : "hover:bg-muted"
+                        )}
+                      >
+                        <span className="block font-medium mb-1">
+                          {side === "local" ? "Mine" : "Theirs"}
+                        </span>
+                        <span className="block font-mono break-all text-muted-foreground">
+                          {formatValue(side === "local" ? c.local : c.remote)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={cancel}>
+            Not now
+          </Button>
+          <Button onClick={resolve}>Save merged timeline</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,7 @@ import { Play, Pause, SkipBack, SkipForward, Film } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { useEditorStore } from "@/lib/state/editorStore";
-import { totalDurationSec, findSceneAtTime, getSceneStartTimes } from "@/lib/timeline/v1";
+import { totalDurationSecV2, findClipAtTime, getMainClips } from "@/lib/timeline/v2";
 import { formatDuration } from "@/lib/date";
 import type { MediaAsset } from "@/lib/database.types";
 import { cn } from "@/lib/utils";
@@ -31,8 +31,9 @@ export function PreviewPanel({ assets }: PreviewPanelProps) {
     return map;
   }, [assets]);
 
-  const duration = timeline ? totalDurationSec(timeline) : 0;
-  const currentScene = timeline ? findSceneAtTime(timeline, currentTimeSec) : null;
+  const clips = useMemo(() => (timeline ? getMainClips(timeline) : []), [timeline]);
+  const duration = timeline ? totalDurationSecV2(timeline) : 0;
+  const currentScene = timeline ? findClipAtTime(timeline, currentTimeSec) : null;
 
   // Get aspect ratio dimensions for preview
   const aspectRatioStyles = useMemo(() => {
@@ -54,7 +55,7 @@ export function PreviewPanel({ assets }: PreviewPanelProps) {
     
     // Select the scene at the new time
     if (timeline) {
-      const scene = findSceneAtTime(timeline, value[0]);
+      const scene = findClipAtTime(timeline, value[0]);
       if (scene && scene.id !== selectedSceneId) {
         selectScene(scene.id);
       }
@@ -64,24 +65,22 @@ export function PreviewPanel({ assets }: PreviewPanelProps) {
   const handlePrevScene = () => {
     if (!timeline || !selectedSceneId) return;
     
-    const currentIndex = timeline.scenes.findIndex((s) => s.id === selectedSceneId);
+    const currentIndex = clips.findIndex((s) => s.id === selectedSceneId);
     if (currentIndex > 0) {
-      const prevScene = timeline.scenes[currentIndex - 1];
+      const prevScene = clips[currentIndex - 1];
       selectScene(prevScene.id);
-      const startTimes = getSceneStartTimes(timeline);
-      setCurrentTime(startTimes.get(prevScene.id) || 0);
+      setCurrentTime(prevScene.startSec);
     }
   };
 
   const handleNextScene = () => {
     if (!timeline || !selectedSceneId) return;
     
-    const currentIndex = timeline.scenes.findIndex((s) => s.id === selectedSceneId);
-    if (currentIndex < timeline.scenes.length - 1) {
-      const nextScene = timeline.scenes[currentIndex + 1];
+    const currentIndex = clips.findIndex((s) => s.id === selectedSceneId);
+    if (currentIndex < clips.length - 1) {
+      const nextScene = clips[currentIndex + 1];
       selectScene(nextScene.id);
-      const startTimes = getSceneStartTimes(timeline);
-      setCurrentTime(startTimes.get(nextScene.id) || 0);
+      setCurrentTime(nextScene.startSec);
     }
   };
 
@@ -184,14 +183,14 @@ export function PreviewPanel({ assets }: PreviewPanelProps) {
             variant="ghost"
             size="icon"
             onClick={handlePrevScene}
-            disabled={!timeline?.scenes.length}
+            disabled={!clips.length}
           >
             <SkipBack className="w-4 h-4" />
           </Button>
           <Button
             size="icon"
             onClick={() => setPlaying(!isPlaying)}
-            disabled={!timeline?.scenes.length}
+            disabled={!clips.length}
             className="w-10 h-10"
           >
             {isPlaying ? (
@@ -204,16 +203,16 @@ export function PreviewPanel({ assets }: PreviewPanelProps) {
             variant="ghost"
             size="icon"
             onClick={handleNextScene}
-            disabled={!timeline?.scenes.length}
+            disabled={!clips.length}
           >
             <SkipForward className="w-4 h-4" />
           </Button>
         </div>
 
         {/* Scene indicators */}
-        {timeline && timeline.scenes.length > 0 && (
+        {timeline && clips.length > 0 && (
           <div className="flex gap-1 px-12">
-            {timeline.scenes.map((scene) => (
+            {clips.map((scene) => (
               <div
                 key={scene.id}
                 className={cn(
@@ -227,8 +226,7 @@ export function PreviewPanel({ assets }: PreviewPanelProps) {
                 }}
                 onClick={() => {
                   selectScene(scene.id);
-                  const startTimes = getSceneStartTimes(timeline);
-                  setCurrentTime(startTimes.get(scene.id) || 0);
+                  setCurrentTime(scene.startSec);
                 }}
               />
             ))}
@@ -1,12 +1,14 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
   ArrowLeft,
   Save,
   Play,
   RotateCcw,
+  Undo2,
+  Redo2,
   Loader2,
   AlertCircle,
 } from "lucide-react";
@@ -16,6 +18,10 @@ import { useEditorStore } from "@/lib/state/editorStore";
 import { createEmptyTimeline } from "@/lib/timeline/v1";
 import type { Project, MediaAsset, BrandPreset } from "@/lib/database.types";
 import type { TimelineV1 } from "@/lib/timeline/v1";
+import type { TimelineV2 } from "@/lib/timeline/v2";
+import { getMainClips, normalizeTimelineV2, toTimelineV2 } from "@/lib/timeline/v2";
+import { mergeTimelines, type MergeChoice, type MergeConflict } from "@/lib/timeline/merge";
+import { MergeConflictDialog } from "./MergeConflictDialog";
 import { ScenesList } from "./ScenesList";
 import { PreviewPanel } from "./PreviewPanel";
 import { InspectorPanel } from "./InspectorPanel";
@@ -31,18 +37,34 @@ export function SceneEditor({ project, assets, brandPresets }: SceneEditorProps)
   const router = useRouter();
   const [saving, setSaving] = useState(false);
   const [rendering, setRendering] = useState(false);
+  // The revision and timeline last seen on the server, for If-Match and merging
+  const revision = useRef(project.revision);
+  const serverTimeline = useRef<TimelineV2 | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<{
+    base: TimelineV2;
+    local: TimelineV2;
+    remote: TimelineV2;
+    conflicts: MergeConflict[];
+  } | null>(null);
 
   const {
     setProject,
     timeline,
+    setTimeline,
     isDirty,
+    markSaved,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     reset,
   } = useEditorStore();
+  const sceneCount = timeline ? getMainClips(timeline).length : 0;
 
   // Initialize editor state
   useEffect(() => {
     const initialTimeline = project.timeline_json
-      ? (project.timeline_json as TimelineV1)
+      ? (project.timeline_json as TimelineV1 | TimelineV2)
       : createEmptyTimeline({
           id: project.id,
           title: project.title,
@@ -51,28 +73,74 @@ export function SceneEditor({ project, assets, brandPresets }: SceneEditorProps)
         });
 
     setProject(project.id, initialTimeline);
+    revision.current = project.revision;
+    serverTimeline.current = useEditorStore.getState().timeline;
 
     return () => {
       reset();
     };
   }, [project, setProject, reset]);
 
-  const handleSave = async () => {
-    if (!timeline) return;
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes - except while
+  // typing, where the field's own undo applies
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  // Save against the revision last seen. When the project was saved
+  // elsewhere since, merge with that copy: clean merges are saved straight
+  // away, overlapping edits go to the merge dialog.
+  const handleSave = async (toSave: TimelineV2 | null = timeline) => {
+    if (!toSave) return;
 
     setSaving(true);
     try {
       const res = await fetch(`/api/projects/${project.id}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ timeline_json: timeline }),
+        headers: { "Content-Type": "application/json", "If-Match": `"${revision.current}"` },
+        body: JSON.stringify({ timeline_json: toSave }),
       });
+      const data = await res.json().catch(() => null);
+
+      if (res.status === 409 && data?.project) {
+        const remote = normalizeTimelineV2(toTimelineV2(data.project.timeline_json));
+        const base = serverTimeline.current ?? remote;
+        revision.current = data.project.revision;
+        serverTimeline.current = remote;
+
+        const { merged, conflicts } = mergeTimelines(base, toSave, remote);
+        setTimeline(merged);
+        if (conflicts.length > 0) {
+          setPendingMerge({ base, local: toSave, remote, conflicts });
+          return;
+        }
+        toast.info("Merged with changes made elsewhere");
+        return handleSave(merged);
+      }
 
       if (!res.ok) throw new Error("Failed to save");
+      revision.current = data.project.revision;
+      serverTimeline.current = toSave;
 
       toast.success("Changes saved");
-      // Update original timeline to mark as clean
-      setProject(project.id, timeline);
+      // Mark as clean (keeping the undo history)
+      markSaved();
     } catch {
       toast.error("Failed to save changes");
     } finally {
@@ -80,6 +148,14 @@ export function SceneEditor({ project, assets, brandPresets }: SceneEditorProps)
     }
   };
 
+  const handleResolveMerge = (choices: Record<string, MergeChoice>) => {
+    if (!pendingMerge) return;
+    const { merged } = mergeTimelines(pendingMerge.base, pendingMerge.local, pendingMerge.remote, choices);
+    setPendingMerge(null);
+    setTimeline(merged);
+    handleSave(merged);
+  };
+
   const handleRender = async () => {
     if (!timeline) return;
 
@@ -135,15 +211,33 @@ export function SceneEditor({ project, assets, brandPresets }: SceneEditorProps)
               )}
             </div>
             <p className="text-xs text-muted-foreground">
-              {timeline?.scenes.length || 0} scene{(timeline?.scenes.length || 0) !== 1 ? "s" : ""}
+              {sceneCount} scene{sceneCount !== 1 ? "s" : ""}
             </p>
           </div>
         </div>
 
         <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={undo}
+            disabled={!canUndo()}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={redo}
+            disabled={!canRedo()}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-4 h-4" />
+          </Button>
           <Button
             variant="outline"
-            onClick={handleSave}
+            onClick={() => handleSave()}
             disabled={saving || !dirty}
           >
             {saving ? (
@@ -155,7 +249,7 @@ export function SceneEditor({ project, assets, brandPresets }: SceneEditorProps)
           </Button>
           <Button
             onClick={handleRender}
-            disabled={rendering || !timeline?.scenes.length}
+            disabled={rendering || !sceneCount}
           >
             {rendering ? (
               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -184,6 +278,12 @@ export function SceneEditor({ project, assets, brandPresets }: SceneEditorProps)
           <InspectorPanel assets={assets} brandPresets={brandPresets} />
         </div>
       </div>
+
+      <MergeConflictDialog
+        conflicts={pendingMerge?.conflicts ?? []}
+        onResolve={handleResolveMerge}
+        onCancel={() => setPendingMerge(null)}
+      />
     </div>
   );
 }
@@ -26,7 +26,8 @@ import { useEditorStore } from "@/lib/state/editorStore";
 import { createScene } from "@/lib/timeline/v1";
 import { formatDuration } from "@/lib/date";
 import type { MediaAsset } from "@/lib/database.types";
-import type { Scene } from "@/lib/timeline/v1";
+import { getMainClips } from "@/lib/timeline/v2";
+import type { VideoClip } from "@/lib/timeline/v2";
 import { v4 as uuid } from "uuid";
 
 interface ScenesListProps {
@@ -34,7 +35,7 @@ interface ScenesListProps {
 }
 
 function SceneCard({ scene, asset, isSelected, onSelect, onDelete }: {
-  scene: Scene;
+  scene: VideoClip;
   asset: MediaAsset | undefined;
   isSelected: boolean;
   onSelect: () => void;
@@ -131,6 +132,8 @@ export function ScenesList({ assets }: ScenesListProps) {
     reorderScenesAction,
   } = useEditorStore();
 
+  const clips = useMemo(() => (timeline ? getMainClips(timeline) : []), [timeline]);
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -148,8 +151,8 @@ export function ScenesList({ assets }: ScenesListProps) {
     const { active, over } = event;
 
     if (over && active.id !== over.id && timeline) {
-      const oldIndex = timeline.scenes.findIndex((s) => s.id === active.id);
-      const newIndex = timeline.scenes.findIndex((s) => s.id === over.id);
+      const oldIndex = clips.findIndex((s) => s.id === active.id);
+      const newIndex = clips.findIndex((s) => s.id === over.id);
       reorderScenesAction(oldIndex, newIndex);
     }
   };
@@ -188,7 +191,7 @@ export function ScenesList({ assets }: ScenesListProps) {
       {/* Scenes List */}
       <ScrollArea className="flex-1">
         <div className="p-2">
-          {timeline.scenes.length === 0 ? (
+          {clips.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <Film className="w-8 h-8 mx-auto mb-2 opacity-50" />
               <p className="text-sm">No scenes yet</p>
@@ -201,11 +204,11 @@ export function ScenesList({ assets }: ScenesListProps) {
               onDragEnd={handleDragEnd}
             >
               <SortableContext
-                items={timeline.scenes.map((s) => s.id)}
+                items={clips.map((s) => s.id)}
                 strategy={verticalListSortingStrategy}
               >
                 <div className="space-y-1">
-                  {timeline.scenes.map((scene) => (
+                  {clips.map((scene) => (
                     <SceneCard
                       key={scene.id}
                       scene={scene}
@@ -0,0 +1,80 @@
+"use client";
+
+import { CircleAlert, CircleCheck, Info, TriangleAlert, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/date";
+import type { LintIssue, LintSeverity } from "@/lib/timeline/lint";
+
+interface TimelineChecksProps {
+  issues: LintIssue[];
+  onSelect: (issue: LintIssue) => void;
+  onFix: (issue: LintIssue) => void;
+}
+
+const severityIcons: Record<LintSeverity, typeof Info> = {
+  error: CircleAlert,
+  warning: TriangleAlert,
+  info: Info,
+};
+
+const severityStyles: Record<LintSeverity, string> = {
+  error: "text-destructive",
+  warning: "text-amber-500",
+  info: "text-muted-foreground",
+};
+
+/**
+ * Linter results for the timeline. Clicking an issue jumps to it; issues
+ * with an auto-fix get a button to apply it.
+ */
+export function TimelineChecks({ issues, onSelect, onFix }: TimelineChecksProps) {
+  if (issues.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-8 text-center text-sm text-muted-foreground">
+        <CircleCheck className="w-6 h-6 text-green-500" />
+        No problems found
+      </div>
+    );
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+
+  return (
+    <div className="space-y-3">
+      {errors > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Errors will stop a render until they are fixed or you choose to render anyway.
+        </p>
+      )}
+      <ul className="space-y-2">
+        {issues.map((issue, i) => {
+          const Icon = severityIcons[issue.severity];
+          return (
+            <li key={`${issue.rule}-${issue.target.id}-${i}`} className="rounded-md border border-border p-3 space-y-2">
+              <button
+                type="button"
+                className="flex w-full items-start gap-2 text-left text-sm"
+                onClick={() => onSelect(issue)}
+              >
+                <Icon className={cn("w-4 h-4 mt-0.5 shrink-0", severityStyles[issue.severity])} />
+                <span className="flex-1">
+                  {issue.message}
+                  {issue.timeSec !== null && (
+                    <span className="text-muted-foreground"> ({formatDuration(issue.timeSec)})</span>
+                  )}
+                </span>
+              </button>
+              {issue.fix && (
+                <Button variant="outline" size="sm" className="w-full" onClick={() => onFix(issue)}>
+                  <Wand2 className="w-3 h-3 mr-2" />
+                  {issue.fix}
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,799 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { AbsoluteFill, Html5Audio, Html5Video, Img, Sequence, useCurrentFrame, useVideoConfig } from "remotion";
+import { effectPreviewLayers } from "@/lib/effects/templates";
+import { hasKeyframes, sampleKeyframes, sceneKeyframes, textAnimationTemplate } from "@/lib/timeline/v1";
+import type { CaptionSegment, CaptionWord, CropKeyframe, Ducking, TextOverlay, VolumeEnvelope } from "@/lib/timeline/v1";
+import { DEFAULT_TRANSFORM, getVisibleVideoTracks, transitionOverlapSec } from "@/lib/timeline/v2";
+import type { AudioClip, AudioTrackRole, TextEffect, TimelineV2, VideoClip } from "@/lib/timeline/v2";
+
+// Timeline preview
+//
+// A Remotion composition that draws a v2 timeline the way the render worker
+// does (worker/src/render/compileTimeline.ts and assCaptions.ts): the base
+// track with its camera moves and xfade transitions, upper tracks, text
+// overlays, the logo, burned-in captions and text effects, with every audio
+// track mixed on top. It is laid out in output pixels at the project
+// resolution and the Player scales it to fit. Where the browser can't do
+// what FFmpeg does - sidechain ducking, beat-matched music loops - it
+// approximates; anything else that differs from the render is a bug here.
+
+export type PreviewMedia = Record<string, string>; // media_assets id -> URL, "" when missing
+
+export type TimelineCompositionProps = {
+  timeline: TimelineV2;
+  media: PreviewMedia;
+};
+
+interface Insets {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+type TransitionEdge = { type: string; durationSec: number } | null;
+
+const DEFAULT_SAFE_MARGIN = 50;
+const DEFAULT_HIGHLIGHT = "#00b4d8";
+const DEFAULT_CAPTION_TEXT = "#ffffff";
+const DEFAULT_CAPTION_FONT = "Inter";
+// drawtext falls back to fontconfig's default face
+const DRAWTEXT_FONT = "sans-serif";
+const DEFAULT_DUCKING: Ducking = { enabled: true, thresholdDb: -30, ratio: 8, attackMs: 20, releaseMs: 400 };
+// About what sidechaincompress takes off the music under normal speech
+const DUCK_GAIN = Math.pow(10, -10 / 20);
+const SPEECH_ROLES: AudioTrackRole[] = ["voiceover", "dialogue"];
+const POP_IN_SEC = 0.12;
+
+/**
+ * Length of the render: the base track, or the voiceover if it runs longer
+ */
+export function previewDurationSec(timeline: TimelineV2): number {
+  const [baseTrack] = getVisibleVideoTracks(timeline);
+  const baseEnd = Math.max(0, ...(baseTrack?.clips ?? []).map((clip) => clip.startSec + clip.durationSec));
+  const voiceover = timeline.tracks.audio.find((track) => track.role === "voiceover" && !track.muted)?.clips[0];
+  const voiceoverSec = timeline.rendering?.voiceoverDurationSec || 0;
+  return Math.max(baseEnd, voiceoverSec + (voiceover?.startSec || 0));
+}
+
+/**
+ * media_assets ids the preview needs URLs for (clips without a direct URL, the logo)
+ */
+export function previewAssetIds(timeline: TimelineV2): string[] {
+  const ids = new Set<string>();
+  for (const track of timeline.tracks.video) {
+    for (const clip of track.clips) if (!clip.clipUrl && clip.assetId) ids.add(clip.assetId);
+  }
+  for (const track of timeline.tracks.audio) {
+    for (const clip of track.clips) if (!clip.audioUrl && clip.assetId) ids.add(clip.assetId);
+  }
+  if (timeline.global.brand?.logoAssetId) ids.add(timeline.global.brand.logoAssetId);
+  return [...ids];
+}
+
+export function TimelineComposition({ timeline, media }: TimelineCompositionProps) {
+  const { fps, durationInFrames } = useVideoConfig();
+  const [baseTrack, ...upperTracks] = getVisibleVideoTracks(timeline);
+  const totalSec = durationInFrames / fps;
+  const safe = safeArea(timeline);
+  const toFrames = (sec: number) => Math.round(sec * fps);
+  const length = (sec: number) => Math.max(1, toFrames(sec));
+
+  const baseClips = sortByStart(baseTrack?.clips ?? []);
+  const speechSpans = timeline.tracks.audio
+    .filter((track) => !track.muted && SPEECH_ROLES.includes(track.role))
+    .flatMap((track) => track.clips.filter((clip) => audioSrc(clip, media)).map((clip) => audioSpan(clip, totalSec)));
+
+  return (
+    <AbsoluteFill style={{ backgroundColor: "black", overflow: "hidden" }}>
+      {baseClips.map((clip, i) => {
+        const previous = baseClips[i - 1];
+        const isLast = i === baseClips.length - 1;
+        // The last picture holds to the end, like the worker's freeze frame
+        const endSec = isLast ? Math.max(clip.startSec + clip.durationSec, totalSec) : clip.startSec + clip.durationSec;
+        return (
+          <Sequence key={clip.id} from={toFrames(clip.startSec)} durationInFrames={length(endSec - clip.startSec)}>
+            <BaseClip
+              clip={clip}
+              src={videoSrc(clip, media)}
+              safe={safe}
+              incoming={previous ? transitionEdge(previous) : null}
+              outgoing={isLast ? null : transitionEdge(clip)}
+            />
+          </Sequence>
+        );
+      })}
+
+      {upperTracks.flatMap((track) =>
+        sortByStart(track.clips).map((clip) => {
+          const src = videoSrc(clip, media);
+          if (!src) return null;
+          return (
+            <Sequence key={`${track.id}-${clip.id}`} from={toFrames(clip.startSec)} durationInFrames={length(clip.durationSec)}>
+              <UpperClip clip={clip} src={src} />
+            </Sequence>
+          );
+        })
+      )}
+
+      {(timeline.textOverlays ?? []).map((overlay) => {
+        if (!overlay.text) return null;
+        const durationSec = overlay.duration > 0 ? overlay.duration : totalSec - overlay.startTime;
+        return (
+          <Sequence key={overlay.id} from={toFrames(overlay.startTime)} durationInFrames={length(durationSec)}>
+            <GlobalText overlay={overlay} safe={safe} />
+          </Sequence>
+        );
+      })}
+
+      <Logo timeline={timeline} media={media} safe={safe} />
+      <Captions timeline={timeline} safe={safe} />
+
+      {(timeline.textEffects ?? []).map((effect, i) => (
+        <Sequence key={`${effect.effectId}-${i}`} from={toFrames(effect.atTimeSec)} durationInFrames={length(effect.durationSec)}>
+          <TextEffectLayers effect={effect} />
+        </Sequence>
+      ))}
+
+      {timeline.tracks.audio
+        .filter((track) => !track.muted)
+        .flatMap((track) => {
+          const ducking = { ...DEFAULT_DUCKING, ...track.ducking };
+          const spans = track.role === "music" && ducking.enabled ? speechSpans : [];
+          return track.clips.map((clip) => {
+            const src = audioSrc(clip, media);
+            if (!src) return null;
+            const [startSec, endSec] = audioSpan(clip, totalSec);
+            return (
+              <Sequence key={`${track.id}-${clip.id}`} from={toFrames(startSec)} durationInFrames={length(endSec - startSec)} layout="none">
+                <Html5Audio
+                  src={src}
+                  trimBefore={toFrames(clip.inSec)}
+                  trimAfter={clip.durationSec ? toFrames(clip.inSec + clip.durationSec) : undefined}
+                  loop={clip.loop}
+                  loopVolumeCurveBehavior="extend"
+                  pauseWhenBuffering
+                  volume={(frame) => {
+                    const sec = frame / fps;
+                    const gain = clipGain(clip, track.role, sec, totalSec) * duckGain(startSec + sec, spans, ducking);
+                    // Media elements can't amplify
+                    return Math.min(1, gain);
+                  }}
+                />
+              </Sequence>
+            );
+          });
+        })}
+    </AbsoluteFill>
+  );
+}
+
+// ============================================
+// Video
+// ============================================
+
+/**
+ * A base-track clip filling the frame: contain (cover for talking head and
+ * cover-mode clips), camera moves as zoompan, rotation and a fade to black,
+ * and the transitions in and out of it
+ */
+function BaseClip({
+  clip,
+  src,
+  safe,
+  incoming,
+  outgoing,
+}: {
+  clip: VideoClip;
+  src: string | null;
+  safe: Insets;
+  incoming: TransitionEdge;
+  outgoing: TransitionEdge;
+}) {
+  const frame = useCurrentFrame();
+  const { fps, width, height } = useVideoConfig();
+  const t = frame / fps;
+
+  const animation = sceneKeyframes(clip);
+  const zoom = Math.max(1, sampleKeyframes(animation.scale, t, 1));
+  const centerX = sampleKeyframes(animation.x, t, 50);
+  const centerY = sampleKeyframes(animation.y, t, 50);
+  // x/y is the point of the picture at the frame center, as far as the zoom allows
+  const left = clamp((width * centerX) / 100 - width / zoom / 2, 0, width - width / zoom);
+  const top = clamp((height * centerY) / 100 - height / zoom / 2, 0, height - height / zoom);
+  const rotation = sampleKeyframes(animation.rotation, t, 0);
+  const opacity = sampleKeyframes(animation.opacity, t, 1);
+
+  const inProgress = incoming ? clamp(t / incoming.durationSec, 0, 1) : 1;
+  const outProgress = outgoing ? clamp((t - (clip.durationSec - outgoing.durationSec)) / outgoing.durationSec, 0, 1) : 0;
+  const enter = incoming && inProgress < 1 ? enterStyle(incoming.type, inProgress, width, height) : null;
+  const exit = outgoing && outProgress > 0 ? exitStyle(outgoing.type, outProgress) : null;
+
+  // GIFs cover the frame, stills are contained, video depends on the clip
+  const gif = isGif(src);
+  const cover = gif || (clip.kind === "video" && (clip.isTalkingHead || clip.cropMode === "cover"));
+  const mediaStyle: CSSProperties = {
+    width: "100%",
+    height: "100%",
+    objectFit: cover ? "cover" : "contain",
+    objectPosition: focalPosition(clip, clip.inSec + t),
+  };
+
+  return (
+    <AbsoluteFill style={{ ...exit, ...enter?.style }}>
+      <AbsoluteFill style={{ backgroundColor: "black", overflow: "hidden" }}>
+        <AbsoluteFill style={{ transform: `rotate(${rotation}deg)`, opacity }}>
+          <AbsoluteFill
+            style={{ transformOrigin: "0 0", transform: `scale(${zoom}) translate(${-left}px, ${-top}px)` }}
+          >
+            {src && (clip.kind === "image" || gif ? (
+              <Img src={src} style={mediaStyle} />
+            ) : (
+              <Html5Video src={src} trimBefore={Math.round(clip.inSec * fps)} muted pauseWhenBuffering style={mediaStyle} />
+            ))}
+          </AbsoluteFill>
+        </AbsoluteFill>
+        <SceneText clip={clip} safe={safe} />
+      </AbsoluteFill>
+      {enter?.tint && <AbsoluteFill style={{ backgroundColor: enter.tint.color, opacity: enter.tint.opacity }} />}
+    </AbsoluteFill>
+  );
+}
+
+/**
+ * A clip on an upper track, centered at its transform's x/y and sized per
+ * cropMode. Keyframed x, y, scale, rotation and opacity replace the
+ * transform's values; an animated scale applies on top of the 1x fit.
+ */
+function UpperClip({ clip, src }: { clip: VideoClip; src: string }) {
+  const frame = useCurrentFrame();
+  const { fps, width, height } = useVideoConfig();
+  const t = frame / fps;
+
+  const transform = { ...DEFAULT_TRANSFORM, ...clip.transform };
+  const animation = sceneKeyframes(clip);
+  const scaleKeyed = !!animation.scale?.length;
+  const fitScale = scaleKeyed ? 1 : transform.scale;
+  const liveScale = scaleKeyed ? sampleKeyframes(animation.scale, t, 1) : 1;
+  const x = sampleKeyframes(animation.x, t, transform.x);
+  const y = sampleKeyframes(animation.y, t, transform.y);
+  const rotation = sampleKeyframes(animation.rotation, t, transform.rotation);
+  const opacity = sampleKeyframes(animation.opacity, t, transform.opacity);
+
+  const boxed = clip.cropMode === "cover" || clip.cropMode === "contain" || clip.cropMode === "fill";
+  const mediaStyle: CSSProperties = boxed
+    ? {
+        width: Math.max(2, Math.round(width * fitScale)),
+        height: Math.max(2, Math.round(height * fitScale)),
+        objectFit: clip.cropMode,
+        objectPosition: focalPosition(clip, clip.inSec + t),
+      }
+    : { maxWidth: "none" };
+  // "none" keeps the source size, so its scale goes on the transform
+  const scale = boxed ? liveScale : fitScale * liveScale;
+
+  return (
+    <AbsoluteFill>
+      <div
+        style={{
+          position: "absolute",
+          left: `${x}%`,
+          top: `${y}%`,
+          transform: `translate(-50%, -50%) rotate(${rotation}deg) scale(${scale})`,
+          opacity,
+        }}
+      >
+        {clip.kind === "image" || isGif(src) ? (
+          <Img src={src} style={{ display: "block", ...mediaStyle }} />
+        ) : (
+          <Html5Video
+            src={src}
+            trimBefore={Math.round(clip.inSec * fps)}
+            muted
+            pauseWhenBuffering
+            style={{ display: "block", ...mediaStyle }}
+          />
+        )}
+      </div>
+    </AbsoluteFill>
+  );
+}
+
+function transitionEdge(clip: VideoClip): TransitionEdge {
+  const durationSec = transitionOverlapSec(clip);
+  return durationSec > 0 && clip.transitionOut ? { type: clip.transitionOut, durationSec } : null;
+}
+
+/**
+ * How the incoming clip of an xfade looks at progress p (0-1). It is drawn
+ * above the outgoing one, so revealing it reveals the transition.
+ */
+function enterStyle(
+  type: string,
+  p: number,
+  width: number,
+  height: number
+): { style: CSSProperties; tint?: { color: string; opacity: number } } {
+  const inset = (100 * (1 - p)).toFixed(2);
+  const radius = Math.hypot(width / 2, height / 2);
+  switch (type) {
+    case "fadeblack":
+    case "fadewhite":
+      // Out to the color over the first half, in from it over the second
+      return {
+        style: { opacity: p < 0.5 ? 0 : 1 },
+        tint: { color: type === "fadeblack" ? "black" : "white", opacity: 1 - Math.abs(2 * p - 1) },
+      };
+    case "wipeleft":
+    case "smoothleft":
+      return { style: { clipPath: `inset(0 0 0 ${inset}%)` } };
+    case "wiperight":
+    case "smoothright":
+      return { style: { clipPath: `inset(0 ${inset}% 0 0)` } };
+    case "wipeup":
+    case "smoothup":
+      return { style: { clipPath: `inset(${inset}% 0 0 0)` } };
+    case "wipedown":
+    case "smoothdown":
+      return { style: { clipPath: `inset(0 0 ${inset}% 0)` } };
+    case "slideleft":
+      return { style: { transform: `translateX(${inset}%)` } };
+    case "slideright":
+      return { style: { transform: `translateX(-${inset}%)` } };
+    case "slideup":
+      return { style: { transform: `translateY(${inset}%)` } };
+    case "slidedown":
+      return { style: { transform: `translateY(-${inset}%)` } };
+    case "circleopen":
+    case "circlecrop":
+      return { style: { clipPath: `circle(${(radius * p).toFixed(1)}px at 50% 50%)` } };
+    case "circleclose": {
+      const mask = `radial-gradient(circle at 50% 50%, transparent ${(radius * (1 - p)).toFixed(1)}px, black 0)`;
+      return { style: { maskImage: mask, WebkitMaskImage: mask } };
+    }
+    case "radial": {
+      const mask = `conic-gradient(black ${(360 * p).toFixed(1)}deg, transparent 0)`;
+      return { style: { maskImage: mask, WebkitMaskImage: mask } };
+    }
+    default:
+      // fade, dissolve, pixelize
+      return { style: { opacity: p } };
+  }
+}
+
+/**
+ * The outgoing clip of an xfade at progress p; only slides move it
+ */
+function exitStyle(type: string, p: number): CSSProperties | null {
+  const offset = (100 * p).toFixed(2);
+  switch (type) {
+    case "slideleft":
+      return { transform: `translateX(-${offset}%)` };
+    case "slideright":
+      return { transform: `translateX(${offset}%)` };
+    case "slideup":
+      return { transform: `translateY(-${offset}%)` };
+    case "slidedown":
+      return { transform: `translateY(${offset}%)` };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Where a cover crop centers at a source time, as an object-position. The
+ * worker centers the focal point as far as the source allows; percentages
+ * agree with that at the edges and the middle.
+ */
+function focalPosition(clip: Pick<VideoClip, "focalPoint" | "cropPath">, sourceSec: number): string {
+  const path = clip.cropPath?.length ? [...clip.cropPath].sort((a, b) => a.t - b.t) : null;
+  const point = path ? cropPathPoint(path, sourceSec) : clip.focalPoint ?? { x: 0.5, y: 0.5 };
+  return `${(point.x * 100).toFixed(2)}% ${(point.y * 100).toFixed(2)}%`;
+}
+
+// Linear between keyframes, holding the ends
+function cropPathPoint(path: CropKeyframe[], sec: number): { x: number; y: number } {
+  if (sec <= path[0].t) return path[0];
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = path[i];
+    const b = path[i + 1];
+    if (sec < b.t) {
+      const p = (sec - a.t) / (b.t - a.t);
+      return { x: a.x + (b.x - a.x) * p, y: a.y + (b.y - a.y) * p };
+    }
+  }
+  return path[path.length - 1];
+}
+
+// ============================================
+// Text, logo, captions, effects
+// ============================================
+
+// Legacy per-scene text (scene.overlays.text), drawn on the scene before transitions
+type LegacySceneText = {
+  text?: string | null;
+  x?: number;
+  y?: number;
+  style?: { color: string; fontSize: number; duration: number };
+};
+
+function SceneText({ clip, safe }: { clip: VideoClip; safe: Insets }) {
+  const frame = useCurrentFrame();
+  const { fps, width, height } = useVideoConfig();
+  const overlay = clip.overlays as LegacySceneText | undefined;
+  if (!overlay?.text) return null;
+
+  const style = overlay.style || { color: "#FFFFFF", fontSize: 5, duration: 0 };
+  if (style.duration > 0 && frame / fps > style.duration) return null;
+
+  const fontSize = drawTextSize(style.fontSize, height);
+  const textWidth = measureText(overlay.text, fontSize);
+  const x = overlay.x !== undefined ? (width * overlay.x) / 100 - textWidth / 2 : (width - textWidth) / 2;
+  const y = overlay.y !== undefined
+    ? (height * overlay.y) / 100 - fontSize / 2
+    : height - fontSize - Math.round(height * 0.15);
+
+  return <DrawText text={overlay.text} color={style.color} fontSize={fontSize} {...safePosition(x, y, textWidth, fontSize, safe, width, height)} />;
+}
+
+/**
+ * A text overlay from timeline.textOverlays: keyframes (or the animation's
+ * template) from its start, centered at x/y and kept inside the safe area
+ */
+function GlobalText({ overlay, safe }: { overlay: TextOverlay; safe: Insets }) {
+  const frame = useCurrentFrame();
+  const { fps, width, height } = useVideoConfig();
+  const t = frame / fps;
+
+  const animation = hasKeyframes(overlay.keyframes) ? overlay.keyframes : textAnimationTemplate(overlay);
+  const x = sampleKeyframes(animation.x, t, overlay.x);
+  const y = sampleKeyframes(animation.y, t, overlay.y);
+  const scale = sampleKeyframes(animation.scale, t, 1);
+  const opacity = sampleKeyframes(animation.opacity, t, 1);
+
+  const style = drawTextStyle(overlay);
+  const fontSize = drawTextSize(style.fontSize, height) * scale;
+  const textWidth = measureText(overlay.text, fontSize);
+  const position = safePosition(
+    (width * x) / 100 - textWidth / 2,
+    (height * y) / 100 - fontSize / 2,
+    textWidth,
+    fontSize,
+    safe,
+    width,
+    height
+  );
+
+  return <DrawText text={overlay.text} color={style.color} fontSize={fontSize} opacity={opacity} {...position} />;
+}
+
+function DrawText({
+  text,
+  color,
+  fontSize,
+  left,
+  top,
+  opacity = 1,
+}: {
+  text: string;
+  color: string;
+  fontSize: number;
+  left: number;
+  top: number;
+  opacity?: number;
+}) {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left,
+        top,
+        color,
+        opacity,
+        fontFamily: DRAWTEXT_FONT,
+        fontSize,
+        lineHeight: 1,
+        whiteSpace: "pre",
+        textShadow: "2px 2px 0 rgba(0, 0, 0, 0.7)",
+      }}
+    >
+      {text}
+    </div>
+  );
+}
+
+/**
+ * The editor stores drawtext styling (color, font size on a 1-10 scale)
+ * under style; the v1 schema has a preset name there and a color beside it
+ */
+function drawTextStyle(overlay: TextOverlay): { color: string; fontSize: number } {
+  const style = overlay.style as unknown;
+  if (style && typeof style === "object") return style as { color: string; fontSize: number };
+  return { color: overlay.color || "#FFFFFF", fontSize: 5 };
+}
+
+function drawTextSize(fontSize: number, height: number): number {
+  return Math.round((fontSize / 10) * (height / 10));
+}
+
+// drawtext's clamp: left/top win over right/bottom when the text is too big
+function safePosition(x: number, y: number, textWidth: number, textHeight: number, safe: Insets, width: number, height: number) {
+  return {
+    left: Math.max(safe.left, Math.min(width - textWidth - safe.right, x)),
+    top: Math.max(safe.top, Math.min(height - textHeight - safe.bottom, y)),
+  };
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function measureText(text: string, fontSize: number): number {
+  if (typeof document === "undefined") return text.length * fontSize * 0.55;
+  measureContext ??= document.createElement("canvas").getContext("2d");
+  if (!measureContext) return text.length * fontSize * 0.55;
+  measureContext.font = `${fontSize}px ${DRAWTEXT_FONT}`;
+  return measureContext.measureText(text).width;
+}
+
+/**
+ * Brand logo at logoSize wide in its corner of the safe area
+ */
+function Logo({ timeline, media, safe }: { timeline: TimelineV2; media: PreviewMedia; safe: Insets }) {
+  const brand = timeline.global.brand;
+  const src = brand?.logoAssetId ? media[brand.logoAssetId] : null;
+  if (!src) return null;
+
+  const position = brand.logoPosition || "top-right";
+  const style: CSSProperties = { position: "absolute", width: brand.logoSize || 80, height: "auto" };
+  if (position.startsWith("top")) style.top = safe.top;
+  else style.bottom = safe.bottom;
+  if (position.endsWith("left")) style.left = safe.left;
+  else style.right = safe.right;
+
+  return <Img src={proxied(src)} style={style} />;
+}
+
+/**
+ * Burned-in captions, laid out like the worker's .ass subtitles: bold,
+ * bottom center inside the margins, in the captions style
+ */
+function Captions({ timeline, safe }: { timeline: TimelineV2; safe: Insets }) {
+  const frame = useCurrentFrame();
+  const { fps, width, height } = useVideoConfig();
+  const captions = timeline.global.captions;
+  if (!captions?.enabled || !captions.burnIn || !captions.segments?.length) return null;
+
+  const t = frame / fps;
+  const segment = captions.segments.find((s) => isPlayableSegment(s) && t >= s.start && t < s.end);
+  if (!segment) return null;
+
+  const style = captions.style || "static";
+  const colors = timeline.global.brand?.colors;
+  const highlight = colors?.primary || DEFAULT_HIGHLIGHT;
+  const textColor = colors?.text || DEFAULT_CAPTION_TEXT;
+  const isStatic = style === "static";
+  const fontSize = Math.round(height * (isStatic ? 0.045 : 0.055));
+  const outline = Math.max(2, Math.round(fontSize * 0.08));
+
+  const words = segmentWords(segment);
+  // Word events run from a word's start to the next one's
+  let active = 0;
+  words.forEach((w, i) => {
+    if (i > 0 && t >= w.start) active = i;
+  });
+  const activeStart = active === 0 ? segment.start : words[active].start;
+
+  const lineStyle: CSSProperties = isStatic
+    ? {
+        backgroundColor: "rgba(0, 0, 0, 0.7)",
+        padding: "0 10px",
+        boxDecorationBreak: "clone",
+        WebkitBoxDecorationBreak: "clone",
+      }
+    : {
+        WebkitTextStroke: `${outline * 2}px black`,
+        paintOrder: "stroke fill",
+        textShadow: "1px 1px 0 rgba(0, 0, 0, 0.5)",
+      };
+
+  const wordStyle = (w: CaptionWord, i: number): CSSProperties => {
+    switch (style) {
+      case "karaoke": {
+        // Fills left to right with the highlight over the word's time
+        const fill = clamp((t - w.start) / Math.max(0.01, w.end - w.start), 0, 1) * 100;
+        return {
+          backgroundImage: `linear-gradient(to right, ${highlight} ${fill}%, ${textColor} ${fill}%)`,
+          WebkitBackgroundClip: "text",
+          backgroundClip: "text",
+          color: "transparent",
+        };
+      }
+      case "pop-in":
+        if (i < active) return {};
+        if (i > active) return { visibility: "hidden" };
+        return {
+          display: "inline-block",
+          transform: `scale(${0.7 + 0.3 * clamp((t - activeStart) / POP_IN_SEC, 0, 1)})`,
+        };
+      case "active-word":
+        return i === active ? { color: highlight } : {};
+      default:
+        return {};
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: Math.max(Math.round(width * 0.05), safe.left),
+        right: Math.max(Math.round(width * 0.05), safe.right),
+        bottom: Math.max(Math.round(height * 0.08), safe.bottom),
+        textAlign: "center",
+        fontFamily: captions.font || DEFAULT_CAPTION_FONT,
+        fontSize,
+        fontWeight: 700,
+        lineHeight: 1.2,
+        color: textColor,
+      }}
+    >
+      <span style={lineStyle}>
+        {isStatic
+          ? segment.text
+          : words.map((w, i) => (
+              <span key={i}>
+                {i > 0 && " "}
+                <span style={wordStyle(w, i)}>{w.word}</span>
+              </span>
+            ))}
+      </span>
+    </div>
+  );
+}
+
+function isPlayableSegment(segment: CaptionSegment): boolean {
+  return segment.end - segment.start >= 0.1 && segment.start >= 0;
+}
+
+// Older timelines have no word timings: split the segment evenly
+function segmentWords(segment: CaptionSegment): CaptionWord[] {
+  if (segment.words?.length) return segment.words;
+  const tokens = segment.text.split(/\s+/).filter(Boolean);
+  const step = (segment.end - segment.start) / Math.max(1, tokens.length);
+  return tokens.map((word, i) => ({ word, start: segment.start + i * step, end: segment.start + (i + 1) * step }));
+}
+
+function TextEffectLayers({ effect }: { effect: TextEffect }) {
+  const { width, height } = useVideoConfig();
+  const layers = effectPreviewLayers(effect, { width, height });
+  if (!layers) return null;
+
+  return (
+    <AbsoluteFill>
+      {layers.map((layer, i) =>
+        layer.type === "box" ? (
+          <div
+            key={i}
+            style={{
+              position: "absolute",
+              left: layer.x,
+              top: layer.y,
+              width: layer.width,
+              height: layer.height,
+              backgroundColor: layer.color,
+            }}
+          />
+        ) : (
+          <div
+            key={i}
+            style={{
+              position: "absolute",
+              left: layer.x,
+              top: layer.y,
+              transform: layer.centered ? "translateX(-50%)" : undefined,
+              color: layer.color,
+              opacity: layer.opacity,
+              fontFamily: DRAWTEXT_FONT,
+              fontSize: layer.fontSize,
+              lineHeight: 1,
+              whiteSpace: "pre",
+            }}
+          >
+            {layer.text}
+          </div>
+        )
+      )}
+    </AbsoluteFill>
+  );
+}
+
+// ============================================
+// Audio
+// ============================================
+
+// Timeline seconds a clip plays over; looping and open-ended clips run to the end
+function audioSpan(clip: AudioClip, totalSec: number): [number, number] {
+  const end = clip.loop || !clip.durationSec ? totalSec : clip.startSec + clip.durationSec;
+  return [clip.startSec, Math.max(clip.startSec, end)];
+}
+
+/**
+ * Volume at a clip-relative time: the clip volume (music doubled, as the
+ * worker boosts it ahead of amix), gain keyframes and fades
+ */
+function clipGain(clip: AudioClip, role: AudioTrackRole, sec: number, totalSec: number): number {
+  const volume = role === "music" ? clip.volume * 2 : clip.volume;
+  const lengthSec = clip.durationSec ?? Math.max(0, totalSec - clip.startSec);
+  return volume * envelopeGain(clip.envelope, sec, lengthSec);
+}
+
+function envelopeGain(envelope: VolumeEnvelope | undefined, sec: number, lengthSec: number): number {
+  if (!envelope) return 1;
+  const keyframes = (envelope.keyframes ?? []).map((k) => ({ t: k.t, value: k.gain, easing: "linear" as const }));
+  let gain = sampleKeyframes(keyframes, sec, 1);
+
+  const fadeIn = Math.min(envelope.fadeInSec || 0, lengthSec);
+  const fadeOut = Math.min(envelope.fadeOutSec || 0, lengthSec);
+  if (fadeIn > 0 && sec < fadeIn) gain *= sec / fadeIn;
+  if (fadeOut > 0 && sec > lengthSec - fadeOut) gain *= Math.max(0, (lengthSec - sec) / fadeOut);
+  return gain;
+}
+
+/**
+ * Music gain under speech: a fixed dip while any speech clip plays,
+ * ramped in over the attack and out over the release
+ */
+function duckGain(sec: number, spans: [number, number][], ducking: Ducking): number {
+  let amount = 0;
+  for (const [start, end] of spans) {
+    if (sec < start) continue;
+    if (sec <= end) amount = Math.max(amount, Math.min(1, (sec - start) / (ducking.attackMs / 1000)));
+    else amount = Math.max(amount, 1 - (sec - end) / (ducking.releaseMs / 1000));
+  }
+  return 1 - clamp(amount, 0, 1) * (1 - DUCK_GAIN);
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function videoSrc(clip: VideoClip, media: PreviewMedia): string | null {
+  if (clip.clipUrl) return proxied(clip.clipUrl);
+  return clip.assetId && media[clip.assetId] ? proxied(media[clip.assetId]) : null;
+}
+
+function audioSrc(clip: AudioClip, media: PreviewMedia): string | null {
+  if (clip.audioUrl) return proxied(clip.audioUrl);
+  return clip.assetId && media[clip.assetId] ? proxied(media[clip.assetId]) : null;
+}
+
+// Google Drive files need our proxy to stream
+function proxied(url: string): string {
+  if (url.includes("drive.google.com") || url.includes("googleusercontent")) {
+    return `/api/proxy/video?url=${encodeURIComponent(url)}`;
+  }
+  return url;
+}
+
+function isGif(src: string | null): boolean {
+  return !!src && /\.gif($|\?)/i.test(src);
+}
+
+function safeArea(timeline: TimelineV2): Insets {
+  const margins = timeline.global.brand?.safeMargins;
+  return {
+    top: margins?.top ?? DEFAULT_SAFE_MARGIN,
+    bottom: margins?.bottom ?? DEFAULT_SAFE_MARGIN,
+    left: margins?.left ?? DEFAULT_SAFE_MARGIN,
+    right: margins?.right ?? DEFAULT_SAFE_MARGIN,
+  };
+}
+
+function sortByStart<T extends { startSec: number }>(clips: T[]): T[] {
+  return [...clips].sort((a, b) => a.startSec - b.startSec);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import { useState, useEffect, useMemo, type KeyboardEvent } from "react";
+import { ArrowDown, ArrowUp, Loader2, Scissors, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import type { CaptionSegment, Transcript } from "@/lib/timeline/v1";
+import type { StoredTimelineV1 } from "@/lib/timeline/stored";
+import {
+  applyTranscript,
+  compileTranscript,
+  createTranscript,
+  cutawaysFromScenes,
+  moveParagraph,
+  paragraphSentences,
+  setWordsDeleted,
+  talkingHeadSources,
+} from "@/lib/timeline/transcript";
+
+interface TranscriptEditorProps {
+  open: boolean;
+  onClose: () => void;
+  onApply: (timeline: StoredTimelineV1) => void;
+  timeline: StoredTimelineV1;
+}
+
+function formatTime(sec: number): string {
+  const minutes = Math.floor(sec / 60);
+  const seconds = Math.floor(sec % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Edit a talking head video as text: cut words or whole sentences and
+ * reorder paragraphs, then apply to rebuild the scenes and captions
+ * from what's left
+ */
+export function TranscriptEditor({ open, onClose, onApply, timeline }: TranscriptEditorProps) {
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [selection, setSelection] = useState<string[]>([]);
+  const [anchor, setAnchor] = useState<string | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+
+  // Start from the stored transcript each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTranscript(timeline.transcript ?? null);
+      setSelection([]);
+      setAnchor(null);
+    }
+  }, [open, timeline.transcript]);
+
+  // Word ids in reading order, for shift-click ranges
+  const wordOrder = useMemo(
+    () => transcript?.paragraphs.flatMap((p) => p.words.map((w) => w.id)) ?? [],
+    [transcript]
+  );
+  const compiled = useMemo(() => (transcript ? compileTranscript(transcript) : null), [transcript]);
+
+  const transcribe = async () => {
+    setIsTranscribing(true);
+    try {
+      const sources = talkingHeadSources(timeline);
+      const withWords = await Promise.all(
+        sources.map(async (source) => {
+          const response = await fetch("/api/ai/transcribe-video", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ assetId: source.assetId, fillerWords: true }),
+          });
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error || "Transcription failed");
+          const captions: CaptionSegment[] = data.captions ?? [];
+          return { ...source, words: captions.flatMap((c) => c.words ?? []) };
+        })
+      );
+      if (withWords.every((source) => source.words.length === 0)) {
+        toast.error("No speech found in this video");
+        return;
+      }
+      setTranscript(createTranscript(withWords, cutawaysFromScenes(timeline.scenes, sources)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Transcription failed");
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const selectWord = (wordId: string, extend: boolean) => {
+    if (extend && anchor) {
+      const from = wordOrder.indexOf(anchor);
+      const to = wordOrder.indexOf(wordId);
+      setSelection(wordOrder.slice(Math.min(from, to), Math.max(from, to) + 1));
+      return;
+    }
+    setSelection([wordId]);
+    setAnchor(wordId);
+  };
+
+  const selectSentence = (wordId: string) => {
+    for (const paragraph of transcript?.paragraphs ?? []) {
+      const sentence = paragraphSentences(paragraph).find((words) => words.some((w) => w.id === wordId));
+      if (sentence) {
+        setSelection(sentence.map((w) => w.id));
+        setAnchor(sentence[0].id);
+        return;
+      }
+    }
+  };
+
+  // Cut the selection, or bring it back if it's all cut already
+  const toggleSelection = () => {
+    if (!transcript || selection.length === 0) return;
+    const selected = new Set(selection);
+    const allDeleted = transcript.paragraphs.every((p) =>
+      p.words.every((w) => !selected.has(w.id) || w.deleted)
+    );
+    setTranscript(setWordsDeleted(transcript, selection, !allDeleted));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      toggleSelection();
+    }
+  };
+
+  const handleApply = () => {
+    if (!transcript || !compiled) return;
+    if (compiled.scenes.length === 0) {
+      toast.error("Keep at least one word");
+      return;
+    }
+    onApply(applyTranscript(timeline, transcript));
+  };
+
+  const selected = new Set(selection);
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Edit Transcript</DialogTitle>
+          <DialogDescription>
+            Select words and press Delete to cut them; double-click selects a sentence. Applying rebuilds the
+            scenes and captions from the transcript.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!transcript ? (
+          <div className="flex flex-col items-center gap-3 py-10 text-center">
+            <p className="text-sm text-muted-foreground">
+              This video has no transcript yet.
+            </p>
+            <Button onClick={transcribe} disabled={isTranscribing}>
+              {isTranscribing ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Transcribing...
+                </>
+              ) : (
+                "Transcribe"
+              )}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={toggleSelection} disabled={selection.length === 0}>
+                <Scissors className="w-4 h-4 mr-2" />
+                Cut / Restore
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => transcript && setTranscript(setWordsDeleted(transcript, wordOrder, false))}
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Restore all
+              </Button>
+              {compiled && (
+                <span className="ml-auto text-sm text-muted-foreground">
+                  {formatTime(compiled.durationSec)} after edit
+                  {compiled.removedSec >= 0.1 && ` · ${compiled.removedSec.toFixed(1)}s removed`}
+                </span>
+              )}
+            </div>
+
+            <ScrollArea className="h-[50vh] rounded-md border">
+              <div tabIndex={0} onKeyDown={handleKeyDown} className="space-y-3 p-3 outline-none">
+                {transcript.paragraphs.map((paragraph, index) => (
+                  <div key={paragraph.id} className="group flex gap-2">
+                    <div className="flex flex-col opacity-0 group-hover:opacity-100">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={index === 0}
+                        onClick={() => setTranscript(moveParagraph(transcript, index, index - 1))}
+                      >
+                        <ArrowUp className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={index === transcript.paragraphs.length - 1}
+                        onClick={() => setTranscript(moveParagraph(transcript, index, index + 1))}
+                      >
+                        <ArrowDown className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    <p className="flex-1 text-sm leading-7 select-none">
+                      {paragraph.words.map((word) => (
+                        <span
+                          key={word.id}
+                          onClick={(e) => selectWord(word.id, e.shiftKey)}
+                          onDoubleClick={() => selectSentence(word.id)}
+                          className={cn(
+                            "cursor-pointer rounded px-0.5",
+                            word.deleted && "line-through text-muted-foreground/60",
+                            selected.has(word.id) ? "bg-primary/20" : "hover:bg-muted"
+                          )}
+                        >
+                          {word.word}{" "}
+                        </span>
+                      ))}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!transcript}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
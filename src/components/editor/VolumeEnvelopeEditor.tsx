@@ -0,0 +1,104 @@
+"use client";
+
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import type { VolumeEnvelope } from "@/lib/timeline/v1";
+
+const EMPTY_ENVELOPE: VolumeEnvelope = { fadeInSec: 0, fadeOutSec: 0, keyframes: [] };
+const MAX_FADE_SEC = 10;
+
+interface VolumeEnvelopeEditorProps {
+  envelope?: VolumeEnvelope;
+  onChange: (envelope: VolumeEnvelope) => void;
+}
+
+/**
+ * Fade in/out and gain keyframes for one audio clip.
+ * Keyframe times are seconds from the clip's start.
+ */
+export function VolumeEnvelopeEditor({ envelope, onChange }: VolumeEnvelopeEditorProps) {
+  const current = envelope ?? EMPTY_ENVELOPE;
+
+  const update = (updates: Partial<VolumeEnvelope>) => onChange({ ...current, ...updates });
+
+  const updateKeyframe = (index: number, updates: Partial<VolumeEnvelope["keyframes"][number]>) =>
+    update({
+      keyframes: current.keyframes
+        .map((k, i) => (i === index ? { ...k, ...updates } : k))
+        .sort((a, b) => a.t - b.t),
+    });
+
+  const addKeyframe = () => {
+    const last = current.keyframes[current.keyframes.length - 1];
+    update({ keyframes: [...current.keyframes, { t: last ? last.t + 1 : 0, gain: last?.gain ?? 1 }] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Fade in: {current.fadeInSec.toFixed(1)}s</Label>
+          <Slider
+            value={[current.fadeInSec]}
+            max={MAX_FADE_SEC}
+            step={0.1}
+            onValueChange={(value) => update({ fadeInSec: value[0] })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Fade out: {current.fadeOutSec.toFixed(1)}s</Label>
+          <Slider
+            value={[current.fadeOutSec]}
+            max={MAX_FADE_SEC}
+            step={0.1}
+            onValueChange={(value) => update({ fadeOutSec: value[0] })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs text-muted-foreground">Gain keyframes</Label>
+          <Button variant="ghost" size="sm" className="h-6 px-2" onClick={addKeyframe}>
+            <Plus className="w-3 h-3 mr-1" />
+            Add
+          </Button>
+        </div>
+
+        {current.keyframes.map((keyframe, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              step={0.1}
+              className="h-7 w-20 text-xs"
+              value={keyframe.t}
+              onChange={(e) => updateKeyframe(index, { t: Math.max(0, parseFloat(e.target.value) || 0) })}
+            />
+            <Slider
+              className="flex-1"
+              value={[keyframe.gain]}
+              max={2}
+              step={0.05}
+              onValueChange={(value) => updateKeyframe(index, { gain: value[0] })}
+            />
+            <span className="w-10 text-right text-xs text-muted-foreground">
+              {Math.round(keyframe.gain * 100)}%
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => update({ keyframes: current.keyframes.filter((_, i) => i !== index) })}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
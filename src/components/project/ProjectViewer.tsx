@@ -19,6 +19,8 @@ import {
   Volume2,
   VolumeX,
   Maximize,
+  Gauge,
+  TriangleAlert,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -30,14 +32,31 @@ import { cn } from "@/lib/utils";
 import { formatDistanceToNow, formatDuration } from "@/lib/date";
 import { toast } from "sonner";
 import confetti from "canvas-confetti";
-import type { Project, RenderJob } from "@/lib/database.types";
+import type {
+  Project,
+  RenderJob,
+  RenderJobLoudness,
+  RenderJobQaReport,
+  RenderJobRendition,
+} from "@/lib/database.types";
+import { AspectRatios, type AspectRatio } from "@/lib/timeline/v1";
+import { DRAFT_RENDERS_PER_HOUR, DraftHeights, type DraftHeight } from "@/lib/credits";
 import { RenderProgress } from "./RenderProgress";
+import { RenderLogViewer } from "./RenderLogViewer";
+import { VersionHistory } from "./VersionHistory";
 
 interface ProjectViewerProps {
   project: Project;
   renderJob: RenderJob | null;
+  draftJob: RenderJob | null; // Latest draft preview render
 }
 
+const formatLabels: Record<AspectRatio, string> = {
+  landscape: "16:9 Landscape",
+  vertical: "9:16 Vertical",
+  square: "1:1 Square",
+};
+
 const statusConfig = {
   draft: {
     label: "Draft",
@@ -61,17 +80,29 @@ const statusConfig = {
   },
 };
 
-export function ProjectViewer({ project: initialProject, renderJob: initialRenderJob }: ProjectViewerProps) {
+export function ProjectViewer({
+  project: initialProject,
+  renderJob: initialRenderJob,
+  draftJob: initialDraftJob,
+}: ProjectViewerProps) {
   const router = useRouter();
   const videoRef = useRef<HTMLVideoElement>(null);
   const [project, setProject] = useState(initialProject);
   const [renderJob, setRenderJob] = useState(initialRenderJob);
+  const [draftJob, setDraftJob] = useState(initialDraftJob);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [deleting, setDeleting] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
   const [isBuffering, setIsBuffering] = useState(false);
+  const [exportFormats, setExportFormats] = useState<AspectRatio[]>([initialProject.aspect_ratio]);
+
+  const renditions = (renderJob?.renditions as RenderJobRendition[] | null) ?? [];
+  const draftActive = !!draftJob && ["queued", "running"].includes(draftJob.status);
+  const loudness = renderJob?.loudness as RenderJobLoudness | null | undefined;
+  const qaReport = renderJob?.qa_report as RenderJobQaReport | null | undefined;
 
   // Poll for render job updates if rendering
   useEffect(() => {
@@ -84,7 +115,7 @@ export function ProjectViewer({ project: initialProject, renderJob: initialRende
           const data = await res.json();
           setRenderJob(data.job);
           
-          if (data.job.status === "finished" || data.job.status === "failed") {
+          if (data.job.status === "finished" || data.job.status === "failed" || data.job.status === "cancelled") {
             // Refresh project data
             const projRes = await fetch(`/api/projects/${project.id}`);
             if (projRes.ok) {
@@ -116,6 +147,28 @@ export function ProjectViewer({ project: initialProject, renderJob: initialRende
     return () => clearInterval(interval);
   }, [project.status, project.id, renderJob]);
 
+  // Drafts don't touch the project, so they are polled on their own
+  useEffect(() => {
+    if (!draftJob || !draftActive) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const res = await fetch(`/api/render-jobs/${draftJob.id}`);
+        if (res.ok) {
+          const data = await res.json();
+          setDraftJob(data.job);
+          if (data.job.status === "finished") {
+            toast.success("Draft ready");
+          }
+        }
+      } catch (error) {
+        console.error("Failed to poll draft render:", error);
+      }
+    }, 2000);
+
+    return () => clearInterval(interval);
+  }, [draftJob, draftActive]);
+
   const handleDelete = async () => {
     if (!confirm("Are you sure you want to delete this project?")) return;
     
@@ -150,22 +203,106 @@ export function ProjectViewer({ project: initialProject, renderJob: initialRende
     }
   };
 
-  const handleRerender = async () => {
+  // ignoreLint renders despite timeline lint errors, after the user confirms
+  const handleRerender = async (formats?: AspectRatio[], ignoreLint = false) => {
     try {
       const res = await fetch(`/api/projects/${project.id}/render`, {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...(formats ? { formats } : {}), ...(ignoreLint ? { ignoreLint: true } : {}) }),
       });
       
-      if (!res.ok) throw new Error("Failed to start render");
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        if (res.status === 422 && data.lint) {
+          toast.error(data.error, {
+            duration: 10000,
+            action: { label: "Render anyway", onClick: () => handleRerender(formats, true) },
+          });
+          return;
+        }
+        throw new Error(data.error || "Failed to start render");
+      }
       
       const { job } = await res.json();
       setRenderJob(job);
       setProject((p) => ({ ...p, status: "rendering" }));
-    } catch {
-      toast.error("Failed to start render");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start render");
     }
   };
 
+  const handleDraftRender = async (height: DraftHeight) => {
+    try {
+      const res = await fetch(`/api/projects/${project.id}/render`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ draft: height }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to start draft");
+      }
+
+      const { job } = await res.json();
+      setDraftJob(job);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start draft");
+    }
+  };
+
+  const handleCancelDraft = async () => {
+    if (!draftJob) return;
+    try {
+      const res = await fetch(`/api/render-jobs/${draftJob.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to cancel draft");
+      }
+      const { job } = await res.json();
+      setDraftJob(job);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel draft");
+    }
+  };
+
+  const handleCancelRender = async () => {
+    if (!renderJob || !confirm("Cancel this render? Its credits will be refunded.")) return;
+
+    setCancelling(true);
+    try {
+      const res = await fetch(`/api/render-jobs/${renderJob.id}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to cancel render");
+      }
+
+      const { job, refunded } = await res.json();
+      setRenderJob(job);
+
+      const projRes = await fetch(`/api/projects/${project.id}`);
+      if (projRes.ok) {
+        const projData = await projRes.json();
+        setProject(projData.project);
+      }
+      toast.success(`Render cancelled. ${refunded} credit${refunded === 1 ? "" : "s"} refunded.`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel render");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const toggleExportFormat = (format: AspectRatio) => {
+    setExportFormats((current) =>
+      current.includes(format) ? current.filter((f) => f !== format) : [...current, format]
+    );
+  };
+
   const togglePlay = () => {
     if (!videoRef.current) return;
     if (isPlaying) {
@@ -361,8 +498,11 @@ export function ProjectViewer({ project: initialProject, renderJob: initialRende
             </Card>
           ) : project.status === "rendering" && renderJob ? (
             <RenderProgress 
+              jobId={renderJob.id}
               progress={renderJob.progress || 0} 
               currentStage={Array.isArray(renderJob.logs) && renderJob.logs.length > 0 ? String(renderJob.logs[renderJob.logs.length - 1]) : undefined}
+              onCancel={handleCancelRender}
+              cancelling={cancelling}
             />
           ) : project.status === "failed" ? (
             <Card className="border-destructive/50">
@@ -375,11 +515,12 @@ export function ProjectViewer({ project: initialProject, renderJob: initialRende
                   {renderJob?.error || "An error occurred during rendering."}
                 </CardDescription>
               </CardHeader>
-              <CardContent>
-                <Button onClick={handleRerender}>
+              <CardContent className="flex items-center gap-2">
+                <Button onClick={() => handleRerender()}>
                   <RefreshCw className="w-4 h-4 mr-2" />
                   Try Again
                 </Button>
+                {renderJob && <RenderLogViewer jobId={renderJob.id} />}
               </CardContent>
             </Card>
           ) : (
@@ -400,6 +541,45 @@ export function ProjectViewer({ project: initialProject, renderJob: initialRende
             </Card>
           )}
 
+          {/* Quality check warnings */}
+          {project.status === "finished" && qaReport && qaReport.issues.length > 0 && (
+            <Card className="border-amber-500/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base text-amber-600">
+                  <TriangleAlert className="w-5 h-5" />
+                  Quality check: {qaReport.issues.length} {qaReport.issues.length === 1 ? "warning" : "warnings"}
+                </CardTitle>
+                <CardDescription>
+                  The automatic check of this render found possible problems. Watch these parts before sharing it.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ul className="space-y-2 text-sm">
+                  {qaReport.issues.map((issue, index) => (
+                    <li key={index} className="flex items-center justify-between gap-4">
+                      <span>{issue.message}</span>
+                      {issue.startSec !== null && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            if (!videoRef.current) return;
+                            videoRef.current.currentTime = issue.startSec ?? 0;
+                            videoRef.current.scrollIntoView({ behavior: "smooth", block: "center" });
+                          }}
+                        >
+                          <Play className="w-4 h-4 mr-2" />
+                          Show
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {renderJob && <RenderLogViewer jobId={renderJob.id} />}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Project Details */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <Card>
@@ -451,6 +631,11 @@ export function ProjectViewer({ project: initialProject, renderJob: initialRende
                         {(project.timeline_json as { version?: number }).version || 1}
                       </span>
                     </div>
+                    <VersionHistory
+                      projectId={project.id}
+                      onRestored={setProject}
+                      className="w-full mt-2"
+                    />
                   </div>
                 ) : (
                   <p className="text-sm text-muted-foreground">No timeline configured</p>
@@ -458,6 +643,134 @@ export function ProjectViewer({ project: initialProject, renderJob: initialRende
               </CardContent>
             </Card>
           </div>
+
+          {/* Multi-format export */}
+          {project.timeline_json && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Export Formats</CardTitle>
+                <CardDescription>
+                  Render several aspect ratios in one job. Each format uses 1 credit.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  {AspectRatios.map((format) => (
+                    <Button
+                      key={format}
+                      size="sm"
+                      variant={exportFormats.includes(format) ? "default" : "outline"}
+                      onClick={() => toggleExportFormat(format)}
+                    >
+                      {formatLabels[format]}
+                    </Button>
+                  ))}
+                  <Button
+                    size="sm"
+                    className="ml-auto"
+                    disabled={exportFormats.length === 0 || project.status === "rendering"}
+                    onClick={() => handleRerender(exportFormats)}
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Render {exportFormats.length} {exportFormats.length === 1 ? "format" : "formats"}
+                  </Button>
+                </div>
+
+                {project.status === "finished" && renditions.length > 0 && (
+                  <div className="space-y-2 text-sm">
+                    {renditions.map((rendition) => (
+                      <div key={rendition.aspectRatio} className="flex items-center justify-between">
+                        <span className="text-muted-foreground">
+                          {formatLabels[rendition.aspectRatio]} · {rendition.width}x{rendition.height}
+                        </span>
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={rendition.outputUrl} download>
+                            <Download className="w-4 h-4 mr-2" />
+                            Download
+                          </a>
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {project.status === "finished" && loudness?.output && (
+                  <p className="text-xs text-muted-foreground">
+                    Loudness: {loudness.output.integratedLufs?.toFixed(1)} LUFS,{" "}
+                    {loudness.output.truePeakDb?.toFixed(1)} dBTP true peak
+                    {loudness.targetLufs !== null && ` (target ${loudness.targetLufs} LUFS, ${loudness.preset})`}
+                  </p>
+                )}
+
+                {project.status === "finished" && qaReport?.issues.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Quality check passed: no black frames, freezes or silent gaps found.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Draft preview */}
+          {project.timeline_json && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Draft Preview</CardTitle>
+                <CardDescription>
+                  A quick low-resolution render to check timing. Free, watermarked and kept for 7 days;
+                  up to {DRAFT_RENDERS_PER_HOUR} per hour.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  {DraftHeights.map((height) => (
+                    <Button
+                      key={height}
+                      size="sm"
+                      variant="outline"
+                      disabled={draftActive || project.status === "rendering"}
+                      onClick={() => handleDraftRender(height)}
+                    >
+                      <Gauge className="w-4 h-4 mr-2" />
+                      Draft {height}p
+                    </Button>
+                  ))}
+                </div>
+
+                {draftJob && draftActive && (
+                  <div className="space-y-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">
+                        {Array.isArray(draftJob.logs) && draftJob.logs.length > 0
+                          ? String(draftJob.logs[draftJob.logs.length - 1])
+                          : "Queued..."}
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={handleCancelDraft}>
+                        Cancel
+                      </Button>
+                    </div>
+                    <Progress value={draftJob.progress || 0} />
+                  </div>
+                )}
+
+                {draftJob && !draftActive && draftJob.output_url && (
+                  <div className="space-y-2">
+                    <video src={draftJob.output_url} controls className="w-full rounded-lg bg-black" />
+                    <p className="text-xs text-muted-foreground">
+                      {draftJob.draft_height}p draft · rendered {formatDistanceToNow(draftJob.created_at)}
+                    </p>
+                  </div>
+                )}
+
+                {draftJob?.status === "failed" && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-destructive">{draftJob.error || "The draft failed to render."}</p>
+                    <RenderLogViewer jobId={draftJob.id} />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
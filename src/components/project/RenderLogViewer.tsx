@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { ChevronDown, ChevronRight, Download, FileText, Loader2 } from "lucide-react";
+import type { RenderJobLog } from "@/lib/database.types";
+
+interface RenderLogViewerProps {
+  jobId: string;
+  live?: boolean; // Keep fetching new entries while the job runs
+  className?: string;
+}
+
+const levelStyles: Record<RenderJobLog["level"], string> = {
+  info: "text-muted-foreground",
+  warn: "text-amber-500",
+  error: "text-destructive",
+};
+
+/**
+ * The worker's structured log for a render job (stage timings, sizes,
+ * FFmpeg commands and output), in a dialog with a download link
+ */
+export function RenderLogViewer({ jobId, live, className }: RenderLogViewerProps) {
+  const [open, setOpen] = useState(false);
+  const [logs, setLogs] = useState<RenderJobLog[] | null>(null);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+
+    let lastId = 0;
+    let cancelled = false;
+    const fetchLogs = async () => {
+      try {
+        const res = await fetch(`/api/render-jobs/${jobId}/logs?after=${lastId}`);
+        if (!res.ok || cancelled) return;
+        const data: { logs: RenderJobLog[] } = await res.json();
+        if (cancelled) return;
+        if (data.logs.length > 0) lastId = data.logs[data.logs.length - 1].id;
+        setLogs((current) => (current && lastId > 0 ? [...current, ...data.logs] : data.logs));
+      } catch (error) {
+        console.error("Failed to fetch render logs:", error);
+      }
+    };
+
+    fetchLogs();
+    const interval = live ? setInterval(fetchLogs, 3000) : undefined;
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [open, jobId, live]);
+
+  const handleOpenChange = (next: boolean) => {
+    // Fetched afresh each time it opens
+    if (next) setLogs(null);
+    setOpen(next);
+  };
+
+  const toggle = (id: number) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <FileText className="w-4 h-4 mr-2" />
+          View logs
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Render log</DialogTitle>
+          <DialogDescription>
+            What the render worker did, stage by stage. Click an entry for its details.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[60vh] rounded-md border">
+          {logs === null ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          ) : logs.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              No log entries yet.
+            </p>
+          ) : (
+            <ul className="divide-y font-mono text-xs">
+              {logs.map((entry) => {
+                const isExpanded = expanded.has(entry.id);
+                const data = (entry.data ?? null) as Record<string, unknown> | null;
+                return (
+                  <li key={entry.id} className="px-3 py-2">
+                    <button
+                      type="button"
+                      className="flex w-full items-start gap-2 text-left"
+                      onClick={() => toggle(entry.id)}
+                      disabled={!data}
+                    >
+                      {data ? (
+                        isExpanded ? (
+                          <ChevronDown className="w-3 h-3 mt-0.5 shrink-0" />
+                        ) : (
+                          <ChevronRight className="w-3 h-3 mt-0.5 shrink-0" />
+                        )
+                      ) : (
+                        <span className="w-3 shrink-0" />
+                      )}
+                      <span className="shrink-0 text-muted-foreground">
+                        {new Date(entry.created_at).toLocaleTimeString()}
+                      </span>
+                      <Badge variant="outline" className="shrink-0">
+                        #{entry.attempt} {entry.stage}
+                      </Badge>
+                      <span className={cn("break-words", levelStyles[entry.level])}>
+                        {entry.message}
+                        {typeof data?.durationMs === "number" && (
+                          <span className="text-muted-foreground"> ({(data.durationMs / 1000).toFixed(1)}s)</span>
+                        )}
+                      </span>
+                    </button>
+                    {isExpanded && data && <LogDetails data={data} host={entry.worker_host} />}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </ScrollArea>
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/render-jobs/${jobId}/logs?format=text`} download>
+              <Download className="w-4 h-4 mr-2" />
+              Download log
+            </a>
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LogDetails({ data, host }: { data: Record<string, unknown>; host: string | null }) {
+  const { command, stderrTail, ...rest } = data;
+  return (
+    <div className="mt-2 ml-5 space-y-2">
+      {host && <p className="text-muted-foreground">Host: {host}</p>}
+      {typeof command === "string" && (
+        <pre className="whitespace-pre-wrap break-all rounded bg-muted p-2">$ {command}</pre>
+      )}
+      {typeof stderrTail === "string" && (
+        <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-all rounded bg-muted p-2">{stderrTail}</pre>
+      )}
+      {Object.keys(rest).length > 0 && (
+        <pre className="whitespace-pre-wrap break-all rounded bg-muted p-2">{JSON.stringify(rest, null, 2)}</pre>
+      )}
+    </div>
+  );
+}
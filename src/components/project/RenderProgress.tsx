@@ -1,11 +1,16 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import { Loader2, Check, Circle, Upload, Film, Music, Wand2, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Check, Circle, Upload, Film, Music, Wand2, Download, XCircle } from "lucide-react";
+import { RenderLogViewer } from "./RenderLogViewer";
 
 interface RenderProgressProps {
+  jobId?: string; // Shows the job's live log
   progress: number;
   currentStage?: string;
+  onCancel?: () => void;
+  cancelling?: boolean;
 }
 
 const stages = [
@@ -17,7 +22,7 @@ const stages = [
   { id: "uploading", label: "Uploading", icon: Upload, threshold: 95 },
 ];
 
-export function RenderProgress({ progress, currentStage }: RenderProgressProps) {
+export function RenderProgress({ jobId, progress, currentStage, onCancel, cancelling }: RenderProgressProps) {
   // Determine current stage based on progress
   const getCurrentStageIndex = () => {
     for (let i = stages.length - 1; i >= 0; i--) {
@@ -121,6 +126,19 @@ export function RenderProgress({ progress, currentStage }: RenderProgressProps)
           <p className="text-sm text-muted-foreground">
             💡 Tip: You can navigate away from this page. Your video will continue rendering in the background.
           </p>
+          <div className="mt-4 flex items-center justify-center gap-2">
+            {jobId && <RenderLogViewer jobId={jobId} live />}
+            {onCancel && (
+              <Button variant="outline" size="sm" onClick={onCancel} disabled={cancelling}>
+                {cancelling ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <XCircle className="w-4 h-4 mr-2" />
+                )}
+                Cancel render
+              </Button>
+            )}
+          </div>
         </div>
       </div>
     </div>
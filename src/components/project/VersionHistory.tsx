@@ -0,0 +1,252 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow, formatDuration } from "@/lib/date";
+import { toast } from "sonner";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import type { Project, ProjectVersion } from "@/lib/database.types";
+import type { TimelineChange, TimelineDiff } from "@/lib/timeline/diff";
+
+type VersionSummary = Omit<ProjectVersion, "timeline_json">;
+
+interface VersionHistoryProps {
+  projectId: string;
+  onRestored?: (project: Project) => void;
+  className?: string;
+}
+
+const sourceLabels: Record<ProjectVersion["source"], string> = {
+  save: "Saved",
+  render: "Rendered",
+  ai: "AI generated",
+  restore: "Restored",
+  initial: "Original",
+};
+
+const changeStyles: Record<TimelineChange["kind"], string> = {
+  added: "text-green-600",
+  removed: "text-destructive",
+  changed: "text-amber-600",
+};
+
+const targetLabels: Record<TimelineChange["target"], string> = {
+  videoClip: "Clip",
+  audioClip: "Audio",
+  textOverlay: "Text",
+  textEffect: "Effect",
+  settings: "Settings",
+};
+
+/**
+ * The project's saved versions (every save session, render and AI write),
+ * what restoring one would change, and a button to restore it
+ */
+export function VersionHistory({ projectId, onRestored, className }: VersionHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<VersionSummary[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<TimelineDiff | null | undefined>(undefined);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const fetchVersions = async () => {
+      try {
+        const res = await fetch(`/api/projects/${projectId}/versions`);
+        if (!res.ok || cancelled) return;
+        const data: { versions: VersionSummary[] } = await res.json();
+        if (!cancelled) setVersions(data.versions);
+      } catch (error) {
+        console.error("Failed to fetch versions:", error);
+      }
+    };
+
+    fetchVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    let cancelled = false;
+    const fetchDiff = async () => {
+      try {
+        const res = await fetch(`/api/projects/${projectId}/versions/${selectedId}`);
+        if (!res.ok || cancelled) return;
+        const data: { diff: TimelineDiff | null } = await res.json();
+        if (!cancelled) setDiff(data.diff);
+      } catch (error) {
+        console.error("Failed to fetch version:", error);
+      }
+    };
+
+    fetchDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, selectedId]);
+
+  const handleOpenChange = (next: boolean) => {
+    // Fetched afresh each time it opens
+    if (next) {
+      setVersions(null);
+      setSelectedId(null);
+    }
+    setOpen(next);
+  };
+
+  const select = (id: string) => {
+    setDiff(undefined);
+    setSelectedId(id);
+  };
+
+  const handleRestore = async () => {
+    if (!selectedId) return;
+    setRestoring(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/versions/${selectedId}/restore`, {
+        method: "POST",
+      });
+      if (!res.ok) throw new Error("Failed to restore");
+      const data: { project: Project } = await res.json();
+      toast.success("Version restored");
+      onRestored?.(data.project);
+      setOpen(false);
+    } catch {
+      toast.error("Failed to restore version");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const selected = versions?.find((v) => v.id === selectedId);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <History className="w-4 h-4 mr-2" />
+          Version history
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Every save, render and AI generation of this timeline. Pick one to see what restoring it would change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[16rem_1fr] gap-4">
+          <ScrollArea className="h-[50vh] rounded-md border">
+            {versions === null ? (
+              <div className="flex items-center justify-center py-12 text-muted-foreground">
+                <Loader2 className="w-5 h-5 animate-spin" />
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="py-12 px-4 text-center text-sm text-muted-foreground">
+                No versions yet. One is kept each time the timeline is saved.
+              </p>
+            ) : (
+              <ul className="divide-y text-sm">
+                {versions.map((version) => (
+                  <li key={version.id}>
+                    <button
+                      type="button"
+                      className={cn(
+                        "w-full px-3 py-2 text-left hover:bg-muted",
+                        version.id === selectedId && "bg-muted"
+                      )}
+                      onClick={() => select(version.id)}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">v{version.version}</span>
+                        <Badge variant="outline">{sourceLabels[version.source]}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(version.updated_at)}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+
+          <div className="flex flex-col gap-3 min-w-0">
+            <ScrollArea className="h-[calc(50vh-3rem)] rounded-md border">
+              {!selected ? (
+                <p className="py-12 px-4 text-center text-sm text-muted-foreground">
+                  Select a version
+                </p>
+              ) : diff === undefined ? (
+                <div className="flex items-center justify-center py-12 text-muted-foreground">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                </div>
+              ) : diff === null ? (
+                <p className="py-12 px-4 text-center text-sm text-muted-foreground">
+                  This version can&apos;t be compared with the current timeline.
+                </p>
+              ) : diff.changes.length === 0 ? (
+                <p className="py-12 px-4 text-center text-sm text-muted-foreground">
+                  Same as the current timeline.
+                </p>
+              ) : (
+                <div className="p-3 space-y-2 text-sm">
+                  <p className="text-muted-foreground">
+                    Length {formatDuration(diff.beforeDurationSec)} → {formatDuration(diff.afterDurationSec)}
+                  </p>
+                  <ul className="space-y-1">
+                    {diff.changes.map((change) => (
+                      <li key={`${change.target}-${change.id}`} className="flex gap-2">
+                        <span className={cn("shrink-0 w-16", changeStyles[change.kind])}>{change.kind}</span>
+                        <span className="shrink-0 text-muted-foreground">{targetLabels[change.target]}</span>
+                        <span className="truncate">
+                          {change.label}
+                          {change.fields.length > 0 && (
+                            <span className="text-muted-foreground"> ({change.fields.join(", ")})</span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </ScrollArea>
+
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={handleRestore}
+                disabled={!selected || restoring || diff?.changes.length === 0}
+              >
+                {restoring ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                )}
+                Restore v{selected?.version ?? ""}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+import type { createAdminClient } from "@/lib/supabase/server";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// Draft previews (render_jobs.draft_height) are free; this caps them instead
+export const DraftHeights = [360, 480] as const;
+export type DraftHeight = (typeof DraftHeights)[number];
+export const DRAFT_RENDERS_PER_HOUR = 10;
+
+/**
+ * Credits a render costs: one per requested format (one for the project's own)
+ */
+export function renderCreditCost(formats: readonly string[] | null | undefined): number {
+  return formats?.length || 1;
+}
+
+/**
+ * Give back the credits a render job was charged and record the refund.
+ * Callers make sure this runs once per job (e.g. after a conditional
+ * status update).
+ */
+export async function refundRenderCredits(
+  adminSupabase: AdminClient,
+  userId: string,
+  job: { id: string; formats: readonly string[] | null },
+  description: string
+): Promise<number> {
+  const amount = renderCreditCost(job.formats);
+
+  const { data: userCredits } = await adminSupabase
+    .from("user_credits")
+    .select("credits")
+    .eq("user_id", userId)
+    .single();
+
+  await adminSupabase
+    .from("user_credits")
+    .update({ credits: (userCredits?.credits ?? 0) + amount, updated_at: new Date().toISOString() })
+    .eq("user_id", userId);
+
+  await adminSupabase
+    .from("credit_transactions")
+    .insert({
+      user_id: userId,
+      amount,
+      type: "refund",
+      description,
+      reference_id: job.id,
+    });
+
+  return amount;
+}
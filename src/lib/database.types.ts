@@ -23,6 +23,7 @@ export interface Database {
           duration_sec: number | null
           script: string | null
           timeline_json: Json | null
+          revision: number
           status: 'draft' | 'rendering' | 'finished' | 'failed'
           thumbnail_url: string | null
           output_url: string | null
@@ -42,6 +43,7 @@ export interface Database {
           duration_sec?: number | null
           script?: string | null
           timeline_json?: Json | null
+          revision?: number
           status?: 'draft' | 'rendering' | 'finished' | 'failed'
           thumbnail_url?: string | null
           output_url?: string | null
@@ -61,6 +63,7 @@ export interface Database {
           duration_sec?: number | null
           script?: string | null
           timeline_json?: Json | null
+          revision?: number
           status?: 'draft' | 'rendering' | 'finished' | 'failed'
           thumbnail_url?: string | null
           output_url?: string | null
@@ -87,6 +90,7 @@ export interface Database {
           metadata: Record<string, unknown>
           status: 'processing' | 'ready' | 'failed'
           reference: string | null
+          reframe_path: Json | null
           created_at: string
           updated_at: string
         }
@@ -108,6 +112,7 @@ export interface Database {
           metadata?: Record<string, unknown>
           status?: 'processing' | 'ready' | 'failed'
           reference?: string | null
+          reframe_path?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -129,6 +134,7 @@ export interface Database {
           metadata?: Record<string, unknown>
           status?: 'processing' | 'ready' | 'failed'
           reference?: string | null
+          reframe_path?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -175,40 +181,149 @@ export interface Database {
         Row: {
           id: string
           project_id: string
-          status: 'queued' | 'processing' | 'completed' | 'failed'
+          status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
           progress: number
           output_url: string | null
+          caption_urls: Json | null
+          formats: ('landscape' | 'vertical' | 'square')[] | null
+          renditions: Json | null
+          loudness: Json | null
+          qa_report: Json | null
+          draft_height: 360 | 480 | null
+          attempts: number
+          lease_owner: string | null
+          lease_expires_at: string | null
+          next_attempt_at: string | null
+          checkpoint: Json | null
           error: string | null
           logs: Json | null
           started_at: string | null
           completed_at: string | null
+          cancelled_at: string | null
           created_at: string
         }
         Insert: {
           id?: string
           project_id: string
-          status?: 'queued' | 'processing' | 'completed' | 'failed'
+          status?: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
           progress?: number
           output_url?: string | null
+          caption_urls?: Json | null
+          formats?: ('landscape' | 'vertical' | 'square')[] | null
+          renditions?: Json | null
+          loudness?: Json | null
+          qa_report?: Json | null
+          draft_height?: 360 | 480 | null
+          attempts?: number
+          lease_owner?: string | null
+          lease_expires_at?: string | null
+          next_attempt_at?: string | null
+          checkpoint?: Json | null
           error?: string | null
           logs?: Json | null
           started_at?: string | null
           completed_at?: string | null
+          cancelled_at?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           project_id?: string
-          status?: 'queued' | 'processing' | 'completed' | 'failed'
+          status?: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
           progress?: number
           output_url?: string | null
+          caption_urls?: Json | null
+          formats?: ('landscape' | 'vertical' | 'square')[] | null
+          renditions?: Json | null
+          loudness?: Json | null
+          qa_report?: Json | null
+          draft_height?: 360 | 480 | null
+          attempts?: number
+          lease_owner?: string | null
+          lease_expires_at?: string | null
+          next_attempt_at?: string | null
+          checkpoint?: Json | null
           error?: string | null
           logs?: Json | null
           started_at?: string | null
           completed_at?: string | null
+          cancelled_at?: string | null
           created_at?: string
         }
       }
+      render_job_logs: {
+        Row: {
+          id: number
+          job_id: string
+          attempt: number
+          level: 'info' | 'warn' | 'error'
+          stage: string
+          message: string
+          data: Json | null
+          worker_host: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          job_id: string
+          attempt?: number
+          level?: 'info' | 'warn' | 'error'
+          stage: string
+          message: string
+          data?: Json | null
+          worker_host?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          job_id?: string
+          attempt?: number
+          level?: 'info' | 'warn' | 'error'
+          stage?: string
+          message?: string
+          data?: Json | null
+          worker_host?: string | null
+          created_at?: string
+        }
+      }
+      project_versions: {
+        Row: {
+          id: string
+          project_id: string
+          version: number
+          source: 'save' | 'render' | 'ai' | 'restore' | 'initial'
+          timeline_json: Json
+          render_job_id: string | null
+          restored_from: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          version: number
+          source: 'save' | 'render' | 'ai' | 'restore' | 'initial'
+          timeline_json: Json
+          render_job_id?: string | null
+          restored_from?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          version?: number
+          source?: 'save' | 'render' | 'ai' | 'restore' | 'initial'
+          timeline_json?: Json
+          render_job_id?: string | null
+          restored_from?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
       clips: {
         Row: {
           id: string
@@ -369,10 +484,52 @@ export type Project = Database['public']['Tables']['projects']['Row']
 export type MediaAsset = Database['public']['Tables']['media_assets']['Row']
 export type BrandPreset = Database['public']['Tables']['brand_presets']['Row']
 export type RenderJob = Database['public']['Tables']['render_jobs']['Row']
+export type RenderJobLog = Database['public']['Tables']['render_job_logs']['Row']
+export type ProjectVersion = Database['public']['Tables']['project_versions']['Row']
 export type Clip = Database['public']['Tables']['clips']['Row']
 export type ClipVariant = Database['public']['Tables']['clip_variants']['Row']
 export type VideoJob = Database['public']['Tables']['video_jobs']['Row']
 
+// One output of a multi-format render (render_jobs.renditions)
+export interface RenderJobRendition {
+  aspectRatio: 'landscape' | 'vertical' | 'square'
+  width: number
+  height: number
+  outputUrl: string
+  thumbnailUrl: string | null // Drafts have none
+  sizeBytes: number
+}
+
+// EBU R128 figures for one render (render_jobs.loudness)
+export interface RenderJobLoudnessStats {
+  integratedLufs: number
+  truePeakDb: number
+  lra: number
+  thresholdLufs: number
+}
+
+export interface RenderJobLoudness {
+  preset: 'social' | 'broadcast' | 'off'
+  targetLufs: number | null
+  input: RenderJobLoudnessStats
+  output: RenderJobLoudnessStats
+}
+
+// Post-render quality check (render_jobs.qa_report); issues are warnings
+export interface RenderJobQaIssue {
+  check: 'black_frames' | 'freeze' | 'silence' | 'missing_audio' | 'loudness' | 'duration'
+  startSec: number | null
+  endSec: number | null
+  message: string
+}
+
+export interface RenderJobQaReport {
+  durationSec: number | null
+  expectedDurationSec: number
+  loudness: { integratedLufs: number; truePeakDb: number; lra: number } | null
+  issues: RenderJobQaIssue[]
+}
+
 // User profile type (from user_profiles table)
 export interface UserProfile {
   id: string
@@ -457,3 +457,100 @@ export function createEffectFromAI(
   
   return config;
 }
+
+// ============================================================================
+// PREVIEW LAYOUT
+// ============================================================================
+
+export interface EffectLayer {
+  type: "box" | "text";
+  x: number; // Pixels from the left; the center of the text when centered
+  y: number; // Pixels from the top (top of the text line for text)
+  width?: number;
+  height?: number;
+  color: string;
+  opacity?: number;
+  text?: string;
+  fontSize?: number;
+  centered?: boolean;
+}
+
+/**
+ * What the render worker draws for a timeline text effect, as boxes and text
+ * lines for the in-browser preview. Mirrors buildTextEffect in
+ * worker/src/render/compileTimeline.ts, which draws the effects statically
+ * (no slide timing) in default colors - keep the two in step.
+ * Returns null for effects the worker doesn't know.
+ */
+export function effectPreviewLayers(
+  effect: { effectId: string; header?: string; body?: string; topText?: string; bottomText?: string },
+  { width, height }: { width: number; height: number }
+): EffectLayer[] | null {
+  const primaryColor = "#00f0ff";
+  const textColor = "#ffffff";
+  const fontSize = Math.round(height * 0.04);
+  const headerSize = Math.round(height * 0.05);
+
+  const box = (x: number, y: number, w: number, h: number, color = primaryColor): EffectLayer =>
+    ({ type: "box", x, y, width: w, height: h, color });
+  const text = (value: string, size: number, color: string, x: number, y: number, centered = false, opacity = 1): EffectLayer =>
+    ({ type: "text", text: value, fontSize: size, color, x, y, centered, opacity });
+
+  switch (effect.effectId) {
+    case "lower-third-minimal": {
+      const y = height - Math.round(height * 0.2);
+      return [
+        box(80, y + 45, 300, 4),
+        text(effect.header || "", headerSize, textColor, 80, y),
+        text(effect.body || "", fontSize, textColor, 80, y + 60, false, 0.7),
+      ];
+    }
+    case "slide-box-left":
+    case "slide-box-right": {
+      const boxW = Math.round(width * 0.5);
+      const boxX = effect.effectId === "slide-box-left" ? 0 : width - boxW;
+      const centerX = boxX + boxW / 2;
+      return [
+        box(boxX, 0, boxW, height),
+        text(effect.header || "", headerSize * 1.5, "#000000", centerX, height / 2 - 60, true),
+        text(effect.body || "", fontSize, "#000000", centerX, height / 2 + 20, true, 0.8),
+      ];
+    }
+    case "letterbox-with-text": {
+      const barH = Math.round(height * 0.12);
+      const layers = [box(0, 0, width, barH, "#000000"), box(0, height - barH, width, barH, "#000000")];
+      if (effect.topText) layers.push(text(effect.topText, fontSize, textColor, width / 2, barH / 2 - fontSize / 2, true));
+      if (effect.bottomText) {
+        layers.push(text(effect.bottomText, fontSize, textColor, width / 2, height - barH / 2 - fontSize / 2, true));
+      }
+      return layers;
+    }
+    case "corner-accents": {
+      const size = 60;
+      const m = 40;
+      const t = 4;
+      return [
+        box(m, m, size, t),
+        box(m, m, t, size),
+        box(width - m - size, m, size, t),
+        box(width - m - t, m, t, size),
+        box(m, height - m - t, size, t),
+        box(m, height - m - size, t, size),
+        box(width - m - size, height - m - t, size, t),
+        box(width - m - t, height - m - size, t, size),
+      ];
+    }
+    case "border-glow": {
+      const t = 4;
+      const m = 20;
+      return [
+        box(m, m, width - 2 * m, t),
+        box(m, height - m - t, width - 2 * m, t),
+        box(m, m, t, height - 2 * m),
+        box(width - m - t, m, t, height - 2 * m),
+      ];
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Pre-flight media check results, as returned by the render worker's
+ * /preflight endpoint (see worker/src/render/preflight.ts)
+ */
+
+export type PreflightSeverity = "error" | "warning";
+
+export type PreflightCode =
+  | "probe_failed"
+  | "missing_video"
+  | "missing_audio"
+  | "unsupported_codec"
+  | "in_point_past_end"
+  | "out_point_past_end"
+  | "odd_rotation"
+  | "variable_frame_rate"
+  | "sample_rate_mismatch";
+
+export interface PreflightProblem {
+  severity: PreflightSeverity;
+  code: PreflightCode;
+  clipId: string | null;
+  assetKey: string | null;
+  message: string;
+}
+
+export interface PreflightReport {
+  ok: boolean; // No errors (warnings allowed)
+  problems: PreflightProblem[];
+}
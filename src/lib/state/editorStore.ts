@@ -1,7 +1,10 @@
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
 import type { TimelineV1, Scene, TextOverlay, TransitionPreset, AnimationPreset } from "@/lib/timeline/v1";
-import { updateScene, deleteScene, addScene, reorderScenes, normalizeTimeline, createTextOverlay } from "@/lib/timeline/v1";
+import { createTextOverlay } from "@/lib/timeline/v1";
+import type { TimelineV2, VideoClip, AudioClip } from "@/lib/timeline/v2";
+import { toTimelineV2, normalizeTimelineV2, normalizeClip, mapMainClips, getMainClips, updateAudioRole } from "@/lib/timeline/v2";
+import { recordEdit, undoStep, redoStep, type UndoHistory } from "./history";
 
 // Selection types
 export type SelectedItemType = "scene" | "text" | null;
@@ -12,11 +15,22 @@ export interface SelectedItem {
   textIndex?: number;
 }
 
+// Undo history entry: the timeline before a step and what the step did
+export interface HistoryEntry {
+  timeline: TimelineV2;
+  label: string;
+}
+
 interface EditorState {
   // Project data
   projectId: string | null;
-  timeline: TimelineV1 | null;
-  originalTimeline: TimelineV1 | null; // For dirty checking
+  timeline: TimelineV2 | null;
+  originalTimeline: TimelineV2 | null; // For dirty checking
+
+  // History
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  lastEdit: UndoHistory<HistoryEntry>["lastEdit"];
   
   // UI state
   selectedSceneId: string | null;
@@ -27,13 +41,13 @@ interface EditorState {
   lastSavedAt: Date | null;
   
   // Actions
-  setProject: (projectId: string, timeline: TimelineV1) => void;
-  setTimeline: (timeline: TimelineV1) => void;
+  setProject: (projectId: string, timeline: TimelineV1 | TimelineV2) => void;
+  setTimeline: (timeline: TimelineV2) => void;
   selectScene: (sceneId: string | null) => void;
   setSelectedItem: (item: SelectedItem | null) => void;
   
   // Scene operations
-  updateSceneById: (sceneId: string, updates: Partial<Scene>) => void;
+  updateSceneById: (sceneId: string, updates: Partial<VideoClip>) => void;
   deleteSceneById: (sceneId: string) => void;
   addNewScene: (scene: Scene, index?: number) => void;
   reorderScenesAction: (fromIndex: number, toIndex: number) => void;
@@ -41,17 +55,21 @@ interface EditorState {
   updateSceneAnimation: (sceneId: string, animation: AnimationPreset) => void;
   duplicateScene: (sceneId: string) => void;
   
+  // Track operations
+  updateClip: (trackId: string, clipId: string, updates: Partial<VideoClip>) => void;
+  updateAudioClip: (trackId: string, clipId: string, updates: Partial<AudioClip>) => void;
+  
   // Text overlay operations
   addTextOverlay: (text: string, startTime: number, duration?: number) => void;
   updateTextOverlay: (textId: string, updates: Partial<TextOverlay>) => void;
   deleteTextOverlay: (textId: string) => void;
   
   // Global settings
-  updateGlobalMusic: (updates: Partial<TimelineV1["global"]["music"]>) => void;
-  updateGlobalVoiceover: (updates: Partial<TimelineV1["global"]["voiceover"]>) => void;
-  updateGlobalBrand: (updates: Partial<TimelineV1["global"]["brand"]>) => void;
-  updateGlobalExport: (updates: Partial<TimelineV1["global"]["export"]>) => void;
-  updateGlobalCaptions: (updates: Partial<TimelineV1["global"]["captions"]>) => void;
+  updateGlobalMusic: (updates: Partial<AudioClip>) => void;
+  updateGlobalVoiceover: (updates: Partial<AudioClip>) => void;
+  updateGlobalBrand: (updates: Partial<TimelineV2["global"]["brand"]>) => void;
+  updateGlobalExport: (updates: Partial<TimelineV2["global"]["export"]>) => void;
+  updateGlobalCaptions: (updates: Partial<TimelineV2["global"]["captions"]>) => void;
   
   // Playback
   setPlaying: (playing: boolean) => void;
@@ -61,17 +79,86 @@ interface EditorState {
   setSaving: (saving: boolean) => void;
   markSaved: () => void;
   
+  // History
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+
   // State checks
   isDirty: () => boolean;
   reset: () => void;
 }
 
+/**
+ * Update a clip on the main track, keeping its duration in sync with in/out points
+ */
+function updateMainClip(timeline: TimelineV2, clipId: string, updates: Partial<VideoClip>): TimelineV2 {
+  return mapMainClips(timeline, (clips) =>
+    clips.map((clip) => (clip.id === clipId ? normalizeClip({ ...clip, ...updates }) : clip))
+  );
+}
+
+/**
+ * Insert a scene into the main track at the given index (or append)
+ */
+function insertMainClip(timeline: TimelineV2, scene: Scene | VideoClip, index?: number): TimelineV2 {
+  const clip: VideoClip = normalizeClip({ startSec: 0, ...scene });
+  return mapMainClips(timeline, (clips) => {
+    if (index !== undefined && index >= 0 && index <= clips.length) {
+      clips.splice(index, 0, clip);
+    } else {
+      clips.push(clip);
+    }
+    return clips;
+  });
+}
+
+/**
+ * State for a timeline edit: the new timeline plus the history step for it
+ * (see recordEdit); keys name the action, its target and the fields it
+ * touched.
+ */
+function commitTimeline(
+  state: EditorState,
+  timeline: TimelineV2,
+  key: string,
+  label: string
+): Pick<EditorState, "timeline" | "past" | "future" | "lastEdit"> {
+  const before = state.timeline && { timeline: state.timeline, label };
+  return { timeline, ...recordEdit(state, before, key) };
+}
+
+/**
+ * Group key for an update: the action, what it targets and which fields
+ */
+function editKey(action: string, target: string, updates: object): string {
+  return `${action}:${target}:${Object.keys(updates).sort().join(",")}`;
+}
+
+/**
+ * Drop the selection when undo/redo removed what it points at
+ */
+function keepSelection(state: EditorState, timeline: TimelineV2): Pick<EditorState, "selectedItem" | "selectedSceneId"> {
+  const { selectedItem } = state;
+  if (!selectedItem) return { selectedItem: null, selectedSceneId: null };
+  const exists = selectedItem.type === "text"
+    ? (timeline.textOverlays ?? []).some((t) => t.id === selectedItem.id)
+    : timeline.tracks.video.some((track) => track.clips.some((c) => c.id === selectedItem.id));
+  return exists
+    ? { selectedItem, selectedSceneId: state.selectedSceneId }
+    : { selectedItem: null, selectedSceneId: null };
+}
+
 export const useEditorStore = create<EditorState>()(
   devtools(
     (set, get) => ({
       projectId: null,
       timeline: null,
       originalTimeline: null,
+      past: [],
+      future: [],
+      lastEdit: null,
       selectedSceneId: null,
       selectedItem: null,
       isPlaying: false,
@@ -80,14 +167,18 @@ export const useEditorStore = create<EditorState>()(
       lastSavedAt: null,
 
       setProject: (projectId, timeline) => {
-        const normalized = normalizeTimeline(timeline);
+        const normalized = normalizeTimelineV2(toTimelineV2(timeline));
+        const firstClip = getMainClips(normalized)[0];
         set({
           projectId,
           timeline: normalized,
           originalTimeline: JSON.parse(JSON.stringify(normalized)),
-          selectedSceneId: normalized.scenes[0]?.id || null,
-          selectedItem: normalized.scenes[0] ? {
-            id: normalized.scenes[0].id,
+          past: [],
+          future: [],
+          lastEdit: null,
+          selectedSceneId: firstClip?.id || null,
+          selectedItem: firstClip ? {
+            id: firstClip.id,
             type: "scene",
             sceneIndex: 0,
           } : null,
@@ -98,12 +189,12 @@ export const useEditorStore = create<EditorState>()(
       },
 
       setTimeline: (timeline) => {
-        set({ timeline: normalizeTimeline(timeline) });
+        set((state) => commitTimeline(state, normalizeTimelineV2(timeline), "setTimeline", "Edit timeline"));
       },
 
       selectScene: (sceneId) => {
         const { timeline } = get();
-        const sceneIndex = timeline?.scenes.findIndex(s => s.id === sceneId) ?? -1;
+        const sceneIndex = timeline ? getMainClips(timeline).findIndex(s => s.id === sceneId) : -1;
         set({ 
           selectedSceneId: sceneId,
           selectedItem: sceneId && sceneIndex >= 0 ? {
@@ -124,84 +215,140 @@ export const useEditorStore = create<EditorState>()(
       updateSceneById: (sceneId, updates) => {
         const { timeline } = get();
         if (!timeline) return;
-        set({ timeline: updateScene(timeline, sceneId, updates) });
+        set((state) => commitTimeline(
+          state,
+          updateMainClip(timeline, sceneId, updates),
+          editKey("updateScene", sceneId, updates),
+          "Edit clip"
+        ));
       },
 
       deleteSceneById: (sceneId) => {
         const { timeline, selectedSceneId, selectedItem } = get();
         if (!timeline) return;
-        const newTimeline = deleteScene(timeline, sceneId);
-        set({
-          timeline: newTimeline,
+        const newTimeline = mapMainClips(timeline, (clips) => clips.filter((c) => c.id !== sceneId));
+        const firstClip = getMainClips(newTimeline)[0];
+        set((state) => ({
+          ...commitTimeline(state, newTimeline, `deleteScene:${sceneId}`, "Delete clip"),
           selectedSceneId: selectedSceneId === sceneId
-            ? newTimeline.scenes[0]?.id || null
+            ? firstClip?.id || null
             : selectedSceneId,
           selectedItem: selectedItem?.id === sceneId
-            ? (newTimeline.scenes[0] ? {
-                id: newTimeline.scenes[0].id,
+            ? (firstClip ? {
+                id: firstClip.id,
                 type: "scene",
                 sceneIndex: 0,
               } : null)
             : selectedItem,
-        });
+        }));
       },
 
       addNewScene: (scene, index) => {
         const { timeline } = get();
         if (!timeline) return;
-        const newTimeline = addScene(timeline, scene, index);
-        const sceneIndex = newTimeline.scenes.findIndex(s => s.id === scene.id);
-        set({
-          timeline: newTimeline,
+        const newTimeline = insertMainClip(timeline, scene, index);
+        const sceneIndex = getMainClips(newTimeline).findIndex(s => s.id === scene.id);
+        set((state) => ({
+          ...commitTimeline(state, newTimeline, `addScene:${scene.id}`, "Add clip"),
           selectedSceneId: scene.id,
           selectedItem: {
             id: scene.id,
             type: "scene",
             sceneIndex,
           },
-        });
+        }));
       },
 
       reorderScenesAction: (fromIndex, toIndex) => {
         const { timeline } = get();
         if (!timeline) return;
-        set({ timeline: reorderScenes(timeline, fromIndex, toIndex) });
+        const newTimeline = mapMainClips(timeline, (clips) => {
+          const [removed] = clips.splice(fromIndex, 1);
+          clips.splice(toIndex, 0, removed);
+          return clips;
+        });
+        set((state) => commitTimeline(state, newTimeline, `reorderScenes:${fromIndex}:${toIndex}`, "Reorder clips"));
       },
 
       updateSceneTransition: (sceneId, transition) => {
         const { timeline } = get();
         if (!timeline) return;
-        set({ timeline: updateScene(timeline, sceneId, { transition }) });
+        set((state) => commitTimeline(
+          state,
+          updateMainClip(timeline, sceneId, { transition }),
+          `updateScene:${sceneId}:transition`,
+          "Change transition"
+        ));
       },
 
       updateSceneAnimation: (sceneId, animation) => {
         const { timeline } = get();
         if (!timeline) return;
-        set({ timeline: updateScene(timeline, sceneId, { animation }) });
+        set((state) => commitTimeline(
+          state,
+          updateMainClip(timeline, sceneId, { animation }),
+          `updateScene:${sceneId}:animation`,
+          "Change animation"
+        ));
       },
 
       duplicateScene: (sceneId) => {
         const { timeline } = get();
         if (!timeline) return;
-        const sceneIndex = timeline.scenes.findIndex(s => s.id === sceneId);
+        const clips = getMainClips(timeline);
+        const sceneIndex = clips.findIndex(s => s.id === sceneId);
         if (sceneIndex < 0) return;
         
-        const originalScene = timeline.scenes[sceneIndex];
-        const duplicatedScene: Scene = {
+        const originalScene = clips[sceneIndex];
+        const duplicatedScene: VideoClip = {
           ...originalScene,
           id: `scene-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         };
         
-        const newTimeline = addScene(timeline, duplicatedScene, sceneIndex + 1);
-        set({
-          timeline: newTimeline,
+        const newTimeline = insertMainClip(timeline, duplicatedScene, sceneIndex + 1);
+        set((state) => ({
+          ...commitTimeline(state, newTimeline, `addScene:${duplicatedScene.id}`, "Duplicate clip"),
           selectedSceneId: duplicatedScene.id,
           selectedItem: {
             id: duplicatedScene.id,
             type: "scene",
             sceneIndex: sceneIndex + 1,
           },
+        }));
+      },
+
+      updateClip: (trackId, clipId, updates) => {
+        const { timeline } = get();
+        if (!timeline) return;
+        const newTimeline = normalizeTimelineV2({
+          ...timeline,
+          tracks: {
+            ...timeline.tracks,
+            video: timeline.tracks.video.map((track) =>
+              track.id === trackId
+                ? { ...track, clips: track.clips.map((c) => (c.id === clipId ? { ...c, ...updates } : c)) }
+                : track
+            ),
+          },
         });
+        set((state) => commitTimeline(state, newTimeline, editKey("updateClip", clipId, updates), "Edit clip"));
+      },
+
+      updateAudioClip: (trackId, clipId, updates) => {
+        const { timeline } = get();
+        if (!timeline) return;
+        const newTimeline: TimelineV2 = {
+          ...timeline,
+          tracks: {
+            ...timeline.tracks,
+            audio: timeline.tracks.audio.map((track) =>
+              track.id === trackId
+                ? { ...track, clips: track.clips.map((c) => (c.id === clipId ? { ...c, ...updates } : c)) }
+                : track
+            ),
+          },
+        };
+        set((state) => commitTimeline(state, newTimeline, editKey("updateAudioClip", clipId, updates), "Edit audio"));
       },
 
       // Text overlay operations
@@ -217,14 +364,14 @@ export const useEditorStore = create<EditorState>()(
         });
         
         const textOverlays = [...(timeline.textOverlays || []), newOverlay];
-        set({
-          timeline: { ...timeline, textOverlays },
+        set((state) => ({
+          ...commitTimeline(state, { ...timeline, textOverlays }, `addText:${newOverlay.id}`, "Add text"),
           selectedItem: {
             id: newOverlay.id,
             type: "text",
             textIndex: textOverlays.length - 1,
           },
-        });
+        }));
       },
 
       updateTextOverlay: (textId, updates) => {
@@ -234,7 +381,12 @@ export const useEditorStore = create<EditorState>()(
         const textOverlays = timeline.textOverlays.map(t =>
           t.id === textId ? { ...t, ...updates } : t
         );
-        set({ timeline: { ...timeline, textOverlays } });
+        set((state) => commitTimeline(
+          state,
+          { ...timeline, textOverlays },
+          editKey("updateText", textId, updates),
+          "Edit text"
+        ));
       },
 
       deleteTextOverlay: (textId) => {
@@ -242,80 +394,71 @@ export const useEditorStore = create<EditorState>()(
         if (!timeline?.textOverlays) return;
         
         const textOverlays = timeline.textOverlays.filter(t => t.id !== textId);
-        set({
-          timeline: { ...timeline, textOverlays },
+        set((state) => ({
+          ...commitTimeline(state, { ...timeline, textOverlays }, `deleteText:${textId}`, "Delete text"),
           selectedItem: selectedItem?.id === textId ? null : selectedItem,
-        });
+        }));
       },
 
       updateGlobalMusic: (updates) => {
         const { timeline } = get();
         if (!timeline) return;
-        set({
-          timeline: {
-            ...timeline,
-            global: {
-              ...timeline.global,
-              music: { ...timeline.global.music, ...updates },
-            },
-          },
-        });
+        set((state) => commitTimeline(
+          state,
+          updateAudioRole(timeline, "music", updates),
+          editKey("updateMusic", "music", updates),
+          "Edit music"
+        ));
       },
 
       updateGlobalVoiceover: (updates) => {
         const { timeline } = get();
         if (!timeline) return;
-        set({
-          timeline: {
-            ...timeline,
-            global: {
-              ...timeline.global,
-              voiceover: { ...timeline.global.voiceover, ...updates },
-            },
-          },
-        });
+        set((state) => commitTimeline(
+          state,
+          updateAudioRole(timeline, "voiceover", updates),
+          editKey("updateVoiceover", "voiceover", updates),
+          "Edit voiceover"
+        ));
       },
 
       updateGlobalBrand: (updates) => {
         const { timeline } = get();
         if (!timeline) return;
-        set({
-          timeline: {
-            ...timeline,
-            global: {
-              ...timeline.global,
-              brand: { ...timeline.global.brand, ...updates },
-            },
+        const newTimeline: TimelineV2 = {
+          ...timeline,
+          global: {
+            ...timeline.global,
+            brand: { ...timeline.global.brand, ...updates },
           },
-        });
+        };
+        set((state) => commitTimeline(state, newTimeline, editKey("updateGlobal", "brand", updates), "Edit brand"));
       },
 
       updateGlobalExport: (updates) => {
         const { timeline } = get();
         if (!timeline) return;
-        set({
-          timeline: {
-            ...timeline,
-            global: {
-              ...timeline.global,
-              export: { ...timeline.global.export, ...updates },
-            },
+        const newTimeline: TimelineV2 = {
+          ...timeline,
+          global: {
+            ...timeline.global,
+            export: { ...timeline.global.export, ...updates },
           },
-        });
+        };
+        set((state) => commitTimeline(state, newTimeline, editKey("updateGlobal", "export", updates), "Edit export settings"));
       },
 
       updateGlobalCaptions: (updates) => {
         const { timeline } = get();
         if (!timeline) return;
-        set({
-          timeline: {
-            ...timeline,
-            global: {
-              ...timeline.global,
-              captions: { ...timeline.global.captions, ...updates },
-            },
+        const newTimeline: TimelineV2 = {
+          ...timeline,
+          global: {
+            ...timeline.global,
+            captions: { ...timeline.global.captions, ...updates },
           },
-        });
+        };
+        set((state) => commitTimeline(state, newTimeline, editKey("updateGlobal", "captions", updates), "Edit captions"));
       },
 
       setPlaying: (playing) => {
@@ -339,6 +482,35 @@ export const useEditorStore = create<EditorState>()(
         });
       },
 
+      // The step's label goes along with it between the two stacks
+      undo: () => {
+        const state = get();
+        const label = state.past[state.past.length - 1]?.label ?? "";
+        const result = state.timeline && undoStep(state, { timeline: state.timeline, label });
+        if (!result) return;
+        set({
+          timeline: result.step.timeline,
+          ...result.history,
+          ...keepSelection(state, result.step.timeline),
+        });
+      },
+
+      redo: () => {
+        const state = get();
+        const label = state.future[state.future.length - 1]?.label ?? "";
+        const result = state.timeline && redoStep(state, { timeline: state.timeline, label });
+        if (!result) return;
+        set({
+          timeline: result.step.timeline,
+          ...result.history,
+          ...keepSelection(state, result.step.timeline),
+        });
+      },
+
+      canUndo: () => get().past.length > 0,
+
+      canRedo: () => get().future.length > 0,
+
       isDirty: () => {
         const { timeline, originalTimeline } = get();
         if (!timeline || !originalTimeline) return false;
@@ -350,6 +522,9 @@ export const useEditorStore = create<EditorState>()(
           projectId: null,
           timeline: null,
           originalTimeline: null,
+          past: [],
+          future: [],
+          lastEdit: null,
           selectedSceneId: null,
           selectedItem: null,
           isPlaying: false,
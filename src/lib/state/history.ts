@@ -0,0 +1,70 @@
+// Undo history for the editors: the state before each step. Edits to the
+// same thing in quick succession (dragging a slider, typing a title) make
+// one step.
+
+export const HISTORY_LIMIT = 100;
+export const HISTORY_GROUP_MS = 1000;
+
+export interface UndoHistory<T> {
+  past: T[]; // Oldest first; the next undo is the last one
+  future: T[]; // The next redo is the last one
+  lastEdit: { key: string; at: number } | null;
+}
+
+export function emptyHistory<T>(): UndoHistory<T> {
+  return { past: [], future: [], lastEdit: null };
+}
+
+/**
+ * History after an edit made on top of `before`. The edit joins the previous
+ * step when it has the same key and follows it within HISTORY_GROUP_MS;
+ * keys name the action and what it targets. Any redo steps are dropped.
+ */
+export function recordEdit<T>(
+  history: UndoHistory<T>,
+  before: T | null,
+  key: string,
+  now: number = Date.now()
+): UndoHistory<T> {
+  const { lastEdit, past } = history;
+  const grouped = lastEdit !== null && lastEdit.key === key && now - lastEdit.at < HISTORY_GROUP_MS;
+  return {
+    past: grouped || before === null ? past : [...past, before].slice(-HISTORY_LIMIT),
+    future: [],
+    lastEdit: { key, at: now },
+  };
+}
+
+/**
+ * The step to go back to from `current` and the history after it, or null
+ * when there is nothing to undo. `current` becomes the next redo step.
+ */
+export function undoStep<T>(history: UndoHistory<T>, current: T): { step: T; history: UndoHistory<T> } | null {
+  const step = history.past[history.past.length - 1];
+  if (step === undefined) return null;
+  return {
+    step,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, current],
+      lastEdit: null,
+    },
+  };
+}
+
+/**
+ * The step to go forward to from `current` and the history after it, or
+ * null when there is nothing to redo
+ */
+export function redoStep<T>(history: UndoHistory<T>, current: T): { step: T; history: UndoHistory<T> } | null {
+  const step = history.future[history.future.length - 1];
+  if (step === undefined) return null;
+  return {
+    step,
+    history: {
+      past: [...history.past, current].slice(-HISTORY_LIMIT),
+      future: history.future.slice(0, -1),
+      lastEdit: null,
+    },
+  };
+}
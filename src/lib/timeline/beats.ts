@@ -0,0 +1,52 @@
+// ============================================
+// Beat Sync
+// Move scene cuts onto the nearest beat of the music. Each cut moves at most
+// MAX_BEAT_SHIFT; the following scene absorbs the change, so later cuts and
+// the total duration stay put.
+// ============================================
+
+// Furthest a cut moves to reach a beat
+const MAX_BEAT_SHIFT = 0.75;
+// Snapping never leaves a scene shorter than this
+const MIN_SNAPPED_SCENE = 1.5;
+
+export interface SnappableScene {
+  durationSec: number;
+  transitionOut?: string | null;
+  transitionDuration?: number;
+}
+
+/**
+ * Scenes with their durations adjusted so each cut (where the next scene or
+ * its transition starts) lands on the nearest beat in beatTimes (seconds)
+ */
+export function snapCutsToBeats<T extends SnappableScene>(scenes: T[], beatTimes: number[]): T[] {
+  const snapped = scenes.map(s => ({ ...s }));
+  let sceneStart = 0; // Output time the current scene starts
+  let moved = 0;
+
+  for (let i = 0; i < snapped.length - 1; i++) {
+    const scene = snapped[i];
+    const next = snapped[i + 1];
+    const overlap = scene.transitionOut && scene.transitionOut !== "none" ? scene.transitionDuration || 0.5 : 0;
+    // The next scene starts (its transition begins) here
+    const cut = sceneStart + scene.durationSec - overlap;
+
+    const beat = beatTimes.reduce((best, t) => (Math.abs(t - cut) < Math.abs(best - cut) ? t : best), Infinity);
+    const shift = beat - cut;
+    if (
+      Math.abs(shift) > 0.01 &&
+      Math.abs(shift) <= MAX_BEAT_SHIFT &&
+      scene.durationSec + shift >= MIN_SNAPPED_SCENE &&
+      next.durationSec - shift >= MIN_SNAPPED_SCENE
+    ) {
+      scene.durationSec = Math.round((scene.durationSec + shift) * 1000) / 1000;
+      next.durationSec = Math.round((next.durationSec - shift) * 1000) / 1000;
+      moved++;
+    }
+    sceneStart += scene.durationSec - overlap;
+  }
+
+  console.log(`[Beat Sync] Moved ${moved} of ${snapped.length - 1} cuts onto beats`);
+  return snapped;
+}
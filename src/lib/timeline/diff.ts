@@ -0,0 +1,176 @@
+import { validateTimeline } from "./v1";
+import { toTimelineV2, validateTimelineV2, totalDurationSecV2, type TimelineV2 } from "./v2";
+
+// ============================================
+// Timeline Diff
+// What changed between two timelines, item by item: clips, audio clips,
+// text overlays and text effects matched by id (effects by position, as
+// they have none), plus the settings around them. Used to show what
+// restoring a project version would change. v1 timelines are compared as
+// their v2 upgrade, which keeps clip ids.
+// ============================================
+
+export type TimelineChangeTarget = "videoClip" | "audioClip" | "textOverlay" | "textEffect" | "settings";
+
+export interface TimelineChange {
+  kind: "added" | "removed" | "changed";
+  target: TimelineChangeTarget;
+  id: string;
+  label: string; // Short description for lists
+  fields: string[]; // For "changed": which properties differ
+}
+
+export interface TimelineDiff {
+  changes: TimelineChange[];
+  beforeDurationSec: number;
+  afterDurationSec: number;
+}
+
+/**
+ * JSON with object keys sorted, so two timelines can be compared no matter
+ * how jsonb reordered their keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Deep equality for JSON values (timelines or any part of one)
+ */
+export function sameJson(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+interface Item {
+  id: string;
+  label: string;
+  value: Record<string, unknown>;
+}
+
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter((key) => !sameJson(before[key], after[key])).sort();
+}
+
+function diffItems(target: TimelineChangeTarget, before: Item[], after: Item[]): TimelineChange[] {
+  const changes: TimelineChange[] = [];
+  const afterById = new Map(after.map((item) => [item.id, item]));
+  const beforeIds = new Set(before.map((item) => item.id));
+
+  for (const item of before) {
+    const next = afterById.get(item.id);
+    if (!next) {
+      changes.push({ kind: "removed", target, id: item.id, label: item.label, fields: [] });
+      continue;
+    }
+    const fields = changedFields(item.value, next.value);
+    if (fields.length > 0) {
+      changes.push({ kind: "changed", target, id: item.id, label: next.label, fields });
+    }
+  }
+  for (const item of after) {
+    if (!beforeIds.has(item.id)) {
+      changes.push({ kind: "added", target, id: item.id, label: item.label, fields: [] });
+    }
+  }
+  return changes;
+}
+
+function videoClipItems(timeline: TimelineV2): Item[] {
+  return timeline.tracks.video.flatMap((track) =>
+    track.clips.map((clip, index) => ({
+      id: clip.id,
+      label: clip.title || `${track.name || track.id} clip ${index + 1}`,
+      // Moving a clip to another track is a change to it too
+      value: { ...clip, track: track.id },
+    }))
+  );
+}
+
+function audioClipItems(timeline: TimelineV2): Item[] {
+  return timeline.tracks.audio.flatMap((track) =>
+    track.clips.map((clip, index) => ({
+      id: clip.id,
+      label: clip.title || `${track.name || track.role} ${index + 1}`,
+      value: { ...clip, track: track.id },
+    }))
+  );
+}
+
+function textOverlayItems(timeline: TimelineV2): Item[] {
+  return (timeline.textOverlays ?? []).map((overlay) => ({
+    id: overlay.id,
+    label: overlay.text,
+    value: overlay,
+  }));
+}
+
+function textEffectItems(timeline: TimelineV2): Item[] {
+  return (timeline.textEffects ?? []).map((effect, index) => ({
+    id: String(index),
+    label: effect.header || effect.topText || effect.effectId,
+    value: effect,
+  }));
+}
+
+// Everything that isn't a clip, overlay or effect, keyed by where it lives
+function settingsValue(timeline: TimelineV2): Record<string, unknown> {
+  const value: Record<string, unknown> = {
+    project: timeline.project,
+    "global.captions": timeline.global.captions,
+    "global.brand": timeline.global.brand,
+    "global.export": timeline.global.export,
+    rendering: timeline.rendering,
+  };
+  for (const track of timeline.tracks.video) {
+    value[`tracks.${track.id}`] = { name: track.name, zIndex: track.zIndex, hidden: track.hidden };
+  }
+  for (const track of timeline.tracks.audio) {
+    value[`tracks.${track.id}`] = { name: track.name, role: track.role, muted: track.muted, ducking: track.ducking };
+  }
+  return value;
+}
+
+/**
+ * Compare two timelines. Changes are listed removed/changed first (in the
+ * order of the earlier timeline), then additions.
+ */
+export function diffTimelines(before: TimelineV2, after: TimelineV2): TimelineDiff {
+  const settingsFields = changedFields(settingsValue(before), settingsValue(after));
+
+  return {
+    changes: [
+      ...diffItems("videoClip", videoClipItems(before), videoClipItems(after)),
+      ...diffItems("audioClip", audioClipItems(before), audioClipItems(after)),
+      ...diffItems("textOverlay", textOverlayItems(before), textOverlayItems(after)),
+      ...diffItems("textEffect", textEffectItems(before), textEffectItems(after)),
+      ...(settingsFields.length > 0
+        ? [{ kind: "changed" as const, target: "settings" as const, id: "settings", label: "Settings", fields: settingsFields }]
+        : []),
+    ],
+    beforeDurationSec: totalDurationSecV2(before),
+    afterDurationSec: totalDurationSecV2(after),
+  };
+}
+
+/**
+ * Compare two stored timeline_json values of any version. Null when either
+ * doesn't match the schema.
+ */
+export function diffStoredTimelines(before: unknown, after: unknown): TimelineDiff | null {
+  const parse = (data: unknown): TimelineV2 | null => {
+    const isV2 = (data as { version?: unknown } | null)?.version === 2;
+    const result = isV2 ? validateTimelineV2(data) : validateTimeline(data);
+    return result.success ? toTimelineV2(result.data) : null;
+  };
+  const a = parse(before);
+  const b = parse(after);
+  return a && b ? diffTimelines(a, b) : null;
+}
@@ -0,0 +1,384 @@
+import { validateTimeline, type TimelineV1 } from "./v1";
+import {
+  toTimelineV2,
+  validateTimelineV2,
+  getMainClips,
+  getMainTrack,
+  mapMainClips,
+  OVERLAY_TRACK_ID,
+  setTrackClips,
+  transitionOverlapSec,
+  type TimelineV2,
+} from "./v2";
+
+// ============================================
+// Timeline Linter
+// Rule-based checks for timelines that render fine but look wrong (or
+// don't render at all): text outside the brand's safe area, captions too
+// brief to read, transitions longer than their clips, stacked sound effects
+// and overlays running past the end of the video. v1 timelines (as the AI
+// builders write them) are linted as their v2 upgrade, so issue targets are
+// v2 clip ids, which the upgrade keeps.
+// ============================================
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintRuleId =
+  | "text_outside_safe_area"
+  | "caption_too_short"
+  | "text_too_short"
+  | "transition_longer_than_clip"
+  | "sfx_stacked"
+  | "overlay_past_end";
+
+export interface LintTarget {
+  type: "videoClip" | "audioClip" | "textOverlay" | "caption";
+  id: string; // Clip or overlay id; index into captions.segments for captions
+}
+
+export interface LintIssue {
+  rule: LintRuleId;
+  severity: LintSeverity; // Errors can block a render (see the render route)
+  message: string;
+  target: LintTarget;
+  timeSec: number | null; // Where on the timeline it happens
+  fix: string | null; // What applyLintFix() would do; null when there's no auto-fix
+}
+
+interface LintRule {
+  id: LintRuleId;
+  check(timeline: TimelineV2): LintIssue[];
+  fix?(timeline: TimelineV2, issue: LintIssue): TimelineV2;
+}
+
+// Shortest time a caption or text can be read in
+const MIN_READ_SEC = 1;
+// Comfortable reading speed for on-screen text
+const MAX_CHARS_PER_SEC = 20;
+// Sound effects closer together than this play as one
+const SFX_STACK_SEC = 0.05;
+// How far apart the auto-fix spreads stacked sound effects
+const SFX_STAGGER_SEC = 0.3;
+// Slack before an overlay counts as running past the end
+const END_TOLERANCE_SEC = 0.05;
+
+const REMOVE_DUPLICATE_SFX = "Remove the duplicate";
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function readingTimeSec(text: string): number {
+  return Math.max(MIN_READ_SEC, text.trim().length / MAX_CHARS_PER_SEC);
+}
+
+// The safe area as percentages of the frame, like text overlay positions
+function safeAreaPct(timeline: TimelineV2) {
+  const { width, height } = timeline.project.resolution;
+  const margins = timeline.global.brand.safeMargins;
+  return {
+    left: (margins.left / width) * 100,
+    right: 100 - (margins.right / width) * 100,
+    top: (margins.top / height) * 100,
+    bottom: 100 - (margins.bottom / height) * 100,
+  };
+}
+
+// End of the main (base) track: the length of the video
+function videoEndSec(timeline: TimelineV2): number {
+  return getMainClips(timeline).reduce((end, clip) => Math.max(end, clip.startSec + clip.durationSec), 0);
+}
+
+const rules: LintRule[] = [
+  {
+    id: "text_outside_safe_area",
+    check(timeline) {
+      const safe = safeAreaPct(timeline);
+      return (timeline.textOverlays ?? [])
+        .filter((overlay) => overlay.x < safe.left || overlay.x > safe.right || overlay.y < safe.top || overlay.y > safe.bottom)
+        .map((overlay) => ({
+          rule: "text_outside_safe_area",
+          severity: "warning",
+          message: `Text "${overlay.text}" sits outside the brand's safe margins and will be pushed inside when rendered`,
+          target: { type: "textOverlay", id: overlay.id },
+          timeSec: overlay.startTime,
+          fix: "Move it inside the safe area",
+        }));
+    },
+    fix(timeline, issue) {
+      const safe = safeAreaPct(timeline);
+      // Rounded towards the inside so the result passes the check
+      const clamp = (value: number, min: number, max: number) =>
+        Math.min(Math.floor(max * 10) / 10, Math.max(Math.ceil(min * 10) / 10, value));
+      return {
+        ...timeline,
+        textOverlays: timeline.textOverlays?.map((overlay) =>
+          overlay.id === issue.target.id
+            ? { ...overlay, x: clamp(overlay.x, safe.left, safe.right), y: clamp(overlay.y, safe.top, safe.bottom) }
+            : overlay
+        ),
+      };
+    },
+  },
+  {
+    id: "caption_too_short",
+    check(timeline) {
+      const { captions } = timeline.global;
+      if (!captions.enabled) return [];
+      const segments = captions.segments ?? [];
+      return segments.flatMap((segment, index): LintIssue[] => {
+        const needed = readingTimeSec(segment.text);
+        if (segment.end - segment.start >= needed) return [];
+        const room = (segments[index + 1]?.start ?? Infinity) - segment.start;
+        return [{
+          rule: "caption_too_short",
+          severity: "warning",
+          message: `Caption "${segment.text}" is shown for ${round1(segment.end - segment.start)}s, too briefly to read (needs ${round1(needed)}s)`,
+          target: { type: "caption", id: String(index) },
+          timeSec: segment.start,
+          fix: room > segment.end - segment.start ? `Show it for ${round1(Math.min(needed, room))}s` : null,
+        }];
+      });
+    },
+    fix(timeline, issue) {
+      const { captions } = timeline.global;
+      const segments = captions.segments ?? [];
+      const index = Number(issue.target.id);
+      const segment = segments[index];
+      if (!segment) return timeline;
+      const room = (segments[index + 1]?.start ?? Infinity) - segment.start;
+      const end = segment.start + Math.min(readingTimeSec(segment.text), room);
+      return {
+        ...timeline,
+        global: {
+          ...timeline.global,
+          captions: {
+            ...captions,
+            segments: segments.map((s, i) => (i === index ? { ...s, end: Math.max(s.end, end) } : s)),
+          },
+        },
+      };
+    },
+  },
+  {
+    id: "text_too_short",
+    check(timeline) {
+      // Duration 0 means the whole video
+      return (timeline.textOverlays ?? [])
+        .filter((overlay) => overlay.duration > 0 && overlay.duration < readingTimeSec(overlay.text))
+        .map((overlay) => ({
+          rule: "text_too_short",
+          severity: "warning",
+          message: `Text "${overlay.text}" is shown for ${round1(overlay.duration)}s, too briefly to read`,
+          target: { type: "textOverlay", id: overlay.id },
+          timeSec: overlay.startTime,
+          fix: `Show it for ${round1(readingTimeSec(overlay.text))}s`,
+        }));
+    },
+    fix(timeline, issue) {
+      return {
+        ...timeline,
+        textOverlays: timeline.textOverlays?.map((overlay) =>
+          overlay.id === issue.target.id ? { ...overlay, duration: round1(readingTimeSec(overlay.text)) } : overlay
+        ),
+      };
+    },
+  },
+  {
+    id: "transition_longer_than_clip",
+    check(timeline) {
+      // xfade needs both clips to outlast the transition
+      const clips = getMainClips(timeline);
+      return clips.slice(0, -1).flatMap((clip, i): LintIssue[] => {
+        const overlap = transitionOverlapSec(clip);
+        const shortest = Math.min(clip.durationSec, clips[i + 1].durationSec);
+        if (overlap === 0 || overlap < shortest) return [];
+        return [{
+          rule: "transition_longer_than_clip",
+          severity: "error",
+          message: `The ${overlap}s transition out of scene ${i + 1} is longer than the ${round1(shortest)}s scene it joins`,
+          target: { type: "videoClip", id: clip.id },
+          timeSec: clip.startSec + clip.durationSec - overlap,
+          fix: shortest >= 0.2 ? `Shorten the transition to ${round1(shortest / 2)}s` : "Remove the transition",
+        }];
+      });
+    },
+    fix(timeline, issue) {
+      return mapMainClips(timeline, (clips) =>
+        clips.map((clip, i) => {
+          if (clip.id !== issue.target.id || i === clips.length - 1) return clip;
+          const shortest = Math.min(clip.durationSec, clips[i + 1].durationSec);
+          return shortest >= 0.2
+            ? { ...clip, transitionDuration: round1(shortest / 2) }
+            : { ...clip, transition: "cut" as const, transitionOut: null };
+        })
+      );
+    },
+  },
+  {
+    id: "sfx_stacked",
+    check(timeline) {
+      const effects = timeline.tracks.audio
+        .filter((track) => track.role === "sfx" && !track.muted)
+        .flatMap((track) => track.clips)
+        .sort((a, b) => a.startSec - b.startSec);
+      return effects.flatMap((clip, i): LintIssue[] => {
+        const first = effects.find((other) => Math.abs(other.startSec - clip.startSec) < SFX_STACK_SEC);
+        if (!first || first === clip || effects.indexOf(first) >= i) return [];
+        const source = clip.audioUrl ?? clip.assetId;
+        const sameSound = !!source && source === (first.audioUrl ?? first.assetId);
+        return [{
+          rule: "sfx_stacked",
+          severity: "warning",
+          message: sameSound
+            ? `Sound effect "${clip.title || clip.id}" is added twice at ${round1(clip.startSec)}s`
+            : `Sound effects "${first.title || first.id}" and "${clip.title || clip.id}" both play at ${round1(clip.startSec)}s`,
+          target: { type: "audioClip", id: clip.id },
+          timeSec: clip.startSec,
+          fix: sameSound ? REMOVE_DUPLICATE_SFX : `Move it ${SFX_STAGGER_SEC}s later`,
+        }];
+      });
+    },
+    fix(timeline, issue) {
+      const isDuplicate = issue.fix === REMOVE_DUPLICATE_SFX;
+      return {
+        ...timeline,
+        tracks: {
+          ...timeline.tracks,
+          audio: timeline.tracks.audio.map((track) =>
+            track.role !== "sfx"
+              ? track
+              : {
+                  ...track,
+                  clips: isDuplicate
+                    ? track.clips.filter((clip) => clip.id !== issue.target.id)
+                    : track.clips.map((clip) =>
+                        clip.id === issue.target.id ? { ...clip, startSec: round1(clip.startSec + SFX_STAGGER_SEC) } : clip
+                      ),
+                }
+          ),
+        },
+      };
+    },
+  },
+  {
+    id: "overlay_past_end",
+    check(timeline) {
+      const mainTrackId = getMainTrack(timeline)?.id;
+      const end = videoEndSec(timeline);
+      if (end === 0) return [];
+      return timeline.tracks.video
+        .filter((track) => track.id !== mainTrackId && !track.hidden)
+        .flatMap((track) => track.clips)
+        .filter((clip) => clip.startSec + clip.durationSec > end + END_TOLERANCE_SEC)
+        .map((clip) => {
+          const name = clip.title || (clip.kind === "image" ? "Image overlay" : "Overlay");
+          const startsAfter = clip.startSec >= end;
+          return {
+            rule: "overlay_past_end",
+            severity: "warning",
+            message: startsAfter
+              ? `${name} starts at ${round1(clip.startSec)}s, after the video ends (${round1(end)}s)`
+              : `${name} runs ${round1(clip.startSec + clip.durationSec - end)}s past the end of the video and will be cut off`,
+            target: { type: "videoClip", id: clip.id },
+            timeSec: clip.startSec,
+            fix: startsAfter ? "Remove it" : "Trim it to the end of the video",
+          };
+        });
+    },
+    fix(timeline, issue) {
+      const mainTrackId = getMainTrack(timeline)?.id;
+      const end = videoEndSec(timeline);
+      const track = timeline.tracks.video.find(
+        (t) => t.id !== mainTrackId && t.clips.some((clip) => clip.id === issue.target.id)
+      );
+      if (!track) return timeline;
+      const clips = track.clips.flatMap((clip) => {
+        if (clip.id !== issue.target.id) return [clip];
+        if (clip.startSec >= end) return [];
+        const durationSec = end - clip.startSec;
+        return [{ ...clip, durationSec, outSec: clip.inSec + durationSec }];
+      });
+      return setTrackClips(timeline, track.id, clips);
+    },
+  },
+];
+
+/**
+ * Run every rule over a timeline. Errors first, then in timeline order.
+ */
+export function lintTimeline(data: TimelineV1 | TimelineV2): LintIssue[] {
+  const timeline = toTimelineV2(data);
+  const order: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+  return rules
+    .flatMap((rule) => rule.check(timeline))
+    .sort((a, b) => order[a.severity] - order[b.severity] || (a.timeSec ?? 0) - (b.timeSec ?? 0));
+}
+
+/**
+ * Lint a timeline_json as stored (or about to be stored). Returns null when
+ * it doesn't validate, since the rules rely on the schema's defaults.
+ */
+export function lintStoredTimeline(data: unknown): LintIssue[] | null {
+  const isV2 = (data as { version?: unknown } | null)?.version === 2;
+  const result = isV2 ? validateTimelineV2(data) : validateTimeline(data);
+  return result.success ? lintTimeline(result.data) : null;
+}
+
+/**
+ * Lint a timeline an AI builder just produced, logging what it found. The
+ * issues go back to the client with the timeline; nothing is auto-fixed.
+ */
+export function lintGeneratedTimeline(data: unknown, logPrefix: string): LintIssue[] {
+  const issues = lintStoredTimeline(data);
+  if (issues === null) {
+    console.warn(`${logPrefix} Skipped timeline lint: the timeline does not match the schema`);
+    return [];
+  }
+  for (const issue of issues) {
+    console.warn(`${logPrefix} Lint ${issue.severity} (${issue.rule}): ${issue.message}`);
+  }
+  return issues;
+}
+
+/**
+ * Apply an issue's auto-fix. Returns the timeline unchanged when the issue
+ * has no fix or no longer applies.
+ */
+export function applyLintFix(timeline: TimelineV2, issue: LintIssue): TimelineV2 {
+  const rule = rules.find((r) => r.id === issue.rule);
+  if (!issue.fix || !rule?.fix) return timeline;
+  return rule.fix(timeline, issue);
+}
+
+/**
+ * Apply an issue's auto-fix to a v1 timeline, as the project editor holds
+ * it. The fix runs on the v2 upgrade; what it changed is copied back onto
+ * the v1 fields it came from.
+ */
+export function applyLintFixV1(timeline: TimelineV1, issue: LintIssue): TimelineV1 {
+  const fixed = applyLintFix(toTimelineV2(timeline), issue);
+  const mainClips = new Map(getMainClips(fixed).map((clip) => [clip.id, clip]));
+  const sfxClips = new Map(
+    fixed.tracks.audio.filter((track) => track.role === "sfx").flatMap((track) => track.clips).map((clip) => [clip.id, clip])
+  );
+  const overlayClips = new Map(
+    (fixed.tracks.video.find((track) => track.id === OVERLAY_TRACK_ID)?.clips ?? []).map((clip) => [clip.id, clip])
+  );
+
+  return {
+    ...timeline,
+    scenes: timeline.scenes.map((scene) => {
+      const clip = mainClips.get(scene.id);
+      return clip
+        ? { ...scene, transition: clip.transition, transitionOut: clip.transitionOut, transitionDuration: clip.transitionDuration }
+        : scene;
+    }),
+    textOverlays: fixed.textOverlays,
+    global: { ...timeline.global, captions: fixed.global.captions },
+    soundEffects: timeline.soundEffects
+      ?.filter((sfx) => sfxClips.has(sfx.id))
+      .map((sfx) => ({ ...sfx, atTimeSec: sfxClips.get(sfx.id)?.startSec ?? sfx.atTimeSec })),
+    imageOverlays: timeline.imageOverlays
+      ?.filter((overlay) => overlayClips.has(overlay.id))
+      .map((overlay) => ({ ...overlay, durationSec: overlayClips.get(overlay.id)?.durationSec ?? overlay.durationSec })),
+  };
+}
@@ -0,0 +1,142 @@
+import { sameJson } from "./diff";
+
+// ============================================
+// Timeline Merge
+// Three-way merge of two edits of the same stored timeline (v1 or v2):
+// "local" is this client's copy, "remote" the one saved elsewhere since,
+// "base" what both started from. Lists of items with ids - scenes, track
+// clips, text overlays, audio clips - are merged item by item using those
+// ids (the ones SceneSchema gives scenes), so one side trimming a scene and
+// the other adding a text overlay merge cleanly. Objects merge key by key;
+// anything else changed differently on both sides is a conflict.
+// ============================================
+
+export interface MergeConflict {
+  path: string; // Where in the timeline, e.g. "scenes[scene-2].durationSec"
+  label: string; // Readable version of the path
+  base: unknown;
+  local: unknown;
+  remote: unknown; // undefined = removed on that side
+}
+
+export type MergeChoice = "local" | "remote";
+
+export interface MergeResult<T> {
+  merged: T; // Conflicts resolved by `choices`, or to the local side
+  conflicts: MergeConflict[]; // Conflicts `choices` didn't cover
+}
+
+type Json = unknown;
+type JsonObject = Record<string, Json>;
+type Identified = JsonObject & { id: string };
+
+interface MergeContext {
+  choices: Record<string, MergeChoice>;
+  conflicts: MergeConflict[];
+}
+
+function isObject(value: Json): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIdList(value: Json): value is Identified[] {
+  return Array.isArray(value) && value.every((item) => isObject(item) && typeof item.id === "string");
+}
+
+// "scenes[scene-2].durationSec" -> "scenes › scene-2 › durationSec"
+function pathLabel(path: string): string {
+  return path.replace(/\[([^\]]+)\]/g, ".$1").split(".").filter(Boolean).join(" › ");
+}
+
+function conflict(ctx: MergeContext, path: string, base: Json, local: Json, remote: Json): Json {
+  const choice = ctx.choices[path];
+  if (choice) return choice === "remote" ? remote : local;
+  ctx.conflicts.push({ path, label: pathLabel(path), base, local, remote });
+  return local;
+}
+
+/**
+ * Order for a merged id list: the order of whichever side reordered the
+ * items (local if both did), with items only the other side added placed
+ * after the item they followed there
+ */
+function mergeOrder(base: string[], local: string[], remote: string[]): string[] {
+  const reordered = (side: string[]) => {
+    const kept = side.filter((id) => base.includes(id));
+    return !sameJson(kept, base.filter((id) => kept.includes(id)));
+  };
+  const [primary, secondary] = reordered(local) || !reordered(remote) ? [local, remote] : [remote, local];
+
+  const order = [...primary];
+  secondary.forEach((id, index) => {
+    if (order.includes(id)) return;
+    const after = secondary.slice(0, index).reverse().find((prev) => order.includes(prev));
+    order.splice(after === undefined ? 0 : order.indexOf(after) + 1, 0, id);
+  });
+  return order;
+}
+
+function mergeIdList(base: Identified[], local: Identified[], remote: Identified[], path: string, ctx: MergeContext): Identified[] {
+  const byId = (items: Identified[]) => new Map(items.map((item) => [item.id, item]));
+  const b = byId(base);
+  const l = byId(local);
+  const r = byId(remote);
+  const merged: Identified[] = [];
+
+  for (const id of mergeOrder(base.map((i) => i.id), local.map((i) => i.id), remote.map((i) => i.id))) {
+    const itemPath = `${path}[${id}]`;
+    const [baseItem, localItem, remoteItem] = [b.get(id), l.get(id), r.get(id)];
+    let item: Json;
+
+    if (localItem && remoteItem) {
+      item = mergeValue(baseItem, localItem, remoteItem, itemPath, ctx);
+    } else if (!baseItem) {
+      item = localItem ?? remoteItem; // Added on one side
+    } else if (localItem) {
+      // Removed remotely: stays removed unless it was edited here
+      item = sameJson(baseItem, localItem) ? undefined : conflict(ctx, itemPath, baseItem, localItem, undefined);
+    } else if (remoteItem) {
+      item = sameJson(baseItem, remoteItem) ? undefined : conflict(ctx, itemPath, baseItem, undefined, remoteItem);
+    }
+
+    if (item !== undefined) merged.push(item as Identified);
+  }
+  return merged;
+}
+
+function mergeValue(base: Json, local: Json, remote: Json, path: string, ctx: MergeContext): Json {
+  if (sameJson(local, remote)) return local;
+  if (sameJson(base, local)) return remote;
+  if (sameJson(base, remote)) return local;
+
+  if (isObject(local) && isObject(remote)) {
+    const baseObject = isObject(base) ? base : {};
+    const merged: JsonObject = {};
+    for (const key of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+      const value = mergeValue(baseObject[key], local[key], remote[key], path ? `${path}.${key}` : key, ctx);
+      if (value !== undefined) merged[key] = value;
+    }
+    return merged;
+  }
+
+  if (isIdList(local) && isIdList(remote)) {
+    return mergeIdList(isIdList(base) ? base : [], local, remote, path, ctx);
+  }
+
+  return conflict(ctx, path, base, local, remote);
+}
+
+/**
+ * Merge two edits of a timeline. Pass `choices` (by conflict path) to
+ * settle the conflicts a previous call returned.
+ */
+export function mergeTimelines<T>(
+  base: T,
+  local: T,
+  remote: T,
+  choices: Record<string, MergeChoice> = {}
+): MergeResult<T> {
+  const ctx: MergeContext = { choices, conflicts: [] };
+  const merged = mergeValue(base, local, remote, "", ctx) as T;
+  return { merged, conflicts: ctx.conflicts };
+}
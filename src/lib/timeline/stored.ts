@@ -0,0 +1,176 @@
+import { z } from "zod";
+import {
+  TimelineMigrationError,
+  timelineVersion,
+  upgradeStoredTimeline,
+} from "@ai-videographer/timeline";
+import {
+  BrandSchema,
+  GlobalSchema,
+  MusicSchema,
+  OverlaySchema,
+  ProjectMetaSchema,
+  SceneSchema,
+  TextOverlaySchema,
+  TextStylePresetSchema,
+  TimelineV1Schema,
+  VoiceoverSchema,
+  VolumeEnvelopeSchema,
+} from "./v1";
+import { TextEffectSchema, TimelineV2Schema, VideoClipSchema, VideoTrackSchema } from "./v2";
+
+// ============================================
+// Stored Timelines
+// What timeline_json holds in practice: the v1/v2 schemas plus the fields
+// the AI builders, the editor and the render worker read and write that
+// the schemas predate (see packages/timeline/src/types.ts, the worker's
+// view). Every write of timeline_json validates against these. Keys
+// neither knows about are not checked and are stored as written.
+// ============================================
+
+// Drawtext style the editor and the worker use for text
+export const DrawtextStyleSchema = z.object({
+  color: z.string(),
+  fontSize: z.number().min(0),
+  fontFamily: z.string(),
+  duration: z.number().min(0).optional(), // 0 = whole scene
+});
+
+export const StoredTextOverlaySchema = TextOverlaySchema.extend({
+  style: z.union([TextStylePresetSchema, DrawtextStyleSchema]).default("lower_third"),
+});
+
+// Scene text as the worker burns it in
+export const SceneTextOverlaySchema = z.object({
+  text: z.string().nullable().optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  style: DrawtextStyleSchema.optional(),
+});
+
+// Talking head builds: where a scene sits in the speaker's audio
+// (sourceAssetId: cutaways compiled from a transcript edit)
+const SourceAudioFields = {
+  sourceAssetId: z.string().optional(),
+  sourceAudioStart: z.number().min(0).optional(),
+  sourceAudioEnd: z.number().min(0).optional(),
+};
+
+export const StoredSceneSchema = SceneSchema.extend({
+  cropMode: z.enum(["cover", "contain", "fill", "none"]).default("cover"),
+  overlays: z.union([OverlaySchema, SceneTextOverlaySchema]).nullable().optional(),
+  isTalkingHead: z.boolean().optional(),
+  isBroll: z.boolean().optional(),
+  isIntro: z.boolean().optional(),
+  isOutro: z.boolean().optional(),
+  ...SourceAudioFields,
+});
+
+// The talking head builder doesn't write a title, type or aspect ratio
+export const StoredProjectMetaSchema = ProjectMetaSchema.partial({
+  title: true,
+  type: true,
+  aspectRatio: true,
+});
+
+const StoredRenderingSchema = TimelineV2Schema.shape.rendering;
+
+export const StoredTimelineV1Schema = TimelineV1Schema.extend({
+  project: StoredProjectMetaSchema,
+  scenes: z.array(StoredSceneSchema),
+  textOverlays: z.array(StoredTextOverlaySchema).optional(),
+  textEffects: z.array(TextEffectSchema).optional(),
+  global: GlobalSchema.extend({
+    music: MusicSchema.extend({
+      audioUrl: z.string().nullable().optional(),
+      title: z.string().nullable().optional(),
+    }),
+    voiceover: VoiceoverSchema.extend({
+      audioUrl: z.string().nullable().optional(),
+      startOffset: z.number().min(0).optional(),
+    }),
+    brand: BrandSchema.partial({ safeMargins: true }),
+  }),
+  rendering: StoredRenderingSchema.optional(),
+  // Talking head builds: the speaker's audio, one entry per source video
+  audioTracks: z.array(z.object({
+    id: z.string(),
+    assetId: z.string(),
+    type: z.string().optional(),
+    startOffset: z.number().min(0).optional(),
+    volume: z.number().min(0).max(1).optional(),
+    envelope: VolumeEnvelopeSchema.optional(),
+  })).optional(),
+});
+
+export const StoredTimelineV2Schema = TimelineV2Schema.extend({
+  project: StoredProjectMetaSchema,
+  tracks: z.object({
+    video: z.array(VideoTrackSchema.extend({
+      clips: z.array(VideoClipSchema.extend({
+        overlays: StoredSceneSchema.shape.overlays,
+        isIntro: z.boolean().optional(),
+        isOutro: z.boolean().optional(),
+        ...SourceAudioFields,
+      })),
+    })),
+    audio: TimelineV2Schema.shape.tracks.shape.audio,
+  }),
+  textOverlays: z.array(StoredTextOverlaySchema).optional(),
+  rendering: StoredRenderingSchema.optional(),
+});
+
+export type StoredScene = z.infer<typeof StoredSceneSchema>;
+export type StoredTimelineV1 = z.infer<typeof StoredTimelineV1Schema>;
+export type StoredTimelineV2 = z.infer<typeof StoredTimelineV2Schema>;
+
+export type StoredTimelineValidation =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; issues: string[] };
+
+// "scenes.2.durationSec: Too small: expected number to be >=0"
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
+}
+
+/**
+ * Check a timeline_json before it is written. Older formats are first
+ * brought up to date within their version by the migration registry (an
+ * unversioned timeline becomes v1), and that upgraded timeline - as given,
+ * not as parsed, so schema defaults aren't baked in - is what to store.
+ */
+export function validateStoredTimeline(data: unknown): StoredTimelineValidation {
+  let upgraded: Record<string, unknown>;
+  try {
+    upgraded = upgradeStoredTimeline(data) as unknown as Record<string, unknown>;
+  } catch (error) {
+    if (error instanceof TimelineMigrationError) {
+      return { success: false, issues: [error.message] };
+    }
+    throw error;
+  }
+
+  const schema = timelineVersion(upgraded) === 2 ? StoredTimelineV2Schema : StoredTimelineV1Schema;
+  const result = schema.safeParse(upgraded);
+  if (!result.success) {
+    return { success: false, issues: formatIssues(result.error) };
+  }
+  return { success: true, data: upgraded };
+}
+
+/**
+ * A project row with its timeline_json upgraded on read, the same way
+ * validateStoredTimeline upgrades it on write. Timelines that can't be
+ * upgraded come back as stored.
+ */
+export function withUpgradedTimeline<T extends { timeline_json: unknown }>(project: T): T {
+  if (!project.timeline_json) return project;
+  try {
+    return { ...project, timeline_json: upgradeStoredTimeline(project.timeline_json) };
+  } catch (error) {
+    if (error instanceof TimelineMigrationError) return project;
+    throw error;
+  }
+}
@@ -0,0 +1,181 @@
+import type { Transcript, TranscriptPauseCut, TranscriptWord } from "./v1";
+import { compileTranscript } from "./transcript";
+
+// ============================================
+// Tightening (Jump Cuts)
+// Cut filler words and long pauses out of a talking head transcript. Fillers
+// are marked deleted like any word cut in the transcript editor, so they can
+// be brought back there; pauses become pause cuts. compileTranscript then
+// turns both into jump cuts.
+// ============================================
+
+export interface TightenOptions {
+  minPauseSec: number; // Shorter silences between words are kept
+  paddingSec: number; // Room left around speech at each cut
+  fillerWords: string[]; // Words or phrases, matched case- and punctuation-insensitively
+  silenceThresholdDb: number; // Quieter than this counts as silence (silencedetect)
+}
+
+export const DEFAULT_TIGHTEN_OPTIONS: TightenOptions = {
+  minPauseSec: 0.6,
+  paddingSec: 0.1,
+  fillerWords: ["um", "umm", "uh", "uhh", "uhm", "er", "erm", "ah", "hmm", "mm"],
+  silenceThresholdDb: -35,
+};
+
+// A stretch of silence in a source video (source time)
+export interface SilenceRange {
+  start: number;
+  end: number;
+}
+
+export interface TightenReport {
+  originalSec: number; // Speaker footage before tightening
+  tightenedSec: number;
+  removedSec: number;
+  fillerWords: { count: number; removedSec: number; words: Record<string, number> };
+  pauses: { count: number; removedSec: number };
+  trimmedSec: number; // Silence before the first and after the last word, words already cut
+}
+
+/**
+ * Defaults for whatever isn't set, with numbers kept to sensible ranges
+ */
+export function resolveTightenOptions(options: Partial<TightenOptions> = {}): TightenOptions {
+  const number = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) ? value : fallback;
+  return {
+    minPauseSec: Math.max(0.2, number(options.minPauseSec, DEFAULT_TIGHTEN_OPTIONS.minPauseSec)),
+    paddingSec: Math.min(0.5, Math.max(0, number(options.paddingSec, DEFAULT_TIGHTEN_OPTIONS.paddingSec))),
+    fillerWords: Array.isArray(options.fillerWords)
+      ? options.fillerWords.filter((w): w is string => typeof w === "string" && w.trim().length > 0)
+      : DEFAULT_TIGHTEN_OPTIONS.fillerWords,
+    silenceThresholdDb: Math.min(0, number(options.silenceThresholdDb, DEFAULT_TIGHTEN_OPTIONS.silenceThresholdDb)),
+  };
+}
+
+// "Um," -> "um"
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}'-]/gu, "");
+}
+
+/**
+ * Ids of the words that make up filler words or phrases ("you know"),
+ * keyed by the filler they matched
+ */
+function findFillers(words: TranscriptWord[], fillerWords: string[]): Map<string, string> {
+  const phrases = fillerWords
+    .map((filler) => filler.split(/\s+/).map(normalizeWord).filter(Boolean))
+    .filter((phrase) => phrase.length > 0)
+    .sort((a, b) => b.length - a.length); // Longest match first
+
+  const matches = new Map<string, string>();
+  for (let i = 0; i < words.length; i++) {
+    const phrase = phrases.find((p) => p.every((part, j) => words[i + j] && normalizeWord(words[i + j].word) === part));
+    if (!phrase) continue;
+    for (let j = 0; j < phrase.length; j++) matches.set(words[i + j].id, phrase.join(" "));
+    i += phrase.length - 1;
+  }
+  return matches;
+}
+
+/**
+ * Silences long enough to cut between consecutive kept words of one
+ * source (next to a cut word, the word's cut takes the silence with it).
+ * With silencedetect output, only the part of a gap that is actually
+ * silent counts (word timings run short of breaths and trailing sounds);
+ * without it, the gap between words is taken as silence.
+ */
+function findPauses(
+  assetId: string,
+  words: TranscriptWord[],
+  kept: (word: TranscriptWord) => boolean,
+  silences: SilenceRange[] | null,
+  options: TightenOptions
+): TranscriptPauseCut[] {
+  const cuts: TranscriptPauseCut[] = [];
+  for (let i = 1; i < words.length; i++) {
+    if (!kept(words[i - 1]) || !kept(words[i])) continue;
+    const gapStart = words[i - 1].end;
+    const gapEnd = words[i].start;
+    const quiet = silences
+      ? silences
+          .map((s) => ({ start: Math.max(s.start, gapStart), end: Math.min(s.end, gapEnd) }))
+          .filter((s) => s.end > s.start)
+      : [{ start: gapStart, end: gapEnd }];
+
+    for (const range of quiet) {
+      if (range.end - range.start < options.minPauseSec) continue;
+      const start = range.start + options.paddingSec;
+      const end = range.end - options.paddingSec;
+      if (end > start) cuts.push({ assetId, start, end });
+    }
+  }
+  return cuts;
+}
+
+/**
+ * Cut filler words and long pauses from a transcript. `silences` holds
+ * silencedetect ranges per source asset (null where detection wasn't
+ * possible). Words already cut stay cut; earlier pause cuts are replaced.
+ */
+export function tightenTranscript(
+  transcript: Transcript,
+  silences: Record<string, SilenceRange[] | null>,
+  options: TightenOptions = DEFAULT_TIGHTEN_OPTIONS
+): { transcript: Transcript; report: TightenReport } {
+  const fillerIds = new Map<string, string>();
+  const pauseCuts: TranscriptPauseCut[] = [];
+
+  for (const source of transcript.sources) {
+    const words = transcript.paragraphs
+      .filter((p) => p.assetId === source.assetId)
+      .flatMap((p) => p.words)
+      .sort((a, b) => a.start - b.start);
+    findFillers(words, options.fillerWords).forEach((filler, id) => fillerIds.set(id, filler));
+    const kept = (word: TranscriptWord) => !word.deleted && !fillerIds.has(word.id);
+    pauseCuts.push(...findPauses(source.assetId, words, kept, silences[source.assetId] ?? null, options));
+  }
+
+  // Report each filler once per occurrence, not once per word of a phrase
+  const fillerCounts: Record<string, number> = {};
+  let fillerCount = 0;
+  for (const paragraph of transcript.paragraphs) {
+    let previousFiller: string | null = null;
+    for (const word of paragraph.words) {
+      const filler = fillerIds.get(word.id) ?? null;
+      if (filler && !word.deleted && filler !== previousFiller) {
+        fillerCounts[filler] = (fillerCounts[filler] ?? 0) + 1;
+        fillerCount++;
+      }
+      previousFiller = filler;
+    }
+  }
+
+  const base: Transcript = { ...transcript, paddingSec: options.paddingSec, pauseCuts: [] };
+  const withPauses: Transcript = { ...base, pauseCuts };
+  const tightened: Transcript = {
+    ...withPauses,
+    paragraphs: transcript.paragraphs.map((paragraph) => ({
+      ...paragraph,
+      words: paragraph.words.map((word) => (fillerIds.has(word.id) ? { ...word, deleted: true } : word)),
+    })),
+  };
+
+  const originalSec = transcript.sources.reduce((sum, source) => sum + source.durationSec, 0);
+  const beforeSec = compileTranscript(base).durationSec;
+  const pausedSec = compileTranscript(withPauses).durationSec;
+  const tightenedSec = compileTranscript(tightened).durationSec;
+
+  return {
+    transcript: tightened,
+    report: {
+      originalSec,
+      tightenedSec,
+      removedSec: Math.max(0, originalSec - tightenedSec),
+      fillerWords: { count: fillerCount, removedSec: Math.max(0, pausedSec - tightenedSec), words: fillerCounts },
+      pauses: { count: pauseCuts.length, removedSec: Math.max(0, beforeSec - pausedSec) },
+      trimmedSec: Math.max(0, originalSec - beforeSec),
+    },
+  };
+}
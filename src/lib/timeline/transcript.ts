@@ -0,0 +1,395 @@
+import type {
+  CaptionSegment,
+  CaptionWord,
+  Transcript,
+  TranscriptCutaway,
+  TranscriptParagraph,
+  TranscriptSource,
+  TranscriptWord,
+} from "./v1";
+import type { StoredScene, StoredTimelineV1 } from "./stored";
+
+// ============================================
+// Transcript Editing
+// Talking head videos edited as text: the speaker's words (in source time)
+// are kept on the timeline as a transcript; deleting words cuts their
+// media, reordering paragraphs reorders it. compileTranscript turns the
+// edited transcript back into talking head scenes - b-roll cutaways where
+// they cover kept speech - and caption segments on the new timebase.
+// ============================================
+
+// A new paragraph starts after a sentence followed by this much silence...
+const PARAGRAPH_PAUSE_SEC = 1.0;
+// ...or once a paragraph has this many words and a sentence ends
+const PARAGRAPH_MAX_WORDS = 60;
+// Room left around kept speech at a cut, so words aren't clipped
+const CUT_PADDING_SEC = 0.12;
+// Cutaways shorter than this after cutting stay on the speaker
+const MIN_CUTAWAY_SEC = 0.5;
+
+const SENTENCE_END = /[.!?]["')\]]*$/;
+
+export interface TranscriptSourceWords extends TranscriptSource {
+  words: CaptionWord[]; // Source time
+}
+
+// A source video as placed in the timeline before any transcript edit:
+// builders lay the speaker's footage end to end
+export interface TalkingHeadSource extends TranscriptSource {
+  offsetSec: number; // Where the source starts on the original timeline
+}
+
+export interface CompiledTranscript {
+  scenes: StoredScene[];
+  captions: CaptionSegment[];
+  durationSec: number;
+  removedSec: number; // Speaker footage the edit leaves out
+}
+
+/**
+ * Whether a timeline is built from the user's own talking head footage
+ */
+export function isTalkingHeadTimeline(timeline: StoredTimelineV1): boolean {
+  return !!timeline.rendering?.isTalkingHead || timeline.scenes.some((scene) => scene.isTalkingHead);
+}
+
+/**
+ * The speaker's source videos, in timeline order. Builders that lay out
+ * several videos record each one's offset in audioTracks; otherwise the
+ * talking head scenes' assets are taken to follow each other.
+ */
+export function talkingHeadSources(timeline: StoredTimelineV1): TalkingHeadSource[] {
+  const speakerScenes = timeline.scenes.filter((scene) => scene.isTalkingHead && scene.assetId);
+  const urlOf = (assetId: string) => speakerScenes.find((scene) => scene.assetId === assetId)?.clipUrl ?? null;
+  const extentOf = (assetId: string) =>
+    Math.max(0, ...speakerScenes.filter((scene) => scene.assetId === assetId).map((scene) => scene.outSec));
+
+  if (timeline.audioTracks && timeline.audioTracks.length > 0) {
+    const tracks = [...timeline.audioTracks].sort((a, b) => (a.startOffset ?? 0) - (b.startOffset ?? 0));
+    const total = timeline.rendering?.totalDurationSec;
+    return tracks.map((track, i) => {
+      const offsetSec = track.startOffset ?? 0;
+      const next = tracks[i + 1]?.startOffset ?? total;
+      return {
+        assetId: track.assetId,
+        url: urlOf(track.assetId),
+        durationSec: next !== undefined ? next - offsetSec : extentOf(track.assetId),
+        offsetSec,
+      };
+    });
+  }
+
+  const sources: TalkingHeadSource[] = [];
+  let offsetSec = 0;
+  for (const scene of speakerScenes) {
+    const assetId = scene.assetId as string;
+    if (sources.some((source) => source.assetId === assetId)) continue;
+    const durationSec = extentOf(assetId);
+    sources.push({ assetId, url: urlOf(assetId), durationSec, offsetSec });
+    offsetSec += durationSec;
+  }
+  return sources;
+}
+
+/**
+ * The b-roll scenes of a builder's timeline as cutaways over the speaker's
+ * audio. Builders record the stretch of audio a b-roll scene covers in
+ * timeline time (sourceAudioStart/End); this maps it to a source video.
+ */
+export function cutawaysFromScenes(scenes: StoredScene[], sources: TalkingHeadSource[]): TranscriptCutaway[] {
+  const cutaways: TranscriptCutaway[] = [];
+  for (const scene of scenes) {
+    if (!scene.isBroll || scene.sourceAudioStart === undefined) continue;
+    const start = scene.sourceAudioStart;
+    const source = sources.find((s) => start >= s.offsetSec && start < s.offsetSec + s.durationSec);
+    if (!source) continue;
+    const end = Math.min(scene.sourceAudioEnd ?? start + scene.durationSec, source.offsetSec + source.durationSec);
+    cutaways.push({
+      id: scene.id,
+      assetId: source.assetId,
+      start: start - source.offsetSec,
+      end: end - source.offsetSec,
+      clipId: scene.clipId ?? null,
+      clipUrl: scene.clipUrl ?? null,
+      inSec: scene.inSec,
+      description: scene.clipDescription ?? null,
+    });
+  }
+  return cutaways;
+}
+
+/**
+ * Split each source's words into paragraphs at long pauses between
+ * sentences. Word and paragraph ids are stable for the transcript's life.
+ */
+export function createTranscript(sources: TranscriptSourceWords[], cutaways: TranscriptCutaway[] = []): Transcript {
+  const paragraphs: TranscriptParagraph[] = [];
+
+  sources.forEach((source, s) => {
+    const words = [...source.words].sort((a, b) => a.start - b.start);
+    let current: TranscriptWord[] = [];
+    const flush = () => {
+      if (current.length === 0) return;
+      paragraphs.push({ id: `p${s}-${paragraphs.length}`, assetId: source.assetId, words: current });
+      current = [];
+    };
+
+    words.forEach((word, i) => {
+      current.push({ id: `w${s}-${i}`, word: word.word, start: word.start, end: word.end });
+      const next = words[i + 1];
+      const sentenceEnds = SENTENCE_END.test(word.word);
+      if (next && sentenceEnds && (next.start - word.end >= PARAGRAPH_PAUSE_SEC || current.length >= PARAGRAPH_MAX_WORDS)) {
+        flush();
+      }
+    });
+    flush();
+  });
+
+  return {
+    sources: sources.map(({ assetId, url, durationSec }) => ({ assetId, url, durationSec })),
+    paragraphs,
+    cutaways,
+  };
+}
+
+/**
+ * Sentences of a paragraph, each a list of its words
+ */
+export function paragraphSentences(paragraph: TranscriptParagraph): TranscriptWord[][] {
+  const sentences: TranscriptWord[][] = [];
+  let current: TranscriptWord[] = [];
+  for (const word of paragraph.words) {
+    current.push(word);
+    if (SENTENCE_END.test(word.word)) {
+      sentences.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) sentences.push(current);
+  return sentences;
+}
+
+/**
+ * Mark words as cut (or bring them back)
+ */
+export function setWordsDeleted(transcript: Transcript, wordIds: string[], deleted: boolean): Transcript {
+  const ids = new Set(wordIds);
+  return {
+    ...transcript,
+    paragraphs: transcript.paragraphs.map((paragraph) =>
+      paragraph.words.some((word) => ids.has(word.id))
+        ? {
+            ...paragraph,
+            words: paragraph.words.map((word) => (ids.has(word.id) ? { ...word, deleted: deleted || undefined } : word)),
+          }
+        : paragraph
+    ),
+  };
+}
+
+/**
+ * Move a paragraph - and the media under it - to another position
+ */
+export function moveParagraph(transcript: Transcript, fromIndex: number, toIndex: number): Transcript {
+  const paragraphs = [...transcript.paragraphs];
+  const [moved] = paragraphs.splice(fromIndex, 1);
+  paragraphs.splice(Math.max(0, Math.min(toIndex, paragraphs.length)), 0, moved);
+  return { ...transcript, paragraphs };
+}
+
+// A stretch of one source that plays uninterrupted
+interface Run {
+  source: TranscriptSource;
+  words: TranscriptWord[];
+  inSec: number;
+  outSec: number;
+}
+
+/**
+ * Kept words in edited order, grouped into runs that are contiguous in
+ * their source. Deleted words, reordered paragraphs and pause cuts end a run.
+ */
+function transcriptRuns(transcript: Transcript): Run[] {
+  const padding = transcript.paddingSec ?? CUT_PADDING_SEC;
+  const pauseCuts = transcript.pauseCuts ?? [];
+  // Each word's neighbours in its source, whatever the edit
+  const position = new Map<string, { index: number; prevEnd: number | null; nextStart: number | null }>();
+  for (const source of transcript.sources) {
+    const words = transcript.paragraphs
+      .filter((p) => p.assetId === source.assetId)
+      .flatMap((p) => p.words)
+      .sort((a, b) => a.start - b.start);
+    words.forEach((word, index) => {
+      position.set(word.id, {
+        index,
+        prevEnd: index > 0 ? words[index - 1].end : null,
+        nextStart: index < words.length - 1 ? words[index + 1].start : null,
+      });
+    });
+  }
+
+  const runs: Run[] = [];
+  let previous: { assetId: string; index: number } | null = null;
+
+  for (const paragraph of transcript.paragraphs) {
+    const source = transcript.sources.find((s) => s.assetId === paragraph.assetId);
+    if (!source) continue;
+
+    for (const word of paragraph.words) {
+      const at = position.get(word.id);
+      if (word.deleted || !at) continue;
+
+      const run = runs[runs.length - 1];
+      const continues = previous?.assetId === paragraph.assetId && previous.index === at.index - 1;
+      const { prevEnd } = at;
+      const pause = continues && prevEnd !== null
+        ? pauseCuts.find((c) => c.assetId === paragraph.assetId && c.start >= prevEnd && c.end <= word.start)
+        : undefined;
+      if (run && continues && !pause) {
+        run.words.push(word);
+        run.outSec = Math.min(at.nextStart ?? source.durationSec, word.end + padding);
+      } else {
+        if (run && pause) run.outSec = pause.start;
+        runs.push({
+          source,
+          words: [word],
+          inSec: pause ? pause.end : Math.max(at.prevEnd ?? 0, word.start - padding, 0),
+          outSec: Math.min(at.nextStart ?? source.durationSec, word.end + padding),
+        });
+      }
+      previous = { assetId: paragraph.assetId, index: at.index };
+    }
+  }
+  return runs;
+}
+
+/**
+ * Cut a run into speaker and cutaway pieces: b-roll where a cutaway covers
+ * part of the run's audio, the speaker everywhere else
+ */
+function runScenes(run: Run, cutaways: TranscriptCutaway[]): StoredScene[] {
+  const { source } = run;
+  const covering = cutaways
+    .filter((c) => c.assetId === source.assetId && Math.min(c.end, run.outSec) - Math.max(c.start, run.inSec) >= MIN_CUTAWAY_SEC)
+    .sort((a, b) => a.start - b.start);
+
+  const base = {
+    kind: "video" as const,
+    cropMode: "cover" as const,
+    // No transitions: they overlap scenes and would put the cuts out of sync
+    transitionOut: "none" as const,
+    transitionDuration: 0,
+  };
+  const speaker = (inSec: number, outSec: number): StoredScene => ({
+    ...base,
+    id: `tx-${run.words[0].id}-${Math.round(inSec * 1000)}`,
+    assetId: source.assetId,
+    clipId: source.assetId,
+    clipUrl: source.url,
+    isUserAsset: true,
+    isTalkingHead: true,
+    intent: "Talking head",
+    clipDescription: "User speaking",
+    inSec,
+    outSec,
+    durationSec: outSec - inSec,
+  });
+
+  const scenes: StoredScene[] = [];
+  let cursor = run.inSec;
+  for (const cutaway of covering) {
+    const start = Math.max(cutaway.start, cursor);
+    const end = Math.min(cutaway.end, run.outSec);
+    if (end - start < MIN_CUTAWAY_SEC) continue;
+    if (start > cursor) scenes.push(speaker(cursor, start));
+    const inSec = cutaway.inSec + (start - cutaway.start);
+    scenes.push({
+      ...base,
+      id: `tx-${cutaway.id}-${Math.round(start * 1000)}`,
+      assetId: null,
+      clipId: cutaway.clipId ?? null,
+      clipUrl: cutaway.clipUrl ?? null,
+      isUserAsset: false,
+      isBroll: true,
+      intent: "B-roll footage",
+      clipDescription: cutaway.description ?? null,
+      inSec,
+      outSec: inSec + (end - start),
+      durationSec: end - start,
+      sourceAssetId: source.assetId,
+      sourceAudioStart: start,
+      sourceAudioEnd: end,
+    });
+    cursor = end;
+  }
+  if (run.outSec > cursor) scenes.push(speaker(cursor, run.outSec));
+  return scenes;
+}
+
+/**
+ * Compile an edited transcript into back to back scenes and caption
+ * segments of `wordsPerBlock` words re-timed onto the new timeline
+ */
+export function compileTranscript(transcript: Transcript, options: { wordsPerBlock?: number } = {}): CompiledTranscript {
+  const wordsPerBlock = Math.max(1, options.wordsPerBlock ?? 3);
+  const scenes: StoredScene[] = [];
+  const captions: CaptionSegment[] = [];
+  let timelineSec = 0;
+
+  for (const run of transcriptRuns(transcript)) {
+    scenes.push(...runScenes(run, transcript.cutaways));
+
+    const retime = (sec: number) => timelineSec + (sec - run.inSec);
+    for (let i = 0; i < run.words.length; i += wordsPerBlock) {
+      const block = run.words.slice(i, i + wordsPerBlock).map((w) => ({
+        word: w.word,
+        start: retime(w.start),
+        end: retime(w.end),
+      }));
+      captions.push({
+        start: block[0].start,
+        end: block[block.length - 1].end,
+        text: block.map((w) => w.word).join(" "),
+        words: block,
+      });
+    }
+    timelineSec += run.outSec - run.inSec;
+  }
+
+  const sourceSec = transcript.sources.reduce((sum, source) => sum + source.durationSec, 0);
+  return {
+    scenes,
+    captions,
+    durationSec: timelineSec,
+    removedSec: Math.max(0, sourceSec - timelineSec),
+  };
+}
+
+/**
+ * Replace a talking head timeline's scenes and captions with the compiled
+ * transcript. The speaker's audio then follows the scenes (one dialogue
+ * clip per scene) instead of playing through uncut.
+ */
+export function applyTranscript(timeline: StoredTimelineV1, transcript: Transcript): StoredTimelineV1 {
+  const { scenes, captions, durationSec } = compileTranscript(transcript, {
+    wordsPerBlock: timeline.global.captions.wordsPerBlock,
+  });
+
+  const next: StoredTimelineV1 = {
+    ...timeline,
+    scenes,
+    transcript,
+    global: {
+      ...timeline.global,
+      captions: { ...timeline.global.captions, segments: captions, startOffset: 0 },
+    },
+    rendering: {
+      output: { url: null, thumbnailUrl: null, durationSec: null, sizeBytes: null },
+      ...timeline.rendering,
+      isTalkingHead: true,
+      totalDurationSec: durationSec,
+    },
+  };
+  delete next.audioTracks;
+  return next;
+}
@@ -41,6 +41,44 @@ export const AnimationPresets = [
 export const AnimationPresetSchema = z.enum(AnimationPresets);
 export type AnimationPreset = z.infer<typeof AnimationPresetSchema>;
 
+// Keyframe animation - each property is a list of values over time, eased
+// into the next keyframe. Times are seconds from the element's start.
+export const AnimatableProperties = [
+  "x",              // Center, percentage from left (scenes: point of the picture at the frame center)
+  "y",              // Center, percentage from top
+  "scale",          // Size multiplier (scenes: zoom, 1 and up)
+  "rotation",       // Degrees, clockwise
+  "opacity",        // 0-1
+] as const;
+
+export const AnimatablePropertySchema = z.enum(AnimatableProperties);
+export type AnimatableProperty = z.infer<typeof AnimatablePropertySchema>;
+
+export const Easings = [
+  "linear",
+  "ease_in",        // Slow start
+  "ease_out",       // Slow finish
+  "ease_in_out",    // Slow start and finish
+  "hold",           // Keep the value until the next keyframe
+] as const;
+
+export const EasingSchema = z.enum(Easings);
+export type Easing = z.infer<typeof EasingSchema>;
+
+export const KeyframeSchema = z.object({
+  t: z.number().min(0),
+  value: z.number(),
+  easing: EasingSchema.default("linear"), // Into the next keyframe
+});
+
+export const KeyframeAnimationSchema = z.object({
+  x: z.array(KeyframeSchema).optional(),
+  y: z.array(KeyframeSchema).optional(),
+  scale: z.array(KeyframeSchema).optional(),
+  rotation: z.array(KeyframeSchema).optional(),
+  opacity: z.array(KeyframeSchema).optional(),
+});
+
 // Text style presets for overlays
 export const TextStylePresets = [
   "lower_third",    // Classic lower-third bar
@@ -74,6 +112,7 @@ export const TextOverlaySchema = z.object({
   fontSize: z.number().min(12).max(200).default(48),
   fontFamily: z.string().default("Inter"),
   animation: z.enum(["none", "fade_in", "slide_up", "typewriter"]).default("fade_in"),
+  keyframes: KeyframeAnimationSchema.optional(), // Wins over the animation
 });
 
 export type TextOverlay = z.infer<typeof TextOverlaySchema>;
@@ -107,6 +146,19 @@ export const TransitionTypes = [
 export const TransitionSchema = z.enum(TransitionTypes);
 
 // Individual scene in the timeline
+// Point of interest inside a clip (0-1 from the top-left), kept in frame when
+// the clip is cropped to a different aspect ratio
+export const FocalPointSchema = z.object({
+  x: z.number().min(0).max(1).default(0.5),
+  y: z.number().min(0).max(1).default(0.5),
+});
+
+// Focal point at a source time; a crop path is interpolated linearly between
+// keyframes. Written by the worker's reframe analysis or by hand.
+export const CropKeyframeSchema = FocalPointSchema.extend({
+  t: z.number().min(0),
+});
+
 export const SceneSchema = z.object({
   id: z.string(),
   assetId: z.string().nullable(), // Reference to media_assets.id
@@ -118,6 +170,8 @@ export const SceneSchema = z.object({
   outSec: z.number().min(0), // Trim end point
   durationSec: z.number().min(0), // Computed: outSec - inSec
   cropMode: z.enum(["cover", "contain", "fill"]).default("cover"),
+  focalPoint: FocalPointSchema.optional(),
+  cropPath: z.array(CropKeyframeSchema).optional(), // Moving focal point; wins over focalPoint
   overlays: OverlaySchema.optional(),
   
   // Transition preset (simplified for user selection)
@@ -126,8 +180,10 @@ export const SceneSchema = z.object({
   transitionOut: TransitionSchema.nullable().optional(),
   transitionDuration: z.number().min(0).max(2).default(0.5).optional(),
   
-  // Animation preset for the clip
+  // Animation preset for the clip (a named keyframe template)
   animation: AnimationPresetSchema.default("none").optional(),
+  // Keyframed motion; wins over the preset
+  keyframes: KeyframeAnimationSchema.optional(),
   
   // Scene intent/description (for AI context)
   intent: z.string().nullable().optional(),
@@ -135,24 +191,68 @@ export const SceneSchema = z.object({
 });
 
 // Music track configuration
+// Sidechain ducking: music dips while voiceover or dialogue is playing
+export const DuckingSchema = z.object({
+  enabled: z.boolean().default(true),
+  thresholdDb: z.number().min(-60).max(0).default(-30), // Speech level that starts the dip
+  ratio: z.number().min(1).max(20).default(8),
+  attackMs: z.number().min(1).max(2000).default(20),
+  releaseMs: z.number().min(10).max(9000).default(400),
+});
+
+// Gain over time for one audio element. Keyframe times are seconds from
+// the element's start; gain multiplies its volume and is interpolated linearly.
+export const GainKeyframeSchema = z.object({
+  t: z.number().min(0),
+  gain: z.number().min(0).max(2),
+});
+
+export const VolumeEnvelopeSchema = z.object({
+  fadeInSec: z.number().min(0).default(0),
+  fadeOutSec: z.number().min(0).default(0), // Ends where the element (or the video) ends
+  keyframes: z.array(GainKeyframeSchema).default([]),
+});
+
 export const MusicSchema = z.object({
   assetId: z.string().nullable(),
   volume: z.number().min(0).max(1).default(0.3),
+  ducking: DuckingSchema.optional(), // Defaults apply when unset
+  envelope: VolumeEnvelopeSchema.optional(),
 });
 
 // Voiceover configuration
 export const VoiceoverSchema = z.object({
   assetId: z.string().nullable(),
   volume: z.number().min(0).max(1).default(1.0),
+  envelope: VolumeEnvelopeSchema.optional(),
 });
 
 // Single caption segment with timing
+// Word timing from Deepgram (drives word-level caption styles)
+export const CaptionWordSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+});
+
 export const CaptionSegmentSchema = z.object({
   start: z.number(), // Start time in seconds
   end: z.number(),   // End time in seconds  
   text: z.string(),  // Caption text
+  words: z.array(CaptionWordSchema).optional(),
 });
 
+// Caption styles rendered by the worker's ASS caption engine
+export const CaptionStyles = [
+  "static",       // Whole block at once
+  "karaoke",      // Words fill with the brand color as they are spoken
+  "pop-in",       // Words appear one by one with a pop
+  "active-word",  // Whole block, spoken word in the brand color
+] as const;
+
+export const CaptionStyleSchema = z.enum(CaptionStyles);
+export type CaptionStyle = z.infer<typeof CaptionStyleSchema>;
+
 // Captions configuration
 export const CaptionsSchema = z.object({
   enabled: z.boolean().default(false),
@@ -162,6 +262,56 @@ export const CaptionsSchema = z.object({
   font: z.string().default("Inter").optional(),
   startOffset: z.number().default(0).optional(), // Offset for intro
   segments: z.array(CaptionSegmentSchema).optional(), // Timed caption segments
+  style: CaptionStyleSchema.default("static").optional(),
+  sidecar: z.boolean().default(false).optional(), // Also upload the .ass file next to the render
+  softSubtitles: z.boolean().default(false).optional(), // Mux a mov_text subtitle track into the MP4
+});
+
+// Talking head transcript as edited in the transcript editor. Word times
+// are in the source video's time; the scenes and caption segments are
+// compiled from it (src/lib/timeline/transcript.ts).
+export const TranscriptWordSchema = CaptionWordSchema.extend({
+  id: z.string(),
+  deleted: z.boolean().optional(), // Cut from the video
+});
+
+export const TranscriptParagraphSchema = z.object({
+  id: z.string(),
+  assetId: z.string(), // Source video the words come from
+  words: z.array(TranscriptWordSchema),
+});
+
+export const TranscriptSourceSchema = z.object({
+  assetId: z.string(),
+  url: z.string().nullable(),
+  durationSec: z.number().min(0),
+});
+
+// B-roll shown over a stretch of the speaker's audio (source time)
+export const TranscriptCutawaySchema = z.object({
+  id: z.string(),
+  assetId: z.string(), // Source video whose audio it covers
+  start: z.number().min(0),
+  end: z.number().min(0),
+  clipId: z.string().nullable().optional(),
+  clipUrl: z.string().nullable().optional(),
+  inSec: z.number().min(0).default(0), // In point in the b-roll clip at `start`
+  description: z.string().nullable().optional(),
+});
+
+// Silence cut out between two kept words (source time)
+export const TranscriptPauseCutSchema = z.object({
+  assetId: z.string(),
+  start: z.number().min(0),
+  end: z.number().min(0),
+});
+
+export const TranscriptSchema = z.object({
+  sources: z.array(TranscriptSourceSchema),
+  paragraphs: z.array(TranscriptParagraphSchema), // In edited order
+  cutaways: z.array(TranscriptCutawaySchema).default([]),
+  pauseCuts: z.array(TranscriptPauseCutSchema).optional(), // From tightening
+  paddingSec: z.number().min(0).optional(), // Room left around kept speech at a cut
 });
 
 // Brand configuration for this project
@@ -185,11 +335,17 @@ export const BrandSchema = z.object({
 });
 
 // Export settings
+// Integrated loudness targets (EBU R128 / loudnorm): social platforms
+// normalize to about -14 LUFS, broadcast delivery is -23 LUFS
+export const LoudnessPresets = ["social", "broadcast", "off"] as const;
+export const LoudnessPresetSchema = z.enum(LoudnessPresets);
+
 export const ExportSchema = z.object({
   codec: z.enum(["h264", "h265"]).default("h264"),
   bitrateMbps: z.number().min(1).max(50).default(10),
   crf: z.number().min(0).max(51).optional(), // If set, overrides bitrate
   audioKbps: z.number().min(64).max(320).default(192),
+  loudnessPreset: LoudnessPresetSchema.optional(), // Defaults to "social"
 });
 
 // Rendering output (populated after render completes)
@@ -201,11 +357,14 @@ export const RenderingOutputSchema = z.object({
 });
 
 // Project metadata
+export const AspectRatios = ["landscape", "vertical", "square"] as const;
+export const AspectRatioSchema = z.enum(AspectRatios);
+
 export const ProjectMetaSchema = z.object({
   id: z.string(),
   title: z.string(),
   type: z.string(), // product_promo, real_estate, etc.
-  aspectRatio: z.enum(["landscape", "vertical", "square"]),
+  aspectRatio: AspectRatioSchema,
   resolution: z.object({
     width: z.number().default(1920),
     height: z.number().default(1080),
@@ -236,7 +395,11 @@ export const TimelineV1Schema = z.object({
     totalDurationSec: z.number().optional(),
     introDurationSec: z.number().optional(),
     outroDurationSec: z.number().optional(),
+    // Talking head: audio comes from the speaker's footage, not a voiceover
+    isTalkingHead: z.boolean().optional(),
+    userAudioAssetIds: z.array(z.string()).optional(),
   }),
+  transcript: TranscriptSchema.optional(), // Talking head transcript edits
   // Sound effects with timing
   soundEffects: z.array(z.object({
     id: z.string(),
@@ -244,6 +407,7 @@ export const TimelineV1Schema = z.object({
     audioUrl: z.string(),
     atTimeSec: z.number(),
     volume: z.number().min(0).max(1).default(0.5),
+    envelope: VolumeEnvelopeSchema.optional(),
   })).optional(),
   // Image overlays with timing
   imageOverlays: z.array(z.object({
@@ -257,6 +421,7 @@ export const TimelineV1Schema = z.object({
     scale: z.number().default(1),
     width: z.number().nullable(),
     height: z.number().nullable(),
+    keyframes: KeyframeAnimationSchema.optional(),
   })).optional(),
 });
 
@@ -265,10 +430,27 @@ export type Overlay = z.infer<typeof OverlaySchema>;
 export type Scene = z.infer<typeof SceneSchema>;
 export type Music = z.infer<typeof MusicSchema>;
 export type Voiceover = z.infer<typeof VoiceoverSchema>;
+export type CaptionWord = z.infer<typeof CaptionWordSchema>;
+export type CaptionSegment = z.infer<typeof CaptionSegmentSchema>;
+export type TranscriptWord = z.infer<typeof TranscriptWordSchema>;
+export type TranscriptParagraph = z.infer<typeof TranscriptParagraphSchema>;
+export type TranscriptSource = z.infer<typeof TranscriptSourceSchema>;
+export type TranscriptCutaway = z.infer<typeof TranscriptCutawaySchema>;
+export type TranscriptPauseCut = z.infer<typeof TranscriptPauseCutSchema>;
+export type Transcript = z.infer<typeof TranscriptSchema>;
 export type Captions = z.infer<typeof CaptionsSchema>;
 export type Brand = z.infer<typeof BrandSchema>;
 export type Export = z.infer<typeof ExportSchema>;
+export type Ducking = z.infer<typeof DuckingSchema>;
+export type Keyframe = z.infer<typeof KeyframeSchema>;
+export type KeyframeAnimation = z.infer<typeof KeyframeAnimationSchema>;
+export type GainKeyframe = z.infer<typeof GainKeyframeSchema>;
+export type VolumeEnvelope = z.infer<typeof VolumeEnvelopeSchema>;
+export type LoudnessPreset = z.infer<typeof LoudnessPresetSchema>;
 export type RenderingOutput = z.infer<typeof RenderingOutputSchema>;
+export type FocalPoint = z.infer<typeof FocalPointSchema>;
+export type CropKeyframe = z.infer<typeof CropKeyframeSchema>;
+export type AspectRatio = z.infer<typeof AspectRatioSchema>;
 export type ProjectMeta = z.infer<typeof ProjectMetaSchema>;
 export type Global = z.infer<typeof GlobalSchema>;
 export type TimelineV1 = z.infer<typeof TimelineV1Schema>;
@@ -287,7 +469,7 @@ export function createEmptyTimeline(params: {
   id: string;
   title: string;
   type: string;
-  aspectRatio: "landscape" | "vertical" | "square";
+  aspectRatio: AspectRatio;
 }): TimelineV1 {
   const resolutions = {
     landscape: { width: 1920, height: 1080 },
@@ -516,3 +698,134 @@ export function addScene(timeline: TimelineV1, scene: Scene, index?: number): Ti
   return { ...timeline, scenes };
 }
 
+
+// ============================================
+// Keyframe Animation
+// ============================================
+
+// Value of a property that has no keyframes
+export const DEFAULT_PROPERTY_VALUES: Record<AnimatableProperty, number> = {
+  x: 50,
+  y: 50,
+  scale: 1,
+  rotation: 0,
+  opacity: 1,
+};
+
+function key(t: number, value: number, easing: Easing = "linear"): Keyframe {
+  return { t, value, easing };
+}
+
+/**
+ * A scene animation preset as a keyframe template, stretched over the scene
+ */
+export function animationTemplate(preset: AnimationPreset, durationSec: number): KeyframeAnimation {
+  const end = Math.max(0.1, durationSec);
+  switch (preset) {
+    case "subtle_zoom":
+      return { scale: [key(0, 1), key(end, 1.1)] };
+    case "pan_left":
+      return { scale: [key(0, 1.15)], x: [key(0, 56), key(end, 44)] };
+    case "pan_right":
+      return { scale: [key(0, 1.15)], x: [key(0, 44), key(end, 56)] };
+    case "punch_in":
+      return { scale: [key(0, 1, "ease_out"), key(Math.min(0.3, end), 1.2)] };
+    default:
+      return {};
+  }
+}
+
+/**
+ * A text overlay animation as a keyframe template (typewriter has none)
+ */
+export function textAnimationTemplate(overlay: Pick<TextOverlay, "animation" | "y">): KeyframeAnimation {
+  switch (overlay.animation) {
+    case "fade_in":
+      return { opacity: [key(0, 0), key(0.5, 1)] };
+    case "slide_up":
+      return {
+        y: [key(0, overlay.y + 5, "ease_out"), key(0.5, overlay.y)],
+        opacity: [key(0, 0), key(0.3, 1)],
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Whether an animation has at least one keyframe
+ */
+export function hasKeyframes(animation: KeyframeAnimation | undefined): animation is KeyframeAnimation {
+  return !!animation && AnimatableProperties.some((property) => (animation[property]?.length ?? 0) > 0);
+}
+
+/**
+ * A scene's keyframes: its own, or its preset's template
+ */
+export function sceneKeyframes(scene: Pick<Scene, "animation" | "keyframes" | "durationSec">): KeyframeAnimation {
+  if (hasKeyframes(scene.keyframes)) return scene.keyframes;
+  return animationTemplate(scene.animation ?? "none", scene.durationSec);
+}
+
+/**
+ * Progress through a keyframe segment (0-1) after easing
+ */
+export function easeProgress(easing: Easing, p: number): number {
+  switch (easing) {
+    case "ease_in":
+      return p * p;
+    case "ease_out":
+      return p * (2 - p);
+    case "ease_in_out":
+      return p * p * (3 - 2 * p);
+    case "hold":
+      return 0;
+    default:
+      return p;
+  }
+}
+
+/**
+ * Value of one property at time t, holding the first and last keyframes
+ * outside them (the renderer's interpolation, for previews)
+ */
+export function sampleKeyframes(keyframes: Keyframe[] | undefined, t: number, fallback: number): number {
+  if (!keyframes?.length) return fallback;
+  const sorted = [...keyframes].sort((a, b) => a.t - b.t);
+  if (t <= sorted[0].t) return sorted[0].value;
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const a = sorted[i];
+    const b = sorted[i + 1];
+    if (t < b.t) {
+      const p = easeProgress(a.easing, (t - a.t) / (b.t - a.t));
+      return a.value + (b.value - a.value) * p;
+    }
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Every property's value at time t
+ */
+export function sampleAnimation(
+  animation: KeyframeAnimation,
+  t: number,
+  defaults: Record<AnimatableProperty, number> = DEFAULT_PROPERTY_VALUES
+): Record<AnimatableProperty, number> {
+  return {
+    x: sampleKeyframes(animation.x, t, defaults.x),
+    y: sampleKeyframes(animation.y, t, defaults.y),
+    scale: sampleKeyframes(animation.scale, t, defaults.scale),
+    rotation: sampleKeyframes(animation.rotation, t, defaults.rotation),
+    opacity: sampleKeyframes(animation.opacity, t, defaults.opacity),
+  };
+}
+
+/**
+ * Distinct keyframe times across all properties, in order
+ */
+export function keyframeTimes(animation: KeyframeAnimation): number[] {
+  const times = AnimatableProperties.flatMap((property) => (animation[property] ?? []).map((k) => k.t));
+  return [...new Set(times)].sort((a, b) => a - b);
+}
@@ -0,0 +1,341 @@
+import { z } from "zod";
+import {
+  SceneSchema,
+  TextOverlaySchema,
+  CaptionsSchema,
+  BrandSchema,
+  ExportSchema,
+  DuckingSchema,
+  VolumeEnvelopeSchema,
+  ProjectMetaSchema,
+  RenderingOutputSchema,
+} from "./v1";
+import type { TimelineV1 } from "./v1";
+import {
+  MAIN_TRACK_ID,
+  OVERLAY_TRACK_ID,
+  layoutSequence,
+  migrateV1ToV2 as migrateStoredV1ToV2,
+  toTimelineV2 as toStoredTimelineV2,
+  transitionOverlapSec,
+  type TimelineV1 as StoredTimelineV1,
+} from "@ai-videographer/timeline";
+
+// ============================================
+// Timeline JSON Spec v2
+// Multi-track model: video/audio tracks with clips placed at absolute times
+// ============================================
+
+// Per-clip transform, applied when a clip is composited above the base track
+export const TransformSchema = z.object({
+  x: z.number().default(50),                      // Clip center, percentage from left
+  y: z.number().default(50),                      // Clip center, percentage from top
+  scale: z.number().min(0).default(1),            // Multiplier on the fitted size
+  rotation: z.number().default(0),                // Degrees, clockwise
+  opacity: z.number().min(0).max(1).default(1),
+});
+
+// Video clip = v1 scene + absolute placement on its track
+export const VideoClipSchema = SceneSchema.extend({
+  startSec: z.number().min(0), // Absolute timeline time the clip appears
+  // "none" keeps the source size (used for image overlays)
+  cropMode: z.enum(["cover", "contain", "fill", "none"]).default("cover"),
+  transform: TransformSchema.optional(),
+  title: z.string().nullable().optional(),
+  // Talking head markers written by the AI builders
+  isTalkingHead: z.boolean().optional(),
+  isBroll: z.boolean().optional(),
+  // Intrinsic overlay size, if known
+  width: z.number().nullable().optional(),
+  height: z.number().nullable().optional(),
+});
+
+export const VideoTrackSchema = z.object({
+  id: z.string(),
+  kind: z.literal("video"),
+  name: z.string().optional(),
+  zIndex: z.number().int().default(0), // Lowest track is the base picture
+  hidden: z.boolean().default(false).optional(),
+  clips: z.array(VideoClipSchema),
+});
+
+export const AudioTrackRoles = [
+  "music",      // Background music bed
+  "voiceover",  // Generated narration
+  "dialogue",   // Audio from the user's own footage (talking head)
+  "sfx",        // Timed sound effects
+] as const;
+
+export const AudioTrackRoleSchema = z.enum(AudioTrackRoles);
+export type AudioTrackRole = z.infer<typeof AudioTrackRoleSchema>;
+
+export const AudioClipSchema = z.object({
+  id: z.string(),
+  assetId: z.string().nullable(), // media_assets.id, music.id, ...
+  audioUrl: z.string().nullable().optional(), // Direct URL to the audio file
+  title: z.string().nullable().optional(),
+  startSec: z.number().min(0).default(0),
+  inSec: z.number().min(0).default(0),
+  durationSec: z.number().min(0).nullable().optional(), // null = play to end of source
+  volume: z.number().min(0).max(1).default(1),
+  loop: z.boolean().default(false), // Loop to cover the whole timeline
+  envelope: VolumeEnvelopeSchema.optional(), // Fades and gain keyframes, clip-relative
+});
+
+export const AudioTrackSchema = z.object({
+  id: z.string(),
+  kind: z.literal("audio"),
+  role: AudioTrackRoleSchema,
+  name: z.string().optional(),
+  muted: z.boolean().default(false).optional(),
+  ducking: DuckingSchema.optional(), // Music tracks: dip under voiceover/dialogue
+  clips: z.array(AudioClipSchema),
+});
+
+// Text effects from the effects library (src/lib/effects/templates.ts)
+export const TextEffectSchema = z.object({
+  effectId: z.string(),
+  atTimeSec: z.number().min(0),
+  durationSec: z.number().min(0),
+  header: z.string().optional(),
+  body: z.string().optional(),
+  topText: z.string().optional(),
+  bottomText: z.string().optional(),
+});
+
+export const GlobalV2Schema = z.object({
+  captions: CaptionsSchema,
+  brand: BrandSchema,
+  export: ExportSchema,
+});
+
+// Complete Timeline JSON v2 schema
+export const TimelineV2Schema = z.object({
+  version: z.literal(2),
+  project: ProjectMetaSchema,
+  tracks: z.object({
+    video: z.array(VideoTrackSchema),
+    audio: z.array(AudioTrackSchema),
+  }),
+  textOverlays: z.array(TextOverlaySchema).optional(),
+  textEffects: z.array(TextEffectSchema).optional(),
+  global: GlobalV2Schema,
+  rendering: z.object({
+    output: RenderingOutputSchema,
+    voiceoverDurationSec: z.number().optional(),
+    totalDurationSec: z.number().optional(),
+    introDurationSec: z.number().optional(),
+    outroDurationSec: z.number().optional(),
+    isTalkingHead: z.boolean().optional(),
+    userAudioAssetIds: z.array(z.string()).optional(),
+  }),
+});
+
+export type Transform = z.infer<typeof TransformSchema>;
+export type VideoClip = z.infer<typeof VideoClipSchema>;
+export type VideoTrack = z.infer<typeof VideoTrackSchema>;
+export type AudioClip = z.infer<typeof AudioClipSchema>;
+export type AudioTrack = z.infer<typeof AudioTrackSchema>;
+export type TextEffect = z.infer<typeof TextEffectSchema>;
+export type TimelineV2 = z.infer<typeof TimelineV2Schema>;
+
+// Track ids created by the migration; stable so the editor can find them
+export { MAIN_TRACK_ID, OVERLAY_TRACK_ID, layoutSequence, transitionOverlapSec };
+
+export const DEFAULT_TRANSFORM: Transform = { x: 50, y: 50, scale: 1, rotation: 0, opacity: 1 };
+
+// ============================================
+// Migration from v1
+// The upgrade itself lives in the shared timeline package, where the
+// worker runs the same code, and is registered there as migration 2
+// ============================================
+
+/**
+ * Upgrade a v1 timeline to v2 without losing information
+ */
+export function migrateV1ToV2(timeline: TimelineV1): TimelineV2 {
+  return migrateStoredV1ToV2(timeline as unknown as StoredTimelineV1) as unknown as TimelineV2;
+}
+
+/**
+ * Read a stored timeline_json of any version as v2
+ */
+export function toTimelineV2(data: TimelineV1 | TimelineV2): TimelineV2 {
+  return toStoredTimelineV2(data) as unknown as TimelineV2;
+}
+
+/**
+ * Validate a v2 timeline against the schema
+ */
+export function validateTimelineV2(data: unknown): { success: true; data: TimelineV2 } | { success: false; error: z.ZodError } {
+  const result = TimelineV2Schema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error };
+}
+
+// ============================================
+// Timeline Utilities
+// ============================================
+
+/**
+ * The base picture track (lowest zIndex)
+ */
+export function getMainTrack(timeline: TimelineV2): VideoTrack | null {
+  const tracks = [...timeline.tracks.video].sort((a, b) => a.zIndex - b.zIndex);
+  return tracks[0] ?? null;
+}
+
+/**
+ * Video tracks from bottom to top, skipping hidden ones
+ */
+export function getVisibleVideoTracks(timeline: TimelineV2): VideoTrack[] {
+  return timeline.tracks.video
+    .filter((track) => !track.hidden)
+    .sort((a, b) => a.zIndex - b.zIndex);
+}
+
+/**
+ * Clips of the main track in playback order
+ */
+export function getMainClips(timeline: TimelineV2): VideoClip[] {
+  const track = getMainTrack(timeline);
+  return track ? [...track.clips].sort((a, b) => a.startSec - b.startSec) : [];
+}
+
+/**
+ * First audio track with the given role
+ */
+export function getAudioTrack(timeline: TimelineV2, role: AudioTrackRole): AudioTrack | null {
+  return timeline.tracks.audio.find((t) => t.role === role) ?? null;
+}
+
+/**
+ * End time of the last video clip on any track
+ */
+export function totalDurationSecV2(timeline: TimelineV2): number {
+  let end = 0;
+  for (const track of timeline.tracks.video) {
+    for (const clip of track.clips) {
+      end = Math.max(end, clip.startSec + clip.durationSec);
+    }
+  }
+  return end;
+}
+
+/**
+ * Find the main-track clip visible at a given time
+ */
+export function findClipAtTime(timeline: TimelineV2, timeSec: number): VideoClip | null {
+  const clips = getMainClips(timeline);
+  for (let i = clips.length - 1; i >= 0; i--) {
+    const clip = clips[i];
+    if (timeSec >= clip.startSec && timeSec < clip.startSec + clip.durationSec) {
+      return clip;
+    }
+  }
+  return null;
+}
+
+/**
+ * Replace the clips of a track, re-laying out the main track sequentially
+ */
+export function setTrackClips(timeline: TimelineV2, trackId: string, clips: VideoClip[]): TimelineV2 {
+  const mainTrackId = getMainTrack(timeline)?.id;
+  return {
+    ...timeline,
+    tracks: {
+      ...timeline.tracks,
+      video: timeline.tracks.video.map((track) =>
+        track.id === trackId
+          ? { ...track, clips: track.id === mainTrackId ? layoutSequence(clips) : clips }
+          : track
+      ),
+    },
+  };
+}
+
+/**
+ * Ensure durationSec matches outSec - inSec
+ */
+export function normalizeClip<T extends { inSec: number; outSec: number; durationSec: number }>(clip: T): T {
+  return { ...clip, durationSec: Math.max(0, clip.outSec - clip.inSec) };
+}
+
+/**
+ * Apply an edit to the main track's clips (in playback order) and re-layout
+ */
+export function mapMainClips(timeline: TimelineV2, fn: (clips: VideoClip[]) => VideoClip[]): TimelineV2 {
+  const mainTrack = getMainTrack(timeline);
+  if (!mainTrack) {
+    return {
+      ...timeline,
+      tracks: {
+        ...timeline.tracks,
+        video: [{ id: MAIN_TRACK_ID, kind: "video", name: "Main", zIndex: 0, clips: layoutSequence(fn([])) }],
+      },
+    };
+  }
+  return setTrackClips(timeline, mainTrack.id, fn(getMainClips(timeline)));
+}
+
+/**
+ * Normalize clip durations on every track and re-layout the main track
+ */
+export function normalizeTimelineV2(timeline: TimelineV2): TimelineV2 {
+  const normalized: TimelineV2 = {
+    ...timeline,
+    tracks: {
+      ...timeline.tracks,
+      video: timeline.tracks.video.map((track) => ({
+        ...track,
+        clips: track.clips.map(normalizeClip),
+      })),
+    },
+  };
+  return mapMainClips(normalized, (clips) => clips);
+}
+
+/**
+ * Update the first clip of the audio track with the given role, creating the track if needed
+ */
+export function updateAudioRole(
+  timeline: TimelineV2,
+  role: AudioTrackRole,
+  updates: Partial<AudioClip>
+): TimelineV2 {
+  const newClip: AudioClip = {
+    id: role,
+    assetId: null,
+    startSec: 0,
+    inSec: 0,
+    durationSec: null,
+    volume: role === "music" ? 0.3 : 1.0,
+    loop: role === "music",
+    ...updates,
+  };
+
+  const existing = getAudioTrack(timeline, role);
+  if (!existing) {
+    return {
+      ...timeline,
+      tracks: {
+        ...timeline.tracks,
+        audio: [...timeline.tracks.audio, { id: `audio-${role}`, kind: "audio", role, clips: [newClip] }],
+      },
+    };
+  }
+
+  return {
+    ...timeline,
+    tracks: {
+      ...timeline.tracks,
+      audio: timeline.tracks.audio.map((track) => {
+        if (track.id !== existing.id) return track;
+        if (track.clips.length === 0) return { ...track, clips: [newClip] };
+        return { ...track, clips: track.clips.map((c, i) => (i === 0 ? { ...c, ...updates } : c)) };
+      }),
+    },
+  };
+}
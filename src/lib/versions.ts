@@ -0,0 +1,114 @@
+import type { createAdminClient } from "@/lib/supabase/server";
+import type { ProjectVersion } from "@/lib/database.types";
+import { sameJson } from "@/lib/timeline/diff";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+export type VersionSource = ProjectVersion["source"];
+
+// Saves this close to the previous save update it instead of adding a
+// version, so an editing session (which saves on every change) is one entry
+export const SAVE_COALESCE_MS = 5 * 60 * 1000;
+
+// Columns for version lists - everything but the timeline itself
+export const VERSION_SUMMARY_COLUMNS =
+  "id, project_id, version, source, render_job_id, restored_from, created_by, created_at, updated_at";
+
+/**
+ * Record a version of a project's timeline. Saves identical to the latest
+ * version are skipped and saves soon after another save are folded into it;
+ * every render, AI write and restore gets its own version.
+ * Callers check the user owns the project.
+ */
+export async function snapshotProjectVersion(
+  adminSupabase: AdminClient,
+  params: {
+    projectId: string;
+    userId: string;
+    timeline: unknown;
+    source: VersionSource;
+    renderJobId?: string | null;
+    restoredFrom?: string | null;
+  }
+): Promise<ProjectVersion | null> {
+  const { projectId, userId, timeline, source } = params;
+  if (!timeline) return null;
+
+  const { data: latest } = await adminSupabase
+    .from("project_versions")
+    .select("*")
+    .eq("project_id", projectId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const now = new Date();
+
+  if (latest && source === "save") {
+    if (sameJson(latest.timeline_json, timeline)) return latest;
+
+    const lastTouched = new Date(latest.updated_at ?? latest.created_at).getTime();
+    if (latest.source === "save" && now.getTime() - lastTouched < SAVE_COALESCE_MS) {
+      const { data: updated, error } = await adminSupabase
+        .from("project_versions")
+        .update({ timeline_json: timeline, updated_at: now.toISOString() })
+        .eq("id", latest.id)
+        .select()
+        .single();
+      if (error) throw error;
+      return updated;
+    }
+  }
+
+  // Two writes racing for the same number: the loser takes the next one
+  let version = (latest?.version ?? 0) + 1;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: created, error } = await adminSupabase
+      .from("project_versions")
+      .insert({
+        project_id: projectId,
+        version,
+        source,
+        timeline_json: timeline,
+        render_job_id: params.renderJobId ?? null,
+        restored_from: params.restoredFrom ?? null,
+        created_by: userId,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (!error) return created;
+    if (error.code !== "23505") throw error;
+    version++;
+  }
+  throw new Error(`Could not number a new version of project ${projectId}`);
+}
+
+/**
+ * Make sure the timeline a project holds now is in its history before it
+ * is overwritten. Projects from before versioning, or whose first timeline
+ * was never saved through the API, get it recorded as an "initial" version.
+ */
+export async function preserveCurrentTimeline(
+  adminSupabase: AdminClient,
+  params: { projectId: string; userId: string; timeline: unknown }
+): Promise<void> {
+  if (!params.timeline) return;
+
+  const { data: latest } = await adminSupabase
+    .from("project_versions")
+    .select("timeline_json")
+    .eq("project_id", params.projectId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latest && sameJson(latest.timeline_json, params.timeline)) return;
+
+  await snapshotProjectVersion(adminSupabase, {
+    ...params,
+    source: latest ? "save" : "initial",
+  });
+}
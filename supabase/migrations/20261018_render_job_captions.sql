@@ -0,0 +1,8 @@
+-- Subtitle files produced alongside a render
+-- Keyed by format, e.g. { "ass": "https://..." }
+
+ALTER TABLE render_jobs
+ADD COLUMN IF NOT EXISTS caption_urls JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN render_jobs.caption_urls IS 'Sidecar caption file URLs keyed by format (ass, ...)';
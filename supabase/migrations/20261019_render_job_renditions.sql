@@ -0,0 +1,13 @@
+-- Multi-format renders: one job can produce several aspect ratios
+-- formats: requested aspect ratios (NULL = the project's own)
+-- renditions: one entry per output, e.g.
+--   [{ "aspectRatio": "vertical", "width": 1080, "height": 1920,
+--      "outputUrl": "...", "thumbnailUrl": "...", "sizeBytes": 123 }]
+
+ALTER TABLE render_jobs
+ADD COLUMN IF NOT EXISTS formats TEXT[],
+ADD COLUMN IF NOT EXISTS renditions JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN render_jobs.formats IS 'Requested output aspect ratios (landscape, vertical, square)';
+COMMENT ON COLUMN render_jobs.renditions IS 'Rendered outputs, one per aspect ratio';
@@ -0,0 +1,11 @@
+-- Smart reframing: cached region-of-interest path per video asset
+-- Computed by the render worker the first time the asset is cropped to a
+-- different aspect ratio, e.g.
+--   [{ "t": 0, "x": 0.42, "y": 0.38 }, { "t": 3.5, "x": 0.61, "y": 0.4 }]
+-- t is source time in seconds, x/y the normalized point to keep in frame
+
+ALTER TABLE media_assets
+ADD COLUMN IF NOT EXISTS reframe_path JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN media_assets.reframe_path IS 'Smoothed region-of-interest path used to crop for other aspect ratios';
@@ -0,0 +1,11 @@
+-- Loudness normalization report for each render
+-- loudness: EBU R128 figures measured by loudnorm, e.g.
+--   { "preset": "social", "targetLufs": -14,
+--     "input":  { "integratedLufs": -27.6, "truePeakDb": -4.5, "lra": 18.1, "thresholdLufs": -39.2 },
+--     "output": { "integratedLufs": -14.0, "truePeakDb": -1.2, "lra": 14.8, "thresholdLufs": -24.9 } }
+
+ALTER TABLE render_jobs
+ADD COLUMN IF NOT EXISTS loudness JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN render_jobs.loudness IS 'Measured loudness of the mix before and after normalization';
@@ -0,0 +1,14 @@
+-- Tempo analysis for library music, written by the worker
+-- bpm: estimated tempo
+-- beats: beat times in seconds from the start of the file, e.g. [0.52, 1.02, 1.51, ...]
+-- downbeats: the first beat of each bar (4/4), used to loop and trim on bar lines
+
+ALTER TABLE music
+ADD COLUMN IF NOT EXISTS bpm NUMERIC(6, 2),
+ADD COLUMN IF NOT EXISTS beats JSONB,
+ADD COLUMN IF NOT EXISTS downbeats JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN music.bpm IS 'Estimated tempo (beats per minute)';
+COMMENT ON COLUMN music.beats IS 'Beat times in seconds';
+COMMENT ON COLUMN music.downbeats IS 'Bar start times in seconds';
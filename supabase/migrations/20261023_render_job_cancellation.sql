@@ -0,0 +1,12 @@
+-- Render cancellation
+-- A queued or running job can be cancelled from the app. The app refunds the
+-- job's credits (credit_transactions type 'refund', reference_id = job id)
+-- and the worker stops FFmpeg when it sees the status change.
+
+ALTER TYPE render_job_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+ALTER TABLE render_jobs
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+-- Add comment for documentation
+COMMENT ON COLUMN render_jobs.cancelled_at IS 'When the user cancelled the job; credits were refunded at that time';
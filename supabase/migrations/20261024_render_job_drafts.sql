@@ -0,0 +1,16 @@
+-- Draft preview renders
+-- draft_height: short side of a draft render (360 or 480); NULL = full render.
+-- Drafts are free but rate-limited per user, render with a DRAFT watermark,
+-- upload under renders/drafts/ (expired by a bucket lifecycle rule) and
+-- don't change the project's output or status.
+
+ALTER TABLE render_jobs
+ADD COLUMN IF NOT EXISTS draft_height INTEGER CHECK (draft_height IN (360, 480));
+
+-- Rate limiting counts a user's recent drafts
+CREATE INDEX IF NOT EXISTS idx_render_jobs_drafts
+ON render_jobs (created_at)
+WHERE draft_height IS NOT NULL;
+
+-- Add comment for documentation
+COMMENT ON COLUMN render_jobs.draft_height IS 'Draft preview resolution (360 or 480), NULL for a full render';
@@ -0,0 +1,31 @@
+-- Render job leases, retries and checkpoints
+-- A worker claims a queued job by setting status 'running' with a lease
+-- (lease_owner, lease_expires_at) that it renews while rendering. Running
+-- jobs whose lease expired are requeued with backoff (next_attempt_at) or
+-- failed after the worker's attempt limit.
+-- checkpoint: how far the last attempt got, e.g.
+--   { "stage": "uploaded", "durationSec": 42.5, "loudness": null,
+--     "renditions": [...], "captionUrls": { "srt": "..." } }
+
+ALTER TABLE render_jobs
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS checkpoint JSONB;
+
+-- Stale lease scan and due-job polling
+CREATE INDEX IF NOT EXISTS idx_render_jobs_lease
+ON render_jobs (lease_expires_at)
+WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_render_jobs_next_attempt
+ON render_jobs (next_attempt_at)
+WHERE status = 'queued';
+
+-- Add comment for documentation
+COMMENT ON COLUMN render_jobs.attempts IS 'Times a worker has claimed the job';
+COMMENT ON COLUMN render_jobs.lease_owner IS 'Worker currently running the job';
+COMMENT ON COLUMN render_jobs.lease_expires_at IS 'The job is recovered as stale if its lease is not renewed by then';
+COMMENT ON COLUMN render_jobs.next_attempt_at IS 'A retried job is not claimed before this time';
+COMMENT ON COLUMN render_jobs.checkpoint IS 'Last completed stage (rendered/uploaded), so retries resume there';
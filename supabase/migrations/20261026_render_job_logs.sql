@@ -0,0 +1,43 @@
+-- Structured render logs
+-- The worker writes one row per event of a render attempt: stage timings,
+-- asset sizes, FFmpeg commands with their stderr tail, the worker's host,
+-- and why an attempt failed. render_jobs.logs keeps the short progress
+-- messages shown while rendering.
+-- data: details for the event, e.g.
+--   { "durationMs": 5120, "assets": [{ "key": "...", "sizeBytes": 1048576, "cached": true }] }
+--   { "args": ["-y", "-i", "..."], "stderrTail": "..." }
+
+CREATE TABLE IF NOT EXISTS render_job_logs (
+  id BIGSERIAL PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES render_jobs(id) ON DELETE CASCADE,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  level TEXT NOT NULL DEFAULT 'info' CHECK (level IN ('info', 'warn', 'error')),
+  stage TEXT NOT NULL,
+  message TEXT NOT NULL,
+  data JSONB,
+  worker_host TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_render_job_logs_job
+ON render_job_logs (job_id, id);
+
+ALTER TABLE render_job_logs ENABLE ROW LEVEL SECURITY;
+
+-- Users can read the logs of their own projects' jobs; only the worker
+-- (service role) writes them
+CREATE POLICY "Users can view own render job logs" ON render_job_logs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM render_jobs
+      JOIN projects ON projects.id = render_jobs.project_id
+      WHERE render_jobs.id = render_job_logs.job_id
+      AND projects.owner_id = auth.uid()
+    )
+  );
+
+-- Add comment for documentation
+COMMENT ON TABLE render_job_logs IS 'Structured events of each render attempt, for diagnosing failures';
+COMMENT ON COLUMN render_job_logs.attempt IS 'render_jobs.attempts at the time of the event';
+COMMENT ON COLUMN render_job_logs.stage IS 'setup, download, preflight, render, upload, finish or lease';
+COMMENT ON COLUMN render_job_logs.worker_host IS 'Host (and worker id) that wrote the event';
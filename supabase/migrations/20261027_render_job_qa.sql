@@ -0,0 +1,14 @@
+-- Post-render quality check
+-- qa_report: what the worker's check of the finished file found, e.g.
+--   { "durationSec": 41.9, "expectedDurationSec": 42,
+--     "loudness": { "integratedLufs": -14.1, "truePeakDb": -1.2, "lra": 6.3 },
+--     "issues": [{ "check": "black_frames", "startSec": 12, "endSec": 15.5,
+--                  "message": "Black picture from 0:12.0 to 0:15.5 - ..." }] }
+-- Issues are warnings; the render is published either way. Drafts aren't checked.
+
+ALTER TABLE render_jobs
+ADD COLUMN IF NOT EXISTS qa_report JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN render_jobs.qa_report IS 'Black frames, freezes, silence, loudness and duration check of the primary output';
+COMMENT ON COLUMN render_job_logs.stage IS 'setup, download, preflight, render, qa, upload, finish or lease';
@@ -0,0 +1,48 @@
+-- Project version history
+-- A snapshot of timeline_json is kept every time it is saved, rendered,
+-- written by the AI or restored, so no later write can lose an earlier cut.
+-- Saves made within a few minutes of the previous save are folded into it
+-- (see src/lib/versions.ts); the editor's undo history covers finer steps.
+-- source:
+--   save     - saved from the editor
+--   render   - the timeline a render job was started from (render_job_id)
+--   ai       - written by an AI generation
+--   restore  - an older version brought back
+--   initial  - what the project held before it had any versions
+
+CREATE TABLE IF NOT EXISTS project_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('save', 'render', 'ai', 'restore', 'initial')),
+  timeline_json JSONB NOT NULL,
+  render_job_id UUID REFERENCES render_jobs(id) ON DELETE SET NULL,
+  restored_from UUID REFERENCES project_versions(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_versions_project
+ON project_versions (project_id, version DESC);
+
+ALTER TABLE project_versions ENABLE ROW LEVEL SECURITY;
+
+-- Users can read the versions of their own projects; the API writes them
+-- (service role) after checking ownership
+CREATE POLICY "Users can view own project versions" ON project_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = project_versions.project_id
+      AND projects.owner_id = auth.uid()
+    )
+  );
+
+-- Add comment for documentation
+COMMENT ON TABLE project_versions IS 'Snapshots of projects.timeline_json, one per save, render, AI write or restore';
+COMMENT ON COLUMN project_versions.version IS 'Counts up from 1 per project';
+COMMENT ON COLUMN project_versions.source IS 'save, render, ai, restore or initial';
+COMMENT ON COLUMN project_versions.restored_from IS 'For restores: the version that was brought back';
+COMMENT ON COLUMN project_versions.updated_at IS 'Last save folded into this version';
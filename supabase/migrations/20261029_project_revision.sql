@@ -0,0 +1,29 @@
+-- Optimistic concurrency for project timelines
+-- revision counts up every time timeline_json changes, whoever writes it
+-- (the editor, AI routes, restores), so a save can say which revision it
+-- was made from: PATCH /api/projects/[id] with If-Match: "<revision>" only
+-- applies when the project is still at that revision and answers 409 with
+-- the current project otherwise.
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION bump_project_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.timeline_json IS DISTINCT FROM OLD.timeline_json THEN
+    NEW.revision = OLD.revision + 1;
+  ELSE
+    NEW.revision = OLD.revision;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS bump_projects_revision ON projects;
+CREATE TRIGGER bump_projects_revision
+  BEFORE UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION bump_project_revision();
+
+-- Add comment for documentation
+COMMENT ON COLUMN projects.revision IS 'Bumped by trigger whenever timeline_json changes; compared against If-Match on saves';
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { snapCutsToBeats, type SnappableScene } from "@/lib/timeline/beats";
+
+function durations(scenes: SnappableScene[]): number[] {
+  return scenes.map((s) => s.durationSec);
+}
+
+describe("snapCutsToBeats", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("moves each cut onto the nearest beat, keeping later cuts and the total in place", () => {
+    const scenes = [{ durationSec: 4 }, { durationSec: 4 }, { durationSec: 4 }];
+
+    const snapped = snapCutsToBeats(scenes, [0, 2.1, 4.25, 6.2, 8, 10.1, 12]);
+
+    expect(durations(snapped)).toEqual([4.25, 3.75, 4]);
+    expect(durations(scenes)).toEqual([4, 4, 4]);
+  });
+
+  it("snaps where the transition starts, not where the scene ends", () => {
+    const scenes = [{ durationSec: 4, transitionOut: "fade", transitionDuration: 0.5 }, { durationSec: 4 }];
+
+    expect(durations(snapCutsToBeats(scenes, [3.75]))).toEqual([4.25, 3.75]);
+  });
+
+  it("leaves cuts alone when the nearest beat is too far away", () => {
+    const scenes = [{ durationSec: 4 }, { durationSec: 4 }];
+
+    expect(durations(snapCutsToBeats(scenes, [5]))).toEqual([4, 4]);
+  });
+
+  it("never makes a scene too short to keep", () => {
+    const scenes = [{ durationSec: 2 }, { durationSec: 1.8 }, { durationSec: 4 }];
+
+    expect(durations(snapCutsToBeats(scenes, [2.5]))).toEqual([2, 1.8, 4]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { createEmptyTimeline, createTextOverlay, type Scene, type TimelineV1 } from "@/lib/timeline/v1";
+import { applyLintFixV1, lintStoredTimeline, lintTimeline, type LintRuleId } from "@/lib/timeline/lint";
+
+function scene(id: string, durationSec: number, overrides: Partial<Scene> = {}): Scene {
+  return {
+    id,
+    assetId: null,
+    clipId: `clip-${id}`,
+    clipUrl: `https://cdn.example.com/${id}.mp4`,
+    kind: "video",
+    inSec: 0,
+    outSec: durationSec,
+    durationSec,
+    cropMode: "cover",
+    ...overrides,
+  };
+}
+
+// 1920x1080 with 50px safe margins, two 3s scenes and nothing to complain about
+function timeline(overrides: Partial<TimelineV1> = {}): TimelineV1 {
+  return {
+    ...createEmptyTimeline({ id: "project-1", title: "Test", type: "promo", aspectRatio: "landscape" }),
+    scenes: [scene("a", 3), scene("b", 3)],
+    ...overrides,
+  };
+}
+
+function rules(data: TimelineV1): LintRuleId[] {
+  return lintTimeline(data).map((issue) => issue.rule);
+}
+
+// Lint, apply the first issue's fix as the editor does, and lint again
+function fixFirst(data: TimelineV1): { fixed: TimelineV1; fix: string | null } {
+  const [issue] = lintTimeline(data);
+  return { fixed: applyLintFixV1(data, issue), fix: issue.fix };
+}
+
+describe("lintTimeline", () => {
+  it("finds nothing wrong with a plain timeline", () => {
+    expect(lintTimeline(timeline())).toEqual([]);
+  });
+
+  it("moves text outside the safe margins inside them", () => {
+    const overlay = { ...createTextOverlay({ id: "t1", text: "Hello", startTime: 0 }), x: 1, y: 99 };
+    const data = timeline({ textOverlays: [overlay] });
+
+    expect(rules(data)).toEqual(["text_outside_safe_area"]);
+    const { fixed } = fixFirst(data);
+
+    expect(fixed.textOverlays?.[0]).toMatchObject({ x: 2.7, y: 95.3 });
+    expect(lintTimeline(fixed)).toEqual([]);
+  });
+
+  it("lengthens text shown too briefly to read, unless it lasts the whole video", () => {
+    const brief = createTextOverlay({ id: "t1", text: "Hello", startTime: 0, duration: 0.4 });
+    const whole = createTextOverlay({ id: "t2", text: "Always", startTime: 0, duration: 0 });
+    const data = timeline({ textOverlays: [brief, whole] });
+
+    expect(lintTimeline(data).map((issue) => issue.target.id)).toEqual(["t1"]);
+    const { fixed, fix } = fixFirst(data);
+
+    expect(fix).toBe("Show it for 1s");
+    expect(fixed.textOverlays?.[0].duration).toBe(1);
+  });
+
+  it("lengthens brief captions as far as the next one allows", () => {
+    const base = timeline();
+    const withCaptions = (segments: Array<{ start: number; end: number; text: string }>) =>
+      timeline({ global: { ...base.global, captions: { ...base.global.captions, enabled: true, segments } } });
+
+    const roomy = withCaptions([
+      { start: 0, end: 0.3, text: "Hi there" },
+      { start: 2, end: 3, text: "Bye now" },
+    ]);
+    const { fixed, fix } = fixFirst(roomy);
+    expect(fix).toBe("Show it for 1s");
+    expect(fixed.global.captions.segments?.[0].end).toBe(1);
+
+    const cramped = withCaptions([
+      { start: 0, end: 0.3, text: "Hi there" },
+      { start: 0.3, end: 1.5, text: "Bye now" },
+    ]);
+    expect(lintTimeline(cramped)[0]).toMatchObject({ rule: "caption_too_short", fix: null });
+  });
+
+  it("shortens a transition longer than the scene it joins, and reports it first", () => {
+    const data = timeline({
+      scenes: [scene("a", 3, { transitionOut: "fade", transitionDuration: 1.5 }), scene("b", 1)],
+      textOverlays: [createTextOverlay({ id: "t1", text: "Hello", startTime: 0, duration: 0.4 })],
+    });
+
+    expect(rules(data)).toEqual(["transition_longer_than_clip", "text_too_short"]);
+    const { fixed, fix } = fixFirst(data);
+
+    expect(fix).toBe("Shorten the transition to 0.5s");
+    expect(fixed.scenes[0].transitionDuration).toBe(0.5);
+    expect(rules(fixed)).toEqual(["text_too_short"]);
+  });
+
+  it("removes a sound effect added twice and staggers different ones", () => {
+    const sfx = (id: string, audioUrl: string) => ({ id, title: id, audioUrl, atTimeSec: 1, volume: 1 });
+
+    const duplicated = timeline({ soundEffects: [sfx("s1", "https://cdn.example.com/whoosh.mp3"), sfx("s2", "https://cdn.example.com/whoosh.mp3")] });
+    const removed = fixFirst(duplicated);
+    expect(removed.fix).toBe("Remove the duplicate");
+    expect(removed.fixed.soundEffects?.map((s) => s.id)).toEqual(["s1"]);
+
+    const stacked = timeline({ soundEffects: [sfx("s1", "https://cdn.example.com/whoosh.mp3"), sfx("s2", "https://cdn.example.com/ding.mp3")] });
+    const moved = fixFirst(stacked);
+    expect(moved.fix).toBe("Move it 0.3s later");
+    expect(moved.fixed.soundEffects?.map((s) => s.atTimeSec)).toEqual([1, 1.3]);
+    expect(lintTimeline(moved.fixed)).toEqual([]);
+  });
+
+  it("trims image overlays at the end of the video and removes ones that start after it", () => {
+    const overlay = (id: string, atTimeSec: number, durationSec: number) => ({
+      id,
+      title: id,
+      imageUrl: `https://cdn.example.com/${id}.png`,
+      atTimeSec,
+      durationSec,
+      x: 50,
+      y: 50,
+      scale: 1,
+      width: null,
+      height: null,
+    });
+    const data = timeline({ imageOverlays: [overlay("long", 5, 3), overlay("late", 7, 1)] });
+
+    expect(lintTimeline(data).map((issue) => issue.fix)).toEqual(["Trim it to the end of the video", "Remove it"]);
+    const { fixed } = fixFirst(data);
+    expect(fixed.imageOverlays?.map((o) => [o.id, o.durationSec])).toEqual([["long", 1], ["late", 1]]);
+
+    const [late] = lintTimeline(fixed);
+    expect(applyLintFixV1(fixed, late).imageOverlays?.map((o) => o.id)).toEqual(["long"]);
+  });
+});
+
+describe("lintStoredTimeline", () => {
+  it("skips timelines that don't match the schema", () => {
+    expect(lintStoredTimeline({ version: 1, scenes: "nope" })).toBeNull();
+    expect(lintStoredTimeline(timeline())).toEqual([]);
+  });
+});
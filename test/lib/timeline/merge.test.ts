@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { mergeTimelines } from "@/lib/timeline/merge";
+
+interface Scene {
+  id: string;
+  durationSec: number;
+  clipId?: string;
+}
+
+interface Timeline {
+  scenes: Scene[];
+  textOverlays: Array<{ id: string; text: string }>;
+  global: { music: { volume: number; assetId: string | null } };
+}
+
+function timeline(overrides: Partial<Timeline> = {}): Timeline {
+  return {
+    scenes: [
+      { id: "s1", durationSec: 3 },
+      { id: "s2", durationSec: 4 },
+      { id: "s3", durationSec: 5 },
+    ],
+    textOverlays: [],
+    global: { music: { volume: 0.3, assetId: "m1" } },
+    ...overrides,
+  };
+}
+
+function withScene(base: Timeline, id: string, updates: Partial<Scene>): Timeline {
+  return { ...base, scenes: base.scenes.map((s) => (s.id === id ? { ...s, ...updates } : s)) };
+}
+
+describe("mergeTimelines", () => {
+  it("merges edits to different things without conflicts", () => {
+    const base = timeline();
+    const local = withScene(base, "s2", { durationSec: 2 });
+    const remote = { ...base, textOverlays: [{ id: "t1", text: "Hello" }] };
+
+    const { merged, conflicts } = mergeTimelines(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.scenes[1].durationSec).toBe(2);
+    expect(merged.textOverlays).toEqual([{ id: "t1", text: "Hello" }]);
+  });
+
+  it("merges different fields of the same scene", () => {
+    const base = timeline();
+    const local = withScene(base, "s2", { durationSec: 2 });
+    const remote = withScene(base, "s2", { clipId: "clip-b" });
+
+    const { merged, conflicts } = mergeTimelines(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.scenes[1]).toEqual({ id: "s2", durationSec: 2, clipId: "clip-b" });
+  });
+
+  it("takes the same change made on both sides once", () => {
+    const base = timeline();
+    const local = withScene(base, "s1", { durationSec: 6 });
+
+    const { merged, conflicts } = mergeTimelines(base, local, withScene(base, "s1", { durationSec: 6 }));
+
+    expect(conflicts).toEqual([]);
+    expect(merged).toEqual(local);
+  });
+
+  it("reports a field changed differently on both sides and keeps the local value", () => {
+    const base = timeline();
+    const local = withScene(base, "s2", { durationSec: 2 });
+    const remote = withScene(base, "s2", { durationSec: 6 });
+
+    const { merged, conflicts } = mergeTimelines(base, local, remote);
+
+    expect(conflicts).toEqual([
+      { path: "scenes[s2].durationSec", label: "scenes › s2 › durationSec", base: 4, local: 2, remote: 6 },
+    ]);
+    expect(merged.scenes[1].durationSec).toBe(2);
+  });
+
+  it("settles conflicts with the choices given", () => {
+    const base = timeline();
+    const local = { ...withScene(base, "s2", { durationSec: 2 }), global: { music: { volume: 0.5, assetId: "m1" } } };
+    const remote = { ...withScene(base, "s2", { durationSec: 6 }), global: { music: { volume: 0.1, assetId: "m1" } } };
+
+    const first = mergeTimelines(base, local, remote);
+    expect(first.conflicts.map((c) => c.path)).toEqual(["scenes[s2].durationSec", "global.music.volume"]);
+
+    const { merged, conflicts } = mergeTimelines(base, local, remote, {
+      "scenes[s2].durationSec": "remote",
+      "global.music.volume": "local",
+    });
+
+    expect(conflicts).toEqual([]);
+    expect(merged.scenes[1].durationSec).toBe(6);
+    expect(merged.global.music.volume).toBe(0.5);
+  });
+
+  it("drops an item removed on one side unless the other side edited it", () => {
+    const base = timeline();
+    const local = { ...base, scenes: base.scenes.filter((s) => s.id !== "s1") };
+    const remote = withScene({ ...base, scenes: base.scenes.filter((s) => s.id !== "s3") }, "s1", { durationSec: 1 });
+
+    const { merged, conflicts } = mergeTimelines(base, local, remote);
+
+    // s3 was removed remotely and untouched here: gone. s1 was removed here
+    // but edited remotely: a conflict, settled to the local removal.
+    expect(merged.scenes.map((s) => s.id)).toEqual(["s2"]);
+    expect(conflicts).toEqual([
+      {
+        path: "scenes[s1]",
+        label: "scenes › s1",
+        base: { id: "s1", durationSec: 3 },
+        local: undefined,
+        remote: { id: "s1", durationSec: 1 },
+      },
+    ]);
+
+    const resolved = mergeTimelines(base, local, remote, { "scenes[s1]": "remote" });
+    expect(resolved.merged.scenes.map((s) => s.id)).toEqual(["s1", "s2"]);
+  });
+
+  it("places items added on either side after the item they followed", () => {
+    const base = timeline();
+    const local = { ...base, scenes: [base.scenes[0], { id: "new-local", durationSec: 1 }, ...base.scenes.slice(1)] };
+    const remote = { ...base, scenes: [...base.scenes.slice(0, 2), { id: "new-remote", durationSec: 1 }, base.scenes[2]] };
+
+    const { merged, conflicts } = mergeTimelines(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.scenes.map((s) => s.id)).toEqual(["s1", "new-local", "s2", "new-remote", "s3"]);
+  });
+
+  it("keeps one side's reordering along with the other side's edits", () => {
+    const base = timeline();
+    const local = withScene(base, "s1", { durationSec: 9 });
+    const remote = { ...base, scenes: [base.scenes[2], base.scenes[0], base.scenes[1]] };
+
+    const { merged, conflicts } = mergeTimelines(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.scenes).toEqual([
+      { id: "s3", durationSec: 5 },
+      { id: "s1", durationSec: 9 },
+      { id: "s2", durationSec: 4 },
+    ]);
+  });
+});
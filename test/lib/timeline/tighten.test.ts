@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { CaptionWord, Transcript } from "@/lib/timeline/v1";
+import { compileTranscript, createTranscript } from "@/lib/timeline/transcript";
+import { resolveTightenOptions, tightenTranscript } from "@/lib/timeline/tighten";
+
+const options = resolveTightenOptions({ minPauseSec: 0.6, paddingSec: 0.1, fillerWords: ["um", "you know"] });
+
+function transcriptOf(words: Array<[string, number, number]>, durationSec = 7): Transcript {
+  const sourceWords: CaptionWord[] = words.map(([word, start, end]) => ({ word, start, end }));
+  return createTranscript([{ assetId: "a", url: "https://cdn.example.com/a.mp4", durationSec, words: sourceWords }]);
+}
+
+function deletedWords(transcript: Transcript): string[] {
+  return transcript.paragraphs.flatMap((p) => p.words).filter((w) => w.deleted).map((w) => w.word);
+}
+
+describe("tightenTranscript", () => {
+  it("cuts filler words and phrases regardless of case and punctuation", () => {
+    const transcript = transcriptOf([
+      ["Um,", 0.5, 0.7],
+      ["so", 0.8, 1.0],
+      ["you", 1.1, 1.2],
+      ["know,", 1.3, 1.5],
+      ["it", 1.6, 1.7],
+      ["works.", 1.8, 2.2],
+    ]);
+
+    const { transcript: tightened, report } = tightenTranscript(transcript, { a: null }, options);
+
+    expect(deletedWords(tightened)).toEqual(["Um,", "you", "know,"]);
+    expect(report.fillerWords.count).toBe(2);
+    expect(report.fillerWords.words).toEqual({ um: 1, "you know": 1 });
+  });
+
+  it("leaves a word alone when it only starts a filler phrase", () => {
+    const transcript = transcriptOf([
+      ["you", 0.5, 0.7],
+      ["see.", 0.8, 1.0],
+    ]);
+
+    const { transcript: tightened, report } = tightenTranscript(transcript, { a: null }, options);
+
+    expect(deletedWords(tightened)).toEqual([]);
+    expect(report.fillerWords.count).toBe(0);
+  });
+
+  it("keeps words that were already cut out of the filler count", () => {
+    const transcript = transcriptOf([
+      ["Hello", 0.5, 1.0],
+      ["um", 1.2, 1.5],
+      ["world.", 1.7, 2.2],
+    ]);
+    transcript.paragraphs[0].words[1].deleted = true;
+
+    const { transcript: tightened, report } = tightenTranscript(transcript, { a: null }, options);
+
+    expect(deletedWords(tightened)).toEqual(["um"]);
+    expect(report.fillerWords.count).toBe(0);
+  });
+
+  it("cuts pauses between kept words, leaving padding on both sides", () => {
+    const transcript = transcriptOf([
+      ["Hello", 0.5, 1.0],
+      ["there.", 1.3, 1.8],
+      ["Again", 4.0, 4.5],
+    ]);
+
+    const { transcript: tightened, report } = tightenTranscript(transcript, { a: null }, options);
+
+    // The 0.3s gap is kept, the 2.2s one is cut
+    expect(tightened.pauseCuts).toHaveLength(1);
+    expect(tightened.pauseCuts?.[0].start).toBeCloseTo(1.9);
+    expect(tightened.pauseCuts?.[0].end).toBeCloseTo(3.9);
+    expect(report.pauses.count).toBe(1);
+    expect(report.pauses.removedSec).toBeCloseTo(2.0);
+  });
+
+  it("only cuts the part of a gap that silencedetect found silent", () => {
+    const transcript = transcriptOf([
+      ["Hello.", 0.5, 1.0],
+      ["Again", 4.0, 4.5],
+    ]);
+
+    const { transcript: tightened } = tightenTranscript(transcript, { a: [{ start: 2.0, end: 3.0 }] }, options);
+
+    expect(tightened.pauseCuts).toHaveLength(1);
+    expect(tightened.pauseCuts?.[0].start).toBeCloseTo(2.1);
+    expect(tightened.pauseCuts?.[0].end).toBeCloseTo(2.9);
+  });
+
+  it("replaces earlier pause cuts", () => {
+    const transcript: Transcript = {
+      ...transcriptOf([
+        ["Hello", 0.5, 1.0],
+        ["there.", 1.3, 1.8],
+      ]),
+      pauseCuts: [{ assetId: "a", start: 1.05, end: 1.25 }],
+    };
+
+    const { transcript: tightened } = tightenTranscript(transcript, { a: null }, options);
+
+    expect(tightened.pauseCuts).toEqual([]);
+  });
+
+  it("re-times captions onto the tightened timeline", () => {
+    const transcript = transcriptOf([
+      ["Hello", 0.5, 1.0],
+      ["um", 1.2, 1.5],
+      ["world.", 1.7, 2.2],
+      ["Again", 5.0, 5.5],
+    ]);
+
+    const { transcript: tightened, report } = tightenTranscript(transcript, { a: null }, options);
+    const compiled = compileTranscript(tightened);
+
+    // Kept speech: 0.4-1.1, 1.6-2.3 and 4.9-5.6 of the source, back to back
+    expect(compiled.scenes.map((s) => [s.inSec, s.outSec])).toEqual([
+      [expect.closeTo(0.4), expect.closeTo(1.1)],
+      [expect.closeTo(1.6), expect.closeTo(2.3)],
+      [expect.closeTo(4.9), expect.closeTo(5.6)],
+    ]);
+    expect(compiled.captions.map((c) => c.text)).toEqual(["Hello", "world.", "Again"]);
+    expect(compiled.captions.map((c) => [c.start, c.end])).toEqual([
+      [expect.closeTo(0.1), expect.closeTo(0.6)],
+      [expect.closeTo(0.8), expect.closeTo(1.3)],
+      [expect.closeTo(1.5), expect.closeTo(2.0)],
+    ]);
+
+    expect(report.originalSec).toBe(7);
+    expect(report.tightenedSec).toBeCloseTo(2.1);
+    expect(report.removedSec).toBeCloseTo(4.9);
+    expect(report.trimmedSec).toBeCloseTo(1.8);
+    expect(report.pauses.removedSec).toBeCloseTo(2.6);
+    expect(report.fillerWords.removedSec).toBeCloseTo(0.5);
+  });
+});
+
+describe("resolveTightenOptions", () => {
+  it("fills in defaults and keeps numbers in range", () => {
+    const resolved = resolveTightenOptions({ minPauseSec: 0, paddingSec: 2, silenceThresholdDb: 10 });
+
+    expect(resolved.minPauseSec).toBe(0.2);
+    expect(resolved.paddingSec).toBe(0.5);
+    expect(resolved.silenceThresholdDb).toBe(0);
+    expect(resolved.fillerWords).toContain("um");
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { createEmptyTimeline, type Transcript, type TranscriptCutaway } from "@/lib/timeline/v1";
+import type { StoredTimelineV1 } from "@/lib/timeline/stored";
+import {
+  applyTranscript,
+  compileTranscript,
+  createTranscript,
+  moveParagraph,
+  setWordsDeleted,
+} from "@/lib/timeline/transcript";
+
+// One 6s source: "Hello there." then, after a long pause, "Second part here."
+function transcript(cutaways: TranscriptCutaway[] = []): Transcript {
+  return createTranscript(
+    [
+      {
+        assetId: "a",
+        url: "https://cdn.example.com/a.mp4",
+        durationSec: 6,
+        words: [
+          { word: "Hello", start: 0.5, end: 0.9 },
+          { word: "there.", start: 1.0, end: 1.4 },
+          { word: "Second", start: 3.0, end: 3.4 },
+          { word: "part", start: 3.5, end: 3.9 },
+          { word: "here.", start: 4.0, end: 4.4 },
+        ],
+      },
+    ],
+    cutaways
+  );
+}
+
+const cutaway: TranscriptCutaway = {
+  id: "c1",
+  assetId: "a",
+  start: 3.0,
+  end: 4.0,
+  clipId: "broll-1",
+  clipUrl: "https://cdn.example.com/broll-1.mp4",
+  inSec: 10,
+  description: "City at night",
+};
+
+function ranges(scenes: Array<{ inSec: number; outSec: number }>) {
+  return scenes.map((s) => [s.inSec, s.outSec].map((sec) => Math.round(sec * 100) / 100));
+}
+
+function captionTimes(captions: Array<{ start: number; end: number; text: string }>) {
+  return captions.map((c) => [c.text, Math.round(c.start * 100) / 100, Math.round(c.end * 100) / 100]);
+}
+
+describe("createTranscript", () => {
+  it("starts a paragraph after a sentence followed by a long pause", () => {
+    const { paragraphs } = transcript();
+
+    expect(paragraphs.map((p) => p.words.map((w) => w.word).join(" "))).toEqual(["Hello there.", "Second part here."]);
+  });
+});
+
+describe("compileTranscript", () => {
+  it("plays an unedited transcript as one padded speaker scene", () => {
+    const compiled = compileTranscript(transcript());
+
+    expect(ranges(compiled.scenes)).toEqual([[0.38, 4.52]]);
+    expect(compiled.scenes[0]).toMatchObject({ assetId: "a", isTalkingHead: true, transitionOut: "none" });
+    expect(compiled.durationSec).toBeCloseTo(4.14);
+    expect(compiled.removedSec).toBeCloseTo(1.86);
+  });
+
+  it("cuts deleted words and re-times the captions after the cut", () => {
+    const edited = setWordsDeleted(transcript(), ["w0-1"], true);
+
+    const compiled = compileTranscript(edited, { wordsPerBlock: 2 });
+
+    // The cut runs from the end of "Hello" to just before "Second"
+    expect(ranges(compiled.scenes)).toEqual([
+      [0.38, 1.0],
+      [2.88, 4.52],
+    ]);
+    expect(captionTimes(compiled.captions)).toEqual([
+      ["Hello", 0.12, 0.52],
+      ["Second part", 0.74, 1.64],
+      ["here.", 1.74, 2.14],
+    ]);
+    expect(compiled.durationSec).toBeCloseTo(2.26);
+  });
+
+  it("brings deleted words back", () => {
+    const restored = setWordsDeleted(setWordsDeleted(transcript(), ["w0-1"], true), ["w0-1"], false);
+
+    expect(ranges(compileTranscript(restored).scenes)).toEqual([[0.38, 4.52]]);
+  });
+
+  it("moves the media with a moved paragraph", () => {
+    const compiled = compileTranscript(moveParagraph(transcript(), 1, 0));
+
+    expect(ranges(compiled.scenes)).toEqual([
+      [2.88, 4.52],
+      [0.38, 1.52],
+    ]);
+    expect(compiled.captions.map((c) => c.text)).toEqual(["Second part here.", "Hello there."]);
+  });
+
+  it("shows a cutaway over the speech it covers", () => {
+    const compiled = compileTranscript(transcript([cutaway]));
+
+    expect(ranges(compiled.scenes)).toEqual([
+      [0.38, 3.0],
+      [10, 11],
+      [4.0, 4.52],
+    ]);
+    expect(compiled.scenes[1]).toMatchObject({
+      isBroll: true,
+      clipId: "broll-1",
+      sourceAssetId: "a",
+      sourceAudioStart: 3.0,
+      sourceAudioEnd: 4.0,
+    });
+  });
+
+  it("stays on the speaker when the cut leaves too little of a cutaway", () => {
+    const edited = setWordsDeleted(transcript([cutaway]), ["w0-2", "w0-3"], true);
+
+    const compiled = compileTranscript(edited);
+
+    expect(compiled.scenes.some((s) => s.isBroll)).toBe(false);
+    expect(ranges(compiled.scenes)).toEqual([
+      [0.38, 1.52],
+      [3.9, 4.52],
+    ]);
+  });
+});
+
+describe("applyTranscript", () => {
+  it("replaces the scenes and captions and drops the uncut speaker audio", () => {
+    const base = createEmptyTimeline({ id: "project-1", title: "Test", type: "talking_head", aspectRatio: "vertical" });
+    const timeline: StoredTimelineV1 = {
+      ...base,
+      scenes: [{ id: "s1", assetId: "a", kind: "video", inSec: 0, outSec: 6, durationSec: 6, cropMode: "cover", isTalkingHead: true }],
+      global: { ...base.global, captions: { ...base.global.captions, enabled: true, wordsPerBlock: 2, startOffset: 1 } },
+      audioTracks: [{ id: "track-1", assetId: "a", type: "dialogue", startOffset: 0, volume: 1 }],
+    };
+    const edited = setWordsDeleted(transcript(), ["w0-1"], true);
+
+    const applied = applyTranscript(timeline, edited);
+
+    const compiled = compileTranscript(edited, { wordsPerBlock: 2 });
+    expect(applied.scenes).toEqual(compiled.scenes);
+    expect(applied.global.captions.segments).toEqual(compiled.captions);
+    expect(applied.global.captions.startOffset).toBe(0);
+    expect(applied.transcript).toBe(edited);
+    expect(applied.rendering?.isTalkingHead).toBe(true);
+    expect(applied.rendering?.totalDurationSec).toBeCloseTo(2.26);
+    expect(applied.audioTracks).toBeUndefined();
+  });
+});
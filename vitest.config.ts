@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the app's libraries (test/); the worker has its own
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: "@ai-videographer/timeline", replacement: fileURLToPath(new URL("./packages/timeline/src", import.meta.url)) },
+      { find: /^@\//, replacement: `${fileURLToPath(new URL("./src", import.meta.url))}/` },
+    ],
+  },
+  test: {
+    include: ["test/**/*.test.ts"],
+  },
+});
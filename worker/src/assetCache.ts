@@ -0,0 +1,301 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+import { config } from "./config";
+import { downloadFromUrl, linkOrCopy } from "./storage";
+
+// Persistent cache for downloaded assets
+//
+// Files are stored once under blobs/<sha256 of content>; index/<sha256 of
+// URL>.json records which blob a URL resolved to and the validators it came
+// with. A cached URL is revalidated with a conditional HEAD, or trusted for
+// config.assetCacheMaxAgeSec when the server sent no ETag or Last-Modified.
+// Filling an entry takes a lock file, so concurrent jobs (in this process or
+// another worker sharing the directory) download a URL once. Blobs are
+// evicted least recently used first once the cache outgrows its cap.
+
+interface IndexEntry {
+  url: string;
+  hash: string;
+  size: number;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+}
+
+// Per-job counters, reported in the job log
+export interface AssetCacheStats {
+  hits: number;
+  misses: number;
+  bytesReused: number;
+  bytesDownloaded: number;
+}
+
+const HEAD_TIMEOUT_MS = 10000;
+const LOCK_POLL_MS = 250;
+const LOCK_WAIT_MS = 10 * 60 * 1000;
+// A lock that hasn't been touched for this long was left by a crashed worker
+const STALE_LOCK_MS = 2 * 60 * 1000;
+const LOCK_HEARTBEAT_MS = 30 * 1000;
+
+export function emptyCacheStats(): AssetCacheStats {
+  return { hits: 0, misses: 0, bytesReused: 0, bytesDownloaded: 0 };
+}
+
+export function formatCacheStats(stats: AssetCacheStats): string {
+  const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+  return (
+    `Asset cache: ${stats.hits} hits (${mb(stats.bytesReused)} MB reused), ` +
+    `${stats.misses} misses (${mb(stats.bytesDownloaded)} MB downloaded)`
+  );
+}
+
+/**
+ * Put the file behind a URL at localPath, from the cache when the cached
+ * copy is still current, downloading (and caching) it otherwise. Resolves
+ * to the sha256 of the file's content.
+ */
+export async function fetchCachedAsset(url: string, localPath: string, stats?: AssetCacheStats): Promise<string> {
+  fs.mkdirSync(path.dirname(localPath), { recursive: true });
+  for (const dir of ["blobs", "index", "locks", "tmp"]) {
+    fs.mkdirSync(path.join(config.assetCacheDir, dir), { recursive: true });
+  }
+
+  const key = sha256(url);
+  const cached = readEntry(key);
+  if (cached && (await isCurrent(cached)) && placeEntry(cached, localPath, stats)) {
+    return cached.hash;
+  }
+
+  const waitStarted = Date.now();
+  let placed = null as IndexEntry | null; // Set inside the lock
+  const locked = await withLock(key, async () => {
+    // Someone else may have filled the entry while we waited for the lock
+    const filled = readEntry(key);
+    if (filled && filled.fetchedAt >= waitStarted && placeEntry(filled, localPath, stats)) {
+      placed = filled;
+      return;
+    }
+    const entry = await fill(key, url);
+    placed = placeEntry(entry, localPath) ? entry : null;
+    if (placed && stats) {
+      stats.misses++;
+      stats.bytesDownloaded += entry.size;
+    }
+  });
+
+  if (locked && placed) return placed.hash;
+
+  // Lock timed out, or the blob was evicted straight away (bigger than the cap)
+  console.warn(`[Cache] Could not use the cache for ${url.substring(0, 80)}, downloading uncached`);
+  await downloadFromUrl(url, localPath);
+  if (stats) {
+    stats.misses++;
+    stats.bytesDownloaded += fs.statSync(localPath).size;
+  }
+  return hashFile(localPath);
+}
+
+async function fill(key: string, url: string): Promise<IndexEntry> {
+  const tempPath = path.join(config.assetCacheDir, "tmp", `${key}.${process.pid}.${crypto.randomUUID()}`);
+  try {
+    const info = await downloadFromUrl(url, tempPath);
+    const hash = await hashFile(tempPath);
+    const size = fs.statSync(tempPath).size;
+
+    const blob = blobPath(hash);
+    if (fs.existsSync(blob)) {
+      fs.rmSync(tempPath, { force: true });
+    } else {
+      fs.renameSync(tempPath, blob);
+    }
+
+    const entry: IndexEntry = { url, hash, size, ...info, fetchedAt: Date.now() };
+    writeAtomic(indexPath(key), JSON.stringify(entry));
+    pruneAssetCache();
+    return entry;
+  } finally {
+    fs.rmSync(tempPath, { force: true });
+  }
+}
+
+/**
+ * Place the entry's blob at localPath. False if it was evicted meanwhile.
+ */
+function placeEntry(entry: IndexEntry, localPath: string, stats?: AssetCacheStats): boolean {
+  const blob = blobPath(entry.hash);
+  try {
+    // Mark it recently used for eviction
+    fs.utimesSync(blob, new Date(), new Date());
+    fs.rmSync(localPath, { force: true });
+    linkOrCopy(blob, localPath);
+  } catch {
+    return false;
+  }
+  if (stats) {
+    stats.hits++;
+    stats.bytesReused += entry.size;
+  }
+  return true;
+}
+
+function readEntry(key: string): IndexEntry | null {
+  try {
+    const entry = JSON.parse(fs.readFileSync(indexPath(key), "utf8")) as IndexEntry;
+    return fs.existsSync(blobPath(entry.hash)) ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the server still has what the entry was downloaded as
+ */
+async function isCurrent(entry: IndexEntry): Promise<boolean> {
+  if (!entry.etag && !entry.lastModified) {
+    return Date.now() - entry.fetchedAt < config.assetCacheMaxAgeSec * 1000;
+  }
+
+  const headers: Record<string, string> = {};
+  if (entry.etag) headers["If-None-Match"] = entry.etag;
+  if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+
+  try {
+    const response = await headRequest(entry.url, headers);
+    if (response.status === 304) return true;
+    if (response.status !== 200) return false;
+    // Some servers ignore conditional headers and just answer 200
+    return entry.etag ? response.etag === entry.etag : response.lastModified === entry.lastModified;
+  } catch (error) {
+    console.warn(`[Cache] Could not revalidate ${entry.url.substring(0, 80)}:`, error);
+    return false;
+  }
+}
+
+function headRequest(
+  url: string,
+  headers: Record<string, string>,
+  redirects = 0
+): Promise<{ status: number; etag?: string; lastModified?: string }> {
+  return new Promise((resolve, reject) => {
+    const protocol = url.startsWith("https") ? https : http;
+    const request = protocol.request(url, { method: "HEAD", headers, timeout: HEAD_TIMEOUT_MS }, (response) => {
+      response.resume();
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      if ([301, 302, 303, 307, 308].includes(status) && location && redirects < 5) {
+        resolve(headRequest(new URL(location, url).toString(), headers, redirects + 1));
+        return;
+      }
+      resolve({ status, etag: response.headers.etag, lastModified: response.headers["last-modified"] });
+    });
+    request.on("timeout", () => request.destroy(new Error("HEAD request timed out")));
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+/**
+ * Run fn holding the entry's lock file. Resolves false, without running fn,
+ * when the lock can't be had within LOCK_WAIT_MS.
+ */
+async function withLock(key: string, fn: () => Promise<void>): Promise<boolean> {
+  const lockPath = path.join(config.assetCacheDir, "locks", `${key}.lock`);
+  const deadline = Date.now() + LOCK_WAIT_MS;
+
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: "wx" });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      if (Date.now() - lockTouchedAt(lockPath) > STALE_LOCK_MS) {
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) return false;
+      await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+    }
+  }
+
+  // Keep the lock fresh through long downloads
+  const heartbeat = setInterval(() => {
+    try {
+      fs.utimesSync(lockPath, new Date(), new Date());
+    } catch {
+      // Lock was broken by someone else; the fill still completes safely
+    }
+  }, LOCK_HEARTBEAT_MS);
+
+  try {
+    await fn();
+    return true;
+  } finally {
+    clearInterval(heartbeat);
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+function lockTouchedAt(lockPath: string): number {
+  try {
+    return fs.statSync(lockPath).mtimeMs;
+  } catch {
+    return 0; // Released in the meantime
+  }
+}
+
+/**
+ * Evict least recently used blobs until the cache fits config.assetCacheMaxBytes.
+ * Index entries for evicted blobs read as misses.
+ */
+function pruneAssetCache(): void {
+  try {
+    const dir = path.join(config.assetCacheDir, "blobs");
+    const blobs = fs
+      .readdirSync(dir)
+      .map((name) => {
+        const stats = fs.statSync(path.join(dir, name));
+        return { filePath: path.join(dir, name), size: stats.size, usedAt: stats.mtimeMs };
+      })
+      .sort((a, b) => a.usedAt - b.usedAt);
+
+    let total = blobs.reduce((sum, blob) => sum + blob.size, 0);
+    for (const blob of blobs) {
+      if (total <= config.assetCacheMaxBytes) break;
+      fs.rmSync(blob.filePath, { force: true });
+      total -= blob.size;
+    }
+  } catch (error) {
+    console.warn("[Cache] Asset cache cleanup failed:", error);
+  }
+}
+
+function blobPath(hash: string): string {
+  return path.join(config.assetCacheDir, "blobs", hash);
+}
+
+function indexPath(key: string): string {
+  return path.join(config.assetCacheDir, "index", `${key}.json`);
+}
+
+function writeAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, content, "utf8");
+  fs.renameSync(tempPath, filePath);
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
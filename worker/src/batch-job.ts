@@ -5,6 +5,11 @@
  * It receives projectId and renderJobId from environment variables,
  * performs the render, and exits.
  * 
+ * Nothing else picks a Batch job back up (retries and stale job recovery
+ * only run in the polling worker, index.ts), so a transient failure is
+ * retried here: the container waits out the backoff and claims the job
+ * again. A job it can't claim exits non-zero, for Batch's retry strategy.
+ * 
  * Environment variables (from container overrides via Batch):
  * - JOB_ID: The render job ID (UUID from render_jobs table)
  * - PROJECT_ID: The project ID (UUID from projects table)
@@ -20,8 +25,7 @@
  */
 
 import "dotenv/config";
-import { renderProject } from "./render/renderProject";
-import { updateJobStatus, updateJobProgress } from "./db";
+import { renderProject, RenderOutcome } from "./render/renderProject";
 
 // Progress checkpoints for granular updates
 const PROGRESS_CHECKPOINTS = {
@@ -38,6 +42,8 @@ const PROGRESS_CHECKPOINTS = {
   COMPLETE: 100,
 } as const;
 
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 async function main() {
   const jobId = process.env.JOB_ID;
   const projectId = process.env.PROJECT_ID;
@@ -63,24 +69,42 @@ async function main() {
 
   try {
     // Checkpoint: Starting
+    // renderProject claims the job (queued -> running) and reports its
+    // progress itself, as the job's lease holder
     console.log(`[Batch] Checkpoint: STARTING (${PROGRESS_CHECKPOINTS.STARTING}%)`);
-    await updateJobStatus(jobId, "running");
-    await updateJobProgress(jobId, PROGRESS_CHECKPOINTS.STARTING, "Starting render in AWS Batch...");
-
-    // Checkpoint: Fetching project
-    console.log(`[Batch] Checkpoint: FETCHING_PROJECT (${PROGRESS_CHECKPOINTS.FETCHING_PROJECT}%)`);
-    await updateJobProgress(jobId, PROGRESS_CHECKPOINTS.FETCHING_PROJECT, "Fetching project data...");
 
     // Run the render with progress callback
     let lastReportedProgress = 0;
-    await renderProject(jobId, projectId, (progress) => {
-      // Only log when progress changes by at least 5%
-      const rounded = Math.round(progress / 5) * 5;
-      if (rounded !== lastReportedProgress) {
-        lastReportedProgress = rounded;
-        console.log(`[Batch] Render progress: ${rounded}%`);
-      }
-    });
+    const render = () =>
+      renderProject(jobId, projectId, (progress) => {
+        // Only log when progress changes by at least 5%
+        const rounded = Math.round(progress / 5) * 5;
+        if (rounded !== lastReportedProgress) {
+          lastReportedProgress = rounded;
+          console.log(`[Batch] Render progress: ${rounded}%`);
+        }
+      });
+
+    let outcome: RenderOutcome = await render();
+    while (outcome.status === "retrying") {
+      // Claimable once the backoff is over (renderProject fails the job
+      // once it runs out of attempts)
+      console.log(`[Batch] Attempt failed, retrying in ${outcome.retryInSec}s`);
+      await sleep((outcome.retryInSec + 1) * 1000);
+      outcome = await render();
+    }
+
+    if (outcome.status === "unclaimed") {
+      throw new Error(`Could not claim render job ${jobId} (taken, done, cancelled or not due yet)`);
+    }
+
+    if (outcome.status === "stopped") {
+      console.log("=".repeat(60));
+      console.log(`[Batch] Render stopped: the job was cancelled or taken over`);
+      console.log(`[Batch] Job ID: ${jobId}`);
+      console.log("=".repeat(60));
+      process.exit(0);
+    }
 
     // Checkpoint: Complete
     console.log(`[Batch] Checkpoint: COMPLETE (${PROGRESS_CHECKPOINTS.COMPLETE}%)`);
@@ -102,21 +126,12 @@ async function main() {
     console.error(`[Batch] Stack: ${errorStack}`);
     console.error("=".repeat(60));
     
-    // Update job status to failed
-    try {
-      await updateJobStatus(jobId, "failed", { error: errorMessage });
-      await updateJobProgress(jobId, lastReportedProgress || 0, `Failed: ${errorMessage}`);
-    } catch (updateError) {
-      console.error("[Batch] Failed to update job status:", updateError);
-    }
-    
+    // renderProject has already marked a failed render as failed (as the
+    // lease holder); a job it couldn't claim is left for the retry
     process.exit(1);
   }
 }
 
-// Track progress for error reporting
-let lastReportedProgress = 0;
-
 main().catch((error) => {
   console.error("[Batch] Unhandled error in main():", error);
   process.exit(1);
@@ -1,3 +1,5 @@
+import * as os from "os";
+
 // Worker configuration
 // Supports both local .env naming and AWS SSM Parameter Store naming
 export const config = {
@@ -18,6 +20,26 @@ export const config = {
 
   // Temp directory for rendering
   tempDir: process.env.TEMP_DIR || "/tmp/renders",
+
+  // Chunked rendering: timelines are split into chunks of about this many
+  // seconds, encoded in parallel and cached across jobs by content hash
+  renderChunkSec: Number(process.env.RENDER_CHUNK_SECONDS) || 30,
+  renderConcurrency: Number(process.env.RENDER_CONCURRENCY) || 2,
+  chunkCacheDir: process.env.CHUNK_CACHE_DIR || "/tmp/render-cache/chunks",
+  chunkCacheMaxBytes: (Number(process.env.CHUNK_CACHE_MAX_GB) || 5) * 1024 ** 3,
+
+  // Downloaded assets, shared across jobs (see assetCache.ts). Copies without
+  // an ETag or Last-Modified are trusted for assetCacheMaxAgeSec.
+  assetCacheDir: process.env.ASSET_CACHE_DIR || "/tmp/render-cache/assets",
+  assetCacheMaxBytes: (Number(process.env.ASSET_CACHE_MAX_GB) || 20) * 1024 ** 3,
+  assetCacheMaxAgeSec: Number(process.env.ASSET_CACHE_MAX_AGE_SECONDS) || 24 * 3600,
+
+  // Job leases and retries (see render/jobLease.ts). A job whose worker
+  // stops renewing its lease for jobLeaseSec is recovered by another worker.
+  workerId: process.env.WORKER_ID || `${os.hostname()}-${process.pid}`,
+  jobLeaseSec: Number(process.env.JOB_LEASE_SECONDS) || 120,
+  renderMaxAttempts: Number(process.env.RENDER_MAX_ATTEMPTS) || 3,
+  renderRetryDelaySec: Number(process.env.RENDER_RETRY_DELAY_SECONDS) || 30,
   
   // AWS Batch mode detection
   isBatchJob: !!process.env.AWS_BATCH_JOB_ID,
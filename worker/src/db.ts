@@ -1,5 +1,38 @@
 import { createClient } from "@supabase/supabase-js";
 import { config } from "./config";
+import type {
+  AspectRatio,
+  CropKeyframe,
+  LoudnessPreset,
+  MusicBeatGrid,
+  TimelineV1,
+  TimelineV2,
+} from "../../packages/timeline/src";
+
+// Timeline types live in the shared package; re-exported for the render code
+export type {
+  AnimatableProperty,
+  AnimationPreset,
+  AspectRatio,
+  CaptionSegment,
+  CaptionStyle,
+  CaptionWord,
+  CropKeyframe,
+  Ducking,
+  Easing,
+  FocalPoint,
+  GainKeyframe,
+  Keyframe,
+  KeyframeAnimation,
+  LoudnessPreset,
+  MusicBeatGrid,
+  Scene,
+  TextAnimation,
+  TextEffect,
+  TextOverlay,
+  TimelineV1,
+  VolumeEnvelope,
+} from "../../packages/timeline/src";
 
 // Supabase admin client (bypasses RLS)
 export const supabase = createClient(config.supabaseUrl, config.supabaseServiceKey, {
@@ -19,7 +52,7 @@ export interface Project {
   fps: number;
   resolution_w: number;
   resolution_h: number;
-  timeline_json: TimelineV1 | null;
+  timeline_json: TimelineV1 | TimelineV2 | null;
   output_url: string | null;
   thumbnail_url: string | null;
 }
@@ -32,6 +65,20 @@ export interface MediaAsset {
   kind: string;
   filename: string;
   duration_sec: number | null;
+  width: number | null;
+  height: number | null;
+  reframe_path: CropKeyframe[] | null; // Cached region-of-interest path (source time)
+}
+
+// Row from the public music library
+export interface MusicTrack {
+  id: string;
+  title: string;
+  audio_url: string;
+  duration_seconds: number;
+  bpm: number | null;
+  beats: number[] | null;
+  downbeats: number[] | null;
 }
 
 export interface RenderJob {
@@ -43,121 +90,109 @@ export interface RenderJob {
   error: string | null;
   output_url: string | null;
   thumbnail_url: string | null;
+  formats: AspectRatio[] | null;
+  renditions: Rendition[] | null;
+  loudness: LoudnessReport | null;
+  qa_report: QaReport | null;
+  draft_height: number | null; // 360 or 480 for a draft preview; null for a full render
+  attempts: number; // Claims so far, including the current one
+  lease_owner: string | null; // Worker holding the job while it runs
+  lease_expires_at: string | null;
+  next_attempt_at: string | null; // Retry backoff: not claimable before this
+  checkpoint: RenderCheckpoint | null;
 }
 
-// Text overlay type
-export interface TextOverlay {
-  id: string;
-  text: string;
-  x: number;
-  y: number;
-  startTime: number;
-  duration: number;
-  style: {
-    color: string;
-    fontSize: number;
-    fontFamily: string;
-    duration: number;
-  };
+// How far a job got, saved so a retry resumes there instead of starting over.
+// "rendered" points at files in the worker's work dir, so it only helps a
+// retry on the same host; "uploaded" holds everything needed to finish.
+export type RenderCheckpoint =
+  | {
+      stage: "rendered";
+      durationSec: number;
+      loudness: LoudnessReport | null;
+      qa: QaReport | null;
+      outputs: RenderedOutput[];
+      sidecars: RenderedSidecar[];
+    }
+  | {
+      stage: "uploaded";
+      durationSec: number;
+      loudness: LoudnessReport | null;
+      qa: QaReport | null;
+      renditions: Rendition[];
+      captionUrls: Record<string, string>;
+    };
+
+export interface RenderedOutput {
+  aspectRatio: AspectRatio;
+  width: number;
+  height: number;
+  path: string;
+  thumbnailPath: string | null;
 }
 
-// Timeline types (simplified for worker)
-export interface TimelineV1 {
-  version: number;
-  project: {
-    id: string;
-    title: string;
-    type: string;
-    aspectRatio: string;
-    resolution: { width: number; height: number };
-    fps: number;
-  };
-  scenes: Scene[];
-  textOverlays?: TextOverlay[];
-  global: {
-    music: { assetId: string | null; audioUrl?: string | null; volume: number };
-    voiceover: { assetId: string | null; volume: number; startOffset?: number };
-    captions: { 
-      enabled: boolean; 
-      burnIn: boolean;
-      font?: string;
-      wordsPerBlock?: number;
-      startOffset?: number;
-      segments?: Array<{ start: number; end: number; text: string }>;
-    };
-    brand: {
-      logoAssetId: string | null;
-      logoPosition: string;
-      logoSize: number;
-      colors: { primary: string; text: string };
-    };
-    export: { codec: string; bitrateMbps: number; crf?: number; audioKbps: number };
-  };
-  soundEffects?: Array<{
-    id: string;
-    title: string;
-    audioUrl: string;
-    atTimeSec: number;
-    volume: number;
-  }>;
-  imageOverlays?: Array<{
-    id: string;
-    title: string;
-    imageUrl: string;
-    atTimeSec: number;
-    durationSec: number;
-    x: number;
-    y: number;
-    scale: number;
-    width: number | null;
-    height: number | null;
-  }>;
-  rendering?: {
-    output: { url: string | null; thumbnailUrl: string | null; durationSec: number | null; sizeBytes: number | null };
-    voiceoverDurationSec?: number; // Store voiceover duration to prevent speech cutoff
-    totalDurationSec?: number;
-    introDurationSec?: number;
-    outroDurationSec?: number;
-    // Talking head specific
-    isTalkingHead?: boolean;
-    userAudioAssetIds?: string[]; // Asset IDs for user videos with audio
-  };
-  // Audio tracks for talking head videos
-  audioTracks?: Array<{
-    id: string;
-    assetId: string;
-    type: string;
-    startOffset: number;
-    volume: number;
-  }>;
+// Caption files uploaded next to the primary output
+export interface RenderedSidecar {
+  format: string; // File extension, and the key in caption_urls
+  path: string;
+  contentType: string;
 }
 
-export interface Scene {
-  id: string;
-  assetId: string | null; // For user assets (media_assets table)
-  clipId?: string; // For b-roll clips (clips table)
-  clipUrl?: string; // Direct URL to video file (for b-roll)
-  isUserAsset?: boolean;
-  isTalkingHead?: boolean; // Scene shows user speaking
-  isBroll?: boolean; // Scene is B-roll footage
-  kind: string;
-  inSec: number;
-  outSec: number;
-  durationSec: number;
-  cropMode: string;
-  overlays?: {
-    text?: string | null;
-    x?: number; // 0-100 percentage
-    y?: number; // 0-100 percentage
-    style?: {
-      color: string;
-      fontSize: number;
-      fontFamily: string;
-      duration: number;
-    };
-  };
-  transitionOut?: string | null;
-  transitionDuration?: number; // Duration of xfade transition in seconds
+// One row of render_job_logs (see render/renderLog.ts)
+export type JobLogLevel = "info" | "warn" | "error";
+
+export interface JobLogEntry {
+  job_id: string;
+  attempt: number;
+  level: JobLogLevel;
+  stage: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  worker_host: string;
+  created_at: string;
+}
+
+// One output of a render job, per requested aspect ratio
+export interface Rendition {
+  aspectRatio: AspectRatio;
+  width: number;
+  height: number;
+  outputUrl: string;
+  thumbnailUrl: string | null; // Drafts have none
+  sizeBytes: number;
+}
+
+// EBU R128 measurements, as reported by loudnorm
+export interface LoudnessStats {
+  integratedLufs: number;
+  truePeakDb: number;
+  lra: number; // Loudness range, LU
+  thresholdLufs: number;
+}
+
+export interface LoudnessReport {
+  preset: LoudnessPreset;
+  targetLufs: number | null; // null when normalization is off
+  input: LoudnessStats; // The mix before normalization
+  output: LoudnessStats;
+}
+
+// Automated check of a finished render (see render/qualityCheck.ts). Issues
+// are warnings: the render is published either way.
+export type QaCheck = "black_frames" | "freeze" | "silence" | "missing_audio" | "loudness" | "duration";
+
+export interface QaIssue {
+  check: QaCheck;
+  startSec: number | null; // Output time; null for whole-file issues
+  endSec: number | null;
+  message: string;
+}
+
+export interface QaReport {
+  durationSec: number | null; // As probed
+  expectedDurationSec: number; // End of the timeline's last video clip
+  loudness: { integratedLufs: number; truePeakDb: number; lra: number } | null; // ebur128; null without audio
+  issues: QaIssue[];
 }
 
 /**
@@ -200,13 +235,62 @@ export async function getAssets(assetIds: string[]): Promise<Map<string, MediaAs
 }
 
 /**
- * Update render job progress
+ * Cache a computed region-of-interest path on an asset
+ */
+export async function updateAssetReframePath(assetId: string, path: CropKeyframe[]): Promise<void> {
+  const { error } = await supabase
+    .from("media_assets")
+    .update({ reframe_path: path })
+    .eq("id", assetId);
+
+  if (error) {
+    console.error("Error saving reframe path:", error);
+  }
+}
+
+/**
+ * Fetch a music library track, or null when the id isn't one
+ * (music clips can also be the user's own audio assets)
+ */
+export async function getMusicTrack(musicId: string): Promise<MusicTrack | null> {
+  const { data, error } = await supabase
+    .from("music")
+    .select("*")
+    .eq("id", musicId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching music track:", error);
+    return null;
+  }
+
+  return data as MusicTrack | null;
+}
+
+/**
+ * Save tempo analysis on a music track
+ */
+export async function updateMusicBeats(musicId: string, grid: MusicBeatGrid): Promise<void> {
+  const { error } = await supabase
+    .from("music")
+    .update({ bpm: grid.bpm, beats: grid.beats, downbeats: grid.downbeats })
+    .eq("id", musicId);
+
+  if (error) {
+    console.error("Error saving music beats:", error);
+  }
+}
+
+/**
+ * Update render job progress. With owner, only while that worker holds
+ * the job's lease; false when it doesn't (nothing is written then).
  */
 export async function updateJobProgress(
   jobId: string,
   progress: number,
-  log?: string
-): Promise<void> {
+  log?: string,
+  owner?: string
+): Promise<boolean> {
   const updates: Record<string, unknown> = {
     progress,
     updated_at: new Date().toISOString(),
@@ -225,35 +309,52 @@ export async function updateJobProgress(
     updates.logs = logs;
   }
 
-  await supabase.from("render_jobs").update(updates).eq("id", jobId);
+  let query = supabase.from("render_jobs").update(updates).eq("id", jobId);
+  if (!owner) {
+    await query;
+    return true;
+  }
+  query = query.eq("lease_owner", owner);
+  const { data, error } = await query.select("id").maybeSingle();
+  if (error) {
+    // Like a failed heartbeat, a failed write isn't a lost lease
+    console.error("Error updating job progress:", error);
+    return true;
+  }
+  return !!data;
 }
 
 /**
- * Update render job status
+ * Finish a running render job as the worker holding its lease. False when
+ * it no longer holds it - the job was cancelled (and refunded), or
+ * recovered and taken over - and nothing is written.
  */
 export async function updateJobStatus(
   jobId: string,
-  status: "running" | "finished" | "failed",
+  owner: string,
+  status: "finished" | "failed",
   data?: {
     error?: string;
     outputUrl?: string;
     thumbnailUrl?: string;
     durationSec?: number;
     sizeBytes?: number;
+    captionUrls?: Record<string, string>;
+    renditions?: Rendition[];
+    loudness?: LoudnessReport;
+    qaReport?: QaReport;
   }
-): Promise<void> {
+): Promise<boolean> {
   const updates: Record<string, unknown> = {
     status,
+    lease_owner: null,
+    lease_expires_at: null,
+    finished_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
   };
 
-  if (status === "running") {
-    updates.started_at = new Date().toISOString();
-  } else if (status === "finished" || status === "failed") {
-    updates.finished_at = new Date().toISOString();
-    if (status === "finished") {
-      updates.progress = 100;
-    }
+  if (status === "finished") {
+    updates.progress = 100;
   }
 
   if (data?.error) updates.error = data.error;
@@ -261,8 +362,25 @@ export async function updateJobStatus(
   if (data?.thumbnailUrl) updates.thumbnail_url = data.thumbnailUrl;
   if (data?.durationSec) updates.duration_sec = data.durationSec;
   if (data?.sizeBytes) updates.size_bytes = data.sizeBytes;
+  if (data?.captionUrls) updates.caption_urls = data.captionUrls;
+  if (data?.renditions) updates.renditions = data.renditions;
+  if (data?.loudness) updates.loudness = data.loudness;
+  if (data?.qaReport) updates.qa_report = data.qaReport;
 
-  await supabase.from("render_jobs").update(updates).eq("id", jobId);
+  const { data: updated, error } = await supabase
+    .from("render_jobs")
+    .update(updates)
+    .eq("id", jobId)
+    .eq("status", "running")
+    .eq("lease_owner", owner)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating job status:", error);
+    throw new Error(`Failed to update render job ${jobId}: ${error.message}`);
+  }
+  return !!updated;
 }
 
 /**
@@ -290,13 +408,57 @@ export async function updateProjectOutput(
 }
 
 /**
- * Get queued render jobs from database (for polling when Redis is unavailable)
+ * Fetch a render job (for the options it was queued with)
  */
-export async function getQueuedJobs(limit: number = 1): Promise<{ id: string; project_id: string }[]> {
+export async function getRenderJob(jobId: string): Promise<RenderJob | null> {
   const { data, error } = await supabase
+    .from("render_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .single();
+
+  if (error) {
+    console.error("Error fetching render job:", error);
+    return null;
+  }
+
+  return data as RenderJob;
+}
+
+/**
+ * Current status of a render job (e.g. to notice a cancellation)
+ */
+export async function getJobStatus(jobId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("render_jobs")
+    .select("status")
+    .eq("id", jobId)
+    .single();
+
+  if (error) {
+    console.error("Error fetching render job status:", error);
+    return null;
+  }
+
+  return data?.status ?? null;
+}
+
+/**
+ * Get queued render jobs that are due (for polling when Redis is unavailable,
+ * and for retries, which only the poll picks up)
+ */
+export async function getQueuedJobs(
+  limit: number = 1,
+  retriesOnly = false
+): Promise<{ id: string; project_id: string }[]> {
+  let query = supabase
     .from("render_jobs")
     .select("id, project_id")
     .eq("status", "queued")
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`);
+  if (retriesOnly) query = query.gt("attempts", 0);
+
+  const { data, error } = await query
     .order("created_at", { ascending: true })
     .limit(limit);
 
@@ -308,3 +470,162 @@ export async function getQueuedJobs(limit: number = 1): Promise<{ id: string; pr
   return data || [];
 }
 
+/**
+ * Take a queued, due job for this worker: running, leased until
+ * leaseSec from now. Null when it isn't claimable or another worker won.
+ */
+export async function claimRenderJob(jobId: string, owner: string, leaseSec: number): Promise<RenderJob | null> {
+  const job = await getRenderJob(jobId);
+  if (!job || job.status !== "queued") return null;
+  if (job.next_attempt_at && new Date(job.next_attempt_at).getTime() > Date.now()) return null;
+
+  const now = new Date();
+  // Matching attempts makes the claim atomic: only one update can move it on
+  const { data, error } = await supabase
+    .from("render_jobs")
+    .update({
+      status: "running",
+      attempts: job.attempts + 1,
+      lease_owner: owner,
+      lease_expires_at: new Date(now.getTime() + leaseSec * 1000).toISOString(),
+      next_attempt_at: null,
+      started_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("status", "queued")
+    .eq("attempts", job.attempts)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error claiming render job:", error);
+    return null;
+  }
+
+  return data as RenderJob | null;
+}
+
+/**
+ * Extend a job's lease. False when this worker no longer holds it (the job
+ * was cancelled, or recovered as stale).
+ */
+export async function renewJobLease(jobId: string, owner: string, leaseSec: number): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("render_jobs")
+    .update({ lease_expires_at: new Date(Date.now() + leaseSec * 1000).toISOString() })
+    .eq("id", jobId)
+    .eq("status", "running")
+    .eq("lease_owner", owner)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    // A failed heartbeat isn't a lost lease; the next one may get through
+    console.error("Error renewing job lease:", error);
+    return true;
+  }
+
+  return !!data;
+}
+
+/**
+ * Give up a running job's lease: back in the queue, claimable after
+ * retryInSec, or failed when retryInSec is null. Only applies while the
+ * lease is still held by owner (or still expires at leaseExpiresAt, for
+ * stale jobs), so a job is released once. False if it didn't apply.
+ */
+export async function releaseRenderJob(
+  jobId: string,
+  holder: { owner: string } | { leaseExpiresAt: string | null },
+  retryInSec: number | null,
+  reason: string
+): Promise<boolean> {
+  const now = new Date();
+  const outcome =
+    retryInSec === null
+      ? { status: "failed", finished_at: now.toISOString() }
+      : { status: "queued", next_attempt_at: new Date(now.getTime() + retryInSec * 1000).toISOString() };
+
+  let query = supabase
+    .from("render_jobs")
+    .update({
+      ...outcome,
+      lease_owner: null,
+      lease_expires_at: null,
+      error: reason,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("status", "running");
+  if ("owner" in holder) {
+    query = query.eq("lease_owner", holder.owner);
+  } else if (holder.leaseExpiresAt) {
+    query = query.eq("lease_expires_at", holder.leaseExpiresAt);
+  } else {
+    query = query.is("lease_expires_at", null);
+  }
+
+  const { data, error } = await query.select("id").maybeSingle();
+  if (error) {
+    console.error("Error releasing render job:", error);
+    return false;
+  }
+  return !!data;
+}
+
+/**
+ * Save how far a job got (see RenderCheckpoint), as the worker holding its
+ * lease. False when it no longer holds it.
+ */
+export async function saveJobCheckpoint(jobId: string, owner: string, checkpoint: RenderCheckpoint): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("render_jobs")
+    .update({ checkpoint, updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("lease_owner", owner)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error saving job checkpoint:", error);
+    return true;
+  }
+  return !!data;
+}
+
+/**
+ * Running jobs whose worker stopped renewing the lease. Jobs from before
+ * leases existed count once they haven't been updated for legacyStaleSec.
+ */
+export async function getStaleJobs(legacyStaleSec: number): Promise<RenderJob[]> {
+  const now = new Date();
+  const legacyCutoff = new Date(now.getTime() - legacyStaleSec * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("render_jobs")
+    .select("*")
+    .eq("status", "running")
+    .or(
+      `lease_expires_at.lt.${now.toISOString()},` +
+        `and(lease_expires_at.is.null,updated_at.lt.${legacyCutoff})`
+    );
+
+  if (error) {
+    console.error("Error fetching stale jobs:", error);
+    return [];
+  }
+
+  return (data || []) as RenderJob[];
+}
+
+/**
+ * Append structured log entries for a job
+ */
+export async function insertJobLogs(entries: JobLogEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const { error } = await supabase.from("render_job_logs").insert(entries);
+
+  if (error) {
+    console.error("Error writing job logs:", error);
+  }
+}
@@ -4,7 +4,11 @@ import IORedis from "ioredis";
 import express, { Request, Response } from "express";
 import { renderProject } from "./render/renderProject";
 import { generateRenditions } from "./render/generateRenditions";
-import { getQueuedJobs, updateJobStatus } from "./db";
+import { analyzeMusicById } from "./render/musicBeats";
+import { remoteSources, validateMedia } from "./render/preflight";
+import { recoverStaleJobs } from "./render/jobLease";
+import { toTimelineV2 } from "./timeline/v2";
+import { getProject, getQueuedJobs } from "./db";
 
 const PORT = parseInt(process.env.PORT || "3001");
 const WORKER_SECRET = process.env.WORKER_SECRET || "";
@@ -121,21 +125,21 @@ async function processJob(jobId: string, projectId: string) {
   }
 }
 
-// Database polling for queued jobs
-async function pollDatabase() {
+// Database polling for queued jobs. With Redis up, new jobs arrive through
+// the queue and the poll only picks up retries, which are scheduled in the
+// database (see render/jobLease.ts).
+async function pollDatabase(retriesOnly = false) {
   if (isProcessing) return;
   
   try {
-    const jobs = await getQueuedJobs(1);
+    const jobs = await getQueuedJobs(1, retriesOnly);
     
     for (const job of jobs) {
       if (isProcessing) break;
       
       console.log(`[Poll] Found queued job: ${job.id}`);
       
-      // Mark as running before processing
-      await updateJobStatus(job.id, "running");
-      
+      // renderProject claims it, so another worker can't run it too
       await processJob(job.id, job.project_id);
     }
   } catch (error) {
@@ -148,14 +152,13 @@ function startPolling() {
   console.log(`Starting database polling every ${POLL_INTERVAL}ms`);
   
   setInterval(async () => {
-    // Only poll if Redis is not working
-    if (!redisConnected || !worker) {
-      await pollDatabase();
-    }
+    // Jobs whose worker died go back in the queue (or fail) first
+    await recoverStaleJobs().catch((error) => console.error("[Poll] Error recovering stale jobs:", error));
+    await pollDatabase(redisConnected && !!worker);
   }, POLL_INTERVAL);
   
   // Initial poll
-  setTimeout(pollDatabase, 5000);
+  setTimeout(() => pollDatabase(redisConnected && !!worker), 5000);
 }
 
 // HTTP server for direct calls
@@ -216,6 +219,60 @@ app.post("/generate-renditions", async (req: Request, res: Response) => {
   });
 });
 
+// Analyze music endpoint - tempo, beats and downbeats for a library track
+app.post("/analyze-music", async (req: Request, res: Response) => {
+  const authHeader = req.headers.authorization;
+  if (WORKER_SECRET && authHeader !== `Bearer ${WORKER_SECRET}`) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const { musicId } = req.body;
+
+  if (!musicId) {
+    return res.status(400).json({ error: "musicId required" });
+  }
+
+  console.log(`[Beats] Analyzing music track ${musicId}`);
+
+  // Process async - don't wait
+  analyzeMusicById(musicId)
+    .then((grid) => console.log(`[Beats] Completed for ${musicId}: ${grid.bpm} BPM`))
+    .catch((error) => console.error(`[Beats] Failed for ${musicId}:`, error));
+
+  res.json({ status: "accepted", musicId });
+});
+
+// Pre-flight endpoint - checks a project's media before the user spends a credit
+app.post("/preflight", async (req: Request, res: Response) => {
+  const authHeader = req.headers.authorization;
+  if (WORKER_SECRET && authHeader !== `Bearer ${WORKER_SECRET}`) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const { projectId } = req.body;
+
+  if (!projectId) {
+    return res.status(400).json({ error: "projectId required" });
+  }
+
+  try {
+    const project = await getProject(projectId);
+    if (!project?.timeline_json) {
+      return res.status(404).json({ error: "Project has no timeline" });
+    }
+
+    // Probes the files where they are stored; only headers are read
+    const timeline = toTimelineV2(project.timeline_json);
+    const report = await validateMedia(timeline, await remoteSources(timeline));
+    console.log(`[Preflight] Project ${projectId}: ${report.problems.length} problems`);
+
+    res.json(report);
+  } catch (error) {
+    console.error(`[Preflight] Failed for ${projectId}:`, error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Preflight failed" });
+  }
+});
+
 // Graceful shutdown
 async function shutdown() {
   console.log("Shutting down gracefully...");
@@ -0,0 +1,200 @@
+import { CaptionSegment, CaptionWord, CaptionStyle } from "../db";
+import { TimelineV2 } from "../timeline/v2";
+import { isPlayableSegment } from "./captionFiles";
+import { FrameLayout, frameLayout } from "./layout";
+
+// Caption segments -> Advanced SubStation Alpha (.ass) subtitles
+//
+// libass handles per-word timing (\kf), scale animation (\t) and colour
+// overrides, so word-level styles are expressed here instead of as
+// hundreds of drawtext filters. The same file is burned in by the
+// compiler and uploaded as a sidecar.
+
+// Key the generated .ass file is stored under in the local asset map
+export const CAPTIONS_ASS_KEY = "captions-ass";
+
+const DEFAULT_FONT = "Inter";
+const DEFAULT_HIGHLIGHT = "#00b4d8";
+const DEFAULT_TEXT = "#ffffff";
+
+/**
+ * Build a complete .ass document for the timeline's captions,
+ * sized for the given output frame
+ */
+export function buildAssSubtitles(
+  timeline: TimelineV2,
+  layout: FrameLayout = frameLayout(timeline)
+): string {
+  const { width, height, safe } = layout;
+  const captions = timeline.global.captions;
+  const colors = timeline.global.brand?.colors;
+  const style: CaptionStyle = captions.style || "static";
+
+  const highlight = toAssColor(colors?.primary || DEFAULT_HIGHLIGHT);
+  const text = toAssColor(colors?.text || DEFAULT_TEXT);
+  const font = captions.font || DEFAULT_FONT;
+
+  // Static captions keep the previous look: white text on a 70% black box.
+  // Word-level styles use a bolder outline so the highlight reads on any footage.
+  const isStatic = style === "static";
+  const fontSize = Math.round(height * (isStatic ? 0.045 : 0.055));
+  const marginL = Math.max(Math.round(width * 0.05), safe.left);
+  const marginR = Math.max(Math.round(width * 0.05), safe.right);
+  const marginV = Math.max(Math.round(height * 0.08), safe.bottom);
+
+  const styleLine = [
+    "Default",
+    font,
+    fontSize,
+    // Karaoke sweeps from SecondaryColour to PrimaryColour
+    style === "karaoke" ? highlight : text,
+    text,
+    isStatic ? "&H4D000000" : "&H00000000",
+    isStatic ? "&H4D000000" : "&H80000000",
+    -1, // Bold
+    0,
+    0,
+    0,
+    100,
+    100,
+    0,
+    0,
+    isStatic ? 3 : 1, // BorderStyle: 3 = opaque box, 1 = outline + shadow
+    isStatic ? 10 : Math.max(2, Math.round(fontSize * 0.08)),
+    isStatic ? 0 : 1,
+    2, // Alignment: bottom center
+    marginL,
+    marginR,
+    marginV,
+    1,
+  ].join(",");
+
+  const events: string[] = [];
+  for (const segment of (captions.segments || []).filter(isPlayableSegment)) {
+    const words = segmentWords(segment);
+    switch (style) {
+      case "karaoke":
+        events.push(dialogue(segment.start, segment.end, karaokeText(segment, words)));
+        break;
+      case "pop-in":
+      case "active-word":
+        words.forEach((_, i) => {
+          const start = i === 0 ? segment.start : words[i].start;
+          const end = i === words.length - 1 ? segment.end : words[i + 1].start;
+          if (end <= start) return;
+          const line =
+            style === "pop-in" ? popInText(words, i) : activeWordText(words, i, highlight);
+          events.push(dialogue(start, end, line));
+        });
+        break;
+      default:
+        events.push(dialogue(segment.start, segment.end, escapeAssText(segment.text)));
+    }
+  }
+
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    `Style: ${styleLine}`,
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...events,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Word timings for a segment. Older timelines have no words, so the
+ * segment duration is split evenly across its text.
+ */
+function segmentWords(segment: CaptionSegment): CaptionWord[] {
+  if (segment.words?.length) return segment.words;
+
+  const tokens = segment.text.split(/\s+/).filter(Boolean);
+  const step = (segment.end - segment.start) / Math.max(1, tokens.length);
+  return tokens.map((word, i) => ({
+    word,
+    start: segment.start + i * step,
+    end: segment.start + (i + 1) * step,
+  }));
+}
+
+// \kf durations are in centiseconds, relative to the event start
+function karaokeText(segment: CaptionSegment, words: CaptionWord[]): string {
+  let cursor = segment.start;
+  return words
+    .map((w) => {
+      const gap = Math.round((w.start - cursor) * 100);
+      const duration = Math.max(1, Math.round((w.end - Math.max(w.start, cursor)) * 100));
+      cursor = Math.max(cursor, w.end);
+      return `${gap > 0 ? `{\\k${gap}}` : ""}{\\kf${duration}}${escapeAssText(w.word)}`;
+    })
+    .join(" ");
+}
+
+// Earlier words stay visible, the current word scales up from 70%,
+// later words are laid out but transparent so the line doesn't shift
+function popInText(words: CaptionWord[], active: number): string {
+  return words
+    .map((w, i) => {
+      const word = escapeAssText(w.word);
+      if (i < active) return word;
+      if (i === active) return `{\\fscx70\\fscy70\\t(0,120,\\fscx100\\fscy100)}${word}{\\r}`;
+      return `{\\alpha&HFF&}${word}`;
+    })
+    .join(" ");
+}
+
+function activeWordText(words: CaptionWord[], active: number, color: string): string {
+  return words
+    .map((w, i) => {
+      const word = escapeAssText(w.word);
+      return i === active ? `{\\c${color}}${word}{\\r}` : word;
+    })
+    .join(" ");
+}
+
+function dialogue(start: number, end: number, text: string): string {
+  return `Dialogue: 0,${formatAssTime(start)},${formatAssTime(end)},Default,,0,0,0,,${text}`;
+}
+
+/**
+ * H:MM:SS.cc
+ */
+function formatAssTime(sec: number): string {
+  const totalCs = Math.max(0, Math.round(sec * 100));
+  const h = Math.floor(totalCs / 360000);
+  const m = Math.floor((totalCs % 360000) / 6000);
+  const s = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}.${String(cs).padStart(2, "0")}`;
+}
+
+/**
+ * #RRGGBB -> &H00BBGGRR
+ */
+function toAssColor(hex: string): string {
+  const clean = hex.replace("#", "");
+  const rgb = clean.length === 3 ? clean.split("").map((c) => c + c).join("") : clean.padEnd(6, "0");
+  const [r, g, b] = [rgb.slice(0, 2), rgb.slice(2, 4), rgb.slice(4, 6)];
+  return `&H00${b}${g}${r}`.toUpperCase();
+}
+
+/**
+ * Transcript text must not open override blocks or contain raw line breaks
+ */
+function escapeAssText(text: string): string {
+  return text
+    .replace(/\\/g, "/")
+    .replace(/\{/g, "(")
+    .replace(/\}/g, ")")
+    .replace(/\r?\n/g, "\\N");
+}
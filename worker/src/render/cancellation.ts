@@ -0,0 +1,60 @@
+import { getJobStatus } from "../db";
+
+// Render cancellation
+//
+// The app cancels a job by setting its status to "cancelled" (and refunds
+// its credits). The worker polls the status while it renders; when it flips,
+// the watch's signal aborts, which kills any FFmpeg spawned with it, and the
+// render stops at its next stage boundary.
+
+const POLL_INTERVAL_MS = parseInt(process.env.CANCEL_POLL_INTERVAL || "5000");
+
+export class RenderCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Render job ${jobId} was cancelled`);
+    this.name = "RenderCancelledError";
+  }
+}
+
+export interface CancellationWatch {
+  signal: AbortSignal;
+  // Throws RenderCancelledError once the job has been cancelled
+  throwIfCancelled(): void;
+  // Stop the render as if cancelled, e.g. when a write to the job finds
+  // this worker no longer holds it
+  abort(reason: Error): void;
+  stop(): void;
+}
+
+/**
+ * Start polling a job for cancellation. Call stop() when the render ends.
+ * The watch also fires when `also` aborts (e.g. the job's lease was lost).
+ */
+export function watchCancellation(jobId: string, also?: AbortSignal): CancellationWatch {
+  const controller = new AbortController();
+  also?.addEventListener("abort", () => controller.abort(also.reason), { once: true });
+
+  const timer = setInterval(async () => {
+    const status = await getJobStatus(jobId);
+    if (status === "cancelled" && !controller.signal.aborted) {
+      console.log(`[Render] Job ${jobId} was cancelled, stopping`);
+      controller.abort(new RenderCancelledError(jobId));
+    }
+  }, POLL_INTERVAL_MS);
+
+  return {
+    signal: controller.signal,
+    throwIfCancelled: () => controller.signal.throwIfAborted(),
+    abort: (reason) => {
+      if (!controller.signal.aborted) controller.abort(reason);
+    },
+    stop: () => clearInterval(timer),
+  };
+}
+
+/**
+ * Whether an error means the render was cancelled rather than failed
+ */
+export function isCancellation(error: unknown, signal?: AbortSignal): boolean {
+  return error instanceof RenderCancelledError || !!signal?.aborted;
+}
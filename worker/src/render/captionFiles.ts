@@ -0,0 +1,112 @@
+import { CaptionSegment } from "../db";
+
+// Caption segments -> plain sidecar formats (SRT, WebVTT, TTML)
+//
+// These carry the segment text only; word-level styling lives in the .ass
+// file (assCaptions.ts). The SRT is also the source for the optional
+// mov_text track muxed into the MP4.
+
+// Key the generated .srt file is stored under in the local asset map
+export const CAPTIONS_SRT_KEY = "captions-srt";
+
+export type CaptionFileFormat = "srt" | "vtt" | "ttml";
+
+export const CAPTION_FILE_TYPES: Record<CaptionFileFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  ttml: "application/ttml+xml",
+};
+
+/**
+ * Segments worth emitting: at least 100ms long and not before the start
+ */
+export function isPlayableSegment(segment: CaptionSegment): boolean {
+  return segment.end - segment.start >= 0.1 && segment.start >= 0;
+}
+
+export function buildCaptionFile(format: CaptionFileFormat, segments: CaptionSegment[]): string {
+  switch (format) {
+    case "srt":
+      return buildSrt(segments);
+    case "vtt":
+      return buildVtt(segments);
+    case "ttml":
+      return buildTtml(segments);
+  }
+}
+
+export function buildSrt(segments: CaptionSegment[]): string {
+  return segments
+    .filter(isPlayableSegment)
+    .map(
+      (seg, i) =>
+        `${i + 1}\n${formatTimestamp(seg.start, ",")} --> ${formatTimestamp(seg.end, ",")}\n${cueText(seg.text)}\n`
+    )
+    .join("\n");
+}
+
+export function buildVtt(segments: CaptionSegment[]): string {
+  const cues = segments
+    .filter(isPlayableSegment)
+    .map(
+      (seg) =>
+        `${formatTimestamp(seg.start, ".")} --> ${formatTimestamp(seg.end, ".")}\n${escapeVtt(cueText(seg.text))}\n`
+    );
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+export function buildTtml(segments: CaptionSegment[]): string {
+  const paragraphs = segments
+    .filter(isPlayableSegment)
+    .map(
+      (seg) =>
+        `      <p begin="${formatTimestamp(seg.start, ".")}" end="${formatTimestamp(seg.end, ".")}">` +
+        `${escapeXml(cueText(seg.text)).replace(/\n/g, "<br/>")}</p>`
+    );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="en">`,
+    `  <body>`,
+    `    <div>`,
+    ...paragraphs,
+    `    </div>`,
+    `  </body>`,
+    `</tt>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * HH:MM:SS<sep>mmm - SRT uses a comma, VTT and TTML a period
+ */
+function formatTimestamp(sec: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(sec * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)}${separator}${pad(ms, 3)}`;
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, "0");
+}
+
+// Blank lines end a cue in SRT and VTT
+function cueText(text: string): string {
+  return text.replace(/\r?\n\s*\n/g, "\n").trim();
+}
+
+// Cue text is HTML-like in WebVTT; escaping ">" also rules out a stray "-->"
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,110 @@
+import { TimelineV2, VideoClip, getVisibleVideoTracks, transitionOverlapSec } from "../timeline/v2";
+
+// Split a timeline into chunks that render independently
+//
+// A chunk is a run of whole base-track clips. Cuts fall only where one base
+// clip hands over to the next without a transition, and never inside an
+// upper-track clip or a caption segment, so every chunk can be compiled as
+// a timeline of its own. Text overlays and effects are drawn from
+// expressions in t, so they are shifted into the chunk instead.
+
+export interface RenderChunk {
+  index: number;
+  startSec: number; // Timeline time the chunk starts
+  endSec: number;
+}
+
+// Chunks shorter than this aren't worth an extra FFmpeg process
+const MIN_CHUNK_SEC = 5;
+
+/**
+ * Cut the timeline into chunks of roughly targetSec. Returns a single chunk
+ * when there is nowhere safe to cut.
+ */
+export function planChunks(timeline: TimelineV2, targetSec: number): RenderChunk[] {
+  const [baseTrack, ...overlayTracks] = getVisibleVideoTracks(timeline);
+  const clips = baseTrack ? sortByStart(baseTrack.clips) : [];
+  const totalSec = clips.reduce((end, clip) => Math.max(end, clip.startSec + clip.durationSec), 0);
+  if (clips.length < 2 || totalSec < 2 * Math.max(targetSec, MIN_CHUNK_SEC)) {
+    return [{ index: 0, startSec: 0, endSec: totalSec }];
+  }
+
+  // Spans a cut must not fall inside
+  const blocked = [
+    ...overlayTracks.flatMap((track) => track.clips.map((c) => [c.startSec, c.startSec + c.durationSec])),
+    ...(timeline.global.captions?.segments ?? []).map((s) => [s.start, s.end]),
+  ];
+  const isSafe = (timeSec: number) => !blocked.some(([start, end]) => timeSec > start + 0.001 && timeSec < end - 0.001);
+
+  const cuts: number[] = [];
+  let chunkStart = 0;
+  for (let i = 1; i < clips.length; i++) {
+    // Cut where the previous clip ends, so a gap before the next one opens
+    // the next chunk (the compiler fills leading gaps, not trailing ones)
+    const previous = clips[i - 1];
+    const cut = previous.startSec + previous.durationSec;
+    if (transitionOverlapSec(previous) > 0 || cut > clips[i].startSec + 0.001) continue;
+    if (cut - chunkStart < targetSec || totalSec - cut < MIN_CHUNK_SEC || !isSafe(cut)) continue;
+    cuts.push(cut);
+    chunkStart = cut;
+  }
+
+  const bounds = [0, ...cuts, totalSec];
+  return bounds.slice(0, -1).map((startSec, index) => ({ index, startSec, endSec: bounds[index + 1] }));
+}
+
+/**
+ * The part of the timeline's picture inside one chunk, moved to start at 0.
+ * Audio is left out (it is mixed over the whole timeline in one pass) and so
+ * are soft subtitles, which are muxed once at the end.
+ */
+export function sliceTimeline(timeline: TimelineV2, chunk: RenderChunk, isLast: boolean): TimelineV2 {
+  const { startSec } = chunk;
+  // The last chunk also takes whatever runs on past the base track
+  const endSec = isLast ? Infinity : chunk.endSec;
+  const inside = (clip: VideoClip) => clip.startSec >= startSec - 0.001 && clip.startSec < endSec - 0.001;
+  const captions = timeline.global.captions;
+
+  return {
+    ...timeline,
+    tracks: {
+      video: timeline.tracks.video.map((track) => ({
+        ...track,
+        clips: track.clips.filter(inside).map((clip) => ({ ...clip, startSec: clip.startSec - startSec })),
+      })),
+      audio: [],
+    },
+    // Overlays that started earlier get a negative start, which their
+    // enable= and keyframe expressions handle like any other time
+    textOverlays: timeline.textOverlays
+      ?.filter((o) => o.startTime < endSec && (o.duration <= 0 || o.startTime + o.duration > startSec))
+      .map((o) => ({ ...o, startTime: o.startTime - startSec })),
+    textEffects: timeline.textEffects
+      ?.filter((e) => e.atTimeSec < endSec && e.atTimeSec + e.durationSec > startSec)
+      .map((e) => ({ ...e, atTimeSec: e.atTimeSec - startSec })),
+    global: {
+      ...timeline.global,
+      captions: captions && {
+        ...captions,
+        softSubtitles: false,
+        segments: captions.segments
+          ?.filter((s) => s.start >= startSec - 0.001 && s.start < endSec)
+          .map((s) => ({
+            ...s,
+            start: s.start - startSec,
+            end: s.end - startSec,
+            words: s.words?.map((w) => ({ ...w, start: w.start - startSec, end: w.end - startSec })),
+          })),
+      },
+    },
+    // Only the last chunk freezes its final frame to cover a long voiceover
+    rendering: timeline.rendering && {
+      ...timeline.rendering,
+      voiceoverDurationSec: isLast ? Math.max(0, (timeline.rendering.voiceoverDurationSec || 0) - startSec) : 0,
+    },
+  };
+}
+
+function sortByStart<T extends { startSec: number }>(clips: T[]): T[] {
+  return [...clips].sort((a, b) => a.startSec - b.startSec);
+}
@@ -0,0 +1,269 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { TimelineV2 } from "../timeline/v2";
+import { hashFile } from "../assetCache";
+import { linkOrCopy } from "../storage";
+import { buildAssSubtitles, CAPTIONS_ASS_KEY } from "./assCaptions";
+import { CAPTIONS_SRT_KEY } from "./captionFiles";
+import { RenderChunk, sliceTimeline } from "./chunkPlan";
+import { compileTimeline } from "./compileTimeline";
+import { runFFmpeg } from "./ffmpeg";
+import { RenderGraph, chainsFeeding, graphToArgs, serializeChain } from "./filtergraph";
+import { FrameLayout } from "./layout";
+import { LoudnormMeasurement } from "./loudness";
+import { RenderLog } from "./renderLog";
+
+// Chunked rendering
+//
+// Each chunk of the picture (see chunkPlan.ts) is encoded by its own FFmpeg
+// process, a few at a time. The audio is mixed once over the whole timeline,
+// so nothing clicks at chunk edges, and the pieces are joined with the
+// concat demuxer without re-encoding. Encoded chunks are cached across jobs
+// under a hash of everything that went into them, so after a small edit
+// only the chunks it touched are rendered again.
+
+// Bump to invalidate every cached chunk (e.g. after an FFmpeg upgrade)
+const CHUNK_CACHE_VERSION = 1;
+
+// The whole timeline's audio, encoded once and muxed into every format
+export interface Mixdown {
+  path: string | null; // null when the timeline is silent
+  durationSec: number; // Planned output duration
+  stderr: string; // Carries loudnorm's report
+}
+
+export interface ChunkedRenderOptions {
+  timeline: TimelineV2;
+  localAssets: Map<string, string>;
+  assetHashes: Map<string, string>; // Content sha256 of local assets, by key (from fetchCachedAsset)
+  layout: FrameLayout;
+  chunks: RenderChunk[];
+  mixdown: Mixdown;
+  workDir: string;
+  outputPath: string;
+  onProgress: (timeSec: number) => void; // Timeline seconds encoded so far, over all chunks
+  signal?: AbortSignal;
+  log?: RenderLog; // Records each FFmpeg command run
+}
+
+/**
+ * Render the audio part of the timeline's graph to an AAC file
+ */
+export async function renderMixdown(
+  timeline: TimelineV2,
+  localAssets: Map<string, string>,
+  workDir: string,
+  loudness?: LoudnormMeasurement,
+  signal?: AbortSignal,
+  log?: RenderLog
+): Promise<Mixdown> {
+  const graph = compileTimeline(timeline, localAssets, undefined, loudness);
+  if (!graph.audioOut) return { path: null, durationSec: graph.durationSec, stderr: "" };
+
+  const outputPath = path.join(workDir, "mixdown.m4a");
+  const args: string[] = ["-y"];
+  for (const input of graph.inputs) {
+    args.push(...input.options, "-i", input.path);
+  }
+  args.push(
+    "-filter_complex", chainsFeeding(graph, graph.audioOut).map(serializeChain).join(";"),
+    "-map", `[${graph.audioOut}]`,
+    "-c:a", "aac",
+    "-b:a", `${timeline.global.export.audioKbps}k`,
+    "-t", String(graph.durationSec + 0.5),
+    outputPath
+  );
+
+  console.log("[Render] Mixing audio for chunked render");
+  const stderr = await runFFmpeg(args, () => {}, signal);
+  log?.ffmpeg("render", "Mixed audio", args, stderr);
+  return { path: outputPath, durationSec: graph.durationSec, stderr };
+}
+
+/**
+ * Encode the picture chunk by chunk (config.renderConcurrency at a time),
+ * then join the chunks with the mixdown and any soft subtitles
+ */
+export async function renderChunked(options: ChunkedRenderOptions): Promise<void> {
+  const { timeline, localAssets, layout, chunks, mixdown, workDir, outputPath, onProgress, signal, log } = options;
+  const chunkDir = path.join(workDir, `chunks-${layout.aspectRatio}`);
+  fs.mkdirSync(chunkDir, { recursive: true });
+  fs.mkdirSync(config.chunkCacheDir, { recursive: true });
+
+  // A failing chunk stops its siblings; cancelling the job stops them all
+  const failed = new AbortController();
+  const chunkSignal = signal ? AbortSignal.any([signal, failed.signal]) : failed.signal;
+
+  const encodedSec = chunks.map(() => 0);
+  const reportProgress = () => onProgress(encodedSec.reduce((sum, sec) => sum + sec, 0));
+  let cacheHits = 0;
+
+  const chunkPaths = await mapWithConcurrency(chunks, config.renderConcurrency, async (chunk) => {
+    chunkSignal.throwIfAborted();
+    const chunkPath = path.join(chunkDir, `chunk-${chunk.index}.mp4`);
+    const { args, cacheKey } = await prepareChunk(options, chunk, chunkDir, chunkPath);
+    const cachedPath = path.join(config.chunkCacheDir, `${cacheKey}.mp4`);
+    const chunkSec = chunk.endSec - chunk.startSec;
+
+    if (fs.existsSync(cachedPath)) {
+      linkOrCopy(cachedPath, chunkPath);
+      // Mark it recently used for eviction
+      fs.utimesSync(cachedPath, new Date(), new Date());
+      cacheHits++;
+      encodedSec[chunk.index] = chunkSec;
+      reportProgress();
+      return chunkPath;
+    }
+
+    try {
+      const stderr = await runFFmpeg(args, (timeSec) => {
+        encodedSec[chunk.index] = Math.min(timeSec, chunkSec);
+        reportProgress();
+      }, chunkSignal);
+      log?.ffmpeg("render", `Encoded ${layout.aspectRatio} chunk ${chunk.index}`, args, stderr);
+    } catch (error) {
+      failed.abort(error);
+      throw error;
+    }
+
+    storeInCache(chunkPath, cachedPath);
+    return chunkPath;
+  });
+
+  console.log(`[Render] ${layout.aspectRatio}: ${chunks.length} chunks, ${cacheHits} from cache`);
+  log?.info("render", `${layout.aspectRatio}: ${chunks.length} chunks, ${cacheHits} from cache`, {
+    chunks: chunks.length,
+    cacheHits,
+  });
+  pruneChunkCache();
+
+  // Join: concat demuxer for the picture, then the mix and subtitles
+  const listPath = path.join(chunkDir, "chunks.txt");
+  fs.writeFileSync(listPath, chunkPaths.map((p) => `file '${p}'`).join("\n"), "utf8");
+
+  const captions = timeline.global.captions;
+  const srtPath = captions?.softSubtitles && captions.segments?.length ? localAssets.get(CAPTIONS_SRT_KEY) : undefined;
+
+  const args = ["-y", "-f", "concat", "-safe", "0", "-i", listPath];
+  if (mixdown.path) args.push("-i", mixdown.path);
+  if (srtPath) args.push("-i", srtPath);
+
+  args.push("-map", "0:v", "-c:v", "copy");
+  if (mixdown.path) args.push("-map", "1:a", "-c:a", "copy");
+  if (srtPath) args.push("-map", `${mixdown.path ? 2 : 1}:s`, "-c:s", "mov_text");
+  args.push("-movflags", "+faststart", "-t", String(mixdown.durationSec + 0.5), outputPath);
+
+  const stderr = await runFFmpeg(args, () => {}, signal);
+  log?.ffmpeg("render", `Joined ${layout.aspectRatio} chunks`, args, stderr);
+}
+
+/**
+ * Compile one chunk and hash what it depends on: the FFmpeg arguments with
+ * work-dir paths swapped for the identity of the files behind them
+ */
+async function prepareChunk(
+  { timeline, localAssets, assetHashes, layout, chunks }: ChunkedRenderOptions,
+  chunk: RenderChunk,
+  chunkDir: string,
+  chunkPath: string
+): Promise<{ args: string[]; cacheKey: string }> {
+  const slice = sliceTimeline(timeline, chunk, chunk.index === chunks.length - 1);
+  const chunkAssets = new Map(localAssets);
+
+  // Burned-in captions need an .ass with the chunk's own timing
+  let assPath: string | null = null;
+  if (localAssets.has(CAPTIONS_ASS_KEY)) {
+    assPath = path.join(chunkDir, `chunk-${chunk.index}.ass`);
+    fs.writeFileSync(assPath, buildAssSubtitles(slice, layout), "utf8");
+    chunkAssets.set(CAPTIONS_ASS_KEY, assPath);
+  }
+
+  const graph = compileTimeline(slice, chunkAssets, layout);
+  for (const warning of graph.warnings) {
+    console.warn(`[Render] Chunk ${chunk.index}: ${warning}`);
+  }
+  const args = graphToArgs(graph, timeline.global.export, chunkPath);
+
+  return { args, cacheKey: await chunkCacheKey(args, graph, assetHashes, assPath) };
+}
+
+// Files are identified by the sha256 of their content: the one the asset
+// cache recorded for downloads, hashed here for anything else
+async function chunkCacheKey(
+  args: string[],
+  graph: RenderGraph,
+  assetHashes: Map<string, string>,
+  assPath: string | null
+): Promise<string> {
+  const identities = new Map<string, string>();
+  for (const input of graph.inputs) {
+    identities.set(input.path, assetHashes.get(input.key) ?? (await hashFile(input.path)));
+  }
+  if (assPath) {
+    identities.set(assPath, await hashFile(assPath));
+  }
+
+  const hash = crypto.createHash("sha256").update(`v${CHUNK_CACHE_VERSION}\n`);
+  // The last argument is the output path
+  for (const arg of args.slice(0, -1)) {
+    let normalized = arg;
+    for (const [filePath, identity] of identities) {
+      normalized = normalized.split(filePath).join(identity);
+    }
+    hash.update(`${normalized}\n`);
+  }
+  return hash.digest("hex");
+}
+
+// Write under a temporary name and rename, so readers never see half a file
+function storeInCache(chunkPath: string, cachedPath: string): void {
+  const tempPath = `${cachedPath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  try {
+    fs.copyFileSync(chunkPath, tempPath);
+    fs.renameSync(tempPath, cachedPath);
+  } catch (error) {
+    console.warn("[Render] Could not cache chunk:", error);
+    fs.rmSync(tempPath, { force: true });
+  }
+}
+
+/**
+ * Evict least recently used chunks until the cache fits config.chunkCacheMaxBytes
+ */
+function pruneChunkCache(): void {
+  try {
+    const entries = fs
+      .readdirSync(config.chunkCacheDir)
+      .filter((name) => name.endsWith(".mp4"))
+      .map((name) => {
+        const filePath = path.join(config.chunkCacheDir, name);
+        const stats = fs.statSync(filePath);
+        return { filePath, size: stats.size, usedAt: stats.mtimeMs };
+      })
+      .sort((a, b) => a.usedAt - b.usedAt);
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries) {
+      if (total <= config.chunkCacheMaxBytes) break;
+      fs.rmSync(entry.filePath, { force: true });
+      total -= entry.size;
+    }
+  } catch (error) {
+    console.warn("[Render] Chunk cache cleanup failed:", error);
+  }
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,1171 @@
+import { Scene, TextOverlay, TextEffect, FocalPoint, CropKeyframe, Ducking, KeyframeAnimation } from "../db";
+import {
+  TimelineV2,
+  VideoClip,
+  VideoTrack,
+  AudioClip,
+  AudioTrackRole,
+  transitionOverlapSec,
+  getVisibleVideoTracks,
+  videoClipKey,
+  audioClipKey,
+} from "../timeline/v2";
+import { Filter, FilterChain, GraphInput, RenderGraph, filter } from "./filtergraph";
+import { CAPTIONS_ASS_KEY } from "./assCaptions";
+import { CAPTIONS_SRT_KEY } from "./captionFiles";
+import { FrameLayout, Insets, frameLayout } from "./layout";
+import { LoudnormMeasurement, isUsableMeasurement, loudnessTarget } from "./loudness";
+import { MusicSegment, planMusicCover } from "./musicEdit";
+import { DEFAULT_PROPERTY_VALUES, keyframeExpr, propertyExpr, sceneKeyframes, textKeyframes } from "./keyframes";
+
+// Pure timeline -> filtergraph compiler
+//
+// Stages: inputs -> base track -> overlay tracks -> text layers -> audio.
+// No I/O and no logging: anything worth reporting goes into graph.warnings.
+
+export interface InputTable {
+  inputs: GraphInput[];
+  indexByKey: Map<string, number>;
+  gifInputs: Set<number>;
+}
+
+export interface CompileContext {
+  width: number;
+  height: number;
+  layout: FrameLayout;
+  fps: number;
+  localAssets: Map<string, string>;
+  inputs: InputTable;
+  chains: FilterChain[];
+  warnings: string[];
+}
+
+// A piece of the base picture: a clip, or black filling a gap between clips
+interface BaseSegment {
+  label: string;
+  durationSec: number;
+  transitionOut?: string | null;
+  transitionDuration?: number;
+}
+
+export interface AudioInput {
+  clip: AudioClip;
+  role: AudioTrackRole;
+  inputIdx: number;
+  ducking?: Ducking;
+}
+
+// Roles that music ducks under
+const SPEECH_ROLES: AudioTrackRole[] = ["voiceover", "dialogue"];
+
+const DEFAULT_DUCKING: Ducking = {
+  enabled: true,
+  thresholdDb: -30,
+  ratio: 8,
+  attackMs: 20,
+  releaseMs: 400,
+};
+
+/**
+ * Compile a timeline and the files it references into a render graph.
+ * The layout picks the output frame; it defaults to the project's own.
+ * With a loudness measurement (pass 1, see loudness.ts) the mix is
+ * normalized linearly; without one loudnorm runs in single-pass mode.
+ */
+export function compileTimeline(
+  timeline: TimelineV2,
+  localAssets: Map<string, string>,
+  layout: FrameLayout = frameLayout(timeline),
+  loudness?: LoudnormMeasurement
+): RenderGraph {
+  const [baseTrack, ...overlayTracks] = getVisibleVideoTracks(timeline);
+
+  const ctx: CompileContext = {
+    width: layout.width,
+    height: layout.height,
+    layout,
+    fps: timeline.project.fps,
+    localAssets,
+    inputs: collectInputs(timeline, localAssets),
+    chains: [],
+    warnings: [],
+  };
+
+  const base = compileBaseTrack(ctx, baseTrack);
+  let videoLabel = base.label;
+
+  // The voiceover is the MASTER duration - video should match it, not the other way around
+  const voiceoverDuration = timeline.rendering?.voiceoverDurationSec || 0;
+  videoLabel = padToVoiceover(ctx, videoLabel, base.durationSec, voiceoverDuration);
+
+  videoLabel = compileOverlayTracks(ctx, overlayTracks, videoLabel);
+  videoLabel = compileTextOverlays(ctx, timeline.textOverlays || [], videoLabel);
+  videoLabel = compileLogo(ctx, timeline, videoLabel);
+  videoLabel = compileCaptions(ctx, timeline, videoLabel);
+  videoLabel = compileTextEffects(ctx, timeline.textEffects || [], videoLabel);
+  videoLabel = compileWatermark(ctx, videoLabel);
+
+  const audioInputs = getAudioInputs(ctx, timeline);
+  const voiceoverInput = audioInputs.find((a) => a.role === "voiceover");
+  const introOffset = voiceoverInput?.clip.startSec || 0;
+  const durationSec = Math.max(base.durationSec, voiceoverDuration + introOffset);
+
+  const mixOut = compileAudio(ctx, audioInputs, durationSec);
+  const audioOut = mixOut && compileLoudness(ctx, timeline, mixOut, loudness);
+  const subtitleOut = compileSubtitleTrack(ctx, timeline);
+
+  return {
+    inputs: ctx.inputs.inputs,
+    chains: ctx.chains,
+    videoOut: videoLabel,
+    audioOut,
+    subtitleOut,
+    durationSec,
+    warnings: ctx.warnings,
+  };
+}
+
+// ============================================
+// Inputs
+// ============================================
+
+/**
+ * Register one input per asset key: video (base track first), audio, then logo
+ */
+export function collectInputs(timeline: TimelineV2, localAssets: Map<string, string>): InputTable {
+  const table: InputTable = { inputs: [], indexByKey: new Map(), gifInputs: new Set() };
+
+  const add = (key: string | null) => {
+    if (!key || !localAssets.has(key) || table.indexByKey.has(key)) return;
+    const path = localAssets.get(key)!;
+    const isGif = path.toLowerCase().endsWith(".gif");
+    // For GIFs, add ignore_loop to make them animate
+    table.inputs.push({ key, path, options: isGif ? ["-ignore_loop", "0"] : [] });
+    if (isGif) table.gifInputs.add(table.inputs.length - 1);
+    table.indexByKey.set(key, table.inputs.length - 1);
+  };
+
+  for (const track of getVisibleVideoTracks(timeline)) {
+    for (const clip of sortByStart(track.clips)) add(videoClipKey(clip));
+  }
+  for (const track of timeline.tracks.audio) {
+    if (track.muted) continue;
+    for (const clip of track.clips) add(audioClipKey(clip));
+  }
+  add(timeline.global.brand.logoAssetId);
+
+  return table;
+}
+
+function inputIndex(ctx: CompileContext, key: string | null): number | undefined {
+  return key ? ctx.inputs.indexByKey.get(key) : undefined;
+}
+
+function sortByStart<T extends { startSec: number }>(clips: T[]): T[] {
+  return [...clips].sort((a, b) => a.startSec - b.startSec);
+}
+
+// ============================================
+// Base track
+// ============================================
+
+/**
+ * Render the lowest video track: each clip fitted to the frame, gaps filled
+ * with black, joined with xfade transitions
+ */
+export function compileBaseTrack(
+  ctx: CompileContext,
+  track: VideoTrack | undefined
+): { label: string; durationSec: number } {
+  const { width, height, fps } = ctx;
+  const clips = track ? sortByStart(track.clips) : [];
+  const segments: BaseSegment[] = [];
+
+  let cursor = 0; // Timeline time the next segment starts at
+  for (let i = 0; i < clips.length; i++) {
+    const scene = clips[i];
+
+    const gapSec = scene.startSec - cursor;
+    if (gapSec > 0.01) {
+      const gapLabel = `gap${i}`;
+      ctx.chains.push({ inputs: [], filters: [blackSource(ctx, gapSec)], output: gapLabel });
+      segments.push({ label: gapLabel, durationSec: gapSec });
+      cursor += gapSec;
+    }
+
+    const inputIdx = inputIndex(ctx, videoClipKey(scene));
+    let videoLabel = `scene${i}`;
+
+    if (inputIdx !== undefined) {
+      const isGif = ctx.inputs.gifInputs.has(inputIdx);
+
+      // Calculate actual trim duration from in/out points
+      const clipTrimDuration = scene.outSec - scene.inSec;
+      const requestedDuration = scene.durationSec;
+      const needsPadding = requestedDuration > clipTrimDuration + 0.1;
+
+      if (isGif) {
+        // GIFs: trim by duration (they loop), cover the frame
+        ctx.chains.push({
+          inputs: [`${inputIdx}:v`],
+          filters: [
+            filter("trim", `duration=${scene.durationSec}`),
+            filter("setpts", "PTS-STARTPTS"),
+            ...coverFrame(width, height, { focalPoint: scene.focalPoint, shiftSec: 0, durationSec: scene.durationSec }),
+            filter("fps", fps),
+            filter("setsar", 1),
+          ],
+          output: videoLabel,
+        });
+      } else if (scene.kind === "video") {
+        // Use "cover" mode for talking head videos (fill frame, crop excess)
+        // Use "contain" mode for B-roll (fit within frame, may have letterbox)
+        const useCoverMode = scene.isTalkingHead || scene.cropMode === "cover";
+        const trimmedLabel = `trim${i}`;
+
+        ctx.chains.push({
+          inputs: [`${inputIdx}:v`],
+          filters: [
+            filter("trim", `start=${scene.inSec}:end=${scene.outSec}`),
+            filter("setpts", "PTS-STARTPTS"),
+            ...(useCoverMode ? coverFrame(width, height, framing(scene, scene.inSec)) : containFrame(width, height)),
+            filter("fps", fps),
+            filter("setsar", 1),
+          ],
+          output: trimmedLabel,
+        });
+
+        // If clip is shorter than requested duration, extend with tpad (freeze last frame)
+        if (needsPadding) {
+          const paddingNeeded = requestedDuration - clipTrimDuration;
+          ctx.warnings.push(
+            `Scene ${i}: clip is ${clipTrimDuration.toFixed(2)}s but need ${requestedDuration.toFixed(2)}s - adding ${paddingNeeded.toFixed(2)}s freeze frame`
+          );
+          ctx.chains.push({
+            inputs: [trimmedLabel],
+            filters: [filter("tpad", `stop_mode=clone:stop_duration=${paddingNeeded}`)],
+            output: videoLabel,
+          });
+        } else {
+          ctx.chains.push({ inputs: [trimmedLabel], filters: [filter("null")], output: videoLabel });
+        }
+      } else {
+        // Static image - loop for duration
+        ctx.chains.push({
+          inputs: [`${inputIdx}:v`],
+          filters: [
+            filter("loop", `loop=${Math.ceil(scene.durationSec * fps)}:size=1:start=0`),
+            filter("setpts", "PTS-STARTPTS"),
+            ...containFrame(width, height),
+            filter("fps", fps),
+            filter("setsar", 1),
+            filter("trim", `duration=${scene.durationSec}`),
+          ],
+          output: videoLabel,
+        });
+      }
+
+      // Keyframed camera moves (or the animation preset's template)
+      const motion = sceneMotionFilters(ctx, sceneKeyframes(scene));
+      if (motion.length > 0) {
+        const movedLabel = `scene${i}_motion`;
+        ctx.chains.push({ inputs: [videoLabel], filters: motion, output: movedLabel });
+        videoLabel = movedLabel;
+      }
+    } else {
+      // No asset - black placeholder
+      ctx.chains.push({ inputs: [], filters: [blackSource(ctx, scene.durationSec)], output: videoLabel });
+    }
+
+    // Scene text overlay
+    const textFilter = buildTextOverlay(scene, height, ctx.layout.safe);
+    if (textFilter) {
+      const overlaidLabel = `scene${i}_text`;
+      ctx.chains.push({ inputs: [videoLabel], filters: [textFilter], output: overlaidLabel });
+      videoLabel = overlaidLabel;
+    }
+
+    segments.push({
+      label: videoLabel,
+      durationSec: scene.durationSec,
+      transitionOut: scene.transitionOut,
+      transitionDuration: scene.transitionDuration,
+    });
+    cursor += scene.durationSec;
+    if (i < clips.length - 1) cursor -= transitionOverlapSec(scene);
+  }
+
+  return { label: buildXfadeChain(ctx, segments), durationSec: calculateTotalDuration(segments) };
+}
+
+function blackSource(ctx: CompileContext, durationSec: number): Filter {
+  return filter("color", `c=black:s=${ctx.width}x${ctx.height}:r=${ctx.fps}:d=${durationSec}`);
+}
+
+// Scale to fill, then crop from CENTER to exact size (no black bars)
+// Use max(0, ...) to prevent negative crop coordinates
+function coverFrame(width: number, height: number, framing?: Framing): Filter[] {
+  return [
+    filter("scale", `${width}:${height}:force_original_aspect_ratio=increase`),
+    focalCrop(width, height, framing),
+  ];
+}
+
+// Where a cover crop centers: a fixed point, or a path over source time.
+// shiftSec maps source time to the filter's t (t = source time - shiftSec).
+interface Framing {
+  focalPoint?: FocalPoint;
+  cropPath?: CropKeyframe[];
+  shiftSec: number;
+  durationSec: number;
+}
+
+function framing(clip: Scene, shiftSec: number): Framing {
+  return { focalPoint: clip.focalPoint, cropPath: clip.cropPath, shiftSec, durationSec: clip.durationSec };
+}
+
+/**
+ * Crop to width x height, centered on the focal point (or following the
+ * crop path) as far as the source allows; center when there is neither
+ */
+function focalCrop(width: number, height: number, framing?: Framing): Filter {
+  const path = framing?.cropPath;
+  const fx = path?.length ? cropPathExpr(path, "x", framing!) : framing?.focalPoint?.x ?? 0.5;
+  const fy = path?.length ? cropPathExpr(path, "y", framing!) : framing?.focalPoint?.y ?? 0.5;
+  return filter(
+    "crop",
+    `${width}:${height}:max(0\\,min(iw-${width}\\,iw*(${fx})-${width}/2)):max(0\\,min(ih-${height}\\,ih*(${fy})-${height}/2))`
+  );
+}
+
+/**
+ * Piecewise-linear interpolation of one axis of a crop path as a crop
+ * x/y expression in t. Built from the last keyframe backwards:
+ * if(lt(t,t1), lerp(k0,k1), if(lt(t,t2), lerp(k1,k2), ... k_last))
+ */
+function cropPathExpr(path: CropKeyframe[], axis: "x" | "y", { shiftSec, durationSec }: Framing): string {
+  const sorted = [...path]
+    .sort((a, b) => a.t - b.t)
+    .map((k) => ({ t: Number((k.t - shiftSec).toFixed(3)), v: k[axis] }));
+
+  // Only the keyframes covering this clip's part of the source, plus one
+  // either side to interpolate from, so long assets don't bloat the graph
+  const firstInside = sorted.findIndex((k) => k.t > 0);
+  const first = firstInside === -1 ? sorted.length - 1 : Math.max(0, firstInside - 1);
+  const afterEnd = sorted.findIndex((k) => k.t >= durationSec);
+  return keyframeExpr(sorted.slice(first, afterEnd === -1 ? sorted.length : afterEnd + 1));
+}
+
+/**
+ * Camera moves on a full-frame scene, in clip time: zoom and pan with
+ * zoompan (x/y are the point of the picture at the frame center, so a pan
+ * needs some zoom to move), rotation, and opacity as a fade to black
+ */
+function sceneMotionFilters(ctx: CompileContext, animation: KeyframeAnimation): Filter[] {
+  const { width, height, fps } = ctx;
+  const filters: Filter[] = [];
+
+  // zoompan's clock is the input timestamp
+  const zoom = propertyExpr(animation, "scale", 0, "it");
+  const centerX = propertyExpr(animation, "x", 0, "it");
+  const centerY = propertyExpr(animation, "y", 0, "it");
+  if (zoom || centerX || centerY) {
+    const z = zoom ? `max(1\\,${zoom})` : "1";
+    const x = `max(0\\,min(iw-iw/zoom\\,iw*(${centerX ?? DEFAULT_PROPERTY_VALUES.x})/100-iw/zoom/2))`;
+    const y = `max(0\\,min(ih-ih/zoom\\,ih*(${centerY ?? DEFAULT_PROPERTY_VALUES.y})/100-ih/zoom/2))`;
+    filters.push(filter("zoompan", `z=${z}:x=${x}:y=${y}:d=1:s=${width}x${height}:fps=${fps}`));
+  }
+
+  const rotation = propertyExpr(animation, "rotation");
+  if (rotation) {
+    filters.push(filter("rotate", `a=(${rotation})*PI/180:c=black`));
+  }
+
+  const opacity = propertyExpr(animation, "opacity", 0, "T");
+  if (opacity) {
+    const channel = (c: string) => `${c}=${c}(X\\,Y)*(${opacity})`;
+    filters.push(
+      filter("format", "gbrp"),
+      filter("geq", [channel("r"), channel("g"), channel("b")].join(":")),
+      filter("format", "yuv420p")
+    );
+  }
+
+  return filters;
+}
+
+// Scale to fit, pad with black if needed
+function containFrame(width: number, height: number): Filter[] {
+  return [
+    filter("scale", `${width}:${height}:force_original_aspect_ratio=decrease`),
+    filter("pad", `${width}:${height}:(ow-iw)/2:(oh-ih)/2:black`),
+  ];
+}
+
+/**
+ * Join base segments with xfade where the outgoing segment has a transition,
+ * concat otherwise. Returns the joined label.
+ */
+function buildXfadeChain(ctx: CompileContext, segments: BaseSegment[]): string {
+  if (segments.length === 0) return "vconcat";
+  if (segments.length === 1) {
+    ctx.chains.push({ inputs: [segments[0].label], filters: [filter("copy")], output: "vconcat" });
+    return "vconcat";
+  }
+
+  const hasTransitions = segments.some(
+    (s, i) => i < segments.length - 1 && transitionOverlapSec(s) > 0
+  );
+
+  if (!hasTransitions) {
+    ctx.chains.push({
+      inputs: segments.map((s) => s.label),
+      filters: [filter("concat", `n=${segments.length}:v=1:a=0`)],
+      output: "vconcat",
+    });
+    return "vconcat";
+  }
+
+  let currentLabel = segments[0].label;
+  let offset = segments[0].durationSec;
+
+  for (let i = 1; i < segments.length; i++) {
+    const prevSegment = segments[i - 1];
+    const currentSegment = segments[i];
+    const outputLabel = i === segments.length - 1 ? "vconcat" : `xf${i}`;
+    const transitionDuration = transitionOverlapSec(prevSegment);
+
+    if (transitionDuration > 0) {
+      // Start the transition before the end of what has been joined so far
+      const xfadeOffset = Math.max(0, offset - transitionDuration);
+      ctx.chains.push({
+        inputs: [currentLabel, currentSegment.label],
+        filters: [
+          filter("xfade", `transition=${prevSegment.transitionOut}:duration=${transitionDuration}:offset=${xfadeOffset}`),
+        ],
+        output: outputLabel,
+      });
+      offset = xfadeOffset + currentSegment.durationSec;
+    } else {
+      ctx.chains.push({
+        inputs: [currentLabel, currentSegment.label],
+        filters: [filter("concat", "n=2:v=1:a=0")],
+        output: outputLabel,
+      });
+      offset += currentSegment.durationSec;
+    }
+
+    currentLabel = outputLabel;
+  }
+
+  return "vconcat";
+}
+
+/**
+ * Total base duration accounting for transition overlaps
+ */
+function calculateTotalDuration(segments: BaseSegment[]): number {
+  let total = 0;
+  for (let i = 0; i < segments.length; i++) {
+    total += segments[i].durationSec;
+    // Subtract transition overlap (except for last segment)
+    if (i < segments.length - 1) total -= transitionOverlapSec(segments[i]);
+  }
+  return Math.max(0, total);
+}
+
+/**
+ * Safety net: if the voiceover outlasts the picture, freeze the last frame.
+ * The AI should have selected clips that match the voiceover duration exactly.
+ */
+function padToVoiceover(
+  ctx: CompileContext,
+  label: string,
+  sceneDuration: number,
+  voiceoverDuration: number
+): string {
+  if (voiceoverDuration <= 0 || voiceoverDuration <= sceneDuration + 0.5) return label;
+
+  const extraDuration = voiceoverDuration - sceneDuration + 0.5;
+  ctx.warnings.push(
+    `Scene duration mismatch! scenes=${sceneDuration}s, voiceover=${voiceoverDuration}s - adding ${extraDuration}s freeze frame`
+  );
+  ctx.chains.push({
+    inputs: [label],
+    filters: [filter("tpad", `stop_mode=clone:stop_duration=${extraDuration}`)],
+    output: "vfiller",
+  });
+  return "vfiller";
+}
+
+// ============================================
+// Overlay tracks
+// ============================================
+
+/**
+ * Composite upper video tracks (overlays, picture-in-picture) in zIndex order
+ */
+export function compileOverlayTracks(ctx: CompileContext, tracks: VideoTrack[], label: string): string {
+  let overlayIndex = 0;
+
+  for (const track of tracks) {
+    for (const clip of sortByStart(track.clips)) {
+      const inputIdx = inputIndex(ctx, videoClipKey(clip));
+      if (inputIdx === undefined) {
+        ctx.warnings.push(`Overlay "${clip.title || clip.id}" not found in local assets`);
+        continue;
+      }
+
+      const clipLabel = `ovclip${overlayIndex}`;
+      const outputLabel = `ov${overlayIndex}`;
+      overlayIndex++;
+
+      ctx.chains.push({
+        inputs: [`${inputIdx}:v`],
+        filters: overlayClipFilters(ctx, clip, ctx.inputs.gifInputs.has(inputIdx)),
+        output: clipLabel,
+      });
+
+      // Position is percentage-based: x,y are the clip center, 0-100.
+      // Keyframes are clip-relative; overlay's t runs on the timeline.
+      const animation = sceneKeyframes(clip);
+      const x = propertyExpr(animation, "x", clip.startSec) ?? clip.transform?.x ?? 50;
+      const y = propertyExpr(animation, "y", clip.startSec) ?? clip.transform?.y ?? 50;
+      const xPos = `(W*(${x})/100)-(w/2)`;
+      const yPos = `(H*(${y})/100)-(h/2)`;
+      const endTime = clip.startSec + clip.durationSec;
+
+      // eof_action=pass so the picture does NOT freeze when the overlay ends
+      ctx.chains.push({
+        inputs: [label, clipLabel],
+        filters: [
+          filter("overlay", `${xPos}:${yPos}:enable='between(t,${clip.startSec},${endTime})':eof_action=pass:shortest=0`),
+        ],
+        output: outputLabel,
+      });
+      label = outputLabel;
+    }
+  }
+
+  return label;
+}
+
+/**
+ * Trim an upper-track clip, shift it to its timeline start, size it per
+ * cropMode/scale, then rotate and fade. Keyframed scale, rotation and
+ * opacity replace the transform's values and are evaluated per frame.
+ */
+function overlayClipFilters(ctx: CompileContext, clip: VideoClip, isGif: boolean): Filter[] {
+  const { width, height, fps } = ctx;
+  const filters: Filter[] = [];
+  const animation = sceneKeyframes(clip);
+  const scaleExpr = propertyExpr(animation, "scale", clip.startSec);
+  const rotationExpr = propertyExpr(animation, "rotation", clip.startSec);
+  const opacityExpr = propertyExpr(animation, "opacity", clip.startSec, "T");
+  // An animated scale is applied after fitting at 1x
+  const scale = scaleExpr ? 1 : clip.transform?.scale ?? 1;
+  const rotation = clip.transform?.rotation ?? 0;
+  const opacity = clip.transform?.opacity ?? 1;
+
+  if (isGif) {
+    // GIF: CRITICAL - trim to exact duration to prevent infinite stream from hanging FFmpeg
+    filters.push(filter("trim", `duration=${clip.durationSec}`), filter("fps", fps));
+  } else if (clip.kind === "image") {
+    // Static image: repeat the single frame for the clip duration
+    filters.push(
+      filter("loop", `loop=${Math.ceil(clip.durationSec * fps)}:size=1:start=0`),
+      filter("setpts", "PTS-STARTPTS"),
+      filter("fps", fps),
+      filter("trim", `duration=${clip.durationSec}`)
+    );
+  } else {
+    filters.push(filter("trim", `start=${clip.inSec}:end=${clip.outSec}`));
+  }
+
+  // Shift to the clip's place on the timeline so it stays in sync with enable=
+  filters.push(filter("setpts", `PTS-STARTPTS+${clip.startSec}/TB`));
+
+  const boxW = Math.max(2, Math.round(width * scale));
+  const boxH = Math.max(2, Math.round(height * scale));
+  switch (clip.cropMode) {
+    case "cover":
+      filters.push(
+        filter("scale", `${boxW}:${boxH}:force_original_aspect_ratio=increase`),
+        // Overlay t runs on the timeline: source time = t - startSec + inSec
+        focalCrop(boxW, boxH, framing(clip, clip.inSec - clip.startSec))
+      );
+      break;
+    case "contain":
+      filters.push(filter("scale", `${boxW}:${boxH}:force_original_aspect_ratio=decrease`));
+      break;
+    case "fill":
+      filters.push(filter("scale", `${boxW}:${boxH}`));
+      break;
+    default:
+      // "none": keep source size, scaled by the transform (and the frame)
+      filters.push(filter("scale", `iw*${scale * ctx.layout.scale}:ih*${scale * ctx.layout.scale}`));
+  }
+
+  if (rotationExpr || rotation !== 0 || opacityExpr || opacity < 1) {
+    filters.push(filter("format", "rgba"));
+  }
+  if (rotationExpr) {
+    // Big enough for any angle, so the frame size stays fixed
+    filters.push(filter("rotate", `a=(${rotationExpr})*PI/180:c=none:ow=hypot(iw\\,ih):oh=ow`));
+  } else if (rotation !== 0) {
+    const radians = (rotation * Math.PI) / 180;
+    filters.push(filter("rotate", `${radians}:c=none:ow=rotw(${radians}):oh=roth(${radians})`));
+  }
+  if (opacityExpr) {
+    const channels = ["r", "g", "b"].map((c) => `${c}=${c}(X\\,Y)`);
+    filters.push(filter("geq", [...channels, `a=alpha(X\\,Y)*(${opacityExpr})`].join(":")));
+  } else if (opacity < 1) {
+    filters.push(filter("colorchannelmixer", `aa=${opacity}`));
+  }
+
+  // Last, so only overlay sees the frame size change
+  if (scaleExpr) {
+    const size = (dim: string) => `max(2\\,trunc(${dim}*(${scaleExpr})/2)*2)`;
+    filters.push(filter("scale", `w=${size("iw")}:h=${size("ih")}:eval=frame`));
+  }
+
+  return filters;
+}
+
+// ============================================
+// Text layers, logo, captions, effects
+// ============================================
+
+/**
+ * Global text overlays (from the textOverlays array)
+ */
+export function compileTextOverlays(ctx: CompileContext, overlays: TextOverlay[], label: string): string {
+  overlays.forEach((overlay, i) => {
+    const textFilter = buildGlobalTextOverlay(overlay, ctx.height, ctx.layout.safe);
+    if (!textFilter) return;
+    if (textKeyframes(overlay).rotation?.length) {
+      ctx.warnings.push(`Text overlay "${overlay.text}": drawtext cannot rotate - ignoring rotation keyframes`);
+    }
+    const outputLabel = `text${i}`;
+    ctx.chains.push({ inputs: [label], filters: [textFilter], output: outputLabel });
+    label = outputLabel;
+  });
+  return label;
+}
+
+/**
+ * Brand logo in the configured corner of the safe area
+ */
+export function compileLogo(ctx: CompileContext, timeline: TimelineV2, label: string): string {
+  const { brand } = timeline.global;
+  const logoInputIdx = inputIndex(ctx, brand.logoAssetId);
+  if (logoInputIdx === undefined) return label;
+
+  const logoPos = getLogoPosition(brand.logoPosition, ctx.layout.safe);
+  const logoSize = Math.round(brand.logoSize * ctx.layout.scale);
+  ctx.chains.push({ inputs: [`${logoInputIdx}:v`], filters: [filter("scale", `${logoSize}:-1`)], output: "logo" });
+  ctx.chains.push({ inputs: [label, "logo"], filters: [filter("overlay", `${logoPos.x}:${logoPos.y}`)], output: "vlogo" });
+  return "vlogo";
+}
+
+/**
+ * Layout watermark (drafts), large and translucent over everything else
+ */
+export function compileWatermark(ctx: CompileContext, label: string): string {
+  const { watermark } = ctx.layout;
+  if (!watermark) return label;
+
+  const fontSize = Math.round(Math.min(ctx.width, ctx.height) / 5);
+  const options =
+    `text='${escapeFFmpegText(watermark)}':fontsize=${fontSize}:fontcolor=white@0.35:` +
+    `borderw=2:bordercolor=black@0.35:x=(w-text_w)/2:y=(h-text_h)/2`;
+  ctx.chains.push({ inputs: [label], filters: [filter("drawtext", options)], output: "vwatermark" });
+  return "vwatermark";
+}
+
+/**
+ * Burned-in captions from the generated .ass file (see assCaptions.ts)
+ */
+export function compileCaptions(ctx: CompileContext, timeline: TimelineV2, label: string): string {
+  const captions = timeline.global.captions;
+  if (!captions?.enabled || !captions.burnIn || !captions.segments?.length) return label;
+
+  const assPath = ctx.localAssets.get(CAPTIONS_ASS_KEY);
+  if (!assPath) {
+    ctx.warnings.push("Captions enabled but no subtitle file was provided - skipping burn-in");
+    return label;
+  }
+
+  // The path is inside our own work dir, so quoting is enough
+  ctx.chains.push({ inputs: [label], filters: [filter("ass", `filename='${assPath}'`)], output: "vcap" });
+  return "vcap";
+}
+
+/**
+ * Soft subtitles: the SRT sidecar as an extra input, muxed as mov_text.
+ * Added after every other input so filter input indices don't move.
+ */
+export function compileSubtitleTrack(ctx: CompileContext, timeline: TimelineV2): string | null {
+  const captions = timeline.global.captions;
+  if (!captions?.softSubtitles || !captions.segments?.length) return null;
+
+  const srtPath = ctx.localAssets.get(CAPTIONS_SRT_KEY);
+  if (!srtPath) {
+    ctx.warnings.push("Soft subtitles requested but no SRT file was provided - skipping subtitle track");
+    return null;
+  }
+
+  ctx.inputs.inputs.push({ key: CAPTIONS_SRT_KEY, path: srtPath, options: [] });
+  const idx = ctx.inputs.inputs.length - 1;
+  ctx.inputs.indexByKey.set(CAPTIONS_SRT_KEY, idx);
+  return `${idx}:s`;
+}
+
+/**
+ * Text effects from the effects library
+ */
+export function compileTextEffects(ctx: CompileContext, effects: TextEffect[], label: string): string {
+  effects.forEach((effect, i) => {
+    const filters = buildTextEffect(effect, ctx.width, ctx.height);
+    if (!filters) {
+      ctx.warnings.push(`Unknown text effect: ${effect.effectId}`);
+      return;
+    }
+    const outputLabel = `teff${i}`;
+    ctx.chains.push({ inputs: [label], filters, output: outputLabel });
+    label = outputLabel;
+  });
+  return label;
+}
+
+// The editor preview draws the same layout (effectPreviewLayers in
+// src/lib/effects/templates.ts) - keep the two in step
+function buildTextEffect(effect: TextEffect, width: number, height: number): Filter[] | null {
+  const startTime = effect.atTimeSec;
+  const endTime = startTime + effect.durationSec;
+  const enable = `enable='between(t,${startTime},${endTime})'`;
+
+  // Brand colors (defaults)
+  const primaryColor = "0x00f0ff"; // Electric blue
+  const textColor = "0xffffff";
+
+  const fontSize = Math.round(height * 0.04);
+  const headerSize = Math.round(height * 0.05);
+
+  const box = (x: number, y: number, w: number, h: number, color = primaryColor) =>
+    filter("drawbox", `x=${x}:y=${y}:w=${w}:h=${h}:color=${color}:t=fill:${enable}`);
+  const text = (value: string, size: number, color: string, x: string | number, y: number) =>
+    filter("drawtext", `text='${value}':fontsize=${size}:fontcolor=${color}:x=${x}:y=${y}:${enable}`);
+
+  switch (effect.effectId) {
+    case "lower-third-minimal": {
+      // Bottom-left text with underline
+      const y = height - Math.round(height * 0.2);
+      return [
+        box(80, y + 45, 300, 4),
+        text(escapeFFmpegText(effect.header || ""), headerSize, textColor, 80, y),
+        text(escapeFFmpegText(effect.body || ""), fontSize, `${textColor}@0.7`, 80, y + 60),
+      ];
+    }
+    case "slide-box-left":
+    case "slide-box-right": {
+      // Half-width box with centered text
+      const boxW = Math.round(width * 0.5);
+      const boxX = effect.effectId === "slide-box-left" ? 0 : width - boxW;
+      const centerX = boxX + boxW / 2;
+      return [
+        box(boxX, 0, boxW, height),
+        text(escapeFFmpegText(effect.header || ""), headerSize * 1.5, "0x000000", `${centerX}-text_w/2`, height / 2 - 60),
+        text(escapeFFmpegText(effect.body || ""), fontSize, "0x000000@0.8", `${centerX}-text_w/2`, height / 2 + 20),
+      ];
+    }
+    case "letterbox-with-text": {
+      // Top and bottom bars with text
+      const barH = Math.round(height * 0.12);
+      const topText = escapeFFmpegText(effect.topText || "");
+      const bottomText = escapeFFmpegText(effect.bottomText || "");
+      const filters = [box(0, 0, width, barH, "0x000000"), box(0, height - barH, width, barH, "0x000000")];
+      if (topText) filters.push(text(topText, fontSize, textColor, "(w-text_w)/2", barH / 2 - fontSize / 2));
+      if (bottomText) filters.push(text(bottomText, fontSize, textColor, "(w-text_w)/2", height - barH / 2 - fontSize / 2));
+      return filters;
+    }
+    case "corner-accents": {
+      // L-shaped corners
+      const size = 60;
+      const m = 40;
+      const t = 4;
+      return [
+        box(m, m, size, t),
+        box(m, m, t, size),
+        box(width - m - size, m, size, t),
+        box(width - m - t, m, t, size),
+        box(m, height - m - t, size, t),
+        box(m, height - m - size, t, size),
+        box(width - m - size, height - m - t, size, t),
+        box(width - m - t, height - m - size, t, size),
+      ];
+    }
+    case "border-glow": {
+      // Glowing border
+      const bT = 4;
+      const bM = 20;
+      return [
+        box(bM, bM, width - 2 * bM, bT),
+        box(bM, height - bM - bT, width - 2 * bM, bT),
+        box(bM, bM, bT, height - 2 * bM),
+        box(width - bM - bT, bM, bT, height - 2 * bM),
+      ];
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Text overlay filter for a scene
+ */
+function buildTextOverlay(scene: Scene, height: number, safe: Insets): Filter | null {
+  const overlays = scene.overlays;
+  if (!overlays?.text) return null;
+
+  // Position from XY coordinates (percentage-based)
+  const xPos = overlays.x !== undefined
+    ? `(w*${overlays.x / 100})-(text_w/2)`
+    : "(w-text_w)/2";
+  const yPos = overlays.y !== undefined
+    ? `(h*${overlays.y / 100})-(text_h/2)`
+    : `h-text_h-${Math.round(height * 0.15)}`;
+
+  const style = overlays.style || { color: "#FFFFFF", fontSize: 5, fontFamily: "Arial", duration: 0 };
+
+  let options = textStyleOptions(overlays.text, style, height) + textPosition(xPos, yPos, safe);
+  options += `:shadowcolor=black@0.7:shadowx=2:shadowy=2`;
+
+  // Duration control if specified
+  if (style.duration > 0) {
+    options += `:enable='lte(t,${style.duration})'`;
+  }
+
+  return filter("drawtext", options);
+}
+
+/**
+ * Text overlay filter for global text overlays (from the textOverlays array)
+ */
+function buildGlobalTextOverlay(overlay: TextOverlay, height: number, safe: Insets): Filter | null {
+  if (!overlay.text) return null;
+
+  // Keyframes are relative to the overlay's start; drawtext's t is timeline time
+  const animation = textKeyframes(overlay);
+  const x = propertyExpr(animation, "x", overlay.startTime) ?? overlay.x;
+  const y = propertyExpr(animation, "y", overlay.startTime) ?? overlay.y;
+  const xPos = `(w*(${x})/100)-(text_w/2)`;
+  const yPos = `(h*(${y})/100)-(text_h/2)`;
+
+  const scale = propertyExpr(animation, "scale", overlay.startTime);
+  let options = textStyleOptions(overlay.text, overlay.style, height, scale) + textPosition(xPos, yPos, safe);
+  options += `:shadowcolor=black@0.7:shadowx=2:shadowy=2`;
+
+  const opacity = propertyExpr(animation, "opacity", overlay.startTime);
+  if (opacity) {
+    options += `:alpha=${opacity}`;
+  }
+
+  // Enable based on start time and duration
+  if (overlay.duration > 0) {
+    options += `:enable='between(t,${overlay.startTime},${overlay.startTime + overlay.duration})'`;
+  } else if (overlay.startTime > 0) {
+    options += `:enable='gte(t,${overlay.startTime})'`;
+  }
+
+  return filter("drawtext", options);
+}
+
+function textStyleOptions(
+  text: string,
+  style: { color: string; fontSize: number },
+  height: number,
+  scaleExpr?: string | null
+): string {
+  // Convert hex color to FFmpeg format (remove # and add 0x)
+  const fontColor = style.color.startsWith("#") ? style.color.replace("#", "0x") : style.color;
+  // Font size based on video height (fontSize is 1-10 scale)
+  const fontSize = Math.round((style.fontSize / 10) * (height / 10));
+  // drawtext re-evaluates an expression font size every frame
+  const size = scaleExpr ? `${fontSize}*(${scaleExpr})` : fontSize;
+  return `text='${escapeFFmpegText(text)}':fontsize=${size}:fontcolor=${fontColor}`;
+}
+
+/**
+ * drawtext x/y, clamped so the text stays inside the safe area
+ * whatever the output aspect ratio
+ */
+function textPosition(xPos: string, yPos: string, safe: Insets): string {
+  const x = `max(${safe.left}\\,min(w-text_w-${safe.right}\\,${xPos}))`;
+  const y = `max(${safe.top}\\,min(h-text_h-${safe.bottom}\\,${yPos}))`;
+  return `:x=${x}:y=${y}`;
+}
+
+/**
+ * Logo position based on position name, inset by the safe margins
+ */
+function getLogoPosition(position: string, safe: Insets): { x: string; y: string } {
+  switch (position) {
+    case "top-left":
+      return { x: String(safe.left), y: String(safe.top) };
+    case "bottom-left":
+      return { x: String(safe.left), y: `H-h-${safe.bottom}` };
+    case "bottom-right":
+      return { x: `W-w-${safe.right}`, y: `H-h-${safe.bottom}` };
+    case "top-right":
+    default:
+      return { x: `W-w-${safe.right}`, y: String(safe.top) };
+  }
+}
+
+/**
+ * Escape text for FFmpeg drawtext filter
+ */
+function escapeFFmpegText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "'\\''")
+    .replace(/:/g, "\\:")
+    .replace(/\[/g, "\\[")
+    .replace(/\]/g, "\\]");
+}
+
+// ============================================
+// Audio
+// ============================================
+
+function getAudioInputs(ctx: CompileContext, timeline: TimelineV2): AudioInput[] {
+  const audioInputs: AudioInput[] = [];
+  for (const track of timeline.tracks.audio) {
+    if (track.muted) continue;
+    for (const clip of track.clips) {
+      const inputIdx = inputIndex(ctx, audioClipKey(clip));
+      if (inputIdx === undefined) {
+        ctx.warnings.push(`Audio clip "${clip.title || clip.id}" (${track.role}) not found in local assets`);
+        continue;
+      }
+      audioInputs.push({ clip, role: track.role, inputIdx, ducking: track.ducking });
+    }
+  }
+  return audioInputs;
+}
+
+/**
+ * Every audio clip: trim to its source range, loop if needed, set volume,
+ * delay to its start time, then mix everything. Music ducks under speech
+ * unless its track turns ducking off. Returns the mixed label.
+ */
+export function compileAudio(ctx: CompileContext, audioInputs: AudioInput[], totalDuration: number): string | null {
+  const prepared = audioInputs.map((input, i) => ({
+    ...input,
+    label: compileAudioClip(ctx, input, `${input.role}${i}`, totalDuration),
+  }));
+  if (prepared.length === 0) return null;
+
+  const speech = prepared.filter((a) => SPEECH_ROLES.includes(a.role));
+  const ducked =
+    speech.length > 0
+      ? prepared.filter((a) => a.role === "music" && { ...DEFAULT_DUCKING, ...a.ducking }.enabled)
+      : [];
+
+  if (ducked.length === 0) {
+    return mixDown(ctx, prepared.map((a) => a.label), "mix");
+  }
+
+  // One copy of the speech goes into the mix, one keys each ducked music clip
+  const speechLabel = mixDown(ctx, speech.map((a) => a.label), "speech");
+  const keys = ducked.map((_, i) => `duckkey${i}`);
+  ctx.chains.push({ inputs: [speechLabel], filters: [filter("asplit", keys.length + 1)], output: ["speechmix", ...keys] });
+
+  const duckedLabels = ducked.map((a, i) => {
+    const { thresholdDb, ratio, attackMs, releaseMs } = { ...DEFAULT_DUCKING, ...a.ducking };
+    // sidechaincompress stops at the end of either input: pad the key with
+    // silence so music carries on after the last line of speech
+    ctx.chains.push({ inputs: [keys[i]], filters: [filter("apad")], output: `${keys[i]}pad` });
+    const threshold = Number(Math.pow(10, thresholdDb / 20).toFixed(6));
+    ctx.chains.push({
+      inputs: [a.label, `${keys[i]}pad`],
+      filters: [
+        filter("sidechaincompress", `threshold=${threshold}:ratio=${ratio}:attack=${attackMs}:release=${releaseMs}`),
+      ],
+      output: `${a.label}ducked`,
+    });
+    return `${a.label}ducked`;
+  });
+
+  const rest = prepared.filter((a) => !speech.includes(a) && !ducked.includes(a)).map((a) => a.label);
+  return mixDown(ctx, ["speechmix", ...duckedLabels, ...rest], "mix");
+}
+
+function compileAudioClip(
+  ctx: CompileContext,
+  { clip, role, inputIdx }: AudioInput,
+  audioLabel: string,
+  totalDuration: number
+): string {
+  const filters: Filter[] = [];
+  let input = `${inputIdx}:a`;
+
+  // Looping music with a beat grid is rearranged on bar lines instead
+  const lengthSec = clip.durationSec ?? Math.max(0, totalDuration - clip.startSec);
+  const musicPlan = clip.loop && clip.beatGrid ? planMusicCover(clip.beatGrid, clip.inSec, lengthSec) : null;
+
+  if (musicPlan) {
+    input = compileMusicSegments(ctx, inputIdx, musicPlan, `${audioLabel}edit`);
+  } else {
+    if (clip.inSec > 0 || clip.durationSec) {
+      const end = clip.durationSec ? `:end=${clip.inSec + clip.durationSec}` : "";
+      filters.push(filter("atrim", `start=${clip.inSec}${end}`), filter("asetpts", "PTS-STARTPTS"));
+    } else if (clip.envelope) {
+      // Envelope times count from the clip's first sample
+      filters.push(filter("asetpts", "PTS-STARTPTS"));
+    }
+
+    if (clip.loop) {
+      filters.push(
+        filter("aloop", "loop=-1:size=2e+09"),
+        filter("atrim", `duration=${Math.max(0, totalDuration - clip.startSec)}`)
+      );
+    }
+  }
+
+  // Music volume levels from user: faint=0.1, low=0.2, medium=0.3, loud=0.5
+  // We boost music by 2x to compensate for amix reducing levels when mixed with voiceover
+  filters.push(filter("volume", role === "music" ? clip.volume * 2 : clip.volume));
+  filters.push(...envelopeFilters(clip, totalDuration));
+
+  if (clip.startSec > 0) {
+    // adelay takes milliseconds
+    const delayMs = Math.round(clip.startSec * 1000);
+    filters.push(filter("adelay", `${delayMs}|${delayMs}`));
+  }
+
+  ctx.chains.push({ inputs: [input], filters, output: audioLabel });
+  return audioLabel;
+}
+
+// Short enough to sound like a cut on the beat, long enough not to click
+const MUSIC_CROSSFADE_SEC = 0.05;
+
+/**
+ * Join source ranges of a music file with short crossfades. Each range is
+ * its own seeked input so nothing is buffered while waiting for a jump.
+ * The outgoing side runs on past its cut by the crossfade length, so the
+ * incoming downbeat lands exactly where the cut was.
+ */
+function compileMusicSegments(ctx: CompileContext, inputIdx: number, segments: MusicSegment[], label: string): string {
+  const source = ctx.inputs.inputs[inputIdx];
+
+  const parts = segments.map((segment, i) => {
+    const tail = i < segments.length - 1 ? MUSIC_CROSSFADE_SEC : 0;
+    const length = Number((segment.toSec - segment.fromSec + tail).toFixed(3));
+    ctx.inputs.inputs.push({
+      key: `${source.key}#${i}`,
+      path: source.path,
+      options: ["-ss", String(segment.fromSec), "-t", String(length)],
+    });
+    const part = `${label}${i}`;
+    ctx.chains.push({
+      inputs: [`${ctx.inputs.inputs.length - 1}:a`],
+      filters: [filter("asetpts", "PTS-STARTPTS")],
+      output: segments.length === 1 ? label : part,
+    });
+    return part;
+  });
+
+  let joined = parts[0];
+  for (let i = 1; i < parts.length; i++) {
+    const output = i === parts.length - 1 ? label : `${label}x${i}`;
+    ctx.chains.push({
+      inputs: [joined, parts[i]],
+      filters: [filter("acrossfade", `d=${MUSIC_CROSSFADE_SEC}:c1=qsin:c2=qsin`)],
+      output,
+    });
+    joined = output;
+  }
+  return label;
+}
+
+/**
+ * Gain keyframes as a per-frame volume expression, fades as afade. Both run
+ * before adelay, so t is clip-relative. A clip without a duration is faded
+ * out where the video ends.
+ */
+function envelopeFilters(clip: AudioClip, totalDuration: number): Filter[] {
+  const envelope = clip.envelope;
+  if (!envelope) return [];
+
+  const filters: Filter[] = [];
+  const keyframes = [...envelope.keyframes].sort((a, b) => a.t - b.t);
+  if (keyframes.length > 0) {
+    const expr = keyframeExpr(keyframes.map((k) => ({ t: k.t, v: k.gain })));
+    filters.push(filter("volume", `${expr}:eval=frame`));
+  }
+
+  const lengthSec = clip.durationSec ?? Math.max(0, totalDuration - clip.startSec);
+  const fadeIn = Math.min(envelope.fadeInSec, lengthSec);
+  const fadeOut = Math.min(envelope.fadeOutSec, lengthSec);
+  if (fadeIn > 0) {
+    filters.push(filter("afade", `t=in:st=0:d=${fadeIn}`));
+  }
+  if (fadeOut > 0) {
+    filters.push(filter("afade", `t=out:st=${Number((lengthSec - fadeOut).toFixed(3))}:d=${fadeOut}`));
+  }
+  return filters;
+}
+
+function mixDown(ctx: CompileContext, labels: string[], output: string): string {
+  if (labels.length === 1) {
+    ctx.chains.push({ inputs: labels, filters: [filter("acopy")], output });
+  } else {
+    // weights=1 for each input preserves original volumes; normalize=0 prevents auto-normalization
+    const weights = labels.map(() => "1").join(" ");
+    ctx.chains.push({
+      inputs: labels,
+      filters: [
+        filter("amix", `inputs=${labels.length}:duration=longest:dropout_transition=2:weights="${weights}":normalize=0`),
+      ],
+      output,
+    });
+  }
+  return output;
+}
+
+/**
+ * Normalize the mix to the export preset's loudness target.
+ * loudnorm resamples to 192kHz internally, so the output is brought back to 48kHz.
+ */
+export function compileLoudness(
+  ctx: CompileContext,
+  timeline: TimelineV2,
+  mixLabel: string,
+  measured?: LoudnormMeasurement
+): string {
+  const target = loudnessTarget(timeline);
+  if (!target) return mixLabel;
+
+  let options = `I=${target.integratedLufs}:TP=${target.truePeakDb}:LRA=${target.lra}`;
+  if (measured && isUsableMeasurement(measured)) {
+    // loudnorm falls back to dynamic mode by itself when a linear gain
+    // would push the true peak over the target
+    const { input, targetOffset } = measured;
+    options +=
+      `:measured_I=${input.integratedLufs}:measured_TP=${input.truePeakDb}` +
+      `:measured_LRA=${input.lra}:measured_thresh=${input.thresholdLufs}` +
+      `:offset=${targetOffset}:linear=true`;
+  } else if (measured) {
+    ctx.warnings.push("Loudness measurement unusable (silent mix?), normalizing in single-pass mode");
+  }
+
+  ctx.chains.push({
+    inputs: [mixLabel],
+    filters: [filter("loudnorm", `${options}:print_format=json`), filter("aresample", 48000)],
+    output: "aout",
+  });
+  return "aout";
+}
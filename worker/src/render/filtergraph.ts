@@ -0,0 +1,141 @@
+// Typed FFmpeg filtergraph IR
+//
+// The compiler (compileTimeline.ts) produces a RenderGraph; the functions
+// here turn it into the -filter_complex string and the full argument list.
+
+// One filter invocation, e.g. { name: "scale", options: "1920:1080" }
+export interface Filter {
+  name: string;
+  options?: string;
+}
+
+// A linear chain of filters between labelled pads: [in0][in1]f1,f2[out]
+export interface FilterChain {
+  inputs: string[]; // Pad labels or input streams ("3:v")
+  filters: Filter[];
+  output: string | string[]; // Several labels for multi-output filters (asplit)
+}
+
+export interface GraphInput {
+  key: string; // Asset key the file was found under
+  path: string;
+  options: string[]; // Options placed before -i
+}
+
+export interface OutputSettings {
+  codec: string;
+  bitrateMbps: number;
+  crf?: number;
+  audioKbps: number;
+  preset?: string; // x264/x265 speed preset, "medium" by default
+}
+
+export interface RenderGraph {
+  inputs: GraphInput[];
+  chains: FilterChain[];
+  videoOut: string;
+  audioOut: string | null;
+  subtitleOut: string | null; // Input stream muxed as a mov_text track ("5:s")
+  durationSec: number; // Planned output duration (before the safety margin)
+  warnings: string[];
+}
+
+/**
+ * Shorthand for building a Filter
+ */
+export function filter(name: string, options?: string | number): Filter {
+  return options === undefined ? { name } : { name, options: String(options) };
+}
+
+/**
+ * Serialize a single chain to filtergraph syntax
+ */
+export function serializeChain(chain: FilterChain): string {
+  const inputs = chain.inputs.map((label) => `[${label}]`).join("");
+  const filters = chain.filters
+    .map((f) => (f.options !== undefined ? `${f.name}=${f.options}` : f.name))
+    .join(",");
+  const outputs = [chain.output].flat().map((label) => `[${label}]`).join("");
+  return `${inputs}${filters}${outputs}`;
+}
+
+/**
+ * The chains a label depends on, in graph order
+ * (chains are emitted so every label is produced before it is consumed)
+ */
+export function chainsFeeding(graph: RenderGraph, label: string): FilterChain[] {
+  const needed = new Set([label]);
+  const feeding = new Set<FilterChain>();
+  for (const chain of [...graph.chains].reverse()) {
+    if ([chain.output].flat().some((output) => needed.has(output))) {
+      feeding.add(chain);
+      chain.inputs.forEach((input) => needed.add(input));
+    }
+  }
+  return graph.chains.filter((chain) => feeding.has(chain));
+}
+
+/**
+ * Serialize the whole graph to a -filter_complex value
+ */
+export function serializeFiltergraph(graph: RenderGraph): string {
+  return graph.chains.map(serializeChain).join(";");
+}
+
+/**
+ * Turn a compiled graph into FFmpeg arguments
+ */
+export function graphToArgs(
+  graph: RenderGraph,
+  output: OutputSettings,
+  outputPath: string
+): string[] {
+  const args: string[] = ["-y"]; // Overwrite output
+
+  for (const input of graph.inputs) {
+    args.push(...input.options, "-i", input.path);
+  }
+
+  args.push("-filter_complex", serializeFiltergraph(graph));
+
+  args.push("-map", `[${graph.videoOut}]`);
+  if (graph.audioOut) {
+    args.push("-map", `[${graph.audioOut}]`);
+  }
+
+  // Output settings
+  const codec = output.codec === "h265" ? "libx265" : "libx264";
+  args.push("-c:v", codec);
+
+  if (output.crf !== undefined) {
+    args.push("-crf", String(output.crf));
+  } else {
+    args.push("-b:v", `${output.bitrateMbps}M`);
+  }
+
+  args.push("-preset", output.preset ?? "medium");
+  if (graph.audioOut) {
+    args.push("-c:a", "aac");
+    args.push("-b:a", `${output.audioKbps}k`);
+  }
+
+  // Suppress subtitle and data streams that might cause visual artifacts,
+  // except our own caption track when one was requested
+  if (graph.subtitleOut) {
+    args.push("-map", graph.subtitleOut);
+    args.push("-c:s", "mov_text");
+  } else {
+    args.push("-sn"); // No subtitles
+  }
+  args.push("-dn"); // No data streams
+
+  args.push("-movflags", "+faststart");
+  args.push("-pix_fmt", "yuv420p");
+
+  // Limit output duration - durationSec already accounts for intro offset
+  args.push("-t", String(graph.durationSec + 0.5));
+
+  args.push(outputPath);
+
+  return args;
+}
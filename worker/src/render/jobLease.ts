@@ -0,0 +1,94 @@
+import { config } from "../config";
+import {
+  RenderJob,
+  claimRenderJob,
+  getStaleJobs,
+  releaseRenderJob,
+  renewJobLease,
+  updateJobProgress,
+  updateProjectOutput,
+} from "../db";
+import { createRenderLog } from "./renderLog";
+import { retryDelaySec } from "./retryPolicy";
+
+// Render job leases
+//
+// A worker claims a queued job by moving it to running with a lease (owner
+// and expiry), which it renews on a heartbeat while it renders. If the
+// worker dies, the lease runs out and recoverStaleJobs() puts the job back
+// in the queue with backoff (or fails it after config.renderMaxAttempts),
+// instead of it sitting in running forever. A worker that finds its lease
+// gone (recovered, or the job cancelled) stops like on a cancellation.
+
+// Jobs from before leases existed: stale once untouched for this long
+const LEGACY_STALE_SEC = 30 * 60;
+
+export class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost the lease on render job ${jobId}`);
+    this.name = "LeaseLostError";
+  }
+}
+
+export interface JobLease {
+  job: RenderJob; // As claimed; attempts counts this attempt
+  signal: AbortSignal; // Aborts if the lease is lost
+  stop(): void;
+}
+
+/**
+ * Claim a job for this worker and keep its lease alive until stop().
+ * Null when the job isn't queued, isn't due yet, or another worker has it.
+ */
+export async function claimJob(jobId: string): Promise<JobLease | null> {
+  const job = await claimRenderJob(jobId, config.workerId, config.jobLeaseSec);
+  if (!job) return null;
+
+  const controller = new AbortController();
+  const heartbeat = setInterval(async () => {
+    const held = await renewJobLease(jobId, config.workerId, config.jobLeaseSec);
+    if (!held && !controller.signal.aborted) {
+      console.warn(`[Lease] Lost the lease on job ${jobId}, stopping`);
+      controller.abort(new LeaseLostError(jobId));
+    }
+  }, (config.jobLeaseSec * 1000) / 4);
+
+  return {
+    job,
+    signal: controller.signal,
+    stop: () => clearInterval(heartbeat),
+  };
+}
+
+/**
+ * Requeue (or fail, when out of attempts) running jobs whose lease expired
+ */
+export async function recoverStaleJobs(): Promise<void> {
+  for (const job of await getStaleJobs(LEGACY_STALE_SEC)) {
+    const holder = { leaseExpiresAt: job.lease_expires_at };
+    const who = job.lease_owner ? ` (worker ${job.lease_owner})` : "";
+    const log = createRenderLog(job.id, job.attempts);
+
+    if (job.attempts < config.renderMaxAttempts) {
+      const delaySec = retryDelaySec(Math.max(job.attempts, 1));
+      const reason = `Worker stopped responding${who}; retrying`;
+      if (await releaseRenderJob(job.id, holder, delaySec, reason)) {
+        console.warn(`[Lease] Recovered stale job ${job.id}${who}, retrying in ${delaySec}s`);
+        await updateJobProgress(job.id, job.progress, `Worker stopped responding, retrying in ${delaySec}s`);
+        log.warn("lease", `${reason} in ${delaySec}s`, { leaseExpiresAt: job.lease_expires_at, retryInSec: delaySec });
+        await log.flush();
+      }
+      continue;
+    }
+
+    const reason = `Worker stopped responding${who} after ${job.attempts} attempts`;
+    if (await releaseRenderJob(job.id, holder, null, reason)) {
+      console.warn(`[Lease] Failed stale job ${job.id}: ${reason}`);
+      log.error("lease", reason, { leaseExpiresAt: job.lease_expires_at });
+      await log.flush();
+      if (job.draft_height === null) {
+        await updateProjectOutput(job.project_id, "failed");
+      }
+    }
+  }
+}
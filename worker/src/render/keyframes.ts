@@ -0,0 +1,142 @@
+import { AnimatableProperty, AnimationPreset, Easing, Keyframe, KeyframeAnimation, Scene, TextOverlay } from "../db";
+
+// Keyframe animation -> FFmpeg expressions
+//
+// Scene presets and text animations are named templates (mirrors
+// src/lib/timeline/v1.ts); explicit keyframes win over them. Each animated
+// property compiles to one expression in a time variable, eased between
+// keyframes and held before the first and after the last.
+
+const ANIMATABLE_PROPERTIES: AnimatableProperty[] = ["x", "y", "scale", "rotation", "opacity"];
+
+// Value of a property that has no keyframes
+export const DEFAULT_PROPERTY_VALUES: Record<AnimatableProperty, number> = {
+  x: 50,
+  y: 50,
+  scale: 1,
+  rotation: 0,
+  opacity: 1,
+};
+
+// A keyframe in expression time: v at t, eased into the next one
+export interface ExprKey {
+  t: number;
+  v: number;
+  easing?: Easing;
+}
+
+function key(t: number, value: number, easing: Easing = "linear"): Keyframe {
+  return { t, value, easing };
+}
+
+/**
+ * A scene animation preset as a keyframe template, stretched over the scene
+ */
+export function animationTemplate(preset: AnimationPreset, durationSec: number): KeyframeAnimation {
+  const end = Math.max(0.1, durationSec);
+  switch (preset) {
+    case "subtle_zoom":
+      return { scale: [key(0, 1), key(end, 1.1)] };
+    case "pan_left":
+      return { scale: [key(0, 1.15)], x: [key(0, 56), key(end, 44)] };
+    case "pan_right":
+      return { scale: [key(0, 1.15)], x: [key(0, 44), key(end, 56)] };
+    case "punch_in":
+      return { scale: [key(0, 1, "ease_out"), key(Math.min(0.3, end), 1.2)] };
+    default:
+      return {};
+  }
+}
+
+/**
+ * A text overlay animation as a keyframe template (typewriter has none)
+ */
+export function textAnimationTemplate(overlay: Pick<TextOverlay, "animation" | "y">): KeyframeAnimation {
+  switch (overlay.animation) {
+    case "fade_in":
+      return { opacity: [key(0, 0), key(0.5, 1)] };
+    case "slide_up":
+      return {
+        y: [key(0, overlay.y + 5, "ease_out"), key(0.5, overlay.y)],
+        opacity: [key(0, 0), key(0.3, 1)],
+      };
+    default:
+      return {};
+  }
+}
+
+export function hasKeyframes(animation: KeyframeAnimation | undefined): animation is KeyframeAnimation {
+  return !!animation && ANIMATABLE_PROPERTIES.some((property) => (animation[property]?.length ?? 0) > 0);
+}
+
+/**
+ * A scene's keyframes: its own, or its preset's template
+ */
+export function sceneKeyframes(scene: Pick<Scene, "animation" | "keyframes" | "durationSec">): KeyframeAnimation {
+  if (hasKeyframes(scene.keyframes)) return scene.keyframes;
+  return animationTemplate(scene.animation ?? "none", scene.durationSec);
+}
+
+/**
+ * A text overlay's keyframes: its own, or its animation's template
+ */
+export function textKeyframes(overlay: TextOverlay): KeyframeAnimation {
+  if (hasKeyframes(overlay.keyframes)) return overlay.keyframes;
+  return textAnimationTemplate(overlay);
+}
+
+/**
+ * One property as an expression, with keyframe times moved by shiftSec into
+ * the filter's clock. Null when the property is not animated.
+ */
+export function propertyExpr(
+  animation: KeyframeAnimation,
+  property: AnimatableProperty,
+  shiftSec = 0,
+  timeVar = "t"
+): string | null {
+  const keys = animation[property];
+  if (!keys?.length) return null;
+  return keyframeExpr(
+    keys.map((k) => ({ t: Number((k.t + shiftSec).toFixed(3)), v: k.value, easing: k.easing })),
+    timeVar
+  );
+}
+
+/**
+ * Eased interpolation between keyframes as an expression in timeVar.
+ * Built from the last keyframe backwards:
+ * if(lt(T,t1), ease(k0,k1), if(lt(T,t2), ease(k1,k2), ... k_last))
+ */
+export function keyframeExpr(keys: ExprKey[], timeVar = "t"): string {
+  const sorted = [...keys].sort((a, b) => a.t - b.t);
+  if (sorted.length === 1) return String(sorted[0].v);
+  let expr = String(sorted[sorted.length - 1].v);
+  for (let i = sorted.length - 2; i >= 0; i--) {
+    const a = sorted[i];
+    const b = sorted[i + 1];
+    const span = b.t - a.t;
+    if (span <= 0) continue;
+    const progress = `((${timeVar}-(${a.t}))/${span.toFixed(3)})`;
+    const segment =
+      a.easing === "hold" || a.v === b.v
+        ? String(a.v)
+        : `${a.v}+(${(b.v - a.v).toFixed(4)})*${easeExpr(a.easing ?? "linear", progress)}`;
+    expr = `if(lt(${timeVar}\\,${b.t})\\,${segment}\\,${expr})`;
+  }
+  // Before the first keyframe hold its value
+  return `if(lt(${timeVar}\\,${sorted[0].t})\\,${sorted[0].v}\\,${expr})`;
+}
+
+function easeExpr(easing: Easing, p: string): string {
+  switch (easing) {
+    case "ease_in":
+      return `${p}*${p}`;
+    case "ease_out":
+      return `${p}*(2-${p})`;
+    case "ease_in_out":
+      return `${p}*${p}*(3-2*${p})`;
+    default:
+      return p;
+  }
+}
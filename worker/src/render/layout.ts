@@ -0,0 +1,103 @@
+import { AspectRatio } from "../db";
+import { TimelineV2 } from "../timeline/v2";
+
+// Output frame geometry for one rendition
+//
+// A timeline is authored at one resolution; multi-format renders compile the
+// same timeline into other frames. Pixel values in the timeline (logo size,
+// safe margins, source-size overlays) are scaled by the ratio of short sides,
+// so a 1080x1920 rendition of a 1920x1080 project keeps them unchanged.
+
+export interface Insets {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface FrameLayout {
+  aspectRatio: AspectRatio;
+  width: number;
+  height: number;
+  scale: number; // Output short side / authored short side
+  safe: Insets; // brand.safeMargins in output pixels
+  watermark?: string; // Burned in across the whole frame (draft renders)
+}
+
+const DEFAULT_SAFE_MARGIN = 50;
+
+/**
+ * Frame size for an aspect ratio, keeping the authored short side
+ * (1080p stays 1080p, 4K stays 2160)
+ */
+export function frameSize(
+  authored: { width: number; height: number },
+  aspectRatio: AspectRatio
+): { width: number; height: number } {
+  const short = Math.min(authored.width, authored.height);
+  const long = even((short * 16) / 9);
+  switch (aspectRatio) {
+    case "landscape":
+      return { width: long, height: even(short) };
+    case "vertical":
+      return { width: even(short), height: long };
+    case "square":
+      return { width: even(short), height: even(short) };
+  }
+}
+
+/**
+ * Layout for rendering the timeline in the given aspect ratio
+ * (defaults to the project's own)
+ */
+export function frameLayout(timeline: TimelineV2, aspectRatio?: AspectRatio): FrameLayout {
+  const authored = timeline.project.resolution;
+  const ratio = aspectRatio || timeline.project.aspectRatio;
+  // The project's own format renders at exactly the authored resolution
+  const { width, height } =
+    ratio === timeline.project.aspectRatio ? authored : frameSize(authored, ratio);
+
+  const scale = Math.min(width, height) / Math.min(authored.width, authored.height);
+  const margins = timeline.global.brand.safeMargins;
+  const inset = (value: number | undefined) => Math.round((value ?? DEFAULT_SAFE_MARGIN) * scale);
+
+  return {
+    aspectRatio: ratio,
+    width,
+    height,
+    scale,
+    safe: {
+      top: inset(margins?.top),
+      bottom: inset(margins?.bottom),
+      left: inset(margins?.left),
+      right: inset(margins?.right),
+    },
+  };
+}
+
+/**
+ * The same layout shrunk to a short side of shortSide pixels (360p/480p
+ * drafts), watermarked so it can't pass for the real thing
+ */
+export function draftLayout(layout: FrameLayout, shortSide: number): FrameLayout {
+  const factor = Math.min(1, shortSide / Math.min(layout.width, layout.height));
+  const { safe } = layout;
+  return {
+    ...layout,
+    width: even(layout.width * factor),
+    height: even(layout.height * factor),
+    scale: layout.scale * factor,
+    safe: {
+      top: Math.round(safe.top * factor),
+      bottom: Math.round(safe.bottom * factor),
+      left: Math.round(safe.left * factor),
+      right: Math.round(safe.right * factor),
+    },
+    watermark: "DRAFT",
+  };
+}
+
+// libx264 with yuv420p needs even dimensions
+function even(value: number): number {
+  return Math.round(value / 2) * 2;
+}
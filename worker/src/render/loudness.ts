@@ -0,0 +1,164 @@
+import { spawn } from "child_process";
+import { config } from "../config";
+import { LoudnessPreset, LoudnessStats } from "../db";
+import { TimelineV2 } from "../timeline/v2";
+import { RenderGraph, chainsFeeding, serializeChain } from "./filtergraph";
+
+// Two-pass EBU R128 loudness normalization
+//
+// Pass 1 runs the audio part of the render graph into a null muxer and reads
+// loudnorm's measurements of the mix. Pass 2 is the real render, compiled
+// with those measurements so loudnorm can apply a single linear gain instead
+// of riding the level dynamically.
+
+export interface LoudnessTarget {
+  integratedLufs: number;
+  truePeakDb: number;
+  lra: number;
+}
+
+export const LOUDNESS_TARGETS: Record<Exclude<LoudnessPreset, "off">, LoudnessTarget> = {
+  social: { integratedLufs: -14, truePeakDb: -1, lra: 11 },
+  broadcast: { integratedLufs: -23, truePeakDb: -1, lra: 15 },
+};
+
+// What loudnorm prints with print_format=json
+export interface LoudnormMeasurement {
+  input: LoudnessStats;
+  output: LoudnessStats;
+  targetOffset: number;
+}
+
+export function loudnessPreset(timeline: TimelineV2): LoudnessPreset {
+  return timeline.global.export.loudnessPreset || "social";
+}
+
+/**
+ * Target for the timeline's export preset, or null when normalization is off
+ */
+export function loudnessTarget(timeline: TimelineV2): LoudnessTarget | null {
+  const preset = loudnessPreset(timeline);
+  return preset === "off" ? null : LOUDNESS_TARGETS[preset];
+}
+
+/**
+ * Pass 1: measure the graph's audio mix
+ *
+ * The graph should be compiled without a measurement, so its audio ends in
+ * a single-pass loudnorm (or in the plain mix when normalization is off).
+ */
+export function measureLoudness(
+  graph: RenderGraph,
+  timeoutMs = 600000,
+  signal?: AbortSignal
+): Promise<LoudnormMeasurement> {
+  return new Promise((resolve, reject) => {
+    if (!graph.audioOut) {
+      reject(new Error("Render graph has no audio to measure"));
+      return;
+    }
+
+    const chains = chainsFeeding(graph, graph.audioOut).map(serializeChain);
+    let measuredLabel = graph.audioOut;
+    const hasLoudnorm = graph.chains.some((chain) => chain.filters.some((f) => f.name === "loudnorm"));
+    if (!hasLoudnorm) {
+      chains.push(`[${graph.audioOut}]loudnorm=print_format=json[ameasure]`);
+      measuredLabel = "ameasure";
+    }
+
+    const args: string[] = [];
+    for (const input of graph.inputs) {
+      args.push(...input.options, "-i", input.path);
+    }
+    args.push(
+      "-filter_complex", chains.join(";"),
+      "-map", `[${measuredLabel}]`,
+      "-t", String(graph.durationSec + 0.5),
+      "-f", "null",
+      "-"
+    );
+
+    console.log(`[Loudness] Measuring mix: ${chains.length} audio chains`);
+
+    const ffmpeg = spawn(config.ffmpegPath, args, { signal });
+    let stderr = "";
+    ffmpeg.stderr.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    const timer = setTimeout(() => {
+      ffmpeg.kill();
+      reject(new Error("Loudness measurement timed out"));
+    }, timeoutMs);
+
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timer);
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      if (code !== 0) {
+        reject(new Error(`Loudness measurement failed with code ${code}: ${stderr.slice(-500)}`));
+        return;
+      }
+      const measurement = parseLoudnormOutput(stderr);
+      if (!measurement) {
+        reject(new Error("Loudness measurement produced no loudnorm summary"));
+        return;
+      }
+      resolve(measurement);
+    });
+
+    ffmpeg.on("error", (err) => {
+      clearTimeout(timer);
+      reject(signal?.aborted ? signal.reason : new Error(`FFmpeg failed: ${err.message}`));
+    });
+  });
+}
+
+/**
+ * Read the last loudnorm JSON summary from FFmpeg's stderr
+ */
+export function parseLoudnormOutput(stderr: string): LoudnormMeasurement | null {
+  const blocks = stderr.match(/\{\s*"input_i"[^}]*\}/g);
+  if (!blocks) return null;
+
+  let json: Record<string, string>;
+  try {
+    json = JSON.parse(blocks[blocks.length - 1]);
+  } catch {
+    return null;
+  }
+
+  // Silence measures as "-inf"
+  const value = (key: string) => {
+    const parsed = parseFloat(json[key]);
+    return Number.isFinite(parsed) ? parsed : -Infinity;
+  };
+
+  return {
+    input: {
+      integratedLufs: value("input_i"),
+      truePeakDb: value("input_tp"),
+      lra: value("input_lra"),
+      thresholdLufs: value("input_thresh"),
+    },
+    output: {
+      integratedLufs: value("output_i"),
+      truePeakDb: value("output_tp"),
+      lra: value("output_lra"),
+      thresholdLufs: value("output_thresh"),
+    },
+    targetOffset: value("target_offset"),
+  };
+}
+
+/**
+ * Linear normalization needs a finite measurement; silent mixes don't have one
+ */
+export function isUsableMeasurement(measurement: LoudnormMeasurement): boolean {
+  const { input, targetOffset } = measurement;
+  return [input.integratedLufs, input.truePeakDb, input.lra, input.thresholdLufs, targetOffset].every(
+    Number.isFinite
+  );
+}
@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { MusicBeatGrid, MusicTrack, getMusicTrack, updateMusicBeats } from "../db";
+import { cleanupDir } from "../storage";
+import { fetchCachedAsset } from "../assetCache";
+import { TimelineV2, audioClipKey } from "../timeline/v2";
+import { analyzeBeats } from "../utils/beatAnalysis";
+
+// Beat grids for looping music clips, so the compiler can rearrange the
+// track on bar lines (musicEdit.ts) instead of looping it blindly.
+//
+// Grids for library tracks are cached on the music row; the user's own
+// audio is analysed per render.
+
+/**
+ * Attach a beat grid to every looping music clip. Analysis failures leave
+ * the clip without one, which falls back to a plain loop.
+ */
+export async function applyMusicBeats(timeline: TimelineV2, localAssets: Map<string, string>): Promise<void> {
+  const gridsByKey = new Map<string, Promise<MusicBeatGrid | undefined>>();
+
+  for (const track of timeline.tracks.audio) {
+    if (track.role !== "music" || track.muted) continue;
+    for (const clip of track.clips) {
+      if (!clip.loop || clip.beatGrid) continue;
+
+      const key = audioClipKey(clip);
+      const localPath = key ? localAssets.get(key) : undefined;
+      if (!key || !localPath) continue;
+
+      if (!gridsByKey.has(key)) {
+        gridsByKey.set(key, loadOrAnalyze(clip.assetId, localPath));
+      }
+      const grid = await gridsByKey.get(key);
+      if (grid) clip.beatGrid = grid;
+    }
+  }
+}
+
+/**
+ * Download and analyse a library track (e.g. right after it is uploaded)
+ */
+export async function analyzeMusicById(musicId: string): Promise<MusicBeatGrid> {
+  const track = await getMusicTrack(musicId);
+  if (!track) throw new Error(`Music track ${musicId} not found`);
+
+  const workDir = path.join(config.tempDir, `music-${musicId}`);
+  fs.mkdirSync(workDir, { recursive: true });
+  try {
+    const localPath = path.join(workDir, `track${path.extname(new URL(track.audio_url).pathname) || ".mp3"}`);
+    await fetchCachedAsset(track.audio_url, localPath);
+    return await analyzeMusicTrack(track, localPath);
+  } finally {
+    cleanupDir(workDir);
+  }
+}
+
+async function analyzeMusicTrack(track: MusicTrack, localPath: string): Promise<MusicBeatGrid> {
+  const grid = await analyzeBeats(localPath);
+  await updateMusicBeats(track.id, grid);
+  return grid;
+}
+
+async function loadOrAnalyze(assetId: string | null, localPath: string): Promise<MusicBeatGrid | undefined> {
+  const track = assetId ? await getMusicTrack(assetId) : null;
+  if (track?.downbeats?.length && track.beats?.length && track.bpm) {
+    console.log(`[Beats] Using cached grid for "${track.title}"`);
+    return {
+      bpm: track.bpm,
+      beats: track.beats,
+      downbeats: track.downbeats,
+      durationSec: Number(track.duration_seconds),
+    };
+  }
+
+  try {
+    return track ? await analyzeMusicTrack(track, localPath) : await analyzeBeats(localPath);
+  } catch (error) {
+    console.warn(`[Beats] Analysis failed for ${assetId || localPath}, looping without a grid:`, error);
+    return undefined;
+  }
+}
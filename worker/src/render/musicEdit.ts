@@ -0,0 +1,123 @@
+import { MusicBeatGrid } from "../db";
+import { BARS_PER_PHRASE } from "../utils/beatAnalysis";
+
+// Beat-aware music editing: cover a timeline of any length with one track
+//
+// Instead of looping the file end-to-start and cutting it off wherever the
+// video ends, the track is rearranged on bar lines. Short tracks jump back
+// a whole number of phrases (then bars) before their final section; long
+// tracks skip forward into it. Either way the song's own ending lands at
+// (or just before) the end of the video.
+
+// A piece of the source, in source seconds
+export interface MusicSegment {
+  fromSec: number;
+  toSec: number;
+}
+
+// Fewer bars than this and there is nothing sensible to rearrange
+const MIN_BARS = 8;
+
+/**
+ * Source ranges that, played back to back, last at most targetSec and end
+ * on the track's ending. Every join is between two downbeats. Returns null
+ * when the grid is too sparse to edit musically.
+ */
+export function planMusicCover(grid: MusicBeatGrid, inSec: number, targetSec: number): MusicSegment[] | null {
+  const sourceEnd = grid.durationSec;
+  const downbeats = grid.downbeats.filter((t) => t >= inSec && t < sourceEnd);
+  if (downbeats.length < MIN_BARS || targetSec <= 0) return null;
+
+  const available = sourceEnd - inSec;
+  if (Math.abs(available - targetSec) < 0.05) {
+    return [{ fromSec: inSec, toSec: sourceEnd }];
+  }
+
+  // Phrase starts, counted from the first bar after inSec
+  const phrases = downbeats.filter((_, i) => i % BARS_PER_PHRASE === 0);
+
+  const segments =
+    available < targetSec
+      ? extend(downbeats, phrases, inSec, sourceEnd, targetSec)
+      : shorten(downbeats, phrases, inSec, sourceEnd, targetSec);
+  return segments && mergeContiguous(segments);
+}
+
+/**
+ * Loop the middle of the track: play to the start of the last phrase, jump
+ * back to the second phrase as often as fits, then back a few more bars to
+ * fill the rest before playing out the ending
+ */
+function extend(
+  downbeats: number[],
+  phrases: number[],
+  inSec: number,
+  sourceEnd: number,
+  targetSec: number
+): MusicSegment[] | null {
+  const loopStart = phrases.length > 2 ? phrases[1] : phrases[0];
+  const loopEnd = phrases[phrases.length - 1];
+  const loopEndIndex = downbeats.indexOf(loopEnd);
+  const loopStartIndex = downbeats.indexOf(loopStart);
+  if (loopEndIndex - loopStartIndex < BARS_PER_PHRASE) return null;
+
+  const body = loopEnd - loopStart;
+  const extra = targetSec - (sourceEnd - inSec);
+  const repeats = Math.floor(extra / body);
+
+  // The remainder is filled by jumping back whole bars, measured on the grid
+  const remainder = extra - repeats * body;
+  let jumpIndex = loopEndIndex;
+  while (jumpIndex > loopStartIndex && loopEnd - downbeats[jumpIndex - 1] <= remainder) {
+    jumpIndex--;
+  }
+
+  const segments: MusicSegment[] = [{ fromSec: inSec, toSec: loopEnd }];
+  for (let i = 0; i < repeats; i++) {
+    segments.push({ fromSec: loopStart, toSec: loopEnd });
+  }
+  segments.push({ fromSec: downbeats[jumpIndex], toSec: sourceEnd });
+  return segments;
+}
+
+/**
+ * Keep the opening and the last phrase, dropping whole bars in between
+ */
+function shorten(
+  downbeats: number[],
+  phrases: number[],
+  inSec: number,
+  sourceEnd: number,
+  targetSec: number
+): MusicSegment[] {
+  const ending = phrases[phrases.length - 1];
+  if (sourceEnd - ending > targetSec) {
+    // Even the last phrase is too long: play out the end of the track
+    const start = downbeats.find((t) => sourceEnd - t <= targetSec) ?? sourceEnd - targetSec;
+    return [{ fromSec: start, toSec: sourceEnd }];
+  }
+
+  const headRoom = targetSec - (sourceEnd - ending);
+  const cut = [...downbeats].reverse().find((t) => t > inSec && t - inSec <= headRoom);
+  if (cut === undefined) {
+    const start = downbeats.find((t) => sourceEnd - t <= targetSec) ?? ending;
+    return [{ fromSec: start, toSec: sourceEnd }];
+  }
+  return [
+    { fromSec: inSec, toSec: cut },
+    { fromSec: ending, toSec: sourceEnd },
+  ];
+}
+
+function mergeContiguous(segments: MusicSegment[]): MusicSegment[] {
+  const merged: MusicSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && Math.abs(last.toSec - segment.fromSec) < 0.001) {
+      last.toSec = segment.toSec;
+    } else if (segment.toSec > segment.fromSec) {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,301 @@
+import { spawn } from "child_process";
+import { config } from "../config";
+import { MediaAsset, getAssets } from "../db";
+import { TimelineV2, audioClipKey, getVisibleVideoTracks, videoClipKey } from "../timeline/v2";
+
+// Pre-flight media validation
+//
+// ffprobes every file a timeline uses and checks it against how the timeline
+// uses it, so bad inputs are reported as a list of problems instead of a
+// cryptic FFmpeg failure halfway through a render. Errors stop the render;
+// warnings are logged and the render goes ahead. The same check runs on
+// remote URLs (ffprobe reads just the headers) for the editor's pre-render
+// check.
+
+export type PreflightSeverity = "error" | "warning";
+
+export type PreflightCode =
+  | "probe_failed"
+  | "missing_video"
+  | "missing_audio"
+  | "unsupported_codec"
+  | "in_point_past_end"
+  | "out_point_past_end"
+  | "odd_rotation"
+  | "variable_frame_rate"
+  | "sample_rate_mismatch";
+
+export interface PreflightProblem {
+  severity: PreflightSeverity;
+  code: PreflightCode;
+  clipId: string | null; // null for problems across clips
+  assetKey: string | null;
+  message: string;
+}
+
+export interface PreflightReport {
+  ok: boolean; // No errors (warnings allowed)
+  problems: PreflightProblem[];
+}
+
+export class PreflightError extends Error {
+  constructor(public readonly report: PreflightReport) {
+    const errors = report.problems.filter((p) => p.severity === "error");
+    super(`Media check failed: ${errors.map((p) => p.message).join("; ")}`);
+    this.name = "PreflightError";
+  }
+}
+
+// What we need from ffprobe's JSON
+export interface MediaProbe {
+  durationSec: number | null;
+  video: {
+    codec: string | null;
+    rotation: number;
+    realFps: number | null; // r_frame_rate
+    avgFps: number | null; // avg_frame_rate
+  } | null;
+  audio: {
+    codec: string | null;
+    sampleRate: number | null;
+  } | null;
+}
+
+const PROBE_TIMEOUT_MS = 30000;
+// How far past a source's end an out point may be before it matters
+const DURATION_TOLERANCE_SEC = 0.1;
+// Average frame rate this far off the nominal one means a VFR source
+const VFR_TOLERANCE = 0.02;
+
+/**
+ * Probe a local file or URL
+ */
+export function probeMedia(source: string): Promise<MediaProbe> {
+  return new Promise((resolve, reject) => {
+    const args = ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", source];
+    const ffprobe = spawn(config.ffprobePath, args);
+
+    let stdout = "";
+    let stderr = "";
+    const timer = setTimeout(() => {
+      ffprobe.kill("SIGKILL");
+      reject(new Error("ffprobe timed out"));
+    }, PROBE_TIMEOUT_MS);
+
+    ffprobe.stdout.on("data", (data: Buffer) => (stdout += data.toString()));
+    ffprobe.stderr.on("data", (data: Buffer) => (stderr += data.toString()));
+
+    ffprobe.on("close", (code) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        reject(new Error(stderr.trim().split("\n").pop() || `ffprobe exited with code ${code}`));
+        return;
+      }
+      try {
+        resolve(parseProbe(JSON.parse(stdout)));
+      } catch (error) {
+        reject(error);
+      }
+    });
+
+    ffprobe.on("error", (err) => {
+      clearTimeout(timer);
+      reject(new Error(`ffprobe failed: ${err.message}`));
+    });
+  });
+}
+
+interface FfprobeStream {
+  codec_type?: string;
+  codec_name?: string;
+  r_frame_rate?: string;
+  avg_frame_rate?: string;
+  sample_rate?: string;
+  tags?: { rotate?: string };
+  disposition?: { attached_pic?: number };
+  side_data_list?: Array<{ rotation?: number }>;
+}
+
+function parseProbe(json: { format?: { duration?: string }; streams?: FfprobeStream[] }): MediaProbe {
+  const streams = json.streams ?? [];
+  // Cover art in an audio file is a video stream too
+  const video = streams.find((s) => s.codec_type === "video" && !s.disposition?.attached_pic);
+  const audio = streams.find((s) => s.codec_type === "audio");
+  const duration = parseFloat(json.format?.duration ?? "");
+
+  return {
+    durationSec: Number.isFinite(duration) ? duration : null,
+    video: video
+      ? {
+          codec: video.codec_name ?? null,
+          rotation: Number(video.side_data_list?.find((d) => d.rotation !== undefined)?.rotation ?? video.tags?.rotate ?? 0),
+          realFps: parseRate(video.r_frame_rate),
+          avgFps: parseRate(video.avg_frame_rate),
+        }
+      : null,
+    audio: audio
+      ? { codec: audio.codec_name ?? null, sampleRate: audio.sample_rate ? Number(audio.sample_rate) : null }
+      : null,
+  };
+}
+
+function parseRate(rate: string | undefined): number | null {
+  if (!rate) return null;
+  const [num, den] = rate.split("/").map(Number);
+  return den > 0 && num > 0 ? num / den : null;
+}
+
+/**
+ * Check every file the timeline uses. sources maps asset keys (as in
+ * videoClipKey/audioClipKey) to local paths or URLs.
+ */
+export async function validateMedia(timeline: TimelineV2, sources: Map<string, string>): Promise<PreflightReport> {
+  const problems: PreflightProblem[] = [];
+  const probes = new Map<string, Promise<MediaProbe | null>>();
+
+  const probe = (key: string, clipId: string) => {
+    if (!probes.has(key)) {
+      probes.set(
+        key,
+        probeMedia(sources.get(key)!).catch((error: Error) => {
+          problems.push({
+            severity: "error",
+            code: "probe_failed",
+            clipId,
+            assetKey: key,
+            message: `Clip ${clipId}: could not read the file (${error.message})`,
+          });
+          return null;
+        })
+      );
+    }
+    return probes.get(key)!;
+  };
+
+  // Probe everything at once, then check clip by clip
+  const videoClips = getVisibleVideoTracks(timeline).flatMap((track) => track.clips);
+  const audioClips = timeline.tracks.audio.filter((track) => !track.muted).flatMap((track) => track.clips);
+  for (const clip of videoClips) {
+    const key = videoClipKey(clip);
+    if (key && sources.has(key)) probe(key, clip.id);
+  }
+  for (const clip of audioClips) {
+    const key = audioClipKey(clip);
+    if (key && sources.has(key)) probe(key, clip.id);
+  }
+
+  for (const clip of videoClips) {
+    const key = videoClipKey(clip);
+    if (!key || !sources.has(key)) continue;
+    const media = await probe(key, clip.id);
+    if (!media) continue;
+
+    const report = (severity: PreflightSeverity, code: PreflightCode, message: string) =>
+      problems.push({ severity, code, clipId: clip.id, assetKey: key, message: `Clip ${clip.id}: ${message}` });
+
+    if (!media.video) {
+      report("error", "missing_video", "the file has no video stream (audio only?)");
+      continue;
+    }
+    if (!media.video.codec || media.video.codec === "none") {
+      report("error", "unsupported_codec", "the video codec is not supported");
+    }
+    if (media.video.rotation % 90 !== 0) {
+      report("warning", "odd_rotation", `the video is rotated ${media.video.rotation}°, which will not be corrected`);
+    }
+
+    // Images and GIFs have no meaningful in/out points
+    if (clip.kind !== "video" || media.durationSec === null) continue;
+    const isGif = sources.get(key)!.toLowerCase().split("?")[0].endsWith(".gif");
+    if (isGif) continue;
+
+    if (clip.inSec >= media.durationSec) {
+      report("error", "in_point_past_end", `starts at ${clip.inSec}s but the source is only ${media.durationSec.toFixed(2)}s long`);
+    } else if (clip.outSec > media.durationSec + DURATION_TOLERANCE_SEC) {
+      report("error", "out_point_past_end", `ends at ${clip.outSec}s but the source is only ${media.durationSec.toFixed(2)}s long`);
+    }
+
+    const { realFps, avgFps } = media.video;
+    if (realFps && avgFps && Math.abs(realFps - avgFps) / realFps > VFR_TOLERANCE) {
+      report(
+        "warning",
+        "variable_frame_rate",
+        `variable frame rate source (${avgFps.toFixed(2)} fps average, ${realFps.toFixed(2)} nominal) may drift out of sync`
+      );
+    }
+  }
+
+  const sampleRates = new Map<number, string[]>();
+  for (const clip of audioClips) {
+    const key = audioClipKey(clip);
+    if (!key || !sources.has(key)) continue;
+    const media = await probe(key, clip.id);
+    if (!media) continue;
+
+    const report = (severity: PreflightSeverity, code: PreflightCode, message: string) =>
+      problems.push({ severity, code, clipId: clip.id, assetKey: key, message: `Audio ${clip.title || clip.id}: ${message}` });
+
+    if (!media.audio) {
+      report("error", "missing_audio", "the file has no audio stream");
+      continue;
+    }
+    if (!media.audio.codec || media.audio.codec === "none") {
+      report("error", "unsupported_codec", "the audio codec is not supported");
+    }
+    if (media.audio.sampleRate) {
+      sampleRates.set(media.audio.sampleRate, [...(sampleRates.get(media.audio.sampleRate) ?? []), clip.id]);
+    }
+
+    if (media.durationSec === null || clip.loop) continue;
+    if (clip.inSec >= media.durationSec) {
+      report("error", "in_point_past_end", `starts at ${clip.inSec}s but the source is only ${media.durationSec.toFixed(2)}s long`);
+    } else if (clip.durationSec && clip.inSec + clip.durationSec > media.durationSec + DURATION_TOLERANCE_SEC) {
+      report(
+        "warning",
+        "out_point_past_end",
+        `plays to ${clip.inSec + clip.durationSec}s but the source is only ${media.durationSec.toFixed(2)}s long - the rest is silent`
+      );
+    }
+  }
+
+  if (sampleRates.size > 1) {
+    const rates = [...sampleRates.keys()].map((rate) => `${rate} Hz`).join(", ");
+    problems.push({
+      severity: "warning",
+      code: "sample_rate_mismatch",
+      clipId: null,
+      assetKey: null,
+      message: `Audio clips mix sample rates (${rates}); they will be resampled`,
+    });
+  }
+
+  return { ok: !problems.some((p) => p.severity === "error"), problems };
+}
+
+/**
+ * Where each asset of a timeline can be read from without downloading it:
+ * direct clip URLs, and user assets' public URLs
+ */
+export async function remoteSources(timeline: TimelineV2): Promise<Map<string, string>> {
+  const sources = new Map<string, string>();
+  const assetIds = new Set<string>();
+
+  const add = (key: string | null, url: string | null | undefined) => {
+    if (!key) return;
+    if (!url) assetIds.add(key);
+    // Drive links need the download dance in storage.ts; they get checked at render time
+    else if (!isGoogleDriveUrl(url)) sources.set(key, url);
+  };
+  for (const clip of timeline.tracks.video.flatMap((track) => track.clips)) add(videoClipKey(clip), clip.clipUrl);
+  for (const clip of timeline.tracks.audio.flatMap((track) => track.clips)) add(audioClipKey(clip), clip.audioUrl);
+
+  const assets = assetIds.size > 0 ? await getAssets([...assetIds]) : new Map<string, MediaAsset>();
+  for (const [id, asset] of assets) {
+    if (asset.public_url && !isGoogleDriveUrl(asset.public_url)) sources.set(id, asset.public_url);
+  }
+  return sources;
+}
+
+function isGoogleDriveUrl(url: string): boolean {
+  return url.includes("drive.google.com") || url.includes("docs.google.com");
+}
@@ -0,0 +1,220 @@
+import { QaIssue, QaReport } from "../db";
+import { TimelineV2, getVisibleVideoTracks, totalDurationSec } from "../timeline/v2";
+import { runFFmpeg } from "./ffmpeg";
+import { loudnessTarget } from "./loudness";
+import { probeMedia } from "./preflight";
+import { RenderLog } from "./renderLog";
+
+// Post-render QA
+//
+// Decodes the finished MP4 once through blackdetect and freezedetect (video)
+// and silencedetect and ebur128 (audio), and compares its duration with the
+// timeline's. Findings are checked against what the timeline asked for, so
+// gaps left black on purpose, still images and stretches without any audio
+// clip aren't reported. Every issue is a warning; the render is published
+// regardless, with the report on the job.
+
+type Span = [number, number];
+
+const BLACK_MIN_SEC = 1;
+const BLACK_PIXEL_THRESHOLD = 0.1;
+const FREEZE_MIN_SEC = 2;
+const FREEZE_NOISE = "-60dB";
+const SILENCE_MIN_SEC = 3;
+const SILENCE_NOISE = "-50dB";
+// Output duration this far off the timeline's is worth a look
+const DURATION_TOLERANCE_SEC = 0.5;
+// Integrated loudness this far off the preset's target
+const LOUDNESS_TOLERANCE_LU = 2;
+const TRUE_PEAK_TOLERANCE_DB = 1;
+
+/**
+ * Check a rendered file against the timeline it was rendered from
+ */
+export async function checkRender(
+  videoPath: string,
+  timeline: TimelineV2,
+  onProgress: (timeSec: number) => void,
+  signal?: AbortSignal,
+  log?: RenderLog
+): Promise<QaReport> {
+  const expectedDurationSec = totalDurationSec(timeline);
+  const probe = await probeMedia(videoPath);
+  const durationSec = probe.durationSec ?? expectedDurationSec;
+  const issues: QaIssue[] = [];
+
+  const args = [
+    "-i", videoPath,
+    "-vf", `blackdetect=d=${BLACK_MIN_SEC}:pix_th=${BLACK_PIXEL_THRESHOLD},freezedetect=n=${FREEZE_NOISE}:d=${FREEZE_MIN_SEC}`,
+  ];
+  if (probe.audio) {
+    args.push("-af", `silencedetect=noise=${SILENCE_NOISE}:d=${SILENCE_MIN_SEC},ebur128=peak=true:framelog=quiet`);
+  } else {
+    args.push("-an");
+  }
+  args.push("-f", "null", "-");
+
+  const stderr = await runFFmpeg(args, onProgress, signal);
+  log?.ffmpeg("qa", "Analyzed the render", args, stderr);
+
+  // Black is only a problem where the timeline has a clip on screen
+  const covered = mergeSpans(
+    getVisibleVideoTracks(timeline).flatMap((track) =>
+      track.clips.map((clip): Span => [clip.startSec, clip.startSec + clip.durationSec])
+    )
+  );
+  for (const [start, end] of detectedSpans(stderr, "black_start:", "black_end:", durationSec)) {
+    if (overlapSec([start, end], covered) < BLACK_MIN_SEC) continue;
+    issues.push({
+      check: "black_frames",
+      startSec: start,
+      endSec: end,
+      message: `Black picture from ${formatTime(start)} to ${formatTime(end)} - a clip may have failed to load`,
+    });
+  }
+
+  // Still images are meant to hold; anything else frozen is suspect
+  const stills = mergeSpans(
+    getVisibleVideoTracks(timeline).flatMap((track) =>
+      track.clips.filter((clip) => clip.kind === "image").map((clip): Span => [clip.startSec, clip.startSec + clip.durationSec])
+    )
+  );
+  for (const [start, end] of detectedSpans(stderr, "freeze_start:", "freeze_end:", durationSec)) {
+    if (end - start - overlapSec([start, end], stills) < FREEZE_MIN_SEC) continue;
+    issues.push({
+      check: "freeze",
+      startSec: start,
+      endSec: end,
+      message: `Frozen picture from ${formatTime(start)} to ${formatTime(end)}`,
+    });
+  }
+
+  // Silence only matters where an audio clip should be playing
+  const audible = mergeSpans(
+    timeline.tracks.audio
+      .filter((track) => !track.muted)
+      .flatMap((track) =>
+        track.clips.map((clip): Span => [
+          clip.startSec,
+          clip.loop || !clip.durationSec ? durationSec : clip.startSec + clip.durationSec,
+        ])
+      )
+  );
+  if (audible.length > 0 && !probe.audio) {
+    issues.push({
+      check: "missing_audio",
+      startSec: null,
+      endSec: null,
+      message: "The render has no audio track, but the timeline has audio clips",
+    });
+  }
+  for (const [start, end] of detectedSpans(stderr, "silence_start:", "silence_end:", durationSec)) {
+    if (overlapSec([start, end], audible) < SILENCE_MIN_SEC) continue;
+    issues.push({
+      check: "silence",
+      startSec: start,
+      endSec: end,
+      message: `Silence from ${formatTime(start)} to ${formatTime(end)} - music or voiceover may be missing`,
+    });
+  }
+
+  const loudness = probe.audio ? parseEbur128Summary(stderr) : null;
+  const target = loudnessTarget(timeline);
+  if (loudness && target && Number.isFinite(loudness.integratedLufs)) {
+    if (Math.abs(loudness.integratedLufs - target.integratedLufs) > LOUDNESS_TOLERANCE_LU) {
+      issues.push({
+        check: "loudness",
+        startSec: null,
+        endSec: null,
+        message: `Loudness is ${loudness.integratedLufs.toFixed(1)} LUFS, target ${target.integratedLufs} LUFS`,
+      });
+    }
+    if (loudness.truePeakDb > target.truePeakDb + TRUE_PEAK_TOLERANCE_DB) {
+      issues.push({
+        check: "loudness",
+        startSec: null,
+        endSec: null,
+        message: `True peak is ${loudness.truePeakDb.toFixed(1)} dBTP, above the ${target.truePeakDb} dBTP limit`,
+      });
+    }
+  }
+
+  // A voiceover longer than the picture legitimately extends the render
+  const hasSpeech = timeline.tracks.audio.some(
+    (track) => (track.role === "voiceover" || track.role === "dialogue") && track.clips.length > 0
+  );
+  if (probe.durationSec !== null) {
+    const diff = probe.durationSec - expectedDurationSec;
+    if (diff < -DURATION_TOLERANCE_SEC || (diff > DURATION_TOLERANCE_SEC && !hasSpeech)) {
+      issues.push({
+        check: "duration",
+        startSec: null,
+        endSec: null,
+        message:
+          `The render is ${probe.durationSec.toFixed(1)}s long, ` +
+          `the timeline ${expectedDurationSec.toFixed(1)}s`,
+      });
+    }
+  }
+
+  return { durationSec: probe.durationSec, expectedDurationSec, loudness, issues };
+}
+
+/**
+ * Start/end pairs a detect filter logged. A span still open at the end of
+ * the file ends there.
+ */
+function detectedSpans(stderr: string, startKey: string, endKey: string, durationSec: number): Span[] {
+  const spans: Span[] = [];
+  let start: number | null = null;
+  const pattern = new RegExp(`(${startKey}|${endKey})\\s*(-?[\\d.]+)`, "g");
+  for (const [, key, value] of stderr.matchAll(pattern)) {
+    if (key === startKey) {
+      start = Math.max(0, parseFloat(value));
+    } else if (start !== null) {
+      spans.push([start, parseFloat(value)]);
+      start = null;
+    }
+  }
+  if (start !== null && start < durationSec) spans.push([start, durationSec]);
+  return spans;
+}
+
+/**
+ * Integrated loudness, range and true peak from ebur128's closing summary
+ */
+function parseEbur128Summary(stderr: string): QaReport["loudness"] {
+  const summary = stderr.slice(stderr.lastIndexOf("Summary:"));
+  const value = (pattern: RegExp) => {
+    const match = summary.match(pattern);
+    if (!match) return null;
+    return match[1] === "-inf" ? -Infinity : parseFloat(match[1]);
+  };
+
+  const integratedLufs = value(/I:\s+(-inf|-?[\d.]+) LUFS/);
+  const lra = value(/LRA:\s+(-?[\d.]+) LU/);
+  const truePeakDb = value(/Peak:\s+(-inf|-?[\d.]+) dBFS/);
+  if (integratedLufs === null || lra === null || truePeakDb === null) return null;
+  return { integratedLufs, truePeakDb, lra };
+}
+
+function mergeSpans(spans: Span[]): Span[] {
+  const merged: Span[] = [];
+  for (const [start, end] of [...spans].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
+
+// Seconds of span inside the (merged) spans
+function overlapSec([start, end]: Span, spans: Span[]): number {
+  return spans.reduce((sum, [from, to]) => sum + Math.max(0, Math.min(end, to) - Math.max(start, from)), 0);
+}
+
+function formatTime(sec: number): string {
+  const minutes = Math.floor(sec / 60);
+  const seconds = (sec % 60).toFixed(1).padStart(4, "0");
+  return `${minutes}:${seconds}`;
+}
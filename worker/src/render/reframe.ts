@@ -0,0 +1,80 @@
+import { MediaAsset, updateAssetReframePath } from "../db";
+import { TimelineV2, VideoClip, videoClipKey } from "../timeline/v2";
+import { analyzeRegionsOfInterest } from "../utils/reframeAnalysis";
+import { FrameLayout } from "./layout";
+
+// Smart reframing: give cover-cropped clips a moving focal point so the
+// subject stays in frame when a landscape source fills a vertical or
+// square frame.
+//
+// Paths for user assets are cached on media_assets.reframe_path; library
+// clips (direct URLs) are analysed per render.
+
+// Frame and source aspect ratios closer than this crop too little to matter
+const ASPECT_TOLERANCE = 0.05;
+
+// Most library footage is landscape; assumed when the size isn't known
+const DEFAULT_SOURCE_ASPECT = 16 / 9;
+
+/**
+ * Attach crop paths to clips that will be cropped noticeably in at least one
+ * of the output frames. Clips with their own cropPath or a hand-set
+ * focalPoint keep them. Analysis failures fall back to a centered crop.
+ */
+export async function applySmartReframe(
+  timeline: TimelineV2,
+  layouts: FrameLayout[],
+  localAssets: Map<string, string>,
+  assets: Map<string, MediaAsset>
+): Promise<void> {
+  const frameAspects = layouts.map((l) => l.width / l.height);
+  const pathsByKey = new Map<string, Promise<VideoClip["cropPath"]>>();
+
+  for (const track of timeline.tracks.video) {
+    for (const clip of track.clips) {
+      if (clip.kind !== "video" || clip.cropPath || clip.focalPoint) continue;
+      if (!(clip.cropMode === "cover" || clip.isTalkingHead)) continue;
+
+      const key = videoClipKey(clip);
+      const localPath = key ? localAssets.get(key) : undefined;
+      if (!key || !localPath) continue;
+
+      const asset = assets.get(key);
+      const sourceAspect =
+        asset?.width && asset?.height ? asset.width / asset.height : DEFAULT_SOURCE_ASPECT;
+      const isCropped = frameAspects.some(
+        (aspect) => Math.abs(aspect - sourceAspect) / sourceAspect > ASPECT_TOLERANCE
+      );
+      if (!isCropped) continue;
+
+      // The same source can appear in several clips - analyse it once
+      if (!pathsByKey.has(key)) {
+        pathsByKey.set(key, loadOrAnalyze(key, localPath, asset));
+      }
+      const cropPath = await pathsByKey.get(key);
+      if (cropPath?.length) clip.cropPath = cropPath;
+    }
+  }
+}
+
+async function loadOrAnalyze(
+  key: string,
+  localPath: string,
+  asset: MediaAsset | undefined
+): Promise<VideoClip["cropPath"]> {
+  if (asset?.reframe_path?.length) {
+    console.log(`[Reframe] Using cached path for ${asset.filename}`);
+    return asset.reframe_path;
+  }
+
+  try {
+    const path = await analyzeRegionsOfInterest(localPath);
+    if (asset && path.length > 0) {
+      await updateAssetReframePath(asset.id, path);
+    }
+    return path;
+  } catch (error) {
+    console.warn(`[Reframe] Analysis failed for ${key}, using a centered crop:`, error);
+    return undefined;
+  }
+}
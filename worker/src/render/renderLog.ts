@@ -0,0 +1,113 @@
+import * as os from "os";
+import { config } from "../config";
+import { JobLogEntry, JobLogLevel, insertJobLogs } from "../db";
+
+// Structured render logs
+//
+// Each attempt records what support needs to diagnose it without access to
+// the worker: the host, per-stage timings, asset and output sizes, every
+// FFmpeg command with the tail of its stderr, and why it failed. Entries are
+// written to render_job_logs in order, in the background, so logging never
+// holds up (or fails) a render; flush() waits for them at the end.
+
+export type RenderStage = "setup" | "download" | "preflight" | "render" | "qa" | "upload" | "finish" | "lease";
+
+type LogData = Record<string, unknown>;
+
+// Enough stderr for the error and the stream mapping before it
+const STDERR_TAIL_CHARS = 4000;
+
+export interface StageTimer {
+  end(message: string, data?: LogData): void; // Logs with durationMs since begin()
+}
+
+export interface RenderLog {
+  readonly stage: RenderStage; // Latest stage begun; failures are logged against it
+  info(stage: RenderStage, message: string, data?: LogData): void;
+  warn(stage: RenderStage, message: string, data?: LogData): void;
+  error(stage: RenderStage, message: string, data?: LogData): void;
+  begin(stage: RenderStage): StageTimer;
+  ffmpeg(stage: RenderStage, message: string, args: string[], stderr: string, level?: JobLogLevel): void;
+  flush(): Promise<void>;
+}
+
+export function createRenderLog(jobId: string, attempt: number): RenderLog {
+  const host = os.hostname();
+  let stage: RenderStage = "setup";
+  let pending: JobLogEntry[] = [];
+  let writing: Promise<void> | null = null;
+
+  // One write at a time, batching whatever piled up meanwhile
+  const drain = async () => {
+    while (pending.length > 0) {
+      const batch = pending;
+      pending = [];
+      try {
+        await insertJobLogs(batch);
+      } catch (error) {
+        console.error("Error writing job logs:", error);
+      }
+    }
+    writing = null;
+  };
+
+  const write = (level: JobLogLevel, entryStage: RenderStage, message: string, data?: LogData) => {
+    pending.push({
+      job_id: jobId,
+      attempt,
+      level,
+      stage: entryStage,
+      message,
+      data: data ?? null,
+      worker_host: host,
+      created_at: new Date().toISOString(),
+    });
+    writing ??= drain();
+  };
+
+  return {
+    get stage() {
+      return stage;
+    },
+    info: (entryStage, message, data) => write("info", entryStage, message, data),
+    warn: (entryStage, message, data) => write("warn", entryStage, message, data),
+    error: (entryStage, message, data) => write("error", entryStage, message, data),
+    begin(entryStage) {
+      stage = entryStage;
+      const started = Date.now();
+      return {
+        end: (message, data) => write("info", entryStage, message, { durationMs: Date.now() - started, ...data }),
+      };
+    },
+    ffmpeg(entryStage, message, args, stderr, level = "info") {
+      write(level, entryStage, message, {
+        command: formatCommand(args),
+        stderrTail: stderrTail(stderr),
+      });
+    },
+    async flush() {
+      await writing;
+    },
+  };
+}
+
+/**
+ * The command as it could be pasted into a shell
+ */
+function formatCommand(args: string[]): string {
+  return [config.ffmpegPath, ...args]
+    .map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`))
+    .join(" ");
+}
+
+/**
+ * The end of FFmpeg's stderr, with its progress lines (frame=... time=...)
+ * collapsed to the last one
+ */
+function stderrTail(stderr: string): string {
+  const lines = stderr.split(/\r\n|\r|\n/).filter((line) => line.trim() !== "");
+  const isProgress = (line: string) => /^(frame|size)=/.test(line.trim());
+  const lastProgress = lines.filter(isProgress).pop();
+  const kept = lines.filter((line) => !isProgress(line) || line === lastProgress);
+  return kept.join("\n").slice(-STDERR_TAIL_CHARS);
+}
@@ -1,4 +1,5 @@
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import { v4 as uuid } from "uuid";
 import { config } from "../config";
@@ -8,12 +9,39 @@ import {
   updateJobProgress,
   updateJobStatus,
   updateProjectOutput,
-  TimelineV1,
-  Scene,
+  releaseRenderJob,
+  saveJobCheckpoint,
   MediaAsset,
+  Rendition,
+  LoudnessReport,
+  QaReport,
+  RenderCheckpoint,
+  RenderJob,
+  RenderedSidecar,
 } from "../db";
-import { downloadFromUrl, uploadFile, getFileSize, cleanupDir } from "../storage";
-import { buildFFmpegCommand, runFFmpeg, generateThumbnail } from "./ffmpeg";
+import { toTimelineV2, totalDurationSec, videoClipKey, audioClipKey } from "../timeline/v2";
+import { uploadFile, getFileSize, cleanupDir } from "../storage";
+import { emptyCacheStats, fetchCachedAsset, formatCacheStats } from "../assetCache";
+import { buildFFmpegCommand, runFFmpeg, generateThumbnail, measureMixLoudness, FFmpegError } from "./ffmpeg";
+import { LoudnormMeasurement, loudnessPreset, loudnessTarget, parseLoudnormOutput } from "./loudness";
+import { buildAssSubtitles, CAPTIONS_ASS_KEY } from "./assCaptions";
+import { FrameLayout, draftLayout, frameLayout } from "./layout";
+import { applySmartReframe } from "./reframe";
+import { applyMusicBeats } from "./musicBeats";
+import { CancellationWatch, isCancellation, watchCancellation } from "./cancellation";
+import { LeaseLostError, claimJob } from "./jobLease";
+import { isTransientError, retryDelaySec } from "./retryPolicy";
+import { planChunks } from "./chunkPlan";
+import { Mixdown, renderChunked, renderMixdown } from "./chunkRender";
+import { PreflightError, validateMedia } from "./preflight";
+import { checkRender } from "./qualityCheck";
+import { RenderLog, createRenderLog } from "./renderLog";
+import {
+  buildCaptionFile,
+  CaptionFileFormat,
+  CAPTION_FILE_TYPES,
+  CAPTIONS_SRT_KEY,
+} from "./captionFiles";
 
 // Progress checkpoint constants for consistent UI updates
 const PROGRESS = {
@@ -23,6 +51,7 @@ const PROGRESS = {
   DOWNLOADING_ASSETS: 15,  // 15-40 for downloads
   BUILDING_RENDER_GRAPH: 42,
   RENDERING_START: 45,     // 45-88 for FFmpeg render
+  CHECKING_RENDER: 88,
   GENERATING_THUMBNAIL: 90,
   UPLOADING_OUTPUT: 93,
   UPLOADING_THUMBNAIL: 96,
@@ -30,6 +59,16 @@ const PROGRESS = {
   COMPLETE: 100,
 } as const;
 
+// Drafts trade quality for speed: they only have to show timing
+const DRAFT_CRF = 30;
+
+// How an attempt ended, short of failing (failures throw)
+export type RenderOutcome =
+  | { status: "finished" }
+  | { status: "retrying"; retryInSec: number } // Back in the queue, due in retryInSec
+  | { status: "stopped" } // Cancelled, or this worker lost the job
+  | { status: "unclaimed" }; // Taken, done, cancelled or waiting to retry
+
 /**
  * Main render orchestrator
  * 
@@ -38,355 +77,823 @@ const PROGRESS = {
  * 5%   - Fetching project data
  * 10%  - Preparing downloads
  * 15-40% - Downloading assets
- * 42%  - Building render graph
- * 45-88% - FFmpeg rendering
+ * 42%  - Checking media (see preflight.ts), then building render graph
+ * 45-88% - FFmpeg rendering (split evenly across requested formats)
+ * 88%  - Checking the primary output (see qualityCheck.ts)
  * 90%  - Generating thumbnail
  * 93%  - Uploading video
  * 96%  - Uploading thumbnail
  * 98%  - Finalizing
  * 100% - Complete
+ *
+ * The job is claimed with a lease first (see jobLease.ts); a job that is
+ * taken, finished, cancelled or waiting out a retry delay is left alone.
+ * A cancelled job (see cancellation.ts) stops at the next stage, or at once
+ * while FFmpeg is running, and is left as the app marked it. Every write
+ * to the job is made as the lease holder: one that finds the lease gone
+ * (cancelled, or recovered by another worker) stops the render the same
+ * way, and the project's output is left alone.
+ *
+ * Rendering and uploading are saved as checkpoints on the job. A transient
+ * failure (see retryPolicy.ts) puts the job back in the queue with backoff,
+ * and the retry resumes after the last checkpoint it can use; other
+ * failures, or running out of attempts, fail the job.
+ *
+ * Draft jobs (draft_height set) render small and fast with a DRAFT
+ * watermark, skip the quality check and the thumbnail, upload under renders/drafts/ and leave the
+ * project's own output and status alone.
+ *
+ * Each attempt writes its stage timings, sizes, FFmpeg commands and
+ * outcome to the job's structured log (see renderLog.ts).
  */
 export async function renderProject(
   jobId: string,
   projectId: string,
   onProgress: (progress: number) => void
-): Promise<void> {
+): Promise<RenderOutcome> {
+  const lease = await claimJob(jobId);
+  if (!lease) {
+    console.log(`[Render] Job ${jobId} is not ready to run (taken, done, cancelled or waiting to retry)`);
+    return { status: "unclaimed" };
+  }
+
+  const { job } = lease;
+  const isDraft = job.draft_height !== null;
   const workDir = path.join(config.tempDir, jobId);
+  const cancellation = watchCancellation(jobId, lease.signal);
+  const log = createRenderLog(jobId, job.attempts);
+  let checkpoint = usableCheckpoint(job.checkpoint);
+  let keepWorkDir = false;
 
   try {
     // Checkpoint: Starting
-    console.log(`[Render] Starting render for job ${jobId}, project ${projectId}`);
-    await updateJobStatus(jobId, "running");
-    await updateJobProgress(jobId, PROGRESS.STARTING, "Starting render...");
+    console.log(`[Render] Starting attempt ${job.attempts} for job ${jobId}, project ${projectId}`);
+    log.info("setup", `Attempt ${job.attempts} started on ${os.hostname()}`, {
+      workerId: config.workerId,
+      node: process.version,
+      platform: `${os.platform()} ${os.release()}`,
+      cpus: os.cpus().length,
+      freeMemoryMb: Math.round(os.freemem() / 1024 / 1024),
+      draftHeight: job.draft_height,
+      formats: job.formats,
+    });
+    await reportProgress(
+      jobId,
+      cancellation,
+      PROGRESS.STARTING,
+      job.attempts > 1 ? `Starting attempt ${job.attempts}...` : "Starting render..."
+    );
     onProgress(PROGRESS.STARTING);
 
-    // Checkpoint: Fetching project
-    console.log("[Render] Checkpoint: Fetching project data");
-    await updateJobProgress(jobId, PROGRESS.FETCHING_PROJECT, "Fetching project data...");
-    onProgress(PROGRESS.FETCHING_PROJECT);
+    if (checkpoint) {
+      console.log(`[Render] Resuming job ${jobId} after the ${checkpoint.stage} stage`);
+      log.info("setup", `Resuming after the ${checkpoint.stage} stage`);
+      await reportProgress(jobId, cancellation, PROGRESS.UPLOADING_OUTPUT, `Resuming (already ${checkpoint.stage})...`);
+    } else {
+      checkpoint = await renderOutputs(job, projectId, workDir, cancellation, log, onProgress);
+      await saveCheckpoint(jobId, cancellation, checkpoint);
+    }
 
-    // Get project and timeline
-    const project = await getProject(projectId);
-    if (!project) {
-      throw new Error("Project not found");
+    if (checkpoint.stage === "rendered") {
+      checkpoint = await uploadOutputs(jobId, projectId, isDraft, checkpoint, cancellation, log, onProgress);
+      await saveCheckpoint(jobId, cancellation, checkpoint);
     }
 
-    const timeline = project.timeline_json as TimelineV1;
-    if (!timeline || !timeline.scenes || timeline.scenes.length === 0) {
-      throw new Error("Project has no timeline or scenes");
+    await finishJob(jobId, projectId, isDraft, checkpoint, cancellation, log, onProgress);
+    return { status: "finished" };
+  } catch (error) {
+    // The app already marked the job cancelled and refunded it, or
+    // another worker took it over
+    if (isCancellation(error, cancellation.signal)) {
+      console.log(`[Render] Stopped render for project ${projectId}: ${cancellation.signal.reason}`);
+      log.info(log.stage, `Stopped: ${cancellation.signal.reason}`);
+      return { status: "stopped" };
     }
 
-    console.log(`[Render] Project loaded: ${project.title}, ${timeline.scenes.length} scenes`);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    if (error instanceof FFmpegError) {
+      log.ffmpeg(log.stage, `FFmpeg exited with code ${error.code}`, error.args, error.stderr, "error");
+    }
+    const details = error instanceof PreflightError ? { problems: error.report.problems } : undefined;
+
+    if (isTransientError(error) && job.attempts < config.renderMaxAttempts) {
+      const delaySec = retryDelaySec(job.attempts);
+      const reason = `Attempt ${job.attempts} failed: ${errorMessage}`;
+      console.warn(`[Render] ${reason}; retrying in ${delaySec}s`);
+      log.warn(log.stage, `${reason}; retrying in ${delaySec}s`, { ...details, retryInSec: delaySec });
+      // Rendered files stay for the retry, which resumes at upload
+      keepWorkDir = checkpoint?.stage === "rendered";
+      if (!(await releaseRenderJob(jobId, { owner: config.workerId }, delaySec, reason))) {
+        log.info(log.stage, "Not retrying: the job was cancelled or taken over");
+        return { status: "stopped" };
+      }
+      await updateJobProgress(jobId, job.progress, `${reason}. Retrying in ${delaySec}s...`);
+      return { status: "retrying", retryInSec: delaySec };
+    }
 
-    // Checkpoint: Preparing downloads
-    console.log("[Render] Checkpoint: Preparing downloads");
-    await updateJobProgress(jobId, PROGRESS.PREPARING_DOWNLOADS, "Preparing downloads...");
-    onProgress(PROGRESS.PREPARING_DOWNLOADS);
+    console.error("Render failed:", errorMessage);
+    log.error(log.stage, `Render failed: ${errorMessage}`, details);
 
-    // Create work directory
-    if (!fs.existsSync(workDir)) {
-      fs.mkdirSync(workDir, { recursive: true });
+    // Leave a job that was cancelled or taken over meanwhile as it is
+    if (!(await updateJobStatus(jobId, config.workerId, "failed", { error: errorMessage }))) {
+      log.info(log.stage, "Not marked failed: the job was cancelled or taken over");
+      return { status: "stopped" };
+    }
+    if (!isDraft) {
+      await updateProjectOutput(projectId, "failed");
     }
 
-    // Collect items to download:
-    // 1. Scenes with clipUrl (b-roll from clips table) - download directly
-    // 2. Scenes with assetId (user assets from media_assets) - fetch metadata first
-    // 3. Global assets (voiceover from media_assets, music from audioUrl, logo)
-    
-    const directDownloads: { id: string; url: string; name: string; type?: 'video' | 'audio' | 'image' }[] = [];
-    const assetIds = new Set<string>();
+    throw error;
+  } finally {
+    lease.stop();
+    cancellation.stop();
+    // Clean up work directory
+    if (!keepWorkDir) cleanupDir(workDir);
+    await log.flush();
+  }
+}
 
-    for (const scene of timeline.scenes) {
-      if (scene.clipUrl) {
-        // B-roll clip: download directly via clipUrl
-        directDownloads.push({
-          id: scene.clipId || scene.id,
-          url: scene.clipUrl,
-          name: `Clip ${scene.id}`,
-          type: 'video',
-        });
-      } else if (scene.assetId) {
-        // User asset: need to fetch from media_assets
-        assetIds.add(scene.assetId);
-      }
-    }
+/**
+ * Report progress as the job's lease holder. When the write finds the lease
+ * gone, stop the render as if cancelled (FFmpeg is killed at once, the
+ * render stops at its next stage).
+ */
+async function reportProgress(
+  jobId: string,
+  cancellation: CancellationWatch,
+  progress: number,
+  message?: string
+): Promise<void> {
+  if (!(await updateJobProgress(jobId, progress, message, config.workerId))) {
+    cancellation.abort(new LeaseLostError(jobId));
+  }
+}
 
-    // Music: download directly from audioUrl (not from media_assets)
-    // The music table stores audio_url directly
-    const musicData = timeline.global?.music as { assetId?: string; audioUrl?: string; volume?: number; title?: string } | undefined;
-    console.log("[MUSIC DEBUG] Raw music data from timeline:", JSON.stringify(musicData));
-    
-    if (musicData?.audioUrl) {
-      const musicId = musicData.assetId || "music";
-      console.log(`[MUSIC DEBUG] Adding music to download queue:`, {
-        id: musicId,
-        title: musicData.title,
-        url: musicData.audioUrl,
-        volume: musicData.volume,
-      });
+/**
+ * Save a checkpoint as the job's lease holder; stops the render if the
+ * lease is gone
+ */
+async function saveCheckpoint(
+  jobId: string,
+  cancellation: CancellationWatch,
+  checkpoint: RenderCheckpoint
+): Promise<void> {
+  if (!(await saveJobCheckpoint(jobId, config.workerId, checkpoint))) {
+    cancellation.abort(new LeaseLostError(jobId));
+    cancellation.throwIfCancelled();
+  }
+}
+
+/**
+ * A saved checkpoint this attempt can resume from. Rendered files only
+ * exist on the host that rendered them.
+ */
+function usableCheckpoint(checkpoint: RenderCheckpoint | null): RenderCheckpoint | null {
+  if (checkpoint?.stage !== "rendered") return checkpoint;
+  const files = [
+    ...checkpoint.outputs.flatMap((output) => (output.thumbnailPath ? [output.path, output.thumbnailPath] : [output.path])),
+    ...checkpoint.sidecars.map((sidecar) => sidecar.path),
+  ];
+  if (files.every((file) => fs.existsSync(file))) return checkpoint;
+
+  console.log("[Render] Rendered files from the last attempt are gone, rendering again");
+  return null;
+}
+
+/**
+ * Fetch, download, check and render every requested format, with thumbnails
+ */
+async function renderOutputs(
+  job: RenderJob,
+  projectId: string,
+  workDir: string,
+  cancellation: CancellationWatch,
+  log: RenderLog,
+  onProgress: (progress: number) => void
+): Promise<Extract<RenderCheckpoint, { stage: "rendered" }>> {
+  const jobId = job.id;
+
+  // Checkpoint: Fetching project
+  console.log("[Render] Checkpoint: Fetching project data");
+  await reportProgress(jobId, cancellation, PROGRESS.FETCHING_PROJECT, "Fetching project data...");
+  onProgress(PROGRESS.FETCHING_PROJECT);
+
+  // Get project and timeline
+  const project = await getProject(projectId);
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  if (!project.timeline_json) {
+    throw new Error("Project has no timeline or scenes");
+  }
+
+  const draftHeight = job.draft_height;
+  const isDraft = draftHeight !== null;
+
+  // Stored timelines may be v1 or v2; render everything as v2 tracks
+  const timeline = toTimelineV2(project.timeline_json);
+  if (isDraft) {
+    timeline.global.export = { ...timeline.global.export, crf: DRAFT_CRF, preset: "ultrafast" };
+  }
+  const videoClips = timeline.tracks.video.flatMap((track) => track.clips);
+  if (videoClips.length === 0) {
+    throw new Error("Project has no timeline or scenes");
+  }
+
+  console.log(`[Render] Project loaded: ${project.title}, ${timeline.tracks.video.length} video tracks, ${timeline.tracks.audio.length} audio tracks`);
+
+  // Checkpoint: Preparing downloads
+  console.log("[Render] Checkpoint: Preparing downloads");
+  await reportProgress(jobId, cancellation, PROGRESS.PREPARING_DOWNLOADS, "Preparing downloads...");
+  onProgress(PROGRESS.PREPARING_DOWNLOADS);
+
+  // Create work directory
+  if (!fs.existsSync(workDir)) {
+    fs.mkdirSync(workDir, { recursive: true });
+  }
+
+  // Collect items to download:
+  // 1. Clips with a direct URL (b-roll, music, sfx, image overlays) - download directly
+  // 2. Clips with assetId (user assets from media_assets) - fetch metadata first
+  // 3. Logo from media_assets
+  // Files are keyed the same way buildFFmpegCommand looks them up
+
+  const directDownloads: { id: string; url: string; name: string; type?: 'video' | 'audio' | 'image' }[] = [];
+  const directIds = new Set<string>();
+  const assetIds = new Set<string>();
+
+  for (const clip of videoClips) {
+    const key = videoClipKey(clip);
+    if (!key) continue;
+    if (clip.clipUrl) {
+      if (directIds.has(key)) continue;
+      directIds.add(key);
       directDownloads.push({
-        id: musicId,
-        url: musicData.audioUrl,
-        name: `Background Music: ${musicData.title || 'Unknown'}`,
-        type: 'audio',
+        id: key,
+        url: clip.clipUrl,
+        name: clip.kind === "image" ? `Overlay: ${clip.title || clip.id}` : `Clip ${clip.id}`,
+        type: clip.kind === "image" ? 'image' : 'video',
       });
     } else {
-      console.error("[MUSIC DEBUG] No music audioUrl found in timeline! Full global object:", JSON.stringify(timeline.global));
+      assetIds.add(key);
     }
-    
-    // Sound effects: download directly from audioUrl
-    if (timeline.soundEffects && timeline.soundEffects.length > 0) {
-      console.log(`Adding ${timeline.soundEffects.length} sound effects to download queue`);
-      for (const sfx of timeline.soundEffects) {
-        if (sfx.audioUrl) {
-          directDownloads.push({
-            id: sfx.id,
-            url: sfx.audioUrl,
-            name: `SFX: ${sfx.title}`,
-            type: 'audio',
-          });
-        }
+  }
+
+  for (const track of timeline.tracks.audio) {
+    for (const clip of track.clips) {
+      const key = audioClipKey(clip);
+      if (!key) continue;
+      if (clip.audioUrl) {
+        if (directIds.has(key)) continue;
+        directIds.add(key);
+        directDownloads.push({
+          id: key,
+          url: clip.audioUrl,
+          name: track.role === "music" ? `Background Music: ${clip.title || 'Unknown'}` : `SFX: ${clip.title || clip.id}`,
+          type: 'audio',
+        });
+      } else {
+        assetIds.add(key);
       }
     }
+  }
+
+  // Logo: fetch from media_assets
+  if (timeline.global.brand?.logoAssetId) assetIds.add(timeline.global.brand.logoAssetId);
+
+  // Fetch asset metadata for user assets
+  const assets = assetIds.size > 0 ? await getAssets(Array.from(assetIds)) : new Map<string, MediaAsset>();
+  
+  const totalDownloads = directDownloads.length + assets.size;
+  console.log(`[Render] Checkpoint: Downloading ${totalDownloads} assets`);
+  await reportProgress(jobId, cancellation, PROGRESS.DOWNLOADING_ASSETS, `Downloading ${totalDownloads} files...`);
+  onProgress(PROGRESS.DOWNLOADING_ASSETS);
+
+  // Download all files
+  // Progress range: DOWNLOADING_ASSETS (15%) to BUILDING_RENDER_GRAPH (42%)
+  const localAssets = new Map<string, string>();
+  const assetHashes = new Map<string, string>(); // Content sha256, by the same keys
+  const cacheStats = emptyCacheStats();
+  const downloads = log.begin("download");
+  const downloaded: Array<{ key: string; name: string; sizeBytes: number; cached: boolean }> = [];
+  const downloadProgressRange = PROGRESS.BUILDING_RENDER_GRAPH - PROGRESS.DOWNLOADING_ASSETS; // 27%
+  let downloadProgress = PROGRESS.DOWNLOADING_ASSETS;
+  const downloadStep = downloadProgressRange / Math.max(totalDownloads, 1);
+  let downloadCount = 0;
+
+  // Download direct downloads (clips, music, sfx, overlays)
+  for (const download of directDownloads) {
+    // Determine extension from type first, then URL
+    let ext = ".mp4";
+    const url = download.url.toLowerCase();
     
-    // Image overlays: download directly from imageUrl
-    if (timeline.imageOverlays && timeline.imageOverlays.length > 0) {
-      console.log(`Adding ${timeline.imageOverlays.length} image overlays to download queue`);
-      for (const io of timeline.imageOverlays) {
-        if (io.imageUrl) {
-          directDownloads.push({
-            id: io.id,
-            url: io.imageUrl,
-            name: `Overlay: ${io.title}`,
-            type: 'image',
-          });
-        }
+    // Use explicit type if provided
+    if (download.type === 'audio') {
+      ext = url.includes(".wav") ? ".wav" : ".mp3";
+    } else if (download.type === 'image') {
+      if (url.includes(".jpg") || url.includes(".jpeg")) ext = ".jpg";
+      else if (url.includes(".gif")) ext = ".gif";
+      else if (url.includes(".webp")) ext = ".webp";
+      else ext = ".png";
+    } else if (download.type === 'video') {
+      if (url.includes(".webm")) ext = ".webm";
+      else if (url.includes(".mov")) ext = ".mov";
+      else ext = ".mp4";
+    } else {
+      // Fallback: detect from URL or name
+      if (url.includes(".mp3") || download.name.includes("Music") || download.name.includes("SFX")) {
+        ext = ".mp3";
+      } else if (url.includes(".wav")) {
+        ext = ".wav";
+      } else if (url.includes(".png") || download.name.includes("Overlay")) {
+        ext = ".png";
+      } else if (url.includes(".jpg") || url.includes(".jpeg")) {
+        ext = ".jpg";
+      } else if (url.includes(".gif")) {
+        ext = ".gif";
+      } else if (url.includes(".webp")) {
+        ext = ".webp";
       }
     }
+    cancellation.throwIfCancelled();
+    const localPath = path.join(workDir, `asset_${download.id}${ext}`);
+    console.log(`Downloading ${download.name} (${download.type || 'unknown'}) to ${localPath}`);
+    console.log(`  URL: ${download.url}`);
 
-    // Voiceover: fetch from media_assets
-    if (timeline.global.voiceover?.assetId) assetIds.add(timeline.global.voiceover.assetId);
+    downloadCount++;
+    const currentProgress = Math.round(downloadProgress);
     
-    // Logo: fetch from media_assets
-    if (timeline.global.brand?.logoAssetId) assetIds.add(timeline.global.brand.logoAssetId);
-    
-    // Audio tracks (for talking head videos): fetch from media_assets
-    if (timeline.audioTracks && timeline.audioTracks.length > 0) {
-      console.log(`Adding ${timeline.audioTracks.length} audio tracks to asset queue`);
-      for (const track of timeline.audioTracks) {
-        if (track.assetId) {
-          assetIds.add(track.assetId);
-        }
-      }
+    await reportProgress(
+      jobId,
+      cancellation,
+      currentProgress,
+      `Downloading (${downloadCount}/${totalDownloads}): ${download.name}...`
+    );
+    onProgress(currentProgress);
+
+    const hitsBefore = cacheStats.hits;
+    try {
+      assetHashes.set(download.id, await fetchCachedAsset(download.url, localPath, cacheStats));
+    } catch (downloadError) {
+      console.error(`Failed to download ${download.name}: ${download.url}`);
+      log.error("download", `Failed to download ${download.name}`, { url: download.url });
+      throw downloadError;
     }
+    downloaded.push({
+      key: download.id,
+      name: download.name,
+      sizeBytes: getFileSize(localPath),
+      cached: cacheStats.hits > hitsBefore,
+    });
+    // Map by id for lookup in ffmpeg
+    localAssets.set(download.id, localPath);
+    downloadProgress += downloadStep;
+  }
 
-    // Fetch asset metadata for user assets
-    const assets = assetIds.size > 0 ? await getAssets(Array.from(assetIds)) : new Map<string, MediaAsset>();
-    
-    const totalDownloads = directDownloads.length + assets.size;
-    console.log(`[Render] Checkpoint: Downloading ${totalDownloads} assets`);
-    await updateJobProgress(jobId, PROGRESS.DOWNLOADING_ASSETS, `Downloading ${totalDownloads} files...`);
-    onProgress(PROGRESS.DOWNLOADING_ASSETS);
-
-    // Download all files
-    // Progress range: DOWNLOADING_ASSETS (15%) to BUILDING_RENDER_GRAPH (42%)
-    const localAssets = new Map<string, string>();
-    const downloadProgressRange = PROGRESS.BUILDING_RENDER_GRAPH - PROGRESS.DOWNLOADING_ASSETS; // 27%
-    let downloadProgress = PROGRESS.DOWNLOADING_ASSETS;
-    const downloadStep = downloadProgressRange / Math.max(totalDownloads, 1);
-    let downloadCount = 0;
-
-    // Download direct downloads (clips, music, sfx, overlays)
-    for (const download of directDownloads) {
-      // Determine extension from type first, then URL
-      let ext = ".mp4";
-      const url = download.url.toLowerCase();
-      
-      // Use explicit type if provided
-      if (download.type === 'audio') {
-        ext = url.includes(".wav") ? ".wav" : ".mp3";
-      } else if (download.type === 'image') {
-        if (url.includes(".jpg") || url.includes(".jpeg")) ext = ".jpg";
-        else if (url.includes(".gif")) ext = ".gif";
-        else if (url.includes(".webp")) ext = ".webp";
-        else ext = ".png";
-      } else if (download.type === 'video') {
-        if (url.includes(".webm")) ext = ".webm";
-        else if (url.includes(".mov")) ext = ".mov";
-        else ext = ".mp4";
-      } else {
-        // Fallback: detect from URL or name
-        if (url.includes(".mp3") || download.name.includes("Music") || download.name.includes("SFX")) {
-          ext = ".mp3";
-        } else if (url.includes(".wav")) {
-          ext = ".wav";
-        } else if (url.includes(".png") || download.name.includes("Overlay")) {
-          ext = ".png";
-        } else if (url.includes(".jpg") || url.includes(".jpeg")) {
-          ext = ".jpg";
-        } else if (url.includes(".gif")) {
-          ext = ".gif";
-        } else if (url.includes(".webp")) {
-          ext = ".webp";
-        }
-      }
-      const localPath = path.join(workDir, `asset_${download.id}${ext}`);
-      console.log(`Downloading ${download.name} (${download.type || 'unknown'}) to ${localPath}`);
-      console.log(`  URL: ${download.url}`);
+  // Download user assets from media_assets
+  for (const [assetId, asset] of assets) {
+    if (asset.public_url) {
+      cancellation.throwIfCancelled();
+      const ext = path.extname(asset.filename) || getExtFromMime(asset.kind);
+      const localPath = path.join(workDir, `asset_${assetId}${ext}`);
+
+      console.log(`Downloading user asset ${asset.filename}`);
+      console.log(`  URL: ${asset.public_url}`);
 
       downloadCount++;
       const currentProgress = Math.round(downloadProgress);
       
-      await updateJobProgress(
+      await reportProgress(
         jobId,
+        cancellation,
         currentProgress,
-        `Downloading (${downloadCount}/${totalDownloads}): ${download.name}...`
+        `Downloading (${downloadCount}/${totalDownloads}): ${asset.filename}...`
       );
       onProgress(currentProgress);
 
+      const hitsBefore = cacheStats.hits;
       try {
-        await downloadFromUrl(download.url, localPath);
+        assetHashes.set(assetId, await fetchCachedAsset(asset.public_url, localPath, cacheStats));
       } catch (downloadError) {
-        console.error(`Failed to download ${download.name}: ${download.url}`);
+        console.error(`Failed to download user asset ${asset.filename}: ${asset.public_url}`);
+        log.error("download", `Failed to download ${asset.filename}`, { url: asset.public_url });
         throw downloadError;
       }
-      // Map by id for lookup in ffmpeg
-      localAssets.set(download.id, localPath);
+      downloaded.push({
+        key: assetId,
+        name: asset.filename,
+        sizeBytes: getFileSize(localPath),
+        cached: cacheStats.hits > hitsBefore,
+      });
+      localAssets.set(assetId, localPath);
       downloadProgress += downloadStep;
     }
+  }
+  
+  console.log(`[Render] Downloaded ${downloadCount} assets successfully`);
+  console.log(`[Render] ${formatCacheStats(cacheStats)}`);
+  downloads.end(`Downloaded ${downloadCount} assets. ${formatCacheStats(cacheStats)}`, {
+    assets: downloaded,
+    totalBytes: downloaded.reduce((sum, asset) => sum + asset.sizeBytes, 0),
+    cache: cacheStats,
+  });
+
+  // Checkpoint: Checking media
+  cancellation.throwIfCancelled();
+  console.log("[Render] Checkpoint: Checking media");
+  await reportProgress(jobId, cancellation, PROGRESS.BUILDING_RENDER_GRAPH, formatCacheStats(cacheStats));
+  await reportProgress(jobId, cancellation, PROGRESS.BUILDING_RENDER_GRAPH, "Checking media...");
+  const check = log.begin("preflight");
+  const preflight = await validateMedia(timeline, localAssets);
+  for (const problem of preflight.problems.filter((p) => p.severity === "warning")) {
+    console.warn(`[Render] Preflight: ${problem.message}`);
+    log.warn("preflight", problem.message, { code: problem.code, clipId: problem.clipId });
+    await reportProgress(jobId, cancellation, PROGRESS.BUILDING_RENDER_GRAPH, `Warning: ${problem.message}`);
+  }
+  check.end(`Checked ${localAssets.size} files: ${preflight.problems.length} problems`);
+  if (!preflight.ok) {
+    throw new PreflightError(preflight);
+  }
 
-    // Download user assets from media_assets
-    for (const [assetId, asset] of assets) {
-      if (asset.public_url) {
-        const ext = path.extname(asset.filename) || getExtFromMime(asset.kind);
-        const localPath = path.join(workDir, `asset_${assetId}${ext}`);
-
-        console.log(`Downloading user asset ${asset.filename}`);
-        console.log(`  URL: ${asset.public_url}`);
-
-        downloadCount++;
-        const currentProgress = Math.round(downloadProgress);
-        
-        await updateJobProgress(
-          jobId,
-          currentProgress,
-          `Downloading (${downloadCount}/${totalDownloads}): ${asset.filename}...`
+  // Checkpoint: Building render graph
+  cancellation.throwIfCancelled();
+  console.log("[Render] Checkpoint: Building render graph");
+  await reportProgress(jobId, cancellation, PROGRESS.BUILDING_RENDER_GRAPH, "Building render graph...");
+  onProgress(PROGRESS.BUILDING_RENDER_GRAPH);
+
+  // One rendition per requested aspect ratio; the first is the primary
+  // output shown on the project
+  const layouts = (job.formats?.length ? job.formats : [timeline.project.aspectRatio]).map((ratio) => {
+    const layout = frameLayout(timeline, ratio);
+    return draftHeight ? draftLayout(layout, draftHeight) : layout;
+  });
+  console.log(`[Render] Formats: ${layouts.map((l) => `${l.aspectRatio} ${l.width}x${l.height}`).join(", ")}`);
+
+  // Follow the subject when clips are cropped to another aspect ratio
+  await applySmartReframe(timeline, layouts, localAssets, assets);
+
+  // Beat grids let looping music end on its own ending instead of mid-bar
+  cancellation.throwIfCancelled();
+  await applyMusicBeats(timeline, localAssets);
+
+  const captions = timeline.global.captions;
+  const segments = captions?.segments || [];
+  const hasCaptions = !!captions?.enabled && segments.length > 0;
+
+  // Plain sidecars go out with every render that has caption timing;
+  // the SRT doubles as the source of the optional mov_text track
+  const captionFiles: Array<{ format: CaptionFileFormat; path: string }> = [];
+  if (segments.length > 0) {
+    for (const format of Object.keys(CAPTION_FILE_TYPES) as CaptionFileFormat[]) {
+      const filePath = path.join(workDir, `captions.${format}`);
+      fs.writeFileSync(filePath, buildCaptionFile(format, segments), "utf8");
+      captionFiles.push({ format, path: filePath });
+    }
+    localAssets.set(CAPTIONS_SRT_KEY, path.join(workDir, "captions.srt"));
+  }
+
+  // Loudness pass 1: the mix is the same in every format, so measure it once.
+  // Without a measurement the render still normalizes, in single-pass mode
+  // (which is all a draft gets).
+  cancellation.throwIfCancelled();
+  const rendering = log.begin("render");
+  let loudness: LoudnormMeasurement | null = null;
+  if (!isDraft) {
+    await reportProgress(jobId, cancellation, PROGRESS.BUILDING_RENDER_GRAPH, "Measuring loudness...");
+    try {
+      loudness = await measureMixLoudness(timeline, localAssets, cancellation.signal);
+      if (loudness) {
+        console.log(
+          `[Render] Mix loudness: ${loudness.input.integratedLufs} LUFS, ` +
+            `${loudness.input.truePeakDb} dBTP (preset: ${loudnessPreset(timeline)})`
         );
-        onProgress(currentProgress);
-
-        try {
-          await downloadFromUrl(asset.public_url, localPath);
-        } catch (downloadError) {
-          console.error(`Failed to download user asset ${asset.filename}: ${asset.public_url}`);
-          throw downloadError;
-        }
-        localAssets.set(assetId, localPath);
-        downloadProgress += downloadStep;
+        log.info("render", "Measured mix loudness", { ...loudness.input, preset: loudnessPreset(timeline) });
       }
+    } catch (error) {
+      console.warn("[Render] Loudness measurement failed, normalizing in single pass:", error);
+      log.warn("render", "Loudness measurement failed, normalizing in single pass", {
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
-    
-    console.log(`[Render] Downloaded ${downloadCount} assets successfully`);
+  }
+
+  // Checkpoint: Starting FFmpeg render
+  console.log("[Render] Checkpoint: Starting FFmpeg render");
+  await reportProgress(jobId, cancellation, PROGRESS.RENDERING_START, "Rendering video...");
+  onProgress(PROGRESS.RENDERING_START);
 
-    // Checkpoint: Building render graph
-    console.log("[Render] Checkpoint: Building render graph");
-    await updateJobProgress(jobId, PROGRESS.BUILDING_RENDER_GRAPH, "Building render graph...");
-    onProgress(PROGRESS.BUILDING_RENDER_GRAPH);
+  // Calculate total duration for progress tracking
+  const totalDuration = totalDurationSec(timeline);
 
-    // Build FFmpeg command
-    const outputPath = path.join(workDir, "output.mp4");
-    const ffmpegArgs = buildFFmpegCommand(timeline, localAssets, outputPath);
+  // Progress range: RENDERING_START (45%) to CHECKING_RENDER (88%), split across formats
+  const renderProgressRange = (PROGRESS.CHECKING_RENDER - PROGRESS.RENDERING_START) / layouts.length;
+  const outputs: Array<{ layout: FrameLayout; outputPath: string; assPath: string | null }> = [];
+  let outputLoudness: LoudnormMeasurement | null = null;
 
-    // Checkpoint: Starting FFmpeg render
-    console.log("[Render] Checkpoint: Starting FFmpeg render");
-    await updateJobProgress(jobId, PROGRESS.RENDERING_START, "Rendering video...");
-    onProgress(PROGRESS.RENDERING_START);
+  // Long timelines are rendered in chunks, in parallel (see chunkRender.ts)
+  const chunks = planChunks(timeline, config.renderChunkSec);
+  let mixdown: Mixdown | null = null;
+  if (chunks.length > 1) {
+    console.log(`[Render] Rendering in ${chunks.length} chunks, ${config.renderConcurrency} at a time`);
+  }
+
+  for (const [index, layout] of layouts.entries()) {
+    cancellation.throwIfCancelled();
+    const formatAssets = new Map(localAssets);
+
+    // Captions as .ass, sized for this frame - burned in by the compiler
+    // and/or uploaded as a sidecar
+    let assPath: string | null = null;
+    if (hasCaptions) {
+      assPath = path.join(workDir, `captions-${layout.aspectRatio}.ass`);
+      fs.writeFileSync(assPath, buildAssSubtitles(timeline, layout), "utf8");
+      formatAssets.set(CAPTIONS_ASS_KEY, assPath);
+      console.log(`[Render] Wrote ${segments.length} caption segments (${captions.style || "static"}) for ${layout.aspectRatio}`);
+    }
 
-    // Calculate total duration for progress tracking
-    const totalDuration = timeline.scenes.reduce((sum, s) => sum + s.durationSec, 0);
+    const outputPath = path.join(workDir, `output-${layout.aspectRatio}.mp4`);
+    const formatTimer = log.begin("render");
 
-    // Run FFmpeg with progress tracking
-    // Progress range: RENDERING_START (45%) to GENERATING_THUMBNAIL (90%)
-    const renderProgressRange = PROGRESS.GENERATING_THUMBNAIL - PROGRESS.RENDERING_START; // 45%
-    await runFFmpeg(ffmpegArgs, (timeSec) => {
+    // Progress tracking
+    const progressStart = PROGRESS.RENDERING_START + index * renderProgressRange;
+    const formatLabel = layouts.length > 1 ? ` ${layout.aspectRatio}` : "";
+    const onRenderProgress = (timeSec: number) => {
       const renderPercent = Math.min(timeSec / totalDuration, 1);
-      const renderProgress = PROGRESS.RENDERING_START + (renderPercent * renderProgressRange);
+      const renderProgress = progressStart + (renderPercent * renderProgressRange);
       const roundedProgress = Math.round(renderProgress);
       onProgress(roundedProgress);
       // Update DB less frequently to avoid overwhelming it
       if (roundedProgress % 5 === 0) {
-        updateJobProgress(jobId, roundedProgress, `Rendering: ${Math.round(renderPercent * 100)}%`);
+        reportProgress(jobId, cancellation, roundedProgress, `Rendering${formatLabel}: ${Math.round(renderPercent * 100)}%`);
       }
+    };
+
+    let stderr: string;
+    if (chunks.length > 1) {
+      // The mix is the same in every format, so it is rendered once
+      mixdown ??= await renderMixdown(timeline, localAssets, workDir, loudness ?? undefined, cancellation.signal, log);
+      await renderChunked({
+        timeline,
+        localAssets: formatAssets,
+        assetHashes,
+        layout,
+        chunks,
+        mixdown,
+        workDir,
+        outputPath,
+        onProgress: onRenderProgress,
+        signal: cancellation.signal,
+        log,
+      });
+      stderr = mixdown.stderr;
+    } else {
+      const ffmpegArgs = buildFFmpegCommand(timeline, formatAssets, outputPath, layout, loudness ?? undefined);
+      stderr = await runFFmpeg(ffmpegArgs, onRenderProgress, cancellation.signal);
+      log.ffmpeg("render", `Encoded ${layout.aspectRatio}`, ffmpegArgs, stderr);
+    }
+    formatTimer.end(`Rendered ${layout.aspectRatio} ${layout.width}x${layout.height}`, {
+      sizeBytes: getFileSize(outputPath),
+      chunks: chunks.length,
     });
 
-    // Checkpoint: Generating thumbnail
+    // loudnorm reports what it produced; the primary rendition's figures go on the job
+    if (index === 0) outputLoudness = parseLoudnormOutput(stderr);
+
+    outputs.push({ layout, outputPath, assPath });
+  }
+
+  // Checkpoint: Checking the render (not drafts). The primary output stands
+  // in for the rest: they're the same edit, reframed.
+  let qa: QaReport | null = null;
+  if (!isDraft) {
+    cancellation.throwIfCancelled();
+    console.log("[Render] Checkpoint: Checking the render");
+    await reportProgress(jobId, cancellation, PROGRESS.CHECKING_RENDER, "Checking the render...");
+    onProgress(PROGRESS.CHECKING_RENDER);
+
+    const checking = log.begin("qa");
+    const checkRange = PROGRESS.GENERATING_THUMBNAIL - PROGRESS.CHECKING_RENDER;
+    try {
+      qa = await checkRender(
+        outputs[0].outputPath,
+        timeline,
+        (timeSec) => onProgress(Math.round(PROGRESS.CHECKING_RENDER + Math.min(timeSec / totalDuration, 1) * checkRange)),
+        cancellation.signal,
+        log
+      );
+      for (const issue of qa.issues) {
+        console.warn(`[Render] QA: ${issue.message}`);
+        log.warn("qa", issue.message, { check: issue.check, startSec: issue.startSec, endSec: issue.endSec });
+        await reportProgress(jobId, cancellation, PROGRESS.CHECKING_RENDER, `Warning: ${issue.message}`);
+      }
+      checking.end(`Quality check: ${qa.issues.length} issues`, { durationSec: qa.durationSec, loudness: qa.loudness });
+    } catch (error) {
+      // A check that can't run doesn't hold back the render
+      if (isCancellation(error, cancellation.signal)) throw error;
+      console.warn("[Render] Quality check failed:", error);
+      log.warn("qa", "Quality check could not run", { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Checkpoint: Generating thumbnail (drafts don't get one)
+  const thumbnailPaths: string[] = [];
+  if (!isDraft) {
+    cancellation.throwIfCancelled();
     console.log("[Render] Checkpoint: Generating thumbnail");
-    await updateJobProgress(jobId, PROGRESS.GENERATING_THUMBNAIL, "Generating thumbnail...");
+    await reportProgress(jobId, cancellation, PROGRESS.GENERATING_THUMBNAIL, "Generating thumbnail...");
     onProgress(PROGRESS.GENERATING_THUMBNAIL);
 
-    // Generate thumbnail
-    const thumbnailPath = path.join(workDir, "thumbnail.jpg");
-    await generateThumbnail(outputPath, thumbnailPath);
+    for (const { layout, outputPath } of outputs) {
+      const thumbnailPath = path.join(workDir, `thumbnail-${layout.aspectRatio}.jpg`);
+      await generateThumbnail(outputPath, thumbnailPath);
+      thumbnailPaths.push(thumbnailPath);
+    }
+  }
+  rendering.end(`Rendered ${outputs.length} format${outputs.length === 1 ? "" : "s"} of ${totalDuration}s`, {
+    durationSec: totalDuration,
+  });
+
+  // Caption sidecars go up next to the primary output. The .ass goes too
+  // when requested, or when captions aren't burned in.
+  const sidecars: RenderedSidecar[] = captionFiles.map((file) => ({
+    format: file.format,
+    path: file.path,
+    contentType: CAPTION_FILE_TYPES[file.format],
+  }));
+  const primaryAssPath = outputs[0].assPath;
+  if (primaryAssPath && (captions.sidecar || !captions.burnIn)) {
+    sidecars.push({ format: "ass", path: primaryAssPath, contentType: "text/x-ssa" });
+  }
 
-    // Checkpoint: Uploading video
-    console.log("[Render] Checkpoint: Uploading video");
-    await updateJobProgress(jobId, PROGRESS.UPLOADING_OUTPUT, "Uploading video...");
-    onProgress(PROGRESS.UPLOADING_OUTPUT);
+  const target = loudnessTarget(timeline);
+  const loudnessReport: LoudnessReport | null = loudness
+    ? {
+        preset: loudnessPreset(timeline),
+        targetLufs: target?.integratedLufs ?? null,
+        input: loudness.input,
+        output: target ? (outputLoudness ?? loudness).output : loudness.input,
+      }
+    : null;
+
+  return {
+    stage: "rendered",
+    durationSec: totalDuration,
+    loudness: loudnessReport,
+    qa,
+    outputs: outputs.map(({ layout, outputPath }, i) => ({
+      aspectRatio: layout.aspectRatio,
+      width: layout.width,
+      height: layout.height,
+      path: outputPath,
+      thumbnailPath: thumbnailPaths[i] ?? null,
+    })),
+    sidecars,
+  };
+}
 
-    // Upload output video
-    const outputKey = `renders/${projectId}/${uuid()}.mp4`;
-    const outputUrl = await uploadFile(outputPath, outputKey, "video/mp4");
+/**
+ * Upload the rendered files. Drafts go under their own prefix, which the
+ * bucket expires after a few days (see DEPLOYMENT.md).
+ */
+async function uploadOutputs(
+  jobId: string,
+  projectId: string,
+  isDraft: boolean,
+  rendered: Extract<RenderCheckpoint, { stage: "rendered" }>,
+  cancellation: CancellationWatch,
+  log: RenderLog,
+  onProgress: (progress: number) => void
+): Promise<Extract<RenderCheckpoint, { stage: "uploaded" }>> {
+  // Checkpoint: Uploading video (only while the job is still ours)
+  console.log("[Render] Checkpoint: Uploading video");
+  await reportProgress(jobId, cancellation, PROGRESS.UPLOADING_OUTPUT, "Uploading video...");
+  cancellation.throwIfCancelled();
+  onProgress(PROGRESS.UPLOADING_OUTPUT);
+
+  const uploads = log.begin("upload");
+  const uploaded: Array<{ key: string; sizeBytes: number }> = [];
+  const upload = async (filePath: string, key: string, contentType: string) => {
+    const url = await uploadFile(filePath, key, contentType);
+    uploaded.push({ key, sizeBytes: getFileSize(filePath) });
+    return url;
+  };
+
+  const keyPrefix = isDraft ? `renders/drafts/${projectId}` : `renders/${projectId}`;
+  const outputUrls: string[] = [];
+  for (const output of rendered.outputs) {
+    const outputKey = `${keyPrefix}/${uuid()}.mp4`;
+    outputUrls.push(await upload(output.path, outputKey, "video/mp4"));
+  }
 
-    // Checkpoint: Uploading thumbnail
+  // Checkpoint: Uploading thumbnail (drafts have none)
+  const thumbnailUrls: Array<string | null> = rendered.outputs.map(() => null);
+  if (rendered.outputs.some((output) => output.thumbnailPath)) {
+    cancellation.throwIfCancelled();
     console.log("[Render] Checkpoint: Uploading thumbnail");
-    await updateJobProgress(jobId, PROGRESS.UPLOADING_THUMBNAIL, "Uploading thumbnail...");
+    await reportProgress(jobId, cancellation, PROGRESS.UPLOADING_THUMBNAIL, "Uploading thumbnail...");
     onProgress(PROGRESS.UPLOADING_THUMBNAIL);
 
-    // Upload thumbnail
-    const thumbnailKey = `renders/${projectId}/${uuid()}_thumb.jpg`;
-    const thumbnailUrl = await uploadFile(thumbnailPath, thumbnailKey, "image/jpeg");
+    for (const [i, { thumbnailPath }] of rendered.outputs.entries()) {
+      if (!thumbnailPath) continue;
+      thumbnailUrls[i] = await upload(thumbnailPath, `${keyPrefix}/${uuid()}_thumb.jpg`, "image/jpeg");
+    }
+  }
 
-    const sizeBytes = getFileSize(outputPath);
+  // Caption sidecars next to the MP4
+  const captionUrls: Record<string, string> = {};
+  const captionKeyBase = `${keyPrefix}/${uuid()}`;
+  for (const sidecar of rendered.sidecars) {
+    captionUrls[sidecar.format] = await upload(
+      sidecar.path,
+      `${captionKeyBase}.${sidecar.format}`,
+      sidecar.contentType
+    );
+  }
 
-    // Checkpoint: Finalizing
-    console.log("[Render] Checkpoint: Finalizing");
-    await updateJobProgress(jobId, PROGRESS.FINALIZING, "Finalizing...");
-    onProgress(PROGRESS.FINALIZING);
+  const renditions: Rendition[] = rendered.outputs.map((output, i) => ({
+    aspectRatio: output.aspectRatio,
+    width: output.width,
+    height: output.height,
+    outputUrl: outputUrls[i],
+    thumbnailUrl: thumbnailUrls[i],
+    sizeBytes: getFileSize(output.path),
+  }));
+  uploads.end(`Uploaded ${uploaded.length} files`, {
+    files: uploaded,
+    totalBytes: uploaded.reduce((sum, file) => sum + file.sizeBytes, 0),
+  });
+
+  return {
+    stage: "uploaded",
+    durationSec: rendered.durationSec,
+    loudness: rendered.loudness,
+    qa: rendered.qa,
+    renditions,
+    captionUrls,
+  };
+}
 
-    // Update job as finished
-    await updateJobStatus(jobId, "finished", {
-      outputUrl,
-      thumbnailUrl,
-      durationSec: totalDuration,
-      sizeBytes,
-    });
+/**
+ * Record the uploaded outputs on the job, and on the project unless it's a draft
+ */
+async function finishJob(
+  jobId: string,
+  projectId: string,
+  isDraft: boolean,
+  uploaded: Extract<RenderCheckpoint, { stage: "uploaded" }>,
+  cancellation: CancellationWatch,
+  log: RenderLog,
+  onProgress: (progress: number) => void
+): Promise<void> {
+  const { renditions, captionUrls, durationSec } = uploaded;
+  const [primary] = renditions;
+  const { outputUrl, thumbnailUrl } = primary;
+
+  // Checkpoint: Finalizing
+  const finishing = log.begin("finish");
+  console.log("[Render] Checkpoint: Finalizing");
+  await reportProgress(jobId, cancellation, PROGRESS.FINALIZING, "Finalizing...");
+  onProgress(PROGRESS.FINALIZING);
+
+  // Update job as finished. Cancellation is only polled, so this write is
+  // what decides: a job cancelled (and refunded) or taken over by now is
+  // left alone, and its video isn't published.
+  cancellation.throwIfCancelled();
+  const finished = await updateJobStatus(jobId, config.workerId, "finished", {
+    outputUrl,
+    thumbnailUrl: thumbnailUrl ?? undefined,
+    durationSec,
+    sizeBytes: primary.sizeBytes,
+    captionUrls: Object.keys(captionUrls).length > 0 ? captionUrls : undefined,
+    renditions,
+    loudness: uploaded.loudness ?? undefined,
+    qaReport: uploaded.qa ?? undefined,
+  });
+  if (!finished) {
+    finishing.end("Not published: the job was cancelled or taken over");
+    cancellation.abort(new LeaseLostError(jobId));
+    cancellation.throwIfCancelled();
+  }
 
-    // Update project
+  // Update project (a draft doesn't replace the project's video)
+  if (!isDraft) {
     await updateProjectOutput(projectId, "finished", {
       outputUrl,
-      thumbnailUrl,
-      durationSec: totalDuration,
+      thumbnailUrl: thumbnailUrl ?? undefined,
+      durationSec,
     });
-
-    // Checkpoint: Complete
-    console.log("[Render] Checkpoint: Complete");
-    await updateJobProgress(jobId, PROGRESS.COMPLETE, "Render complete!");
-    onProgress(PROGRESS.COMPLETE);
-    
-    console.log(`[Render] Successfully completed render for project ${projectId}`);
-    console.log(`[Render] Output URL: ${outputUrl}`);
-    console.log(`[Render] Thumbnail URL: ${thumbnailUrl}`);
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    console.error("Render failed:", errorMessage);
-
-    await updateJobStatus(jobId, "failed", { error: errorMessage });
-    await updateProjectOutput(projectId, "failed");
-
-    throw error;
-  } finally {
-    // Clean up work directory
-    cleanupDir(workDir);
   }
+
+  // Checkpoint: Complete
+  finishing.end("Render complete", { outputUrl, renditions: renditions.length });
+  console.log("[Render] Checkpoint: Complete");
+  await updateJobProgress(jobId, PROGRESS.COMPLETE, "Render complete!");
+  onProgress(PROGRESS.COMPLETE);
+  
+  console.log(`[Render] Successfully completed render for project ${projectId}`);
+  console.log(`[Render] Output URL: ${outputUrl}`);
+  console.log(`[Render] Thumbnail URL: ${thumbnailUrl}`);
 }
 
 function getExtFromMime(kind: string): string {
@@ -0,0 +1,82 @@
+import { config } from "../config";
+import { PreflightError } from "./preflight";
+
+// Which render failures are worth retrying
+//
+// Downloads and uploads fail for reasons that go away: dropped connections,
+// timeouts, throttling, a storage hiccup. FFmpeg failing on the same inputs
+// will fail the same way again, as will a missing project or a failed media
+// check, so those fail the job at once. Anything unrecognized counts as
+// deterministic: a wasted retry costs a render, a missed one only a click.
+
+// Node socket and DNS errors
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ESOCKETTIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+];
+
+// AWS SDK (R2 uploads) error names that are safe to retry
+const RETRYABLE_S3_ERRORS = [
+  "TimeoutError",
+  "RequestTimeout",
+  "RequestTimeTooSkewed",
+  "SlowDown",
+  "InternalError",
+  "ServiceUnavailable",
+  "ThrottlingException",
+];
+
+// Longest wait between attempts
+const MAX_RETRY_DELAY_SEC = 15 * 60;
+
+interface ErrorShape {
+  name?: string;
+  message?: string;
+  code?: string;
+  $retryable?: unknown;
+  $metadata?: { httpStatusCode?: number };
+}
+
+/**
+ * Whether a render that failed with this error may succeed if run again
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== "object" || error instanceof PreflightError) return false;
+  const { name = "", message = "", code, $retryable, $metadata } = error as ErrorShape;
+
+  if ($retryable || RETRYABLE_S3_ERRORS.includes(name)) return true;
+  if ($metadata?.httpStatusCode && isTransientStatus($metadata.httpStatusCode)) return true;
+  if (code && NETWORK_ERROR_CODES.includes(code)) return true;
+
+  // storage.ts wraps socket errors and HTTP statuses into messages
+  if (NETWORK_ERROR_CODES.some((c) => message.includes(c)) || /socket hang up|timed out/i.test(message)) {
+    return true;
+  }
+  const status = message.match(/(?:HTTP |Failed to download: )(\d{3})/);
+  if (status && isTransientStatus(Number(status[1]))) return true;
+  if (message.startsWith("Downloaded file is empty")) return true;
+
+  // FFmpeg killed by a signal (e.g. the OOM killer) rather than failing
+  return message.startsWith("FFmpeg exited with code null");
+}
+
+/**
+ * Seconds to wait before the next attempt: exponential from
+ * config.renderRetryDelaySec, with jitter so recovered jobs spread out
+ */
+export function retryDelaySec(attempt: number): number {
+  const delay = config.renderRetryDelaySec * 2 ** Math.max(0, attempt - 1);
+  const jitter = 0.8 + Math.random() * 0.4;
+  return Math.round(Math.min(delay * jitter, MAX_RETRY_DELAY_SEC));
+}
+
+function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
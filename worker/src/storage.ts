@@ -57,10 +57,16 @@ export async function downloadFile(objectKey: string, localPath: string): Promis
   });
 }
 
+// Validators from the response, for revalidating a cached copy later
+export interface DownloadInfo {
+  etag?: string;
+  lastModified?: string;
+}
+
 /**
  * Download a file from a public URL to local path
  */
-export async function downloadFromUrl(url: string, localPath: string): Promise<void> {
+export async function downloadFromUrl(url: string, localPath: string): Promise<DownloadInfo> {
   const dir = path.dirname(localPath);
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
@@ -68,7 +74,8 @@ export async function downloadFromUrl(url: string, localPath: string): Promise<v
 
   // Check if this is a Google Drive URL
   if (url.includes("drive.google.com") || url.includes("docs.google.com")) {
-    return downloadFromGoogleDrive(url, localPath);
+    await downloadFromGoogleDrive(url, localPath);
+    return {};
   }
 
   console.log(`Downloading from URL: ${url.substring(0, 80)}...`);
@@ -127,7 +134,10 @@ export async function downloadFromUrl(url: string, localPath: string): Promise<v
             reject(new Error(`Downloaded file is empty: ${url.substring(0, 50)}`));
           } else {
             console.log(`  Downloaded ${stats.size} bytes to ${path.basename(localPath)}`);
-            resolve();
+            resolve({
+              etag: response.headers.etag,
+              lastModified: response.headers["last-modified"],
+            });
           }
         });
       })
@@ -345,6 +355,18 @@ export function getFileSize(localPath: string): number {
   return stats.size;
 }
 
+/**
+ * Hard-link a file into place (free, and survives the source being deleted),
+ * copying it instead across filesystems
+ */
+export function linkOrCopy(source: string, destination: string): void {
+  try {
+    fs.linkSync(source, destination);
+  } catch {
+    fs.copyFileSync(source, destination);
+  }
+}
+
 /**
  * Clean up local files
  */
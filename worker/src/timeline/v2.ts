@@ -0,0 +1,61 @@
+import type { AudioClip, TimelineV2, VideoClip, VideoTrack } from "../../../packages/timeline/src";
+
+// Timeline v2 types and the v1 -> v2 upgrade come from the shared package
+// (packages/timeline), the same code the app validates and migrates with
+
+export type {
+  AudioClip,
+  AudioTrack,
+  AudioTrackRole,
+  Transform,
+  TimelineV2,
+  VideoClip,
+  VideoTrack,
+} from "../../../packages/timeline/src";
+export {
+  MAIN_TRACK_ID,
+  OVERLAY_TRACK_ID,
+  VALID_TRANSITIONS,
+  migrateV1ToV2,
+  toTimelineV2,
+  transitionOverlapSec,
+} from "../../../packages/timeline/src";
+
+/**
+ * End time of the last video clip on any track
+ */
+export function totalDurationSec(timeline: TimelineV2): number {
+  let end = 0;
+  for (const track of timeline.tracks.video) {
+    for (const clip of track.clips) {
+      end = Math.max(end, clip.startSec + clip.durationSec);
+    }
+  }
+  return end;
+}
+
+/**
+ * Video tracks from bottom to top, skipping hidden ones
+ */
+export function getVisibleVideoTracks(timeline: TimelineV2): VideoTrack[] {
+  return timeline.tracks.video
+    .filter((track) => !track.hidden)
+    .sort((a, b) => a.zIndex - b.zIndex);
+}
+
+/**
+ * Key a video clip's source file is downloaded under
+ */
+export function videoClipKey(clip: VideoClip): string | null {
+  // B-roll / overlay URLs are downloaded directly, user assets by asset id
+  if (clip.clipUrl) return clip.clipId || clip.id;
+  return clip.assetId || null;
+}
+
+/**
+ * Key an audio clip's source file is downloaded under
+ */
+export function audioClipKey(clip: AudioClip): string | null {
+  if (clip.audioUrl) return clip.id;
+  return clip.assetId || null;
+}
@@ -0,0 +1,196 @@
+import { spawn } from "child_process";
+import { config } from "../config";
+import { MusicBeatGrid } from "../db";
+
+// Decoded at a low rate: beats live in the envelope, not the treble
+const SAMPLE_RATE = 11025;
+const HOP = 256; // ~23ms per onset frame
+const FRAME_RATE = SAMPLE_RATE / HOP;
+
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const PREFERRED_BPM = 120;
+
+// Beats per bar and bars per phrase (4/4 pop and library music)
+export const BEATS_PER_BAR = 4;
+export const BARS_PER_PHRASE = 4;
+
+/**
+ * Estimate tempo, beat and downbeat times for a music file
+ *
+ * An onset-strength envelope (rises in loudness, full band and treble) is
+ * autocorrelated to find the beat period; beats are then tracked with
+ * dynamic programming so they follow the music instead of a rigid grid.
+ * Downbeats are the bar phase whose beats carry the most onset energy.
+ *
+ * @param audioPath - Path to the audio file
+ * @returns Tempo and times in seconds from the start of the file
+ */
+export async function analyzeBeats(audioPath: string, timeoutMs = 120000): Promise<MusicBeatGrid> {
+  const samples = await decodeMono(audioPath, timeoutMs);
+  const durationSec = samples.length / SAMPLE_RATE;
+  const onsets = onsetEnvelope(samples);
+
+  const period = estimatePeriod(onsets);
+  const beatFrames = trackBeats(onsets, period);
+  const beats = beatFrames.map((f) => round(f / FRAME_RATE));
+
+  // Bar phase: the beat position within the bar with the strongest onsets
+  const phaseEnergy = new Array(BEATS_PER_BAR).fill(0);
+  beatFrames.forEach((f, i) => {
+    phaseEnergy[i % BEATS_PER_BAR] += onsets[Math.round(f)] ?? 0;
+  });
+  const barPhase = phaseEnergy.indexOf(Math.max(...phaseEnergy));
+  const downbeats = beats.filter((_, i) => i % BEATS_PER_BAR === barPhase);
+
+  const intervals = beats.slice(1).map((t, i) => t - beats[i]).sort((a, b) => a - b);
+  const medianInterval = intervals[Math.floor(intervals.length / 2)] || period / FRAME_RATE;
+  const bpm = Math.round((60 / medianInterval) * 100) / 100;
+
+  console.log(`[Beats] ${bpm} BPM, ${beats.length} beats, ${downbeats.length} bars over ${durationSec.toFixed(1)}s`);
+  return { bpm, beats, downbeats, durationSec: round(durationSec) };
+}
+
+function decodeMono(audioPath: string, timeoutMs: number): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const args = ["-i", audioPath, "-vn", "-ac", "1", "-ar", String(SAMPLE_RATE), "-f", "f32le", "-"];
+    const ffmpeg = spawn(config.ffmpegPath, args);
+    const chunks: Buffer[] = [];
+    let stderr = "";
+
+    ffmpeg.stdout.on("data", (data: Buffer) => chunks.push(data));
+    ffmpeg.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+
+    const timer = setTimeout(() => {
+      ffmpeg.kill();
+      reject(new Error("Beat analysis timed out"));
+    }, timeoutMs);
+
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        reject(new Error(`Audio decode failed with code ${code}: ${stderr.slice(-500)}`));
+        return;
+      }
+      const data = Buffer.concat(chunks);
+      // Copy into an aligned buffer - Buffer.concat may return a pooled slice
+      const samples = new Float32Array(Math.floor(data.length / 4));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = data.readFloatLE(i * 4);
+      }
+      resolve(samples);
+    });
+
+    ffmpeg.on("error", (err) => {
+      clearTimeout(timer);
+      reject(new Error(`FFmpeg failed: ${err.message}`));
+    });
+  });
+}
+
+/**
+ * Half-wave rectified change in log energy per hop, full band plus a
+ * first-difference (treble-weighted) band so hi-hats count as well as kicks
+ */
+function onsetEnvelope(samples: Float32Array): Float32Array {
+  const frames = Math.floor(samples.length / HOP);
+  const onsets = new Float32Array(frames);
+  let prevFull = 0;
+  let prevHigh = 0;
+
+  for (let f = 0; f < frames; f++) {
+    let full = 0;
+    let high = 0;
+    for (let i = f * HOP; i < (f + 1) * HOP; i++) {
+      full += samples[i] * samples[i];
+      const diff = samples[i] - (i > 0 ? samples[i - 1] : 0);
+      high += diff * diff;
+    }
+    const logFull = Math.log(1 + 1000 * full);
+    const logHigh = Math.log(1 + 1000 * high);
+    onsets[f] = f === 0 ? 0 : Math.max(0, logFull - prevFull) + Math.max(0, logHigh - prevHigh);
+    prevFull = logFull;
+    prevHigh = logHigh;
+  }
+
+  // Remove the local mean so sustained loud passages don't read as onsets
+  const window = Math.round(FRAME_RATE); // 1s
+  const smoothed = new Float32Array(frames);
+  let sum = 0;
+  for (let f = 0; f < frames; f++) {
+    sum += onsets[f];
+    if (f >= window) sum -= onsets[f - window];
+    smoothed[f] = Math.max(0, onsets[f] - sum / Math.min(f + 1, window));
+  }
+  return smoothed;
+}
+
+/**
+ * Beat period in onset frames: the autocorrelation peak within the tempo
+ * range, weighted towards moderate tempos to avoid half/double errors
+ */
+function estimatePeriod(onsets: Float32Array): number {
+  const minLag = Math.floor((60 / MAX_BPM) * FRAME_RATE);
+  const maxLag = Math.ceil((60 / MIN_BPM) * FRAME_RATE);
+  const scores: number[] = [];
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let acf = 0;
+    for (let f = lag; f < onsets.length; f++) {
+      acf += onsets[f] * onsets[f - lag];
+    }
+    const bpm = (60 * FRAME_RATE) / lag;
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM) / 0.9, 2));
+    scores.push(acf * prior);
+  }
+
+  const best = scores.indexOf(Math.max(...scores));
+  // Parabolic interpolation around the peak for sub-frame precision
+  const [a, b, c] = [scores[best - 1], scores[best], scores[best + 1]];
+  const offset = a !== undefined && c !== undefined && a - 2 * b + c !== 0 ? (0.5 * (a - c)) / (a - 2 * b + c) : 0;
+  return minLag + best + offset;
+}
+
+/**
+ * Dynamic-programming beat tracker: each frame's score is its onset strength
+ * plus the best predecessor roughly one period earlier, penalised for
+ * deviating from the period. The best-scoring chain is traced back.
+ */
+function trackBeats(onsets: Float32Array, period: number): number[] {
+  const tightness = 100;
+  const score = new Float32Array(onsets.length);
+  const backlink = new Int32Array(onsets.length).fill(-1);
+
+  for (let f = 0; f < onsets.length; f++) {
+    let best = 0;
+    let bestPrev = -1;
+    for (let prev = Math.max(0, Math.round(f - 2 * period)); prev <= f - Math.round(period / 2); prev++) {
+      const penalty = -tightness * Math.pow(Math.log((f - prev) / period), 2);
+      const candidate = score[prev] + penalty;
+      if (bestPrev === -1 || candidate > best) {
+        best = candidate;
+        bestPrev = prev;
+      }
+    }
+    score[f] = onsets[f] + (bestPrev === -1 ? 0 : best);
+    backlink[f] = bestPrev;
+  }
+
+  // Start from the best score within the last period
+  let f = onsets.length - 1;
+  for (let i = Math.max(0, onsets.length - Math.round(period)); i < onsets.length; i++) {
+    if (score[i] > score[f]) f = i;
+  }
+  const beats: number[] = [];
+  while (f >= 0) {
+    beats.push(f);
+    f = backlink[f];
+  }
+  return beats.reverse();
+}
+
+function round(sec: number): number {
+  return Math.round(sec * 1000) / 1000;
+}
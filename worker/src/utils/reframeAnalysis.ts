@@ -0,0 +1,247 @@
+import { spawn } from "child_process";
+import { CropKeyframe } from "../db";
+
+// Grid the frames are analysed at - small enough to be cheap on one CPU,
+// large enough to tell left/center/right and top/bottom apart
+const GRID_W = 64;
+const GRID_H = 36;
+
+// Frames sampled per second of video
+const SAMPLE_FPS = 4;
+
+export interface ReframeAnalysisOptions {
+  sampleFps?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Compute a smoothed region-of-interest path for a video
+ *
+ * FFmpeg samples frames at a low rate and scales them to a small grayscale
+ * grid; cropdetect reports letterbox/pillarbox bars alongside. Each frame's
+ * saliency is edge strength plus motion against the previous frame, and the
+ * energy-weighted centroid inside the active picture is taken as the point
+ * to keep in frame. The raw centroids are then smoothed and reduced to a
+ * handful of keyframes.
+ *
+ * @param videoPath - Path to the video file
+ * @returns Keyframes with source times (seconds) and normalized centers (0-1)
+ */
+export async function analyzeRegionsOfInterest(
+  videoPath: string,
+  options: ReframeAnalysisOptions = {}
+): Promise<CropKeyframe[]> {
+  const sampleFps = options.sampleFps ?? SAMPLE_FPS;
+  const frames = await sampleFrames(videoPath, sampleFps, options.timeoutMs ?? 120000);
+
+  const centers: CropKeyframe[] = [];
+  let previous: Uint8Array | null = null;
+  frames.forEach(({ pixels, activeArea }, i) => {
+    const center = saliencyCenter(pixels, previous, activeArea);
+    centers.push({ t: i / sampleFps, ...center });
+    previous = pixels;
+  });
+
+  const path = simplifyPath(smoothPath(centers, sampleFps));
+  console.log(`[Reframe] ${frames.length} frames analysed, ${path.length} keyframes`);
+  return path;
+}
+
+interface SampledFrame {
+  pixels: Uint8Array;
+  activeArea: { x1: number; x2: number; y1: number; y2: number }; // Grid cells
+}
+
+function sampleFrames(videoPath: string, sampleFps: number, timeoutMs: number): Promise<SampledFrame[]> {
+  return new Promise((resolve, reject) => {
+    // cropdetect runs on the full-size frame; its measurements are mapped
+    // onto the grid using the input size from the stream info
+    const args = [
+      "-i", videoPath,
+      "-an", "-sn",
+      "-vf", `fps=${sampleFps},cropdetect=limit=24:round=2:reset=1,scale=${GRID_W}:${GRID_H},format=gray`,
+      "-f", "rawvideo",
+      "-",
+    ];
+
+    console.log(`[Reframe] Running: ffmpeg ${args.join(" ")}`);
+
+    const ffmpeg = spawn("ffmpeg", args);
+    const frameSize = GRID_W * GRID_H;
+    const chunks: Buffer[] = [];
+    let stderr = "";
+
+    ffmpeg.stdout.on("data", (data: Buffer) => chunks.push(data));
+    ffmpeg.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+
+    const timer = setTimeout(() => {
+      ffmpeg.kill();
+      reject(new Error("Reframe analysis timed out"));
+    }, timeoutMs);
+
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        reject(new Error(`Reframe analysis failed with code ${code}: ${stderr.slice(-500)}`));
+        return;
+      }
+
+      // Input size, from the stream info line: "Video: h264 ..., 1920x1080"
+      const sizeMatch = stderr.match(/Video: [^\n]*?, (\d{2,5})x(\d{2,5})/);
+      const inputW = sizeMatch ? parseInt(sizeMatch[1]) : 0;
+      const inputH = sizeMatch ? parseInt(sizeMatch[2]) : 0;
+
+      // cropdetect lines: "x1:0 x2:1919 y1:140 y2:939 w:1920 h:800 ..."
+      const crops = [...stderr.matchAll(/x1:(\d+) x2:(\d+) y1:(\d+) y2:(\d+)/g)].map((m) => ({
+        x1: parseInt(m[1]),
+        x2: parseInt(m[2]),
+        y1: parseInt(m[3]),
+        y2: parseInt(m[4]),
+      }));
+
+      const data = Buffer.concat(chunks);
+      const frames: SampledFrame[] = [];
+      for (let i = 0; i + frameSize <= data.length; i += frameSize) {
+        const crop = crops[frames.length];
+        const full = { x1: 0, x2: GRID_W - 1, y1: 0, y2: GRID_H - 1 };
+        const activeArea =
+          crop && inputW > 0 && inputH > 0 && crop.x2 > crop.x1 && crop.y2 > crop.y1
+            ? {
+                x1: Math.floor((crop.x1 / inputW) * GRID_W),
+                x2: Math.min(GRID_W - 1, Math.ceil((crop.x2 / inputW) * GRID_W)),
+                y1: Math.floor((crop.y1 / inputH) * GRID_H),
+                y2: Math.min(GRID_H - 1, Math.ceil((crop.y2 / inputH) * GRID_H)),
+              }
+            : full;
+        frames.push({ pixels: new Uint8Array(data.subarray(i, i + frameSize)), activeArea });
+      }
+
+      resolve(frames);
+    });
+
+    ffmpeg.on("error", (err) => {
+      clearTimeout(timer);
+      console.error("[Reframe] FFmpeg error:", err);
+      reject(new Error(`FFmpeg failed: ${err.message}`));
+    });
+  });
+}
+
+/**
+ * Energy-weighted centroid of one frame. Motion counts double: a speaker's
+ * face and hands move, a detailed background doesn't.
+ */
+function saliencyCenter(
+  pixels: Uint8Array,
+  previous: Uint8Array | null,
+  area: SampledFrame["activeArea"]
+): { x: number; y: number } {
+  let total = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (let y = Math.max(1, area.y1); y < Math.min(GRID_H - 1, area.y2); y++) {
+    for (let x = Math.max(1, area.x1); x < Math.min(GRID_W - 1, area.x2); x++) {
+      const i = y * GRID_W + x;
+      const gx = pixels[i + 1] - pixels[i - 1];
+      const gy = pixels[i + GRID_W] - pixels[i - GRID_W];
+      const edge = Math.abs(gx) + Math.abs(gy);
+      const motion = previous ? Math.abs(pixels[i] - previous[i]) : 0;
+      // Squared so a single strong subject outweighs diffuse texture
+      const energy = (edge + 2 * motion) ** 2;
+      total += energy;
+      sumX += energy * x;
+      sumY += energy * y;
+    }
+  }
+
+  // Flat frame (black, fade): stay centered in the active picture
+  if (total === 0) {
+    return {
+      x: (area.x1 + area.x2 + 1) / 2 / GRID_W,
+      y: (area.y1 + area.y2 + 1) / 2 / GRID_H,
+    };
+  }
+  return { x: (sumX / total + 0.5) / GRID_W, y: (sumY / total + 0.5) / GRID_H };
+}
+
+/**
+ * Zero-phase exponential smoothing (forward then backward pass) followed by
+ * a speed limit, so the virtual camera eases instead of jittering
+ */
+export function smoothPath(points: CropKeyframe[], sampleFps: number, maxSpeed = 0.15): CropKeyframe[] {
+  if (points.length < 2) return points;
+  const alpha = 0.25;
+  const pass = (input: CropKeyframe[]) => {
+    const out = [input[0]];
+    for (let i = 1; i < input.length; i++) {
+      const prev = out[i - 1];
+      out.push({
+        t: input[i].t,
+        x: prev.x + alpha * (input[i].x - prev.x),
+        y: prev.y + alpha * (input[i].y - prev.y),
+      });
+    }
+    return out;
+  };
+
+  const smoothed = pass(pass(points).reverse()).reverse();
+
+  // maxSpeed is in frame widths/heights per second
+  const maxStep = maxSpeed / sampleFps;
+  for (let i = 1; i < smoothed.length; i++) {
+    const prev = smoothed[i - 1];
+    const clamp = (delta: number) => Math.max(-maxStep, Math.min(maxStep, delta));
+    smoothed[i] = {
+      t: smoothed[i].t,
+      x: prev.x + clamp(smoothed[i].x - prev.x),
+      y: prev.y + clamp(smoothed[i].y - prev.y),
+    };
+  }
+  return smoothed;
+}
+
+/**
+ * Drop keyframes that linear interpolation between their neighbours already
+ * reproduces (Ramer-Douglas-Peucker on both axes)
+ */
+export function simplifyPath(points: CropKeyframe[], tolerance = 0.01): CropKeyframe[] {
+  if (points.length <= 2) return points.map(roundKeyframe);
+
+  const keep = new Array(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let worst = -1;
+    let worstError = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const f = (points[i].t - points[start].t) / (points[end].t - points[start].t);
+      const error = Math.max(
+        Math.abs(points[start].x + f * (points[end].x - points[start].x) - points[i].x),
+        Math.abs(points[start].y + f * (points[end].y - points[start].y) - points[i].y)
+      );
+      if (error > worstError) {
+        worst = i;
+        worstError = error;
+      }
+    }
+    if (worst !== -1) {
+      keep[worst] = true;
+      stack.push([start, worst], [worst, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]).map(roundKeyframe);
+}
+
+function roundKeyframe(k: CropKeyframe): CropKeyframe {
+  return {
+    t: Math.round(k.t * 100) / 100,
+    x: Math.round(k.x * 1000) / 1000,
+    y: Math.round(k.y * 1000) / 1000,
+  };
+}
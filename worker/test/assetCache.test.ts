@@ -0,0 +1,96 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { emptyCacheStats, fetchCachedAsset } from "../src/assetCache";
+import { config } from "../src/config";
+
+// Each URL downloads as its entry here; no validators, so cached copies are
+// trusted for assetCacheMaxAgeSec
+const remote = new Map<string, string>();
+const downloadFromUrl = vi.hoisted(() => vi.fn());
+vi.mock("../src/storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/storage")>()),
+  downloadFromUrl,
+}));
+
+const sha256 = (content: string) => crypto.createHash("sha256").update(content).digest("hex");
+
+describe("fetchCachedAsset", () => {
+  let root: string;
+  const { assetCacheDir, assetCacheMaxBytes } = config;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "asset-cache-test-"));
+    config.assetCacheDir = path.join(root, "cache");
+    config.assetCacheMaxBytes = 1024 ** 2;
+    remote.clear();
+    downloadFromUrl.mockReset();
+    downloadFromUrl.mockImplementation(async (url: string, localPath: string) => {
+      fs.writeFileSync(localPath, remote.get(url) ?? "");
+      return {};
+    });
+  });
+
+  afterEach(() => {
+    config.assetCacheDir = assetCacheDir;
+    config.assetCacheMaxBytes = assetCacheMaxBytes;
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("downloads a URL once and serves it from the cache after that", async () => {
+    remote.set("https://cdn.example.com/a.mp4", "clip a");
+    const stats = emptyCacheStats();
+
+    const first = await fetchCachedAsset("https://cdn.example.com/a.mp4", path.join(root, "job-1", "a.mp4"), stats);
+    const second = await fetchCachedAsset("https://cdn.example.com/a.mp4", path.join(root, "job-2", "a.mp4"), stats);
+
+    expect(downloadFromUrl).toHaveBeenCalledTimes(1);
+    expect(first).toBe(sha256("clip a"));
+    expect(second).toBe(first);
+    expect(fs.readFileSync(path.join(root, "job-2", "a.mp4"), "utf8")).toBe("clip a");
+    expect(stats).toEqual({ hits: 1, misses: 1, bytesReused: 6, bytesDownloaded: 6 });
+  });
+
+  it("stores the same content behind different URLs once", async () => {
+    remote.set("https://cdn.example.com/a.mp4", "same clip");
+    remote.set("https://mirror.example.com/a.mp4", "same clip");
+
+    await fetchCachedAsset("https://cdn.example.com/a.mp4", path.join(root, "job", "a.mp4"));
+    await fetchCachedAsset("https://mirror.example.com/a.mp4", path.join(root, "job", "b.mp4"));
+
+    expect(fs.readdirSync(path.join(config.assetCacheDir, "blobs"))).toEqual([sha256("same clip")]);
+  });
+
+  it("downloads a URL once when several jobs want it at the same time", async () => {
+    remote.set("https://cdn.example.com/a.mp4", "clip a");
+
+    const hashes = await Promise.all(
+      [1, 2, 3].map((job) => fetchCachedAsset("https://cdn.example.com/a.mp4", path.join(root, `job-${job}`, "a.mp4")))
+    );
+
+    expect(downloadFromUrl).toHaveBeenCalledTimes(1);
+    expect(new Set(hashes)).toEqual(new Set([sha256("clip a")]));
+  });
+
+  it("evicts the least recently used blobs once the cache outgrows its cap", async () => {
+    config.assetCacheMaxBytes = 10;
+    remote.set("https://cdn.example.com/old.mp4", "old clip");
+    remote.set("https://cdn.example.com/new.mp4", "new clip");
+    const blob = (content: string) => path.join(config.assetCacheDir, "blobs", sha256(content));
+
+    await fetchCachedAsset("https://cdn.example.com/old.mp4", path.join(root, "job", "old.mp4"));
+    // Make the first blob clearly the older one
+    fs.utimesSync(blob("old clip"), new Date(0), new Date(0));
+    await fetchCachedAsset("https://cdn.example.com/new.mp4", path.join(root, "job", "new.mp4"));
+
+    expect(fs.existsSync(blob("old clip"))).toBe(false);
+    expect(fs.existsSync(blob("new clip"))).toBe(true);
+
+    // The evicted URL reads as a miss and is downloaded again
+    const hash = await fetchCachedAsset("https://cdn.example.com/old.mp4", path.join(root, "job-2", "old.mp4"));
+    expect(hash).toBe(sha256("old clip"));
+    expect(downloadFromUrl).toHaveBeenCalledTimes(3);
+  });
+});
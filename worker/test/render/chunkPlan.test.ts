@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import type { Scene, TimelineV1 } from "../../../packages/timeline/src";
+import { planChunks, sliceTimeline } from "../../src/render/chunkPlan";
+import { toTimelineV2 } from "../../src/timeline/v2";
+
+function scene(id: string, durationSec: number, overrides: Partial<Scene> = {}): Scene {
+  return {
+    id,
+    assetId: null,
+    clipId: `clip-${id}`,
+    clipUrl: `https://cdn.example.com/${id}.mp4`,
+    kind: "video",
+    inSec: 0,
+    outSec: durationSec,
+    durationSec,
+    cropMode: "cover",
+    ...overrides,
+  };
+}
+
+// Six 4s scenes, 24s in all
+function timeline(overrides: Partial<TimelineV1> = {}): TimelineV1 {
+  return {
+    version: 1,
+    project: {
+      id: "project-1",
+      title: "Test",
+      type: "promo",
+      aspectRatio: "landscape",
+      resolution: { width: 1920, height: 1080 },
+      fps: 30,
+    },
+    scenes: ["a", "b", "c", "d", "e", "f"].map((id) => scene(id, 4)),
+    global: {
+      music: { assetId: null, volume: 0.3 },
+      voiceover: { assetId: null, volume: 1 },
+      captions: { enabled: false, burnIn: false },
+      brand: { logoAssetId: null, logoPosition: "top-right", logoSize: 80, colors: { primary: "#000000", text: "#ffffff" } },
+      export: { codec: "h264", bitrateMbps: 8, audioKbps: 192 },
+    },
+    ...overrides,
+  };
+}
+
+function bounds(v1: TimelineV1, targetSec: number): number[][] {
+  return planChunks(toTimelineV2(v1), targetSec).map((chunk) => [chunk.startSec, chunk.endSec]);
+}
+
+describe("planChunks", () => {
+  it("cuts between scenes once a chunk reaches the target length", () => {
+    expect(bounds(timeline(), 8)).toEqual([
+      [0, 8],
+      [8, 16],
+      [16, 24],
+    ]);
+  });
+
+  it("renders short timelines in one chunk", () => {
+    expect(bounds(timeline(), 12.5)).toEqual([[0, 24]]);
+    expect(bounds(timeline({ scenes: [scene("a", 4), scene("b", 4)] }), 2)).toEqual([[0, 8]]);
+  });
+
+  it("never cuts inside a transition", () => {
+    const v1 = timeline();
+    v1.scenes[1] = scene("b", 4, { transitionOut: "fade", transitionDuration: 0.5 });
+    const v2 = toTimelineV2(v1);
+
+    const chunks = planChunks(v2, 8);
+
+    // b (4-8) fades into c from 7.5, so the first cut waits for c to end
+    expect(chunks.map((chunk) => [chunk.startSec, chunk.endSec])).toEqual([
+      [0, 11.5],
+      [11.5, 23.5],
+    ]);
+    for (const clip of v2.tracks.video[0].clips) {
+      const end = clip.startSec + clip.durationSec;
+      const overlap = clip.transitionOut ? clip.transitionDuration ?? 0.5 : 0;
+      for (const chunk of chunks.slice(1)) {
+        expect(chunk.startSec <= end - overlap - 0.001 || chunk.startSec >= end).toBe(true);
+      }
+    }
+  });
+
+  it("never cuts inside an image overlay or a caption", () => {
+    const overlaid = timeline({
+      imageOverlays: [
+        {
+          id: "logo",
+          title: "Logo",
+          imageUrl: "https://cdn.example.com/logo.png",
+          atTimeSec: 7,
+          durationSec: 2,
+          x: 50,
+          y: 50,
+          scale: 1,
+          width: null,
+          height: null,
+        },
+      ],
+    });
+    expect(bounds(overlaid, 8)).toEqual([
+      [0, 12],
+      [12, 24],
+    ]);
+
+    const base = timeline();
+    const captioned = timeline({
+      global: {
+        ...base.global,
+        captions: { enabled: true, burnIn: true, segments: [{ start: 15, end: 17, text: "Across the cut" }] },
+      },
+    });
+    expect(bounds(captioned, 8)).toEqual([
+      [0, 8],
+      [8, 24],
+    ]);
+  });
+});
+
+describe("sliceTimeline", () => {
+  it("moves a chunk's clips, text and captions to start at 0 and leaves out the audio", () => {
+    const base = timeline();
+    const v2 = toTimelineV2(
+      timeline({
+        textOverlays: [
+          { id: "t1", text: "Spans the cut", x: 50, y: 50, startTime: 6, duration: 4, style: { color: "#fff", fontSize: 48, fontFamily: "Inter", duration: 4 } },
+        ],
+        global: {
+          ...base.global,
+          music: { assetId: "music", volume: 0.3 },
+          captions: { enabled: true, burnIn: true, segments: [{ start: 9, end: 10, text: "Hi", words: [{ word: "Hi", start: 9, end: 10 }] }] },
+        },
+      })
+    );
+
+    const slice = sliceTimeline(v2, { index: 1, startSec: 8, endSec: 16 }, false);
+
+    expect(slice.tracks.video[0].clips.map((clip) => [clip.id, clip.startSec])).toEqual([
+      ["c", 0],
+      ["d", 4],
+    ]);
+    expect(slice.tracks.audio).toEqual([]);
+    expect(slice.textOverlays?.map((o) => o.startTime)).toEqual([-2]);
+    expect(slice.global.captions.segments).toEqual([{ start: 1, end: 2, text: "Hi", words: [{ word: "Hi", start: 1, end: 2 }] }]);
+  });
+});
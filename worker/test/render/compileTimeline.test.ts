@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import type { Scene, TimelineV1 } from "../../../packages/timeline/src";
+import { compileTimeline } from "../../src/render/compileTimeline";
+import { graphToArgs, serializeFiltergraph } from "../../src/render/filtergraph";
+import { CAPTIONS_ASS_KEY } from "../../src/render/assCaptions";
+import { toTimelineV2 } from "../../src/timeline/v2";
+
+// Snapshots of the compiled filtergraph and FFmpeg arguments for the kinds
+// of timeline the builders produce. A change here changes what FFmpeg
+// renders, so review snapshot diffs like code.
+
+function scene(id: string, durationSec: number, overrides: Partial<Scene> = {}): Scene {
+  return {
+    id,
+    assetId: null,
+    clipId: `clip-${id}`,
+    clipUrl: `https://cdn.example.com/${id}.mp4`,
+    kind: "video",
+    inSec: 0,
+    outSec: durationSec,
+    durationSec,
+    cropMode: "cover",
+    ...overrides,
+  };
+}
+
+function timeline(overrides: Partial<TimelineV1> = {}): TimelineV1 {
+  return {
+    version: 1,
+    project: {
+      id: "project-1",
+      title: "Test",
+      type: "promo",
+      aspectRatio: "landscape",
+      resolution: { width: 1920, height: 1080 },
+      fps: 30,
+    },
+    scenes: [scene("a", 3), scene("b", 3)],
+    global: {
+      music: { assetId: null, volume: 0.3 },
+      voiceover: { assetId: null, volume: 1 },
+      captions: { enabled: false, burnIn: false },
+      brand: { logoAssetId: null, logoPosition: "top-right", logoSize: 80, colors: { primary: "#000000", text: "#ffffff" } },
+      export: { codec: "h264", bitrateMbps: 8, audioKbps: 192 },
+    },
+    ...overrides,
+  };
+}
+
+// Every asset key resolves to a path named after it
+function localAssetsFor(keys: string[]): Map<string, string> {
+  return new Map(keys.map((key) => [key, `/work/${key}`]));
+}
+
+function compile(v1: TimelineV1, keys: string[]) {
+  const graph = compileTimeline(toTimelineV2(v1), localAssetsFor(keys));
+  return {
+    filtergraph: serializeFiltergraph(graph).split(";"),
+    args: graphToArgs(graph, v1.global.export, "/work/out.mp4"),
+    warnings: graph.warnings,
+  };
+}
+
+describe("compileTimeline", () => {
+  it("joins scenes with xfade transitions", () => {
+    const v1 = timeline({
+      scenes: [
+        scene("a", 3, { transitionOut: "fade", transitionDuration: 0.5 }),
+        scene("b", 3, { transitionOut: "slideleft", transitionDuration: 0.75 }),
+        scene("c", 3),
+      ],
+    });
+    expect(compile(v1, ["clip-a", "clip-b", "clip-c"])).toMatchSnapshot();
+  });
+
+  it("burns in captions from the subtitle file", () => {
+    const v1 = timeline();
+    v1.global.captions = {
+      enabled: true,
+      burnIn: true,
+      segments: [
+        { start: 0, end: 2, text: "Hello there" },
+        { start: 2, end: 5, text: "Welcome back" },
+      ],
+    };
+    expect(compile(v1, ["clip-a", "clip-b", CAPTIONS_ASS_KEY])).toMatchSnapshot();
+  });
+
+  it("places image overlays over the base track", () => {
+    const v1 = timeline({
+      imageOverlays: [
+        {
+          id: "overlay-1",
+          title: "Logo card",
+          imageUrl: "https://cdn.example.com/card.png",
+          atTimeSec: 1,
+          durationSec: 2,
+          x: 70,
+          y: 30,
+          scale: 0.5,
+          width: 800,
+          height: 400,
+        },
+      ],
+    });
+    expect(compile(v1, ["clip-a", "clip-b", "overlay-1"])).toMatchSnapshot();
+  });
+
+  it("mixes the speaker's audio with music ducked under it in talking head videos", () => {
+    const v1 = timeline({
+      scenes: [
+        scene("a", 4, { assetId: "speaker", clipId: undefined, clipUrl: undefined, isTalkingHead: true }),
+        scene("b", 2, { isBroll: true }),
+      ],
+      rendering: {
+        output: { url: null, thumbnailUrl: null, durationSec: null, sizeBytes: null },
+        isTalkingHead: true,
+        userAudioAssetIds: ["speaker"],
+      },
+      audioTracks: [{ id: "speaker-audio", assetId: "speaker", type: "dialogue", startOffset: 0, volume: 1 }],
+    });
+    v1.global.music = { assetId: "music", volume: 0.2 };
+    expect(compile(v1, ["speaker", "clip-b", "music"])).toMatchSnapshot();
+  });
+
+  it("plays the speaker's audio under cutaways in transcript-edited videos", () => {
+    const v1 = timeline({
+      scenes: [
+        scene("a", 4, { assetId: "speaker", clipId: undefined, clipUrl: undefined, isTalkingHead: true }),
+        scene("b", 2, { sourceAssetId: "speaker", sourceAudioStart: 7, sourceAudioEnd: 9, isBroll: true }),
+        scene("c", 3, { assetId: "speaker", clipId: undefined, clipUrl: undefined, isTalkingHead: true, inSec: 9, outSec: 12 }),
+      ],
+      rendering: {
+        output: { url: null, thumbnailUrl: null, durationSec: null, sizeBytes: null },
+        isTalkingHead: true,
+      },
+    });
+    expect(compile(v1, ["speaker", "clip-b"])).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,91 @@
+import * as os from "os";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobLogEntry } from "../../src/db";
+import { config } from "../../src/config";
+import { createRenderLog } from "../../src/render/renderLog";
+
+const insertJobLogs = vi.hoisted(() => vi.fn<(entries: JobLogEntry[]) => Promise<void>>());
+vi.mock("../../src/db", () => ({ insertJobLogs }));
+
+function written(): JobLogEntry[] {
+  return insertJobLogs.mock.calls.flatMap(([entries]) => entries);
+}
+
+describe("createRenderLog", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    insertJobLogs.mockReset();
+    insertJobLogs.mockResolvedValue(undefined);
+  });
+
+  it("writes entries in order, batching those logged during a write", async () => {
+    const log = createRenderLog("job-1", 2);
+    log.info("setup", "Claimed job");
+    log.warn("download", "Slow download", { url: "https://cdn.example.com/a.mp4" });
+    log.error("render", "FFmpeg failed");
+    await log.flush();
+
+    expect(insertJobLogs.mock.calls.map(([entries]) => entries.length)).toEqual([1, 2]);
+    expect(written().map((e) => [e.level, e.stage, e.message])).toEqual([
+      ["info", "setup", "Claimed job"],
+      ["warn", "download", "Slow download"],
+      ["error", "render", "FFmpeg failed"],
+    ]);
+    expect(written()[0]).toMatchObject({ job_id: "job-1", attempt: 2, worker_host: os.hostname(), data: null });
+    expect(written()[1].data).toEqual({ url: "https://cdn.example.com/a.mp4" });
+  });
+
+  it("keeps logging after a write fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    insertJobLogs.mockRejectedValueOnce(new Error("Database unavailable"));
+    const log = createRenderLog("job-1", 1);
+    log.info("setup", "Lost");
+    await log.flush();
+    log.info("setup", "Kept");
+    await log.flush();
+
+    expect(insertJobLogs).toHaveBeenCalledTimes(2);
+    expect(insertJobLogs.mock.calls[1][0].map((e) => e.message)).toEqual(["Kept"]);
+  });
+
+  it("times stages and remembers the latest one begun", async () => {
+    const now = vi.spyOn(Date, "now").mockReturnValue(1000);
+    const log = createRenderLog("job-1", 1);
+    const timer = log.begin("download");
+    now.mockReturnValue(3500);
+    timer.end("Downloaded 3 assets", { totalBytes: 42 });
+    now.mockRestore();
+    await log.flush();
+
+    expect(log.stage).toBe("download");
+    expect(written()[0]).toMatchObject({
+      stage: "download",
+      message: "Downloaded 3 assets",
+      data: { durationMs: 2500, totalBytes: 42 },
+    });
+  });
+
+  it("records FFmpeg commands ready to paste and the end of stderr", async () => {
+    const stderr = [
+      "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from '/work/a.mp4':",
+      "frame=   10 fps=0.0 q=28.0 size=       0kB time=00:00:00.40",
+      "frame=   20 fps=0.0 q=28.0 size=     256kB time=00:00:00.80",
+      "",
+      "Error while filtering: Invalid argument",
+    ].join("\r\n");
+    const log = createRenderLog("job-1", 1);
+    log.ffmpeg("render", "Encoded 16:9", ["-i", "/work/a.mp4", "-vf", "scale=1920:1080,drawtext=text='Hi there'", "out.mp4"], stderr, "error");
+    await log.flush();
+
+    const [entry] = written();
+    expect(entry.level).toBe("error");
+    expect(entry.data).toEqual({
+      command: `${config.ffmpegPath} -i /work/a.mp4 -vf 'scale=1920:1080,drawtext=text='\\''Hi there'\\''' out.mp4`,
+      stderrTail: [
+        "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from '/work/a.mp4':",
+        "frame=   20 fps=0.0 q=28.0 size=     256kB time=00:00:00.80",
+        "Error while filtering: Invalid argument",
+      ].join("\n"),
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import { PreflightError } from "../../src/render/preflight";
+import { isTransientError, retryDelaySec } from "../../src/render/retryPolicy";
+
+// The media check looks assets up in the database; nothing here needs it
+vi.mock("../../src/db", () => ({ getAssets: vi.fn() }));
+
+function errorWith(fields: Record<string, unknown>): Error {
+  return Object.assign(new Error(String(fields.message ?? "")), fields);
+}
+
+describe("isTransientError", () => {
+  it.each([
+    ["a dropped connection", errorWith({ code: "ECONNRESET" })],
+    ["a DNS hiccup", errorWith({ code: "EAI_AGAIN" })],
+    ["a socket error wrapped into the message", new Error("Download failed: connect ETIMEDOUT 1.2.3.4:443")],
+    ["a hung up socket", new Error("socket hang up")],
+    ["a timed out request", new Error("Request timed out after 30000ms")],
+    ["a throttled download", new Error("Failed to download: 429 Too Many Requests")],
+    ["a server error on download", new Error("HTTP 503 Service Unavailable")],
+    ["an empty download", new Error("Downloaded file is empty: https://cdn.example.com/a.mp4")],
+    ["an S3 error the SDK marks retryable", errorWith({ name: "SomeS3Error", $retryable: { throttling: false } })],
+    ["S3 throttling", errorWith({ name: "SlowDown" })],
+    ["an S3 server error", errorWith({ name: "UnknownError", $metadata: { httpStatusCode: 500 } })],
+    ["FFmpeg killed by a signal", new Error("FFmpeg exited with code null: Killed")],
+  ])("retries %s", (_, error) => {
+    expect(isTransientError(error)).toBe(true);
+  });
+
+  it.each([
+    ["FFmpeg failing on its inputs", new Error("FFmpeg exited with code 1: Invalid data found when processing input")],
+    ["a missing file", new Error("Failed to download: 404 Not Found")],
+    ["a forbidden download", new Error("HTTP 403 Forbidden")],
+    ["an S3 client error", errorWith({ name: "AccessDenied", $metadata: { httpStatusCode: 403 } })],
+    ["a missing project", new Error("Project not found")],
+    ["anything unrecognized", new Error("Something odd happened")],
+    ["a thrown string", "ECONNRESET"],
+    ["nothing", null],
+  ])("fails at once on %s", (_, error) => {
+    expect(isTransientError(error)).toBe(false);
+  });
+
+  it("fails at once on a failed media check, whatever it says", () => {
+    const error = new PreflightError({
+      ok: false,
+      problems: [{ severity: "error", code: "probe_failed", clipId: "a", assetKey: "clip-a", message: "timed out" }],
+    });
+
+    expect(isTransientError(error)).toBe(false);
+  });
+});
+
+describe("retryDelaySec", () => {
+  it("backs off exponentially within the jitter, up to 15 minutes", () => {
+    const random = vi.spyOn(Math, "random");
+    try {
+      random.mockReturnValue(0.5); // No jitter
+      expect([1, 2, 3].map(retryDelaySec)).toEqual([30, 60, 120]);
+      expect(retryDelaySec(20)).toBe(15 * 60);
+
+      random.mockReturnValue(0);
+      expect(retryDelaySec(1)).toBe(24);
+      random.mockReturnValue(1);
+      expect(retryDelaySec(1)).toBe(36);
+    } finally {
+      random.mockRestore();
+    }
+  });
+});